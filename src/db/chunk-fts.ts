@@ -0,0 +1,39 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Ensure chunks_fts exists (idempotent): an external-content FTS5 index over
+ * chunks.header_context + chunks.text, kept in sync by triggers the same way
+ * docs_fts follows docs. Lets keyword search rank and highlight individual
+ * passages instead of whole docs.
+ *
+ * No-op until chunks has its `text` column (migration v23 adds it to older DBs).
+ */
+export function ensureChunkFts(sqlite: Database.Database): void {
+  const cols = (sqlite.prepare(`PRAGMA table_info(chunks)`).all() as Array<{ name: string }>).map((c) => c.name);
+  if (!cols.includes('text')) return;
+  sqlite.prepare(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+      header_context,
+      text,
+      content='chunks',
+      content_rowid='rowid',
+      tokenize='porter unicode61'
+    )
+  `).run();
+  sqlite.prepare(`
+    CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
+      INSERT INTO chunks_fts(rowid, header_context, text) VALUES (new.rowid, new.header_context, new.text);
+    END
+  `).run();
+  sqlite.prepare(`
+    CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
+      INSERT INTO chunks_fts(chunks_fts, rowid, header_context, text) VALUES ('delete', old.rowid, old.header_context, old.text);
+    END
+  `).run();
+  sqlite.prepare(`
+    CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
+      INSERT INTO chunks_fts(chunks_fts, rowid, header_context, text) VALUES ('delete', old.rowid, old.header_context, old.text);
+      INSERT INTO chunks_fts(rowid, header_context, text) VALUES (new.rowid, new.header_context, new.text);
+    END
+  `).run();
+}
@@ -56,7 +56,9 @@ export function ensureEntityTables(sqlite: Database.Database): void {
       metadata_json TEXT,
       valid_from TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
       valid_to TEXT,
-      created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now'))
+      created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+      recorded_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+      retracted_at TEXT
     )
   `).run();
 
@@ -90,10 +92,84 @@ export function ensureEntityTables(sqlite: Database.Database): void {
   sqlite.prepare('CREATE INDEX IF NOT EXISTS idx_entity_rel_target ON entity_relations(target_id)').run();
   sqlite.prepare('CREATE INDEX IF NOT EXISTS idx_entity_rel_valid_to ON entity_relations(valid_to)').run();
 
-  // Only one OPEN (valid_to IS NULL) row per tuple; closed slices may accumulate.
-  sqlite.prepare(`CREATE UNIQUE INDEX IF NOT EXISTS uq_entity_rel_open
-    ON entity_relations(source_id, target_id, relation_type) WHERE valid_to IS NULL`).run();
   // Hot path: temporal traversal per node (BUG-15).
   sqlite.prepare(`CREATE INDEX IF NOT EXISTS idx_entity_rel_temporal
     ON entity_relations(source_id, valid_from, valid_to)`).run();
+
+  ensureRelationTransactionTime(sqlite);
+  ensureEntityMergeTables(sqlite);
+}
+
+/**
+ * Second (transaction-time) axis on entity_relations, so the graph can answer
+ * "what did dokoro believe at time T" as well as "what was true at time T":
+ * recorded_at is when the row was written, retracted_at when it stopped being
+ * believed (NULL = current belief). Rows are never edited in place once
+ * written; EntityPersistence retracts a row and records its successor instead.
+ *
+ * Idempotent. Also run by migration v14, because migration v2's rebuild of
+ * legacy tables drops any column it does not know about.
+ */
+export function ensureRelationTransactionTime(sqlite: Database.Database): void {
+  const cols = new Set(
+    (sqlite.prepare(`PRAGMA table_info(entity_relations)`).all() as Array<{ name: string }>).map((c) => c.name),
+  );
+  if (!cols.has('recorded_at')) {
+    // Non-constant defaults are not allowed on ADD COLUMN; writers set it
+    // explicitly and existing rows are backfilled from when they were created.
+    sqlite.prepare(`ALTER TABLE entity_relations ADD COLUMN recorded_at TEXT`).run();
+    sqlite.prepare(`UPDATE entity_relations SET recorded_at = COALESCE(created_at, valid_from)`).run();
+  }
+  if (!cols.has('retracted_at')) {
+    sqlite.prepare(`ALTER TABLE entity_relations ADD COLUMN retracted_at TEXT`).run();
+  }
+
+  // Only one OPEN (valid_to IS NULL), still-believed row per tuple; closed and
+  // retracted slices may accumulate. Older DBs carry the index without the
+  // retracted_at predicate — rebuild it so a retracted open row does not block
+  // re-asserting the same fact.
+  const idx = sqlite.prepare(
+    `SELECT sql FROM sqlite_master WHERE type='index' AND name='uq_entity_rel_open'`,
+  ).get() as { sql?: string } | undefined;
+  if (idx?.sql && !idx.sql.includes('retracted_at')) {
+    sqlite.prepare(`DROP INDEX uq_entity_rel_open`).run();
+  }
+  sqlite.prepare(`CREATE UNIQUE INDEX IF NOT EXISTS uq_entity_rel_open
+    ON entity_relations(source_id, target_id, relation_type) WHERE valid_to IS NULL AND retracted_at IS NULL`).run();
+}
+
+/**
+ * Entity-resolution bookkeeping (dokoro_entity_merge):
+ *   entity_aliases  (type, canonical_name) of a merged-away entity -> survivor,
+ *                   consulted by EntityPersistence so re-extraction does not
+ *                   resurrect the duplicate.
+ *   entity_merges   one row per merge with everything needed to undo it
+ *                   (undo_json); undone_at is set once reverted.
+ */
+export function ensureEntityMergeTables(sqlite: Database.Database): void {
+  sqlite.prepare(`
+    CREATE TABLE IF NOT EXISTS entity_aliases (
+      type TEXT NOT NULL,
+      canonical_name TEXT NOT NULL,
+      name TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      merge_id INTEGER,
+      created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+      PRIMARY KEY (type, canonical_name)
+    )
+  `).run();
+  sqlite.prepare('CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_id)').run();
+  sqlite.prepare(`
+    CREATE TABLE IF NOT EXISTS entity_merges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      survivor_id INTEGER NOT NULL,
+      merged_id INTEGER NOT NULL,
+      score REAL,
+      reason TEXT,
+      undo_json TEXT NOT NULL,
+      created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+      undone_at TEXT
+    )
+  `).run();
+  sqlite.prepare('CREATE INDEX IF NOT EXISTS idx_entity_merges_survivor ON entity_merges(survivor_id)').run();
 }
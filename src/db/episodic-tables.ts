@@ -1,8 +1,10 @@
 import type Database from 'better-sqlite3';
 
 /**
- * Idempotently add a summary_embedding BLOB column to conversation_summaries.
- * Stores the Float64-packed embedding of each summary for semantic recall.
+ * Idempotently add the summary_embedding BLOB column to conversation_summaries,
+ * plus summary_embedding_model: the Float64-packed embedding of each summary for
+ * semantic recall and the id of the model that produced it (e.g.
+ * `ollama:nomic-embed-text`), so recall never compares vectors across models.
  */
 export function ensureEpisodicEmbeddingColumn(sqlite: Database.Database): void {
   const cols = sqlite
@@ -11,6 +13,9 @@ export function ensureEpisodicEmbeddingColumn(sqlite: Database.Database): void {
   if (!cols.some((c) => c.name === 'summary_embedding')) {
     sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN summary_embedding BLOB`).run();
   }
+  if (!cols.some((c) => c.name === 'summary_embedding_model')) {
+    sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN summary_embedding_model TEXT`).run();
+  }
 }
 
 /**
@@ -26,3 +31,29 @@ export function ensureCompactedColumn(sqlite: Database.Database): void {
     sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN compacted INTEGER DEFAULT 0`).run();
   }
 }
+
+/**
+ * Idempotently add the rollup hierarchy columns to conversation_summaries:
+ *   rollup_level     NULL for original summaries, else 'session' | 'day' | 'week'
+ *   parent_id        id of the rollup row that absorbed this row (NULL = top level)
+ *   source_ids_json  on rollup rows, the JSON array of the child row ids
+ * Written by CompactionService; read by dokoro_session_recall to zoom levels.
+ */
+export function ensureRollupColumns(sqlite: Database.Database): void {
+  const cols = sqlite
+    .prepare(`PRAGMA table_info(conversation_summaries)`)
+    .all() as Array<{ name: string }>;
+  const have = new Set(cols.map((c) => c.name));
+  if (!have.has('rollup_level')) {
+    sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN rollup_level TEXT`).run();
+  }
+  if (!have.has('parent_id')) {
+    sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN parent_id INTEGER`).run();
+  }
+  if (!have.has('source_ids_json')) {
+    sqlite.prepare(`ALTER TABLE conversation_summaries ADD COLUMN source_ids_json TEXT`).run();
+  }
+  sqlite.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_conv_parent ON conversation_summaries(parent_id)`,
+  ).run();
+}
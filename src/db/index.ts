@@ -17,6 +17,7 @@ import { ensureAgentFeedbackTable } from "./agent-feedback.js";
 import { ensureEntityTables } from "./entity-tables.js";
 import { dropDeadTables } from "./drop-dead-tables.js";
 import { runMigrations } from "./migrations.js";
+import { ensureChunkFts } from "./chunk-fts.js";
 
 export { ensureAgentFeedbackTable };
 export { ensureEntityTables };
@@ -34,6 +35,11 @@ export interface DokoroDbConfig {
   projectPath: string; // Root path of the project
   dokoroFolder?: string; // Default: 'dokoro'
   dbName?: string; // Default: 'dokoro.sqlite'
+  /**
+   * Open an existing database read-only (federated sibling projects): no
+   * schema creation, migrations or cleanup, and the file must already exist.
+   */
+  readonly?: boolean;
 }
 
 export interface DocCreateInput {
@@ -106,9 +112,20 @@ const dbConnections = new Map<string, { db: DokoroDB; sqlite: Database.Database
  */
 export function getDb(config: DokoroDbConfig): DokoroDB {
   const dbPath = getDbPath(config);
+  const key = connectionKey(config);
 
-  if (dbConnections.has(dbPath)) {
-    return dbConnections.get(dbPath)!.db;
+  if (dbConnections.has(key)) {
+    return dbConnections.get(key)!.db;
+  }
+
+  if (config.readonly) {
+    // Another project's database: never create, migrate or write to it. WAL
+    // mode is a property of the file, so readers need not set it.
+    const sqlite = new Database(dbPath, { readonly: true, fileMustExist: true });
+    sqlite.pragma("busy_timeout = 5000");
+    const db = drizzle(sqlite, { schema });
+    dbConnections.set(key, { db, sqlite });
+    return db;
   }
 
   // Ensure directory exists
@@ -144,7 +161,7 @@ export function getDb(config: DokoroDbConfig): DokoroDB {
   dropDeadTables(sqlite);
 
   // Cache connection
-  dbConnections.set(dbPath, { db, sqlite });
+  dbConnections.set(key, { db, sqlite });
 
   return db;
 }
@@ -153,11 +170,11 @@ export function getDb(config: DokoroDbConfig): DokoroDB {
  * Get raw better-sqlite3 handle for a project (used by vector services)
  */
 export function getSqliteDb(config: DokoroDbConfig): Database.Database {
-  const dbPath = getDbPath(config);
+  const key = connectionKey(config);
 
   // If already cached, return the raw sqlite handle
-  if (dbConnections.has(dbPath)) {
-    const sqlite = dbConnections.get(dbPath)!.sqlite;
+  if (dbConnections.has(key)) {
+    const sqlite = dbConnections.get(key)!.sqlite;
     // foreign_keys is a per-connection PRAGMA; re-assert it on every handout so
     // raw-handle callers can never operate with FK enforcement OFF (BUG-13).
     sqlite.pragma("foreign_keys = ON");
@@ -166,7 +183,7 @@ export function getSqliteDb(config: DokoroDbConfig): Database.Database {
 
   // Initialize via getDb (which caches both drizzle + sqlite)
   getDb(config);
-  const sqlite = dbConnections.get(dbPath)!.sqlite;
+  const sqlite = dbConnections.get(key)!.sqlite;
   sqlite.pragma("foreign_keys = ON");
   return sqlite;
 }
@@ -182,6 +199,8 @@ export function ensureVectorTables(sqlite: Database.Database): void {
       token_count INTEGER,
       chunk_count INTEGER DEFAULT 1,
       last_indexed TEXT NOT NULL,
+      embedding_model TEXT,
+      chunking TEXT,
       FOREIGN KEY (doc_id) REFERENCES docs(id) ON DELETE CASCADE
     );
 
@@ -195,21 +214,23 @@ export function ensureVectorTables(sqlite: Database.Database): void {
       end_char INTEGER NOT NULL,
       header_context TEXT,
       token_count INTEGER,
+      text TEXT,
       FOREIGN KEY (doc_id) REFERENCES docs(id) ON DELETE CASCADE
     );
   `);
+  ensureChunkFts(sqlite);
 }
 
 /**
  * Close a database connection
  */
 export function closeDb(config: DokoroDbConfig): void {
-  const dbPath = getDbPath(config);
-  const conn = dbConnections.get(dbPath);
+  const key = connectionKey(config);
+  const conn = dbConnections.get(key);
 
   if (conn) {
     conn.sqlite.close();
-    dbConnections.delete(dbPath);
+    dbConnections.delete(key);
   }
 }
 
@@ -229,6 +250,12 @@ function getDbPath(config: DokoroDbConfig): string {
   return path.join(config.projectPath, dokoroFolder, ".dokoro", "db", dbName);
 }
 
+/** Read-only and read-write handles to the same file are cached separately. */
+function connectionKey(config: DokoroDbConfig): string {
+  const dbPath = getDbPath(config);
+  return config.readonly ? `${dbPath}?mode=ro` : dbPath;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // SCHEMA INITIALIZATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -455,6 +455,164 @@ describe('runMigrations', () => {
     expect(versionsAfter).toBe(versionsBefore);
   });
 
+  it('migration v13 creates route_decisions on a DB seeded at v12 and re-running is a no-op', () => {
+    db.prepare(`CREATE TABLE schema_version (version INTEGER PRIMARY KEY, description TEXT, applied_at TEXT DEFAULT CURRENT_TIMESTAMP)`).run();
+    for (let v = 1; v <= 12; v++) {
+      db.prepare(`INSERT INTO schema_version (version, description) VALUES (?, ?)`).run(v, `seeded v${v}`);
+    }
+    expect(() => runMigrations(db)).not.toThrow();
+    const cols = (db.prepare(`PRAGMA table_info(route_decisions)`).all() as Array<{ name: string }>).map((c) => c.name);
+    expect(cols).toEqual(expect.arrayContaining(['mode', 'candidates_json', 'context_json', 'chosen_arm', 'posterior_json', 'resolved_at']));
+
+    db.prepare(`INSERT INTO route_decisions (mode, candidates_json, chosen_arm) VALUES ('ucb', '["a"]', 'a')`).run();
+    const versionsBefore = (db.prepare(`SELECT COUNT(*) c FROM schema_version`).get() as { c: number }).c;
+    expect(() => runMigrations(db)).not.toThrow();
+    expect((db.prepare(`SELECT COUNT(*) c FROM route_decisions`).get() as { c: number }).c).toBe(1);
+    expect((db.prepare(`SELECT COUNT(*) c FROM schema_version`).get() as { c: number }).c).toBe(versionsBefore);
+  });
+
+  it('migration v14 restores transaction-time columns after the v2 legacy rebuild', () => {
+    // Legacy composite-PK entity_relations: v2 rebuilds it with a fixed column
+    // list, so v14 must re-add recorded_at/retracted_at afterwards.
+    db.prepare(`CREATE TABLE entity_relations (
+      source_id INTEGER NOT NULL, target_id INTEGER NOT NULL, relation_type TEXT NOT NULL,
+      weight REAL DEFAULT 1.0, metadata_json TEXT, created_at TEXT,
+      PRIMARY KEY (source_id, target_id, relation_type))`).run();
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, created_at)
+      VALUES (1, 2, 'depends_on', '2026-01-05T00:00:00Z')`).run();
+
+    expect(() => runMigrations(db)).not.toThrow();
+
+    const cols = (db.prepare(`PRAGMA table_info(entity_relations)`).all() as Array<{ name: string }>).map((c) => c.name);
+    expect(cols).toEqual(expect.arrayContaining(['id', 'valid_from', 'recorded_at', 'retracted_at']));
+    const row = db.prepare(`SELECT recorded_at, retracted_at FROM entity_relations`).get() as { recorded_at: string; retracted_at: string | null };
+    expect(row).toEqual({ recorded_at: '2026-01-05T00:00:00Z', retracted_at: null });
+    const idx = db.prepare(`SELECT sql FROM sqlite_master WHERE type='index' AND name='uq_entity_rel_open'`).get() as { sql: string };
+    expect(idx.sql).toContain('retracted_at IS NULL');
+  });
+
+  it('migration v16 adds file_claims.kind defaulting existing claims to file', () => {
+    db.prepare(`CREATE TABLE schema_version (version INTEGER PRIMARY KEY, description TEXT, applied_at TEXT DEFAULT CURRENT_TIMESTAMP)`).run();
+    for (let v = 1; v <= 15; v++) {
+      db.prepare(`INSERT INTO schema_version (version, description) VALUES (?, ?)`).run(v, `seeded v${v}`);
+    }
+    MIGRATIONS.find((m) => m.version === 12)!.up(db);
+    db.prepare(`INSERT INTO file_claims (claim_key, file_path, agent_id, claimed_at, expires_at)
+      VALUES ('src/a.ts', 'src/a.ts', 'agent-a', 1, 2)`).run();
+
+    expect(() => runMigrations(db)).not.toThrow();
+    expect(db.prepare(`SELECT kind FROM file_claims`).get()).toEqual({ kind: 'file' });
+    expect(
+      db.prepare(`SELECT name FROM sqlite_master WHERE type='index' AND name='idx_file_claims_patterns'`).get()
+    ).toBeDefined();
+    // Re-applying the step is a no-op rather than a duplicate-column error.
+    expect(() => MIGRATIONS.find((m) => m.version === 16)!.up(db)).not.toThrow();
+  });
+
+  it('migration v17 creates claim_waiters with one pending row per agent and key', () => {
+    runMigrations(db);
+    const insert = db.prepare(`INSERT INTO claim_waiters (claim_key, file_path, agent_id, ttl_seconds, enqueued_at, granted_at)
+      VALUES ('src/a.ts', 'src/a.ts', 'agent-a', 300, 1, ?)`);
+    insert.run(null);
+    expect(() => insert.run(null)).toThrow(/UNIQUE/);
+    db.prepare(`UPDATE claim_waiters SET granted_at = 2`).run();
+    expect(() => insert.run(null)).not.toThrow(); // granted rows no longer hold the slot
+  });
+
+  it('migration v18 adds handoff expiry/completion columns, item checks and replies', () => {
+    runMigrations(db);
+    const cols = (db.prepare('PRAGMA table_info(handoffs)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(cols).toEqual(expect.arrayContaining(['expires_at', 'completed_at']));
+    db.prepare(`INSERT INTO handoffs (from_agent, summary) VALUES ('a', 's')`).run();
+    const check = db.prepare(`INSERT INTO handoff_item_checks (handoff_id, item_index, done_by) VALUES (1, 0, 'b')`);
+    check.run();
+    expect(() => check.run()).toThrow(/UNIQUE|PRIMARY KEY/);
+    db.prepare(`INSERT INTO handoff_replies (handoff_id, agent_id, body) VALUES (1, 'b', 'hi')`).run();
+    const reply = db.prepare('SELECT kind, created_at FROM handoff_replies').get() as { kind: string; created_at: string };
+    expect(reply.kind).toBe('reply');
+    expect(reply.created_at).toMatch(/Z$/);
+  });
+
+  it('migration v19 adds handoffs.refs_json', () => {
+    runMigrations(db);
+    const cols = (db.prepare('PRAGMA table_info(handoffs)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(cols).toContain('refs_json');
+  });
+
+  it('migration v20 keeps every shared block version via triggers', () => {
+    db.prepare(`CREATE TABLE shared_blocks (block_key TEXT PRIMARY KEY, content TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1,
+      updated_by TEXT NOT NULL, created_at TEXT, updated_at TEXT)`).run();
+    db.prepare(`INSERT INTO shared_blocks (block_key, content, version, updated_by) VALUES ('k', 'old', 4, 'a')`).run();
+    runMigrations(db);
+    db.prepare(`UPDATE shared_blocks SET content = 'new', version = 5, updated_by = 'b' WHERE block_key = 'k'`).run();
+    db.prepare(`INSERT INTO shared_blocks (block_key, content, updated_by) VALUES ('j', 'first', 'c')`).run();
+    const rows = db.prepare('SELECT block_key, version, content, updated_by FROM shared_block_versions ORDER BY block_key, version').all();
+    expect(rows).toEqual([
+      { block_key: 'j', version: 1, content: 'first', updated_by: 'c' },
+      { block_key: 'k', version: 4, content: 'old', updated_by: 'a' }, // backfilled
+      { block_key: 'k', version: 5, content: 'new', updated_by: 'b' },
+    ]);
+  });
+
+  it('migration v21 types existing shared blocks as text', () => {
+    db.prepare(`CREATE TABLE shared_blocks (block_key TEXT PRIMARY KEY, content TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1,
+      updated_by TEXT NOT NULL, created_at TEXT, updated_at TEXT)`).run();
+    db.prepare(`INSERT INTO shared_blocks (block_key, content, updated_by) VALUES ('k', 'notes', 'a')`).run();
+    runMigrations(db);
+    expect(db.prepare('SELECT content_type, schema_json FROM shared_blocks').get()).toEqual({ content_type: 'text', schema_json: null });
+  });
+
+  it('migration v22 attributes existing doc vectors to the Ollama default model', () => {
+    db.prepare(`CREATE TABLE doc_vectors (doc_id TEXT PRIMARY KEY, content_hash TEXT NOT NULL, token_count INTEGER,
+      chunk_count INTEGER DEFAULT 1, last_indexed TEXT NOT NULL)`).run();
+    db.prepare(`INSERT INTO doc_vectors (doc_id, content_hash, last_indexed) VALUES ('d1', 'h', '2026-01-01')`).run();
+    runMigrations(db);
+    expect(db.prepare('SELECT embedding_model FROM doc_vectors').get()).toEqual({ embedding_model: 'ollama:nomic-embed-text' });
+  });
+
+  it('migration v23 backfills chunk text and indexes it in chunks_fts', () => {
+    db.prepare(`CREATE TABLE docs (id TEXT PRIMARY KEY, content TEXT)`).run();
+    db.prepare(`CREATE TABLE chunks (chunk_id TEXT PRIMARY KEY, doc_id TEXT NOT NULL, chunk_index INTEGER NOT NULL,
+      start_line INTEGER, end_line INTEGER, start_char INTEGER, end_char INTEGER, header_context TEXT, token_count INTEGER)`).run();
+    db.prepare(`INSERT INTO docs VALUES ('d1', 'intro\nthe cache evicts early\noutro')`).run();
+    db.prepare(`INSERT INTO chunks VALUES ('d1_0', 'd1', 0, 2, 2, 6, 29, 'Cache', 6)`).run();
+    runMigrations(db);
+    expect(db.prepare('SELECT text FROM chunks').get()).toEqual({ text: 'the cache evicts early\n' });
+    expect(db.prepare(`SELECT c.chunk_id FROM chunks_fts JOIN chunks c ON c.rowid = chunks_fts.rowid
+      WHERE chunks_fts MATCH 'evict'`).all()).toEqual([{ chunk_id: 'd1_0' }]);
+  });
+
+  it('migration v24 attributes existing summary embeddings to the Ollama default model', () => {
+    db.prepare(`CREATE TABLE conversation_summaries (id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT NOT NULL,
+      summary TEXT NOT NULL, started_at TEXT NOT NULL, ended_at TEXT, summary_embedding BLOB)`).run();
+    const ins = db.prepare(`INSERT INTO conversation_summaries (ai_model, summary, started_at, summary_embedding) VALUES ('m', ?, '2026-01-01', ?)`);
+    ins.run('embedded', Buffer.from(new Float64Array([1, 0]).buffer));
+    ins.run('offline', null);
+    runMigrations(db);
+    expect(db.prepare('SELECT summary, summary_embedding_model FROM conversation_summaries ORDER BY id').all()).toEqual([
+      { summary: 'embedded', summary_embedding_model: 'ollama:nomic-embed-text' },
+      { summary: 'offline', summary_embedding_model: null },
+    ]);
+  });
+
+  it('migration v25 backfills handoffs.ttl_seconds from the original expiry', () => {
+    db.prepare(`CREATE TABLE handoffs (id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+      summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open', claimed_by TEXT, created_at TEXT,
+      claimed_at TEXT, expires_at TEXT)`).run();
+    db.prepare(`INSERT INTO handoffs (from_agent, summary, created_at, expires_at) VALUES
+      ('a', 'ttl', '2026-01-01T00:00:00Z', '2026-01-01T01:00:00Z'), ('a', 'none', '2026-01-01T00:00:00Z', NULL)`).run();
+    runMigrations(db);
+    expect(db.prepare('SELECT ttl_seconds FROM handoffs ORDER BY id').all()).toEqual([{ ttl_seconds: 3600 }, { ttl_seconds: null }]);
+  });
+
+  it('migration v26 adds doc_vectors.chunking and leaves existing rows to be re-chunked', () => {
+    db.prepare(`CREATE TABLE doc_vectors (doc_id TEXT PRIMARY KEY, content_hash TEXT NOT NULL, token_count INTEGER,
+      chunk_count INTEGER DEFAULT 1, last_indexed TEXT NOT NULL, embedding_model TEXT)`).run();
+    db.prepare(`INSERT INTO doc_vectors (doc_id, content_hash, last_indexed) VALUES ('d1', 'h', '2026-01-01')`).run();
+    runMigrations(db);
+    expect(db.prepare('SELECT chunking FROM doc_vectors').get()).toEqual({ chunking: null });
+  });
+
   it('rolls back a failing migration: no version row is recorded', () => {
     runMigrations(db); // apply existing migrations first
     const failingVersion = MIGRATIONS[MIGRATIONS.length - 1].version + 1;
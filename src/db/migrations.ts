@@ -1,6 +1,7 @@
 import type Database from 'better-sqlite3';
-import { ensureEntityTables } from './entity-tables.js';
+import { ensureEntityMergeTables, ensureEntityTables, ensureRelationTransactionTime } from './entity-tables.js';
 import { ensureAgentFeedbackTable } from './agent-feedback.js';
+import { ensureChunkFts } from './chunk-fts.js';
 
 export interface Migration { version: number; description: string; up: (db: Database.Database) => void; }
 
@@ -252,6 +253,223 @@ export const MIGRATIONS: Migration[] = [
     ];
     for (const s of statements) db.prepare(s).run();
   } },
+  // v13: route_decisions — one row per bandit pick made by dokoro_feedback_route
+  // (mode=thompson|ucb). Stores the candidate arms, the task context features and
+  // the chosen arm so a later dokoro_feedback_record carrying decision_id credits
+  // the outcome to exactly that arm (agent_feedback.metadata_json.arm). resolved_at
+  // is set when the first outcome arrives. Per-project only.
+  { version: 13, description: 'route_decisions table for contextual-bandit tool routing', up: (db) => {
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS route_decisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id TEXT,
+        mode TEXT NOT NULL,
+        candidates_json TEXT NOT NULL,
+        context_json TEXT,
+        chosen_arm TEXT NOT NULL,
+        posterior_json TEXT,
+        created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+        resolved_at TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_route_decisions_arm ON route_decisions(chosen_arm, created_at)`,
+    ];
+    for (const s of statements) db.prepare(s).run();
+  } },
+  // Transaction time on entity_relations (recorded_at / retracted_at) and the
+  // open-fact unique index narrowed to still-believed rows. runMigrations already
+  // calls ensureEntityTables up front, but v2 rebuilds legacy tables afterwards
+  // and would drop the new columns, so re-ensure them here.
+  { version: 14, description: 'entity_relations transaction time (recorded_at/retracted_at)', up: (db) => {
+    ensureRelationTransactionTime(db);
+  } },
+  // Entity resolution: entity_aliases (merged-away names -> survivor) and
+  // entity_merges (undo records) for dokoro_entity_merge. Also created by
+  // ensureEntityTables; recorded here so the schema history shows it.
+  { version: 15, description: 'entity_aliases + entity_merges for entity resolution', up: (db) => {
+    ensureEntityMergeTables(db);
+  } },
+  // v16: file_claims.kind — 'file' (one path, the v12 shape), 'dir' (every path
+  // under a prefix; claim_key keeps the trailing '/') or 'glob' (claim_key is the
+  // casefolded pattern). Existing rows are single-file claims. Overlap between
+  // kinds is computed in the tools layer (src/utils/claim-path.ts); the partial
+  // index keeps the open pattern claims cheap to scan on every file claim.
+  { version: 16, description: 'file_claims.kind for directory and glob claims', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(file_claims)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // no file_claims table (version rows seeded without v12)
+    if (!cols.includes('kind')) {
+      db.prepare(`ALTER TABLE file_claims ADD COLUMN kind TEXT NOT NULL DEFAULT 'file'`).run();
+    }
+    db.prepare(`CREATE INDEX IF NOT EXISTS idx_file_claims_patterns ON file_claims(kind)
+      WHERE released_at IS NULL AND kind != 'file'`).run();
+  } },
+  // v17: claim_waiters — FIFO wait queue for dokoro_file_claim { enqueue: true }.
+  // One pending row per (claim_key, agent_id); id order is queue order. A waiter
+  // is granted (granted_at, unixepoch seconds like file_claims) when a claim or
+  // release finds its target free, and notified_at records that the agent has
+  // been told. Ephemeral coordination state, pruned with file_claims. Per-project only.
+  { version: 17, description: 'claim_waiters wait queue for file claims', up: (db) => {
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS claim_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_key TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file',
+        agent_id TEXT NOT NULL,
+        session_id TEXT,
+        intent TEXT,
+        ttl_seconds INTEGER NOT NULL,
+        enqueued_at INTEGER NOT NULL,
+        granted_at INTEGER,
+        notified_at INTEGER
+      )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS uq_claim_waiters_pending ON claim_waiters(claim_key, agent_id) WHERE granted_at IS NULL`,
+      `CREATE INDEX IF NOT EXISTS idx_claim_waiters_agent ON claim_waiters(agent_id, granted_at)`,
+    ];
+    for (const s of statements) db.prepare(s).run();
+  } },
+  // v18: handoff lifecycle. handoffs.status gains 'completed' and 'expired';
+  // expires_at (ISO, like created_at) is the optional TTL of an open handoff and
+  // completed_at records dokoro_handoff_complete. Open items stay in
+  // open_items_json; handoff_item_checks records which item (0-based index into
+  // that array) was checked off, by whom. handoff_replies is the per-handoff
+  // thread: plain replies plus the 'release' / 'complete' events with their reason.
+  { version: 18, description: 'handoff lifecycle: expiry, completion, item checkoff, replies', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(handoffs)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // no handoffs table (version rows seeded without v10)
+    if (!cols.includes('expires_at')) db.prepare(`ALTER TABLE handoffs ADD COLUMN expires_at TEXT`).run();
+    if (!cols.includes('completed_at')) db.prepare(`ALTER TABLE handoffs ADD COLUMN completed_at TEXT`).run();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS handoff_item_checks (
+        handoff_id INTEGER NOT NULL REFERENCES handoffs(id) ON DELETE CASCADE,
+        item_index INTEGER NOT NULL,
+        done_by TEXT NOT NULL,
+        done_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+        note TEXT,
+        PRIMARY KEY (handoff_id, item_index)
+      )`,
+      `CREATE TABLE IF NOT EXISTS handoff_replies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        handoff_id INTEGER NOT NULL REFERENCES handoffs(id) ON DELETE CASCADE,
+        agent_id TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'reply',
+        body TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_handoff_replies_handoff ON handoff_replies(handoff_id, id)`,
+      `CREATE INDEX IF NOT EXISTS idx_handoffs_expires ON handoffs(expires_at) WHERE status = 'open' AND expires_at IS NOT NULL`,
+    ];
+    for (const s of statements) db.prepare(s).run();
+  } },
+  // v19: handoffs.refs_json — structured working context of a handoff:
+  // { plans: [{ plan_id, item_ids? }], questions: [id], entities: [id],
+  //   claims: [{ claim_key, path, kind }] }. Plans and questions live in JSON
+  // files, so these are references checked at write time, not foreign keys.
+  { version: 19, description: 'handoffs.refs_json for plan/question/entity/claim references', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(handoffs)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // no handoffs table (version rows seeded without v10)
+    if (!cols.includes('refs_json')) db.prepare(`ALTER TABLE handoffs ADD COLUMN refs_json TEXT`).run();
+  } },
+  // v20: shared_block_versions — every version of every shared block, kept so
+  // dokoro_block_write { merge: true } can three-way merge against the version
+  // the writer read. Filled by triggers, so every writer (block_write, the drift
+  // block in feedback-tools, ...) is captured; existing blocks are backfilled
+  // with their current version.
+  { version: 20, description: 'shared_block_versions history for shared blocks', up: (db) => {
+    const cols = db.prepare(`PRAGMA table_info(shared_blocks)`).all();
+    if (cols.length === 0) return; // no shared_blocks table (version rows seeded without v9)
+    const version = (prefix: string) => `INSERT OR REPLACE INTO shared_block_versions (block_key, version, content, updated_by, created_at)
+      VALUES (${prefix}.block_key, ${prefix}.version, ${prefix}.content, ${prefix}.updated_by,
+              COALESCE(${prefix}.updated_at, strftime('%Y-%m-%dT%H:%M:%SZ','now')))`;
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS shared_block_versions (
+        block_key TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+        PRIMARY KEY (block_key, version)
+      )`,
+      `INSERT OR IGNORE INTO shared_block_versions (block_key, version, content, updated_by, created_at)
+        SELECT block_key, version, content, updated_by, COALESCE(updated_at, strftime('%Y-%m-%dT%H:%M:%SZ','now')) FROM shared_blocks`,
+      `CREATE TRIGGER IF NOT EXISTS shared_blocks_version_ai AFTER INSERT ON shared_blocks BEGIN ${version('new')}; END`,
+      `CREATE TRIGGER IF NOT EXISTS shared_blocks_version_au AFTER UPDATE OF content, version ON shared_blocks BEGIN ${version('new')}; END`,
+    ];
+    for (const s of statements) db.prepare(s).run();
+  } },
+  // v21: typed shared blocks. content_type is 'text' (opaque, the v9 shape),
+  // 'markdown' or 'json'; a json block may carry a JSON Schema (schema_json)
+  // that every write — full content or RFC 6902 patch — must satisfy.
+  { version: 21, description: 'shared_blocks.content_type + schema_json for typed blocks', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(shared_blocks)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // no shared_blocks table (version rows seeded without v9)
+    if (!cols.includes('content_type')) {
+      db.prepare(`ALTER TABLE shared_blocks ADD COLUMN content_type TEXT NOT NULL DEFAULT 'text'`).run();
+    }
+    if (!cols.includes('schema_json')) db.prepare(`ALTER TABLE shared_blocks ADD COLUMN schema_json TEXT`).run();
+  } },
+  // v22: embedding providers are configurable per project, and vectors from two
+  // models are not comparable. Each doc_vectors row records the provider id
+  // (`<provider>:<model>`) that embedded it; the indexer drops and re-embeds
+  // rows whose model differs from the active one, and vector search is skipped
+  // until it has.
+  { version: 22, description: 'doc_vectors.embedding_model so vectors from different models are never mixed', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(doc_vectors)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // vector tables not created yet (ensureVectorTables adds the column)
+    if (!cols.includes('embedding_model')) db.prepare(`ALTER TABLE doc_vectors ADD COLUMN embedding_model TEXT`).run();
+    // Everything indexed before providers existed came from the Ollama default.
+    db.prepare(`UPDATE doc_vectors SET embedding_model = 'ollama:nomic-embed-text' WHERE embedding_model IS NULL`).run();
+  } },
+  // v23: passage-level keyword search. chunks stores its own text, which
+  // chunks_fts (ensureChunkFts) indexes as external content kept in sync by
+  // triggers, so keyword hits point at a chunk rather than a whole doc.
+  // Existing chunks are backfilled from their doc and the index rebuilt once.
+  { version: 23, description: 'chunks.text + chunks_fts for passage-level keyword search', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(chunks)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // vector tables not created yet (ensureVectorTables includes both)
+    if (!cols.includes('text')) db.prepare(`ALTER TABLE chunks ADD COLUMN text TEXT`).run();
+    // Backfill from the doc content in JS: start_char/end_char are JS string
+    // offsets, which SQLite's substr() would miscount on non-BMP characters.
+    const rows = db.prepare(`SELECT c.chunk_id, c.start_char, c.end_char, d.content FROM chunks c
+      JOIN docs d ON d.id = c.doc_id WHERE c.text IS NULL`).all() as Array<{ chunk_id: string; start_char: number; end_char: number; content: string | null }>;
+    const set = db.prepare(`UPDATE chunks SET text = ? WHERE chunk_id = ?`);
+    for (const r of rows) if (r.content !== null) set.run(r.content.slice(r.start_char, r.end_char), r.chunk_id);
+    ensureChunkFts(db);
+    db.prepare(`INSERT INTO chunks_fts(chunks_fts) VALUES ('rebuild')`).run();
+  } },
+  // v24: conversation_summaries.summary_embedding_model, the v22 treatment for
+  // episodic memory. Recall only compares a query with summaries embedded by the
+  // same model. The embedding column itself is added at runtime
+  // (ensureEpisodicEmbeddingColumn), so DBs that never stored one are skipped.
+  { version: 24, description: 'conversation_summaries.summary_embedding_model so recall never mixes models', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(conversation_summaries)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (!cols.includes('summary_embedding')) return;
+    if (!cols.includes('summary_embedding_model')) {
+      db.prepare(`ALTER TABLE conversation_summaries ADD COLUMN summary_embedding_model TEXT`).run();
+    }
+    // As in v22, everything embedded before providers existed came from the Ollama default.
+    db.prepare(`UPDATE conversation_summaries SET summary_embedding_model = 'ollama:nomic-embed-text'
+      WHERE summary_embedding IS NOT NULL AND summary_embedding_model IS NULL`).run();
+  } },
+  // v25: handoffs.ttl_seconds, the TTL a handoff was written with. A handoff
+  // returned to the pool (release or presence reaper) gets expires_at = now +
+  // ttl_seconds; deriving the TTL from expires_at - created_at instead would
+  // grow it with every release. Existing TTL handoffs are backfilled that way once.
+  { version: 25, description: 'handoffs.ttl_seconds so a reopened handoff restarts its own TTL', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(handoffs)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0 || !cols.includes('expires_at')) return; // no handoffs table, or pre-v18 (v18 runs first)
+    if (!cols.includes('ttl_seconds')) db.prepare(`ALTER TABLE handoffs ADD COLUMN ttl_seconds INTEGER`).run();
+    db.prepare(`UPDATE handoffs SET ttl_seconds = CAST(strftime('%s', expires_at) AS INTEGER) - CAST(strftime('%s', created_at) AS INTEGER)
+      WHERE expires_at IS NOT NULL AND ttl_seconds IS NULL`).run();
+  } },
+  // v26: doc_vectors.chunking, the `<strategy>@<version>` a doc was chunked with
+  // (chunkingId). needsReindex compares it like the content hash and model, so
+  // a changed default strategy re-chunks docs on their next index. Existing
+  // rows stay NULL: they were cut into line windows and are re-chunked once.
+  { version: 26, description: 'doc_vectors.chunking so a chunking change re-indexes docs', up: (db) => {
+    const cols = (db.prepare(`PRAGMA table_info(doc_vectors)`).all() as Array<{ name: string }>).map((c) => c.name);
+    if (cols.length === 0) return; // vector tables not created yet (ensureVectorTables adds the column)
+    if (!cols.includes('chunking')) db.prepare(`ALTER TABLE doc_vectors ADD COLUMN chunking TEXT`).run();
+  } },
 ];
 
 export function runMigrations(db: Database.Database): void {
@@ -6,6 +6,9 @@
  * - wrap a resolving handler → agent_feedback row with outcome='success' and numeric latency_ms
  * - wrap a throwing handler → agent_feedback row with outcome='failure' AND error still propagates
  * - DOKORO_AUTO_FEEDBACK=false skips recording
+ * - rows are queued and written in one transaction on flush
+ * - agent/session resolve from tool args, then live presence
+ * - read-only / excluded tools are skipped; slow calls record 'timeout'
  */
 import Database from 'better-sqlite3';
 import { jest } from '@jest/globals';
@@ -22,7 +25,7 @@ jest.mock('../db/index.js', () => ({
 
 // Import withToolTracking AFTER mock is registered
 // eslint-disable-next-line @typescript-eslint/no-require-imports
-const { withToolTracking } = require('../utils/tool-tracker.js') as typeof import('../utils/tool-tracker.js');
+const { withToolTracking, flushAutoFeedback } = require('../utils/tool-tracker.js') as typeof import('../utils/tool-tracker.js');
 
 function setupDb(): Database.Database {
   const db = new Database(':memory:');
@@ -45,6 +48,7 @@ function setupDb(): Database.Database {
 describe('withToolTracking auto-feedback', () => {
   let db: Database.Database;
   const origEnv = process.env.DOKORO_AUTO_FEEDBACK;
+  const ENV_KEYS = ['DOKORO_AUTO_FEEDBACK_SKIP_READONLY', 'DOKORO_AUTO_FEEDBACK_EXCLUDE', 'DOKORO_AGENT_ID'];
 
   beforeEach(() => {
     db = setupDb();
@@ -54,6 +58,8 @@ describe('withToolTracking auto-feedback', () => {
   });
 
   afterEach(() => {
+    flushAutoFeedback(); // drain anything a test left queued before the DB goes away
+    for (const k of ENV_KEYS) delete process.env[k];
     db.close();
     delete (globalThis as Record<string, unknown>).__TEST_DB__;
     if (origEnv !== undefined) {
@@ -68,6 +74,7 @@ describe('withToolTracking auto-feedback', () => {
     const tracked = withToolTracking('test_tool', handler);
 
     await tracked({});
+    flushAutoFeedback();
 
     const row = db.prepare(`SELECT outcome, latency_ms FROM agent_feedback WHERE tool_name = ?`)
       .get('test_tool') as { outcome: string; latency_ms: number } | undefined;
@@ -84,6 +91,7 @@ describe('withToolTracking auto-feedback', () => {
     const tracked = withToolTracking('failing_tool', handler);
 
     await expect(tracked({})).rejects.toThrow('handler exploded');
+    flushAutoFeedback();
 
     const row = db.prepare(`SELECT outcome, latency_ms FROM agent_feedback WHERE tool_name = ?`)
       .get('failing_tool') as { outcome: string; latency_ms: number } | undefined;
@@ -101,6 +109,7 @@ describe('withToolTracking auto-feedback', () => {
     // Must resolve (not reject) and return the result unchanged
     const returned = await tracked({});
     expect(returned).toBe(errResult);
+    flushAutoFeedback();
 
     const row = db.prepare(`SELECT outcome, latency_ms FROM agent_feedback WHERE tool_name = ?`)
       .get('soft_fail_tool') as { outcome: string; latency_ms: number } | undefined;
@@ -117,9 +126,83 @@ describe('withToolTracking auto-feedback', () => {
     const tracked = withToolTracking('opt_out_tool', handler);
 
     await tracked({});
+    flushAutoFeedback();
 
     const n = db.prepare(`SELECT COUNT(*) AS n FROM agent_feedback WHERE tool_name = ?`)
       .get('opt_out_tool') as { n: number };
     expect(n.n).toBe(0);
   });
+
+  const ok = async (..._args: unknown[]) => ({ content: [{ type: 'text' as const, text: 'ok' }] });
+  function rows(): Array<{ agent_id: string; tool_name: string; outcome: string; session_id: string | null; error_message: string | null }> {
+    return db.prepare('SELECT agent_id, tool_name, outcome, session_id, error_message FROM agent_feedback ORDER BY id').all() as never;
+  }
+
+  it('queues rows until flush, then writes the whole batch', async () => {
+    const tracked = withToolTracking('batched_tool', ok);
+    await tracked({});
+    await tracked({});
+    await tracked({});
+    expect(rows()).toHaveLength(0);
+    flushAutoFeedback();
+    expect(rows().map((r) => r.tool_name)).toEqual(['batched_tool', 'batched_tool', 'batched_tool']);
+  });
+
+  it('takes agent_id/session_id from tool args, storing session_id only when the session exists', async () => {
+    db.prepare(`INSERT INTO sessions (id) VALUES ('s-known')`).run();
+    const tracked = withToolTracking('args_tool', ok);
+    await tracked({ agent_id: 'alice', session_id: 's-known' });
+    await tracked({ agent_id: 'bob', session_id: 's-missing' });
+    flushAutoFeedback();
+    expect(rows()).toEqual([
+      expect.objectContaining({ agent_id: 'alice', session_id: 's-known' }),
+      expect.objectContaining({ agent_id: 'bob', session_id: null }),
+    ]);
+  });
+
+  it('falls back to the single live agent in agent_presence and its session, also when DOKORO_AGENT_ID is empty', async () => {
+    process.env.DOKORO_AGENT_ID = '';
+    db.exec(`CREATE TABLE agent_presence (
+      agent_id TEXT PRIMARY KEY, session_id TEXT, status TEXT NOT NULL DEFAULT 'active',
+      current_focus TEXT, last_heartbeat INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0)`);
+    db.prepare(`INSERT INTO sessions (id) VALUES ('s-live')`).run();
+    db.prepare(`INSERT INTO agent_presence (agent_id, session_id, last_heartbeat) VALUES ('carol', 's-live', strftime('%s','now'))`).run();
+    db.prepare(`INSERT INTO agent_presence (agent_id, session_id, last_heartbeat) VALUES ('ghost', NULL, strftime('%s','now') - 5000)`).run();
+    await withToolTracking('presence_tool', ok)({});
+    flushAutoFeedback();
+    expect(rows()[0]).toMatchObject({ agent_id: 'carol', session_id: 's-live' });
+  });
+
+  it('skips read-only tools when DOKORO_AUTO_FEEDBACK_SKIP_READONLY=true and globbed DOKORO_AUTO_FEEDBACK_EXCLUDE tools', async () => {
+    process.env.DOKORO_AUTO_FEEDBACK_SKIP_READONLY = 'true';
+    process.env.DOKORO_AUTO_FEEDBACK_EXCLUDE = 'noisy_*, other_tool';
+    await withToolTracking('dokoro_block_read', ok)({});
+    await withToolTracking('noisy_ping', ok)({});
+    await withToolTracking('other_tool', ok)({});
+    await withToolTracking('dokoro_block_write', ok)({});
+    await withToolTracking('dokoro_context_pack', ok)({}); // log=true writes, so not read-only
+    flushAutoFeedback();
+    expect(rows().map((r) => r.tool_name)).toEqual(['dokoro_block_write', 'dokoro_context_pack']);
+  });
+
+  it("records slow calls as successes with their latency and thrown timeout errors as 'timeout'", async () => {
+    const slow = async (..._args: unknown[]) => { await new Promise((r) => setTimeout(r, 20)); return { content: [] }; };
+    await withToolTracking('slow_tool', slow)({});
+    const aborted = async (..._args: unknown[]) => { throw new Error('request timed out after 10s'); };
+    await expect(withToolTracking('abort_tool', aborted)({})).rejects.toThrow('timed out');
+    flushAutoFeedback();
+    expect(rows()).toEqual([
+      expect.objectContaining({ tool_name: 'slow_tool', outcome: 'success' }),
+      expect.objectContaining({ tool_name: 'abort_tool', outcome: 'timeout', error_message: 'request timed out after 10s' }),
+    ]);
+    const slowRow = db.prepare(`SELECT latency_ms FROM agent_feedback WHERE tool_name = 'slow_tool'`).get() as { latency_ms: number };
+    expect(slowRow.latency_ms).toBeGreaterThanOrEqual(15);
+  });
+
+  it('stores the error text of an { isError: true } result', async () => {
+    const soft = async (..._args: unknown[]) => ({ isError: true, content: [{ type: 'text' as const, text: 'conflict: stale version' }] });
+    await withToolTracking('soft_tool', soft)({});
+    flushAutoFeedback();
+    expect(rows()[0]).toMatchObject({ outcome: 'failure', error_message: 'conflict: stale version' });
+  });
 });
@@ -12,11 +12,16 @@ import { promises as fs } from 'fs';
 import path from 'node:path';
 import { getSqliteDb } from '../db/index.js';
 import { CompactionService } from '../services/compaction-service.js';
+import { getLoadedOntology } from '../services/entity-ontology.js';
+import { startPresenceReaper } from '../services/presence-reaper.js';
+import { registerMemoryResources } from './memory-resources.js';
 
 export interface ServerConfig {
   name: string;
   version: string;
   description: string;
+  /** Expose the dokoro:// memory resources + subscriptions (see memory-resources.ts). */
+  memoryResources?: boolean;
 }
 
 export function createDokoroServer(config: ServerConfig): McpServer {
@@ -29,6 +34,9 @@ export function createDokoroServer(config: ServerConfig): McpServer {
       tools: {}
     }
   });
+  if (config.memoryResources) {
+    registerMemoryResources(server);
+  }
   return server;
 }
 
@@ -73,6 +81,19 @@ export async function startServer(server: McpServer, tools: ToolDefinition[], co
     } catch (e) {
       console.error('   Compaction recovery skipped:', (e as Error).message);
     }
+    // Release claims / reopen handoffs of agents whose presence expired.
+    try {
+      const projectPath = path.dirname(DOKORO_PATH);
+      startPresenceReaper(getSqliteDb({ projectPath, dokoroFolder: path.basename(DOKORO_PATH) }));
+    } catch (e) {
+      console.error('   Presence reaper not started:', (e as Error).message);
+    }
+    const ontology = getLoadedOntology();
+    if (ontology.error) {
+      console.error('   Ontology file ignored, using built-in types:', ontology.error);
+    } else if (ontology.source) {
+      console.error('   Ontology:', ontology.source);
+    }
     console.error(`✅ ${config.name} v${config.version} running...`);
     console.error('   Dokoro path:', DOKORO_PATH);
   }
@@ -20,6 +20,7 @@ import { presenceTools } from '../tools/presence-tools.js';
 import { fileClaimTools } from '../tools/file-claim-tools.js';
 import { archiveTools } from '../tools/archive-tools.js';
 import { contextInspectTools } from '../tools/context-inspect-tools.js';
+import { contextPackTools } from '../tools/context-pack-tools.js';
 
 // Select only the core tools
 // Exported for use in tests.
@@ -56,7 +57,7 @@ export const coreTools = [
   // Shared editable working-memory blocks (optimistic concurrency, per-project)
   ...sharedBlocksTools,
 
-  // Cross-session handoff (write/inbox/claim with atomic claim, per-project)
+  // Cross-session handoff (write/inbox/claim, complete/release, item checkoff, replies; per-project)
   ...handoffTools,
 
   // Agent presence (daemonless heartbeat, read-time liveness, per-project)
@@ -71,6 +72,9 @@ export const coreTools = [
   // Context-inspector events (file-based JSONL, per-day)
   ...contextInspectTools,
 
+  // Token-budgeted context pack across every memory layer
+  ...contextPackTools,
+
   // Initialization
   dokoroInitTool
 ].filter(Boolean);
@@ -78,7 +82,8 @@ export const coreTools = [
 const config = {
   name: 'dokoro-core',
   version: '1.0.0',
-  description: 'Core Dokoro workspace management tools'
+  description: 'Core Dokoro workspace management tools',
+  memoryResources: true,
 };
 
 const server = createDokoroServer(config);
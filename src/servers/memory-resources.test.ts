@@ -0,0 +1,149 @@
+/**
+ * dokoro:// memory resources on the core server: templates list/read the
+ * per-project layers, and write tools trigger resources/updated notifications
+ * for subscribed URIs.
+ */
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+// plan-tools pulls in the ESM-only renderer chain; stub it like core-server.test does.
+jest.mock('../utils/render-output.js', () => ({
+  renderOutput: (data: unknown) => JSON.stringify(data),
+}));
+jest.mock('../utils/color-setup.js', () => ({}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { registerMemoryResources } = require('./memory-resources.js') as typeof import('./memory-resources.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { sharedBlocksTools } = require('../tools/shared-blocks-tools.js') as typeof import('../tools/shared-blocks-tools.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { handoffTools } = require('../tools/handoff-tools.js') as typeof import('../tools/handoff-tools.js');
+
+function tool(list: Array<{ name: string; handler: (...a: unknown[]) => Promise<unknown> }>, name: string) {
+  const t = list.find((x) => x.name === name);
+  if (!t) throw new Error(`tool ${name} not found`);
+  return t;
+}
+
+describe('memory resources', () => {
+  let db: Database.Database;
+  let client: Client;
+  let server: McpServer;
+
+  async function readJson(uri: string) {
+    const res = await client.readResource({ uri });
+    const first = res.contents[0] as { text?: string };
+    return JSON.parse(first.text ?? 'null');
+  }
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE shared_blocks (
+        block_key TEXT PRIMARY KEY, content TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1,
+        updated_by TEXT NOT NULL, created_at TEXT, updated_at TEXT,
+        content_type TEXT NOT NULL DEFAULT 'text', schema_json TEXT
+      );
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open',
+        claimed_by TEXT, created_at TEXT, claimed_at TEXT, expires_at TEXT, ttl_seconds INTEGER, completed_at TEXT, refs_json TEXT
+      );
+      CREATE TABLE conversation_summaries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT NOT NULL, summary TEXT NOT NULL,
+        key_decisions_json TEXT, key_topics_json TEXT, linked_docs_json TEXT, message_count INTEGER,
+        token_count INTEGER, started_at DATETIME NOT NULL, ended_at DATETIME, created_at DATETIME
+      );
+      CREATE TABLE entities (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT NOT NULL, name TEXT NOT NULL, canonical_name TEXT NOT NULL,
+        description TEXT, metadata_json TEXT, created_at TEXT, updated_at TEXT
+      );
+      CREATE TABLE entity_relations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, source_id INTEGER NOT NULL, target_id INTEGER NOT NULL,
+        relation_type TEXT NOT NULL, weight REAL DEFAULT 1.0, metadata_json TEXT,
+        valid_from TEXT NOT NULL DEFAULT '2026-01-01T00:00:00Z', valid_to TEXT, created_at TEXT,
+        recorded_at TEXT, retracted_at TEXT
+      );
+      CREATE TABLE doc_entities (
+        doc_id TEXT NOT NULL, entity_id INTEGER NOT NULL, relation_type TEXT NOT NULL,
+        context TEXT, confidence REAL DEFAULT 1.0, created_at TEXT
+      );
+    `);
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+
+    server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+    registerMemoryResources(server);
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('advertises resource subscriptions and lists the templates', async () => {
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      'dokoro://blocks/{block_key}',
+      'dokoro://entities/{id}',
+      'dokoro://plans/{planId}',
+      'dokoro://sessions/{id}/summaries',
+    ]);
+  });
+
+  it('reads a shared block and lists it under resources/list', async () => {
+    await tool(sharedBlocksTools, 'dokoro_block_write').handler({ block_key: 'task board', content: 'todo', agent_id: 'a' });
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toContain('dokoro://blocks/task%20board');
+    const body = await readJson('dokoro://blocks/task%20board');
+    expect(body).toMatchObject({ block_key: 'task board', content: 'todo', version: 1, updated_by: 'a' });
+  });
+
+  it('reads open handoffs, session summaries and an entity with its open relations', async () => {
+    await tool(handoffTools, 'dokoro_handoff_write').handler({ from_agent: 'a', summary: 'finish auth', open_items: ['tests'] });
+    db.prepare(`INSERT INTO conversation_summaries (session_id, ai_model, summary, key_decisions_json, started_at)
+      VALUES ('s1', 'm', 'did things', '["use jwt"]', '2026-01-01T00:00:00Z')`).run();
+    db.prepare(`INSERT INTO entities (type, name, canonical_name) VALUES ('file', 'auth.ts', 'auth.ts'), ('service', 'billing', 'billing')`).run();
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type) VALUES (1, 2, 'depends_on')`).run();
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, valid_to) VALUES (1, 2, 'owned_by', '2026-02-01T00:00:00Z')`).run();
+
+    const handoffs = await readJson('dokoro://handoffs/open');
+    expect(handoffs.handoffs).toHaveLength(1);
+    expect(handoffs.handoffs[0]).toMatchObject({ from_agent: 'a', summary: 'finish auth', open_items: ['tests'] });
+
+    const summaries = await readJson('dokoro://sessions/s1/summaries');
+    expect(summaries.summaries[0]).toMatchObject({ summary: 'did things', key_decisions: ['use jwt'] });
+
+    const entity = await readJson('dokoro://entities/1');
+    expect(entity.name).toBe('auth.ts');
+    expect(entity.relations.map((r: { relation_type: string }) => r.relation_type)).toEqual(['depends_on']);
+  });
+
+  it('sends resources/updated only for subscribed URIs', async () => {
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (n) => { updates.push(n.params.uri); });
+    await client.subscribeResource({ uri: 'dokoro://blocks/plan' });
+    await client.subscribeResource({ uri: 'dokoro://handoffs/open' });
+
+    await tool(sharedBlocksTools, 'dokoro_block_write').handler({ block_key: 'plan', content: 'v1', agent_id: 'a' });
+    await tool(sharedBlocksTools, 'dokoro_block_write').handler({ block_key: 'other', content: 'x', agent_id: 'a' });
+    await tool(handoffTools, 'dokoro_handoff_write').handler({ from_agent: 'a', summary: 's' });
+    await client.unsubscribeResource({ uri: 'dokoro://blocks/plan' });
+    await tool(sharedBlocksTools, 'dokoro_block_write').handler({ block_key: 'plan', content: 'v2', agent_id: 'a' });
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(updates).toEqual(['dokoro://blocks/plan', 'dokoro://handoffs/open']);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Memory layers exposed as MCP resources (read-only browsing, no tool calls).
+ *
+ *   dokoro://plans/{planId}              procedural — plan JSON (live or archived)
+ *   dokoro://sessions/{id}/summaries     episodic   — conversation_summaries rows
+ *   dokoro://entities/{id}               semantic   — entity + open relations + docs
+ *   dokoro://blocks/{block_key}          working    — shared editable block
+ *   dokoro://handoffs/open               working    — open cross-session handoffs
+ *
+ * Clients may `resources/subscribe` to any of these URIs; write tools announce
+ * changes through src/utils/resource-events.ts and the server forwards a
+ * `notifications/resources/updated` for URIs that currently have a subscriber.
+ * Per-project only, same DB resolution as the tools (incl. __TEST_DB__).
+ */
+import type Database from 'better-sqlite3';
+import * as path from 'node:path';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getSqliteDb } from '../db/index.js';
+import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+import { loadPlanWithLocation, loadPlansIndex } from '../tools/plan-tools.js';
+import {
+  HANDOFFS_OPEN_URI,
+  blockResourceUri,
+  entityResourceUri,
+  onResourceChanged,
+  planResourceUri,
+  sessionSummariesResourceUri,
+} from '../utils/resource-events.js';
+
+const JSON_MIME = 'application/json';
+const LIST_LIMIT = 200;
+
+function db(): Database.Database {
+  const existing = (globalThis as Record<string, unknown>).__TEST_DB__ as Database.Database | undefined;
+  if (existing) return existing;
+  const projectPath = path.dirname(DOKORO_PATH);
+  return getSqliteDb({ projectPath, dokoroFolder: path.basename(DOKORO_PATH) });
+}
+
+/** Template variables arrive as string | string[]; take the first value. */
+function variable(value: string | string[] | undefined): string {
+  const v = Array.isArray(value) ? value[0] : value;
+  return decodeURIComponent(v ?? '');
+}
+
+function jsonContents(uri: string, data: unknown): ReadResourceResult {
+  return { contents: [{ uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) }] };
+}
+
+// ─── Readers (exported for tests) ──────────────────────────────────────────
+
+export async function readPlanResource(planId: string): Promise<unknown> {
+  const located = await loadPlanWithLocation(planId);
+  if (!located) throw new Error(`plan '${planId}' not found`);
+  return { ...located.plan, archived: located.archived, archive_path: located.archivePath ?? null };
+}
+
+export function readSessionSummariesResource(sessionId: string): unknown {
+  const rows = db().prepare(`
+    SELECT id, session_id, ai_model, summary, key_decisions_json, key_topics_json,
+           message_count, token_count, started_at, ended_at
+    FROM conversation_summaries WHERE session_id = ?
+    ORDER BY started_at ASC, id ASC
+  `).all(sessionId) as Array<Record<string, unknown>>;
+  return {
+    session_id: sessionId,
+    summaries: rows.map((r) => ({
+      id: r.id,
+      ai_model: r.ai_model,
+      summary: r.summary,
+      key_decisions: r.key_decisions_json ? JSON.parse(r.key_decisions_json as string) : [],
+      key_topics: r.key_topics_json ? JSON.parse(r.key_topics_json as string) : [],
+      message_count: r.message_count,
+      token_count: r.token_count,
+      started_at: r.started_at,
+      ended_at: r.ended_at,
+    })),
+  };
+}
+
+export function readEntityResource(entityId: number): unknown {
+  const entity = db().prepare(
+    'SELECT id, type, name, canonical_name, description, metadata_json, created_at, updated_at FROM entities WHERE id = ?',
+  ).get(entityId) as Record<string, unknown> | undefined;
+  if (!entity) throw new Error(`entity ${entityId} not found`);
+  // Currently-valid, still-believed facts only; history stays in dokoro_entity_graph's as_of / as_known_at.
+  const relations = db().prepare(`
+    SELECT r.source_id, r.target_id, r.relation_type, r.weight, r.valid_from,
+           s.name AS source_name, t.name AS target_name
+    FROM entity_relations r
+    JOIN entities s ON s.id = r.source_id
+    JOIN entities t ON t.id = r.target_id
+    WHERE (r.source_id = ? OR r.target_id = ?) AND r.valid_to IS NULL AND r.retracted_at IS NULL
+    ORDER BY r.relation_type, r.id
+  `).all(entityId, entityId);
+  const docs = db().prepare(
+    'SELECT doc_id, relation_type, context, confidence FROM doc_entities WHERE entity_id = ? ORDER BY doc_id',
+  ).all(entityId);
+  return { ...entity, relations, docs };
+}
+
+export function readBlockResource(blockKey: string): unknown {
+  const row = db().prepare(
+    'SELECT block_key, content, version, updated_by, created_at, updated_at FROM shared_blocks WHERE block_key = ?',
+  ).get(blockKey);
+  if (!row) throw new Error(`block '${blockKey}' not found`);
+  return row;
+}
+
+export function readOpenHandoffsResource(): unknown {
+  const rows = db().prepare(`
+    SELECT id, from_agent, to_agent, session_id, summary, open_items_json, created_at, expires_at
+    FROM handoffs
+    WHERE status = 'open' AND (expires_at IS NULL OR expires_at > strftime('%Y-%m-%dT%H:%M:%SZ','now'))
+    ORDER BY created_at DESC, id DESC
+  `).all() as Array<Record<string, unknown>>;
+  return {
+    handoffs: rows.map(({ open_items_json, ...r }) => ({
+      ...r,
+      open_items: open_items_json ? JSON.parse(open_items_json as string) : [],
+    })),
+  };
+}
+
+// ─── Registration ──────────────────────────────────────────────────────────
+
+/**
+ * Register the dokoro:// memory resources and resource templates on `server`
+ * and wire `resources/subscribe` / `resources/unsubscribe`. Must be called
+ * before the server connects (capabilities are fixed at connect time).
+ * Returns the live subscription set (exposed for tests).
+ */
+export function registerMemoryResources(server: McpServer): Set<string> {
+  const subscriptions = new Set<string>();
+
+  server.registerResource(
+    'plan',
+    new ResourceTemplate('dokoro://plans/{planId}', {
+      list: async () => {
+        const index = await loadPlansIndex();
+        return {
+          resources: Object.entries(index).map(([id, entry]) => ({
+            uri: planResourceUri(id),
+            name: (typeof entry === 'string' ? entry : entry.title) ?? id,
+            mimeType: JSON_MIME,
+          })),
+        };
+      },
+    }),
+    { title: 'Plan', description: 'A tracked plan with its items (procedural memory).', mimeType: JSON_MIME },
+    async (uri, { planId }) => jsonContents(uri.href, await readPlanResource(variable(planId))),
+  );
+
+  server.registerResource(
+    'session-summaries',
+    new ResourceTemplate('dokoro://sessions/{id}/summaries', {
+      list: async () => {
+        const rows = db().prepare(`
+          SELECT session_id, MAX(started_at) AS last FROM conversation_summaries
+          WHERE session_id IS NOT NULL GROUP BY session_id ORDER BY last DESC LIMIT ?
+        `).all(LIST_LIMIT) as Array<{ session_id: string }>;
+        return {
+          resources: rows.map((r) => ({
+            uri: sessionSummariesResourceUri(r.session_id),
+            name: `session ${r.session_id}`,
+            mimeType: JSON_MIME,
+          })),
+        };
+      },
+    }),
+    { title: 'Session summaries', description: 'Conversation summaries recorded for one session (episodic memory).', mimeType: JSON_MIME },
+    async (uri, { id }) => jsonContents(uri.href, readSessionSummariesResource(variable(id))),
+  );
+
+  server.registerResource(
+    'entity',
+    new ResourceTemplate('dokoro://entities/{id}', {
+      list: async () => {
+        const rows = db().prepare('SELECT id, type, name FROM entities ORDER BY updated_at DESC, id DESC LIMIT ?')
+          .all(LIST_LIMIT) as Array<{ id: number; type: string; name: string }>;
+        return {
+          resources: rows.map((r) => ({ uri: entityResourceUri(r.id), name: `${r.type}: ${r.name}`, mimeType: JSON_MIME })),
+        };
+      },
+    }),
+    { title: 'Entity', description: 'A knowledge-graph entity with its currently-valid relations and linked docs (semantic memory).', mimeType: JSON_MIME },
+    async (uri, { id }) => {
+      const entityId = Number(variable(id));
+      if (!Number.isInteger(entityId)) throw new Error(`invalid entity id '${variable(id)}'`);
+      return jsonContents(uri.href, readEntityResource(entityId));
+    },
+  );
+
+  server.registerResource(
+    'block',
+    new ResourceTemplate('dokoro://blocks/{block_key}', {
+      list: async () => {
+        const rows = db().prepare('SELECT block_key, version FROM shared_blocks ORDER BY updated_at DESC LIMIT ?')
+          .all(LIST_LIMIT) as Array<{ block_key: string; version: number }>;
+        return {
+          resources: rows.map((r) => ({ uri: blockResourceUri(r.block_key), name: `${r.block_key} (v${r.version})`, mimeType: JSON_MIME })),
+        };
+      },
+    }),
+    { title: 'Shared block', description: 'A shared editable working-memory block with its current version.', mimeType: JSON_MIME },
+    async (uri, { block_key }) => jsonContents(uri.href, readBlockResource(variable(block_key))),
+  );
+
+  server.registerResource(
+    'open-handoffs',
+    HANDOFFS_OPEN_URI,
+    { title: 'Open handoffs', description: 'Cross-session handoffs that nobody has claimed yet.', mimeType: JSON_MIME },
+    async (uri) => jsonContents(uri.href, readOpenHandoffsResource()),
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  onResourceChanged((uri) => {
+    if (!subscriptions.has(uri) || !server.isConnected()) return;
+    server.server.sendResourceUpdated({ uri }).catch(() => { /* client went away */ });
+  });
+
+  return subscriptions;
+}
@@ -20,6 +20,13 @@ export interface GitContext {
   changedFiles: string[];
 }
 
+export interface WorkingTreeChanges {
+  /** Absolute repository top level; `files` are relative to it. */
+  topLevel: string;
+  /** Staged, unstaged, deleted, renamed (new name) and untracked files, plus base...HEAD when a base is given. */
+  files: string[];
+}
+
 export class AmbientContextService {
   static getGitContext(cwd: string): GitContext | null {
     try {
@@ -52,6 +59,53 @@ export class AmbientContextService {
     }
   }
 
+  /**
+   * Files the working tree differs in: `git status` (untracked included) and,
+   * with `base`, everything committed on this branch since it forked from base
+   * (`git diff --name-only base...HEAD`). Null when git state cannot be read
+   * or `base` is not a commit. `base` comes from tool callers, so it is
+   * resolved with rev-parse first and never reaches git as an option.
+   */
+  static getWorkingTreeChanges(cwd: string, base?: string): WorkingTreeChanges | null {
+    try {
+      const topLevel = execFileSync('git', ['rev-parse', '--show-toplevel'], {
+        cwd,
+        encoding: 'utf-8',
+      }).trim();
+
+      // -z: NUL-separated, paths unquoted. A rename/copy entry is followed by
+      // its original path as an extra field.
+      const status = execFileSync('git', ['status', '--porcelain=v1', '-z', '--untracked-files=all'], {
+        cwd,
+        encoding: 'utf-8',
+      }).split('\0');
+      const files = new Set<string>();
+      for (let i = 0; i < status.length; i++) {
+        const entry = status[i];
+        if (entry.length < 4) continue;
+        files.add(entry.slice(3));
+        if (entry[0] === 'R' || entry[0] === 'C') i++;
+      }
+
+      if (base) {
+        if (base.startsWith('-')) return null;
+        const commit = execFileSync('git', ['rev-parse', '--verify', '--quiet', '--end-of-options', `${base}^{commit}`], {
+          cwd,
+          encoding: 'utf-8',
+        }).trim();
+        const committed = execFileSync('git', ['diff', '--name-only', '-z', `${commit}...HEAD`], {
+          cwd,
+          encoding: 'utf-8',
+        }).split('\0').filter(Boolean);
+        for (const f of committed) files.add(f);
+      }
+
+      return { topLevel, files: [...files].sort() };
+    } catch {
+      return null;
+    }
+  }
+
   static branchToKeywords(branch: string): string[] {
     return branch
       .replace(/[/_-]/g, ' ')
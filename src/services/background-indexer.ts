@@ -1,7 +1,7 @@
 /**
  * Background Indexer
  *
- * Runs after server start, health-checks Ollama, and indexes
+ * Runs after server start, health-checks the embedding provider, and indexes
  * unindexed or changed documents sequentially.
  */
 
@@ -91,14 +91,14 @@ export function startBackgroundIndexer(sqliteDb: Database.Database, projectPath:
 
       const { indexingService, embeddingService } = createVectorServices(sqliteDb, projectPath);
 
-      // Health check Ollama
+      // Health check the embedding provider
       const healthy = await embeddingService.healthCheck();
       if (!healthy) {
-        console.error('[BackgroundIndexer] Ollama not available, skipping indexing');
+        console.error(`[BackgroundIndexer] Embedding provider ${embeddingService.modelId} not available, skipping indexing`);
         return;
       }
 
-      console.error('[BackgroundIndexer] Ollama available, starting indexing...');
+      console.error(`[BackgroundIndexer] ${embeddingService.modelId} available, starting indexing...`);
 
       // Find all docs with content
       const docs = sqliteDb.prepare(
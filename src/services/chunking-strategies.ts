@@ -0,0 +1,334 @@
+/**
+ * Structure-aware Chunking
+ *
+ * Strategies behind ChunkingService.chunk for documents too large to embed
+ * whole:
+ *
+ * - markdown: a block-level scan (frontmatter, ATX headings, fenced code,
+ *   tables, lists, paragraphs). Chunks break at heading boundaries; small
+ *   consecutive sections share a chunk while they fit the budget. Frontmatter,
+ *   code fences and tables are never split, even when larger than the budget.
+ *   headerContext is the full heading path, e.g. `Guide > Setup > Ollama`.
+ * - code: top-level declarations (with the comments and decorators directly
+ *   above them) are the units; headerContext names the declarations.
+ *
+ * Oversized paragraphs, lists and declarations fall back to line windows.
+ * Neither strategy overlaps chunks: boundaries are structural, not arbitrary.
+ */
+
+import type { Chunk } from './embedding-service.js';
+
+export type ChunkStrategy = 'lines' | 'markdown' | 'code';
+
+/** Strategy per doc type; anything else is markdown (see chunkStrategyFor). */
+export const DOC_TYPE_STRATEGIES: Record<string, ChunkStrategy> = {
+  code: 'code',
+  source: 'code',
+};
+
+const CODE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.rb',
+  '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.swift', '.php', '.scala', '.sh',
+]);
+
+/**
+ * Bump when a strategy would cut the same content differently. doc_vectors
+ * records chunkingId() per doc, and the indexer re-chunks docs whose id differs.
+ */
+export const CHUNKING_VERSION = 1;
+
+/** `<strategy>@<version>`, as stored in doc_vectors.chunking. */
+export function chunkingId(strategy: ChunkStrategy): string {
+  return `${strategy}@${CHUNKING_VERSION}`;
+}
+
+/** Pick a strategy from the doc type, else from the file extension. */
+export function chunkStrategyFor(docType: string | null | undefined, filepath?: string | null): ChunkStrategy {
+  if (docType && DOC_TYPE_STRATEGIES[docType]) return DOC_TYPE_STRATEGIES[docType];
+  const ext = filepath?.match(/\.[^./\\]+$/)?.[0].toLowerCase();
+  return ext && CODE_EXTENSIONS.has(ext) ? 'code' : 'markdown';
+}
+
+type BlockKind = 'frontmatter' | 'heading' | 'fence' | 'table' | 'list' | 'paragraph' | 'blank';
+
+interface Block {
+  kind: BlockKind;
+  /** Line range [start, end). */
+  start: number;
+  end: number;
+  level?: number;
+  text?: string;
+}
+
+/** A run of lines packed as one unit, with the context it belongs to. */
+interface Piece {
+  start: number;
+  end: number;
+  chars: number;
+  context: string[];
+  /** Never split, even when over budget. */
+  atomic: boolean;
+  /** Prefer to start a new chunk here (heading / declaration). */
+  boundary: boolean;
+  /** A markdown heading line: never ends a chunk on its own. */
+  heading?: boolean;
+  /** For boundaries: size of everything up to the next boundary. */
+  sectionChars?: number;
+}
+
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d{1,9}[.)])[ \t]+/;
+const TABLE_SEPARATOR = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  return HEADING.test(lines[i]) || FENCE_OPEN.test(lines[i]) || LIST_ITEM.test(lines[i]) ||
+    (lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]));
+}
+
+/** Block-level markdown structure: enough to know where not to cut. */
+export function scanMarkdownBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, j) => j > 0 && (l.trim() === '---' || l.trim() === '...'));
+    if (close > 0) {
+      blocks.push({ kind: 'frontmatter', start: 0, end: close + 1 });
+      i = close + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const start = i;
+
+    if (isBlank(line)) {
+      while (i < lines.length && isBlank(lines[i])) i++;
+      blocks.push({ kind: 'blank', start, end: i });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ kind: 'heading', start, end: i + 1, level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const marker = fence[1];
+      const close = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      i++;
+      while (i < lines.length && !close.test(lines[i])) i++;
+      i = Math.min(i + 1, lines.length); // include the closing fence (unclosed runs to EOF)
+      blocks.push({ kind: 'fence', start, end: i });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) i++;
+      blocks.push({ kind: 'table', start, end: i });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i++;
+      while (i < lines.length) {
+        if (isBlank(lines[i])) {
+          // A blank line continues the list only if an item or indented text follows.
+          let j = i;
+          while (j < lines.length && isBlank(lines[j])) j++;
+          if (j < lines.length && (LIST_ITEM.test(lines[j]) || /^(?: {2,}|\t)/.test(lines[j]))) {
+            i = j;
+            continue;
+          }
+          break;
+        }
+        if (/^(?: {2,}|\t)/.test(lines[i]) || LIST_ITEM.test(lines[i])) { i++; continue; }
+        if (startsBlock(lines, i)) break;
+        i++; // lazy continuation
+      }
+      blocks.push({ kind: 'list', start, end: i });
+      continue;
+    }
+
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) i++;
+    blocks.push({ kind: 'paragraph', start, end: i });
+  }
+
+  return blocks;
+}
+
+function lineChars(lines: string[], start: number, end: number): number {
+  let n = 0;
+  for (let i = start; i < end; i++) n += lines[i].length + 1;
+  return n;
+}
+
+/** Markdown blocks as pieces carrying their heading path. */
+function markdownPieces(lines: string[]): Piece[] {
+  const pieces: Piece[] = [];
+  const stack: Array<{ level: number; text: string }> = [];
+
+  for (const b of scanMarkdownBlocks(lines)) {
+    const chars = lineChars(lines, b.start, b.end);
+    if (b.kind === 'blank' && pieces.length > 0) {
+      // Trailing blank lines travel with the block before them.
+      const prev = pieces[pieces.length - 1];
+      prev.end = b.end;
+      prev.chars += chars;
+      continue;
+    }
+    if (b.kind === 'heading') {
+      while (stack.length > 0 && stack[stack.length - 1].level >= b.level!) stack.pop();
+      stack.push({ level: b.level!, text: b.text! });
+    }
+    pieces.push({
+      start: b.start,
+      end: b.end,
+      chars,
+      context: stack.map((h) => h.text),
+      atomic: b.kind === 'frontmatter' || b.kind === 'fence' || b.kind === 'table',
+      boundary: b.kind === 'heading',
+      heading: b.kind === 'heading',
+    });
+  }
+  return withSectionSizes(pieces);
+}
+
+const DECLARATION = new RegExp(
+  '^(?:export\\s+(?:default\\s+)?)?(?:(?:async|abstract|declare|public|private|protected|static|final|pub(?:\\([a-z]+\\))?|unsafe)\\s+)*' +
+  '(function\\*?|class|interface|type|enum|const|let|var|def|fn|func|impl|struct|trait|mod|module|namespace)\\b\\s*(?:\\([^)]*\\)\\s*)?([A-Za-z_$][\\w$]*)?',
+);
+const COMMENT_OR_DECORATOR = /^\s*(?:\/\/|\/\*|\*|#|@|"""|''')/;
+
+/** Top-level declarations (plus the comments/decorators above them) as pieces. */
+function codePieces(lines: string[]): Piece[] {
+  const starts: Array<{ line: number; label: string }> = [];
+  let lastStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(DECLARATION);
+    if (!m || !m[2]) continue; // re-exports like `export type { A }` are not declarations
+    let start = i;
+    while (start - 1 > lastStart && COMMENT_OR_DECORATOR.test(lines[start - 1])) start--;
+    if (starts.length > 0 && start <= starts[starts.length - 1].line) continue;
+    starts.push({ line: start, label: `${m[1]} ${m[2]}` });
+    lastStart = start;
+  }
+
+  const pieces: Piece[] = [];
+  if (starts.length === 0 || starts[0].line > 0) {
+    const end = starts[0]?.line ?? lines.length;
+    pieces.push({ start: 0, end, chars: lineChars(lines, 0, end), context: [], atomic: false, boundary: false });
+  }
+  starts.forEach((s, k) => {
+    const end = starts[k + 1]?.line ?? lines.length;
+    pieces.push({ start: s.line, end, chars: lineChars(lines, s.line, end), context: [s.label], atomic: false, boundary: true });
+  });
+  return withSectionSizes(pieces);
+}
+
+function withSectionSizes(pieces: Piece[]): Piece[] {
+  let size = 0;
+  for (let k = pieces.length - 1; k >= 0; k--) {
+    size += pieces[k].chars;
+    if (pieces[k].boundary) {
+      pieces[k].sectionChars = size;
+      size = 0;
+    }
+  }
+  return pieces;
+}
+
+/** Split a non-atomic piece that exceeds the budget into line windows. */
+function splitPiece(lines: string[], piece: Piece, budgetChars: number): Piece[] {
+  const out: Piece[] = [];
+  let start = piece.start;
+  while (start < piece.end) {
+    let end = start;
+    let chars = 0;
+    while (end < piece.end && (chars === 0 || chars + lines[end].length + 1 <= budgetChars)) {
+      chars += lines[end].length + 1;
+      end++;
+    }
+    out.push({ ...piece, start, end, chars, boundary: piece.boundary && start === piece.start });
+    start = end;
+  }
+  return out;
+}
+
+/** Join context for display: heading path for markdown, declarations for code. */
+function contextLabel(strategy: ChunkStrategy, group: Piece[]): string | null {
+  if (strategy === 'code') {
+    const labels = [...new Set(group.flatMap((p) => p.context))];
+    if (labels.length === 0) return null;
+    return labels.length > 3 ? `${labels.slice(0, 3).join(', ')}, …` : labels.join(', ');
+  }
+  const path = group[0].context;
+  return path.length > 0 ? path.join(' > ') : null;
+}
+
+/**
+ * Chunk `content` with the markdown or code strategy. Chunks hold whole
+ * pieces: a new chunk starts when the next piece (or, at a boundary, the
+ * whole next section) would push the current one past `budgetChars`.
+ */
+export function chunkStructured(
+  content: string,
+  docId: string,
+  strategy: Exclude<ChunkStrategy, 'lines'>,
+  budgetChars: number,
+  charsPerToken: number,
+): Chunk[] {
+  const lines = content.split('\n');
+  const pieces = (strategy === 'code' ? codePieces(lines) : markdownPieces(lines))
+    .flatMap((p) => (p.atomic || p.chars <= budgetChars ? [p] : splitPiece(lines, p, budgetChars)));
+
+  const groups: Piece[][] = [];
+  let current: Piece[] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    const incoming = piece.boundary ? Math.max(piece.chars, Math.min(piece.sectionChars ?? piece.chars, budgetChars)) : piece.chars;
+    if (current.length > 0 && !current[current.length - 1].heading && size + incoming > budgetChars) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(piece);
+    size += piece.chars;
+  }
+  if (current.length > 0) groups.push(current);
+
+  const lineStart: number[] = [];
+  let offset = 0;
+  for (const l of lines) {
+    lineStart.push(offset);
+    offset += l.length + 1;
+  }
+
+  return groups.map((group, chunkIndex) => {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const text = lines.slice(start, end).join('\n') + (end < lines.length ? '\n' : '');
+    return {
+      chunkId: `${docId}_${chunkIndex}`,
+      docId,
+      chunkIndex,
+      text,
+      startLine: start + 1,
+      endLine: end,
+      startChar: lineStart[start],
+      endChar: lineStart[start] + text.length,
+      headerContext: contextLabel(strategy, group),
+      tokenCount: Math.ceil(text.length / charsPerToken),
+    };
+  });
+}
@@ -1,4 +1,5 @@
 import { ChunkingService } from './embedding-service.js';
+import { chunkStrategyFor } from './chunking-strategies.js';
 
 // Helper: generate lines that exceed the 2000-token (8000 char) whole-file threshold
 // Each line ~115 chars, so 80 lines ~= 9200 chars ~= 2300 tokens (above 2000 threshold)
@@ -77,3 +78,88 @@ describe('ChunkingService - Line-Aware Sliding Windows', () => {
     }
   });
 });
+
+describe('ChunkingService - Structure-aware strategies', () => {
+  let chunker: ChunkingService;
+
+  beforeEach(() => {
+    chunker = new ChunkingService();
+  });
+
+  const prose = (label: string, n: number) =>
+    Array.from({ length: n }, (_, i) => `${label} sentence ${i}: ${'w'.repeat(90)}`).join('\n');
+
+  test('markdown chunks break at headings and carry the full heading path', () => {
+    const content = [
+      '# Guide',
+      '',
+      prose('intro', 10),
+      '',
+      ...['Setup', '### Ollama', 'Usage', 'Troubleshooting', 'FAQ'].flatMap((h) => [
+        h.startsWith('#') ? h : `## ${h}`,
+        '',
+        prose(h.replace(/^#+ /, ''), 15),
+        '',
+      ]),
+    ].join('\n');
+
+    const chunks = chunker.chunk(content, 'md1', 'markdown');
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks.slice(1)) expect(c.text).toMatch(/^#{1,6} /);
+    expect(chunks.map((c) => c.headerContext)).toEqual(
+      expect.arrayContaining(['Guide > Setup > Ollama', 'Guide > Usage']),
+    );
+    // Chunks tile the document without overlap.
+    expect(chunks.map((c) => c.text).join('')).toBe(content);
+  });
+
+  test('markdown keeps frontmatter, code fences and tables intact', () => {
+    const fence = ['```ts', ...Array.from({ length: 120 }, (_, i) => `const v${i} = ${'1'.repeat(60)};`), '```'].join('\n');
+    const table = ['| a | b |', '|---|---|', ...Array.from({ length: 40 }, (_, i) => `| ${i} | ${'t'.repeat(60)} |`)].join('\n');
+    const content = [
+      '---',
+      'title: Big doc',
+      '---',
+      '# Big doc',
+      prose('before', 20),
+      '',
+      fence,
+      '',
+      prose('between', 20),
+      '',
+      table,
+      '',
+      prose('after', 20),
+    ].join('\n');
+
+    const chunks = chunker.chunk(content, 'md2', 'markdown');
+    expect(chunks[0].text.startsWith('---\ntitle: Big doc\n---\n')).toBe(true);
+    expect(chunks.filter((c) => c.text.includes(fence))).toHaveLength(1);
+    expect(chunks.filter((c) => c.text.includes(table))).toHaveLength(1);
+    for (const c of chunks) expect((c.text.match(/^```/gm) ?? []).length % 2).toBe(0);
+  });
+
+  test('code chunks follow top-level declarations', () => {
+    const fn = (name: string) => [
+      `/** Doc for ${name}. */`,
+      `export function ${name}(input: string): string {`,
+      ...Array.from({ length: 20 }, (_, i) => `  const step${i} = input + '${'s'.repeat(50)}';`),
+      '  return input;',
+      '}',
+      '',
+    ].join('\n');
+    const content = ["import * as fs from 'node:fs';", '', ...['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta'].map(fn)].join('\n');
+
+    const chunks = chunker.chunk(content, 'src1', 'code');
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks.slice(1)) expect(c.text.startsWith('/** Doc for')).toBe(true);
+    expect(chunks[chunks.length - 1].headerContext).toContain('function zeta');
+  });
+
+  test('chunkStrategyFor picks code for source files and doc types', () => {
+    expect(chunkStrategyFor('note', 'notes/plan.md')).toBe('markdown');
+    expect(chunkStrategyFor('note', 'src/server.ts')).toBe('code');
+    expect(chunkStrategyFor('code', null)).toBe('code');
+    expect(chunkStrategyFor(undefined)).toBe('markdown');
+  });
+});
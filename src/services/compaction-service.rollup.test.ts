@@ -0,0 +1,159 @@
+import Database from 'better-sqlite3';
+import { CompactionService } from './compaction-service.js';
+import {
+  AutoRollupSummarizer,
+  ExtractiveRollupSummarizer,
+  OllamaRollupSummarizer,
+  type RollupSummarizer,
+} from './rollup-summarizer.js';
+
+function makeDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE sessions (id TEXT PRIMARY KEY, summary TEXT, metadata_json TEXT);
+    CREATE TABLE conversation_summaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT,
+      summary TEXT, token_count INTEGER, started_at TEXT
+    );
+  `);
+  return db;
+}
+
+/** Deterministic summarizer: records calls, returns "<level>(n)". */
+class StubSummarizer implements RollupSummarizer {
+  readonly name = 'compaction:stub';
+  calls: Array<{ level: string; sources: string[] }> = [];
+  async summarize(sources: string[], level: 'session' | 'day' | 'week'): Promise<string> {
+    this.calls.push({ level, sources });
+    return `${level}(${sources.length})`;
+  }
+}
+
+async function compactSession(svc: CompactionService, db: Database.Database, id: string, startedAt: string) {
+  db.prepare('INSERT INTO sessions (id) VALUES (?)').run(id);
+  db.prepare('INSERT INTO conversation_summaries (session_id, ai_model, summary, token_count, started_at) VALUES (?,?,?,?,?)')
+    .run(id, 'opus', `work in ${id}`, 50000, startedAt);
+  return svc.compact(id);
+}
+
+describe('CompactionService rollups', () => {
+  it('stores the summarizer gist and name on the session rollup', async () => {
+    const db = makeDb();
+    const stub = new StubSummarizer();
+    const svc = new CompactionService(db, undefined, stub);
+    const res = await compactSession(svc, db, 's1', '2026-03-02T10:00:00Z');
+
+    expect(res.newSummary).toBe('session(1)');
+    expect(stub.calls[0].sources[0]).toContain('work in s1');
+    const row = db.prepare('SELECT ai_model, summary, rollup_level FROM conversation_summaries WHERE id = ?')
+      .get(res.rollupId) as { ai_model: string; summary: string; rollup_level: string };
+    expect(row).toEqual({ ai_model: 'compaction:stub', summary: 'session(1)', rollup_level: 'session' });
+  });
+
+  it('rolls finished days into day rollups and finished weeks into week rollups', async () => {
+    const db = makeDb();
+    const svc = new CompactionService(db, undefined, new StubSummarizer());
+    // Mon 2026-03-02 (two sessions), Tue 2026-03-03, and the following Monday.
+    await compactSession(svc, db, 'a', '2026-03-02T09:00:00Z');
+    await compactSession(svc, db, 'b', '2026-03-02T15:00:00Z');
+    await compactSession(svc, db, 'c', '2026-03-03T09:00:00Z');
+    await compactSession(svc, db, 'd', '2026-03-09T09:00:00Z');
+
+    // Wednesday: Mon and Tue are finished days, the week is still open.
+    expect(await svc.rollupPeriods(new Date('2026-03-04T12:00:00Z'))).toHaveLength(2);
+    const days = db.prepare(`SELECT id, summary, source_ids_json FROM conversation_summaries
+      WHERE rollup_level = 'day' ORDER BY started_at`).all() as Array<{ id: number; summary: string; source_ids_json: string }>;
+    expect(days.map((d) => d.summary)).toEqual(['day of 2026-03-02: day(2)', 'day of 2026-03-03: day(1)']);
+    expect(JSON.parse(days[0].source_ids_json)).toHaveLength(2);
+
+    // Next Tuesday: the first week closes, and Monday 03-09 becomes a day.
+    const created = await svc.rollupPeriods(new Date('2026-03-10T12:00:00Z'));
+    expect(created).toHaveLength(2);
+    const week = db.prepare(`SELECT id, summary, session_id FROM conversation_summaries WHERE rollup_level = 'week'`)
+      .get() as { id: number; summary: string; session_id: string | null };
+    expect(week.summary).toBe('week of 2026-03-02: week(2)');
+    expect(week.session_id).toBeNull();
+    const weekChildren = db.prepare('SELECT id FROM conversation_summaries WHERE parent_id = ? ORDER BY id')
+      .all(week.id) as Array<{ id: number }>;
+    expect(weekChildren.map((c) => c.id)).toEqual(days.map((d) => d.id));
+
+    // Zoom path week -> day -> session -> original is intact.
+    const original = db.prepare(`SELECT o.summary FROM conversation_summaries o
+      JOIN conversation_summaries s ON s.id = o.parent_id
+      JOIN conversation_summaries d ON d.id = s.parent_id
+      WHERE d.parent_id = ? ORDER BY o.id LIMIT 1`).get(week.id) as { summary: string };
+    expect(original.summary).toBe('work in a');
+
+    // Idempotent: nothing new to roll up.
+    expect(await svc.rollupPeriods(new Date('2026-03-10T12:00:00Z'))).toEqual([]);
+  });
+
+  it('folds an earlier rollup of the same day when a late session arrives', async () => {
+    const db = makeDb();
+    const svc = new CompactionService(db, undefined, new StubSummarizer());
+    await compactSession(svc, db, 'a', '2026-03-02T09:00:00Z');
+    const [firstDay] = await svc.rollupPeriods(new Date('2026-03-03T00:00:00Z'));
+    await compactSession(svc, db, 'late', '2026-03-02T23:00:00Z');
+    const [secondDay] = await svc.rollupPeriods(new Date('2026-03-03T00:00:00Z'));
+
+    const top = db.prepare(`SELECT id FROM conversation_summaries WHERE rollup_level = 'day' AND parent_id IS NULL`)
+      .all() as Array<{ id: number }>;
+    expect(top).toEqual([{ id: secondDay }]);
+    const parent = db.prepare('SELECT parent_id FROM conversation_summaries WHERE id = ?').get(firstDay) as { parent_id: number };
+    expect(parent.parent_id).toBe(secondDay);
+  });
+
+  it('includes summaries of sessions below the compaction threshold in day rollups', async () => {
+    const db = makeDb();
+    const stub = new StubSummarizer();
+    const svc = new CompactionService(db, undefined, stub);
+    await compactSession(svc, db, 'big', '2026-03-02T09:00:00Z');
+    const small = db.prepare('INSERT INTO conversation_summaries (session_id, ai_model, summary, token_count, started_at) VALUES (?,?,?,?,?)');
+    const { lastInsertRowid: smallId } = small.run('small', 'opus', 'quick fix in small', 800, '2026-03-02T16:00:00Z');
+    const { lastInsertRowid: aloneId } = small.run('alone', 'opus', 'only session on tuesday', 500, '2026-03-03T10:00:00Z');
+
+    const [monday, tuesday] = await svc.rollupPeriods(new Date('2026-03-04T12:00:00Z'));
+    expect(stub.calls.find((c) => c.level === 'day')!.sources.some((src) => src.includes('quick fix in small'))).toBe(true);
+    const parentOf = (id: number | bigint) =>
+      (db.prepare('SELECT parent_id FROM conversation_summaries WHERE id = ?').get(id) as { parent_id: number }).parent_id;
+    expect(parentOf(smallId)).toBe(monday);
+    expect(parentOf(aloneId)).toBe(tuesday);
+  });
+});
+
+describe('rollup summarizers', () => {
+  it('extractive returns short input verbatim and trims long input to the level budget', async () => {
+    const s = new ExtractiveRollupSummarizer();
+    expect(await s.summarize(['short note'], 'session')).toBe('short note');
+
+    const long = Array.from({ length: 60 }, (_, i) =>
+      `Implemented the retry logic for worker number ${i} in the queue service today.`);
+    const gist = await s.summarize(long, 'week');
+    expect(gist.split(/\s+/).length).toBeLessThanOrEqual(120);
+    expect(gist.length).toBeGreaterThan(0);
+  });
+
+  it('auto falls back to extractive when Ollama is unavailable or fails', async () => {
+    const down = new OllamaRollupSummarizer();
+    down.available = async () => false;
+    const offline = new AutoRollupSummarizer(down);
+    expect(await offline.summarize(['a note'], 'day')).toBe('a note');
+    expect(offline.name).toBe('compaction:extractive');
+
+    const flaky = new OllamaRollupSummarizer();
+    flaky.available = async () => true;
+    flaky.summarize = async () => { throw new Error('connection reset'); };
+    const auto = new AutoRollupSummarizer(flaky);
+    expect(await auto.summarize(['a note'], 'day')).toBe('a note');
+    expect(auto.name).toBe('compaction:extractive');
+  });
+
+  it('auto uses Ollama when it answers', async () => {
+    const up = new OllamaRollupSummarizer();
+    up.available = async () => true;
+    up.summarize = async () => 'llm gist';
+    const auto = new AutoRollupSummarizer(up);
+    expect(await auto.summarize(['a', 'b'], 'session')).toBe('llm gist');
+    expect(auto.name).toBe(up.name);
+  });
+});
@@ -1,4 +1,5 @@
 import { CompactionService } from './compaction-service.js';
+import { ExtractiveRollupSummarizer } from './rollup-summarizer.js';
 import Database from 'better-sqlite3';
 
 describe('CompactionService', () => {
@@ -27,7 +28,7 @@ describe('CompactionService', () => {
         created_at TEXT DEFAULT CURRENT_TIMESTAMP
       );
     `);
-    service = new CompactionService(db);
+    service = new CompactionService(db, undefined, new ExtractiveRollupSummarizer());
   });
 
   afterEach(() => db.close());
@@ -85,7 +86,7 @@ describe('CompactionService', () => {
     expect(meta.compactionPending).toBeFalsy();
   });
 
-  test('compact deletes merged source summaries to bound growth (BUG-22)', async () => {
+  test('compact rolls source summaries into one session rollup that links back (BUG-22)', async () => {
     db.prepare('INSERT INTO sessions (id, status) VALUES (?, ?)').run('s-del', 'active');
     const insert = db.prepare(`
       INSERT INTO conversation_summaries (session_id, ai_model, summary, token_count, started_at)
@@ -95,54 +96,61 @@ describe('CompactionService', () => {
     insert.run('s-del', 'claude', 'Summary B', 10000, new Date(Date.now() - 2000).toISOString());
     insert.run('s-del', 'claude', 'Summary C', 10000, new Date(Date.now() - 1000).toISOString());
 
-    const countBefore = (db.prepare(
-      'SELECT COUNT(*) c FROM conversation_summaries WHERE session_id = ?'
-    ).get('s-del') as { c: number }).c;
-    expect(countBefore).toBe(3);
-
-    await service.compact('s-del');
-
-    // The 3 source rows are merged into exactly ONE retained compacted row
-    // (growth bounded), which stays in the recall corpus.
-    const rows = db.prepare(
-      'SELECT summary, compacted FROM conversation_summaries WHERE session_id = ?'
-    ).all('s-del') as Array<{ summary: string; compacted: number }>;
-    expect(rows).toHaveLength(1);
-    expect(rows[0].compacted).toBe(1);
-    expect(rows[0].summary).toMatch(/Summary A/);
-    expect(rows[0].summary).toMatch(/Summary B/);
-    expect(rows[0].summary).toMatch(/Summary C/);
-
-    // The merged text must also be stored on the session row.
+    const { rollupId } = await service.compact('s-del');
+
+    // Exactly ONE top-level row remains: the session rollup, still in the
+    // recall corpus. The 3 sources hang beneath it for zooming.
+    const top = db.prepare(
+      'SELECT id, summary, compacted, rollup_level, source_ids_json FROM conversation_summaries WHERE session_id = ? AND parent_id IS NULL'
+    ).all('s-del') as Array<{ id: number; summary: string; compacted: number; rollup_level: string; source_ids_json: string }>;
+    expect(top).toHaveLength(1);
+    expect(top[0].id).toBe(rollupId);
+    expect(top[0].compacted).toBe(1);
+    expect(top[0].rollup_level).toBe('session');
+    expect(top[0].summary).toMatch(/Summary A/);
+    expect(top[0].summary).toMatch(/Summary B/);
+    expect(top[0].summary).toMatch(/Summary C/);
+
+    const children = db.prepare(
+      'SELECT id, compacted FROM conversation_summaries WHERE parent_id = ? ORDER BY id'
+    ).all(rollupId) as Array<{ id: number; compacted: number }>;
+    expect(children.map((c) => c.id)).toEqual(JSON.parse(top[0].source_ids_json));
+    expect(children.every((c) => c.compacted === 1)).toBe(true);
+
+    // The gist must also be stored on the session row.
     const session = db.prepare('SELECT summary FROM sessions WHERE id = ?')
       .get('s-del') as { summary: string };
     expect(session.summary).toMatch(/Summary A/);
     expect(session.summary).toMatch(/Summary C/);
 
-    // And the retained compacted row must NOT re-trigger compaction.
+    // Neither the rollup nor its sources re-trigger compaction.
     expect(service.needsCompaction('s-del')).toBe(false);
   });
 
-  test('re-compaction folds the prior merged row into a new single row', async () => {
+  test('re-compaction folds the prior session rollup in as a child', async () => {
     db.prepare('INSERT INTO sessions (id, status) VALUES (?, ?)').run('s-fold', 'active');
     const insert = db.prepare(`
       INSERT INTO conversation_summaries (session_id, ai_model, summary, token_count, started_at)
       VALUES (?, ?, ?, ?, ?)
     `);
     insert.run('s-fold', 'claude', 'first batch', 45000, '2026-01-01T00:00:00Z');
-    await service.compact('s-fold'); // -> 1 compacted row
+    const first = await service.compact('s-fold'); // -> 1 session rollup
 
     // New summaries pile on top and exceed the threshold again.
     insert.run('s-fold', 'claude', 'second batch', 45000, '2026-02-01T00:00:00Z');
     expect(service.needsCompaction('s-fold')).toBe(true);
-    await service.compact('s-fold');
-
-    const rows = db.prepare(
-      'SELECT summary, compacted FROM conversation_summaries WHERE session_id = ?'
-    ).all('s-fold') as Array<{ summary: string; compacted: number }>;
-    expect(rows).toHaveLength(1); // prior merged row folded in
-    expect(rows[0].summary).toMatch(/first batch/);
-    expect(rows[0].summary).toMatch(/second batch/);
+    const second = await service.compact('s-fold');
+
+    const top = db.prepare(
+      'SELECT id, summary FROM conversation_summaries WHERE session_id = ? AND parent_id IS NULL'
+    ).all('s-fold') as Array<{ id: number; summary: string }>;
+    expect(top).toHaveLength(1); // prior rollup folded in
+    expect(top[0].id).toBe(second.rollupId);
+    expect(top[0].summary).toMatch(/first batch/);
+    expect(top[0].summary).toMatch(/second batch/);
+    const parent = db.prepare('SELECT parent_id FROM conversation_summaries WHERE id = ?')
+      .get(first.rollupId) as { parent_id: number };
+    expect(parent.parent_id).toBe(second.rollupId);
     expect(service.needsCompaction('s-fold')).toBe(false);
   });
 
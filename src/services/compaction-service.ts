@@ -3,9 +3,15 @@
  *
  * Auto-summarizes conversation history when token thresholds are reached.
  * Uses pre-flush durability writes to prevent data loss on crash.
+ *
+ * Summaries roll up hierarchically (session -> day -> week). Every rollup is a
+ * compacted conversation_summaries row whose source_ids_json lists its
+ * children, and each child points back via parent_id, so recall can zoom from
+ * a weekly gist down to the original summaries.
  */
 import Database from 'better-sqlite3';
-import { ensureCompactedColumn } from '../db/episodic-tables.js';
+import { ensureCompactedColumn, ensureRollupColumns } from '../db/episodic-tables.js';
+import { createRollupSummarizer, type RollupLevel, type RollupSummarizer } from './rollup-summarizer.js';
 
 const DEFAULT_TOKEN_THRESHOLD = 40000;
 
@@ -13,16 +19,50 @@ interface CompactionResult {
   compactedSummaries: number;
   compactedTokens: number;
   newSummary: string;
+  /** Id of the session rollup row, or null when there was nothing to compact. */
+  rollupId: number | null;
+}
+
+interface SummaryRow {
+  id: number;
+  summary: string;
+  token_count: number;
+  ai_model: string;
+  started_at: string;
+}
+
+/** First day (YYYY-MM-DD, UTC) of the day/ISO week containing `startedAt`. */
+function periodStart(level: 'day' | 'week', startedAt: string): string {
+  const day = startedAt.slice(0, 10);
+  if (level === 'day') return day;
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Last day (inclusive) of the period beginning at `start`. */
+function periodEnd(level: 'day' | 'week', start: string): string {
+  if (level === 'day') return start;
+  const d = new Date(`${start}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 6);
+  return d.toISOString().slice(0, 10);
 }
 
 export class CompactionService {
   private db: Database.Database;
   private tokenThreshold: number;
+  private summarizer: RollupSummarizer;
 
-  constructor(db: Database.Database, tokenThreshold = DEFAULT_TOKEN_THRESHOLD) {
+  constructor(
+    db: Database.Database,
+    tokenThreshold = DEFAULT_TOKEN_THRESHOLD,
+    summarizer: RollupSummarizer = createRollupSummarizer(),
+  ) {
     this.db = db;
     this.tokenThreshold = tokenThreshold;
+    this.summarizer = summarizer;
     ensureCompactedColumn(db);
+    ensureRollupColumns(db);
   }
 
   /**
@@ -57,24 +97,21 @@ export class CompactionService {
   }
 
   /**
-   * Compact all conversation summaries for a session into a single
-   * summary stored on the session record. Uses a transaction to ensure
-   * atomicity of the summary write and pending-state clear.
+   * Roll this session's top-level summaries into one session rollup row.
+   * Source rows are kept (marked compacted, parent_id -> rollup) so recall can
+   * zoom back down; a prior session rollup that is still top-level is folded
+   * in as a child. The rollup gist is also stored on the session record.
    */
   async compact(sessionId: string): Promise<CompactionResult> {
     this.preFlush(sessionId);
 
     const summaries = this.db.prepare(`
       SELECT id, summary, token_count, ai_model, started_at
-      FROM conversation_summaries WHERE session_id = ?
-      ORDER BY started_at ASC
-    `).all(sessionId) as {
-      id: number;
-      summary: string;
-      token_count: number;
-      ai_model: string;
-      started_at: string;
-    }[];
+      FROM conversation_summaries
+      WHERE session_id = ? AND parent_id IS NULL
+        AND COALESCE(rollup_level, 'session') = 'session'
+      ORDER BY started_at ASC, id ASC
+    `).all(sessionId) as SummaryRow[];
 
     // No source rows (e.g. recovery of a stale compactionPending flag after the
     // rows were already removed): clear the pending marker but never overwrite a
@@ -87,22 +124,20 @@ export class CompactionService {
       delete meta.compactionPending;
       this.db.prepare('UPDATE sessions SET metadata_json = ? WHERE id = ?')
         .run(JSON.stringify(meta), sessionId);
-      return { compactedSummaries: 0, compactedTokens: 0, newSummary: '' };
+      return { compactedSummaries: 0, compactedTokens: 0, newSummary: '', rollupId: null };
     }
 
     const totalTokens = summaries.reduce((sum, s) => sum + (s.token_count || 0), 0);
+    const gist = await this.summarizer.summarize(
+      summaries.map((s, i) => `[${i + 1}/${summaries.length}] (${s.ai_model}, ~${s.token_count} tokens): ${s.summary}`),
+      'session',
+    );
 
-    const compacted = summaries.map((s, i) =>
-      `[${i + 1}/${summaries.length}] (${s.ai_model}, ~${s.token_count} tokens): ${s.summary}`
-    ).join('\n\n');
-
-    // Collect the exact ids of the source rows to delete after merge.
-    const sourceIds = summaries.map((s) => s.id);
-
+    let rollupId = 0;
     const txn = this.db.transaction(() => {
       this.db.prepare(
         'UPDATE sessions SET summary = ? WHERE id = ?'
-      ).run(compacted, sessionId);
+      ).run(gist, sessionId);
 
       const existing = this.db.prepare(
         'SELECT metadata_json FROM sessions WHERE id = ?'
@@ -118,26 +153,9 @@ export class CompactionService {
         'UPDATE sessions SET metadata_json = ? WHERE id = ?'
       ).run(JSON.stringify(meta), sessionId);
 
-      // DELETE the exact source rows that were merged so they don't accumulate.
-      // Uses parameterised placeholders (one ? per id) to stay in the
-      // db.prepare().run() pattern (no db.exec).
-      if (sourceIds.length > 0) {
-        const placeholders = sourceIds.map(() => '?').join(',');
-        this.db.prepare(
-          `DELETE FROM conversation_summaries WHERE id IN (${placeholders})`
-        ).run(...sourceIds);
-      }
-
-      // Retain the consolidated history as ONE compacted row so it stays in the
-      // recall corpus (dokoro_session_recall reads conversation_summaries).
-      // compacted=1 keeps it out of needsCompaction's trigger, so it never
-      // self-retriggers; a later batch of summaries folds this row back in.
-      const latestStartedAt = summaries[summaries.length - 1].started_at;
-      this.db.prepare(`
-        INSERT INTO conversation_summaries
-          (session_id, ai_model, summary, token_count, started_at, compacted)
-        VALUES (?, 'compaction', ?, ?, ?, 1)
-      `).run(sessionId, compacted, totalTokens, latestStartedAt);
+      // The rollup stays in the recall corpus; compacted=1 keeps it (and its
+      // absorbed sources) out of needsCompaction's trigger.
+      rollupId = this.insertRollup('session', sessionId, gist, summaries, totalTokens);
     });
 
     txn();
@@ -145,10 +163,82 @@ export class CompactionService {
     return {
       compactedSummaries: summaries.length,
       compactedTokens: totalTokens,
-      newSummary: compacted,
+      newSummary: gist,
+      rollupId,
     };
   }
 
+  /**
+   * Build calendar rollups over completed periods (UTC): session rollups of a
+   * finished day become a 'day' row, together with the original summaries of
+   * sessions too small to have been compacted (rollup_level NULL, no parent);
+   * day rollups of a finished ISO week (Monday-based) become a 'week' row.
+   * Earlier top-level rollups of the same period are folded in as children,
+   * so a late session never leaves two competing gists. Returns the ids of
+   * the rollups created.
+   */
+  async rollupPeriods(now: Date = new Date()): Promise<number[]> {
+    const created: number[] = [];
+    const today = now.toISOString().slice(0, 10);
+    for (const [level, childLevel] of [['day', 'session'], ['week', 'day']] as const) {
+      const rows = this.db.prepare(`
+        SELECT id, summary, token_count, ai_model, started_at, rollup_level
+        FROM conversation_summaries
+        WHERE parent_id IS NULL
+          AND (rollup_level IN (?, ?)${level === 'day' ? ' OR rollup_level IS NULL' : ''})
+        ORDER BY started_at ASC, id ASC
+      `).all(childLevel, level) as Array<SummaryRow & { rollup_level: string | null }>;
+
+      const buckets = new Map<string, typeof rows>();
+      for (const row of rows) {
+        const key = periodStart(level, row.started_at);
+        if (periodEnd(level, key) >= today) continue; // period still open
+        const bucket = buckets.get(key) ?? [];
+        bucket.push(row);
+        buckets.set(key, bucket);
+      }
+
+      for (const [key, bucket] of buckets) {
+        // A lone rollup of this same level has nothing new to absorb.
+        if (!bucket.some((r) => r.rollup_level !== level)) continue;
+        const gist = await this.summarizer.summarize(
+          bucket.map((r) => `${r.rollup_level === level ? `(earlier ${level} rollup)` : `[${r.started_at}]`} ${r.summary}`),
+          level,
+        );
+        const tokens = bucket.reduce((sum, r) => sum + (r.token_count || 0), 0);
+        const id = this.db.transaction(() =>
+          this.insertRollup(level, null, `${level} of ${key}: ${gist}`, bucket, tokens),
+        )();
+        created.push(id);
+      }
+    }
+    return created;
+  }
+
+  /** Insert a rollup row and point its sources at it. Call inside a transaction. */
+  private insertRollup(
+    level: RollupLevel,
+    sessionId: string | null,
+    summary: string,
+    sources: SummaryRow[],
+    tokens: number,
+  ): number {
+    const sourceIds = sources.map((s) => s.id);
+    const latestStartedAt = sources[sources.length - 1].started_at;
+    const { lastInsertRowid } = this.db.prepare(`
+      INSERT INTO conversation_summaries
+        (session_id, ai_model, summary, token_count, started_at, compacted, rollup_level, source_ids_json)
+      VALUES (?, ?, ?, ?, ?, 1, ?, ?)
+    `).run(sessionId, this.summarizer.name, summary, tokens, latestStartedAt, level, JSON.stringify(sourceIds));
+    const rollupId = Number(lastInsertRowid);
+    // One ? per id keeps to the db.prepare().run() pattern (no db.exec).
+    const placeholders = sourceIds.map(() => '?').join(',');
+    this.db.prepare(
+      `UPDATE conversation_summaries SET parent_id = ?, compacted = 1 WHERE id IN (${placeholders})`
+    ).run(rollupId, ...sourceIds);
+    return rollupId;
+  }
+
   /**
    * Find sessions that were mid-compaction when the process last exited.
    * These sessions have compactionPending=true in their metadata and
@@ -0,0 +1,30 @@
+import { estimateTokens, packContext, type PackCandidate } from './context-pack.js';
+
+function candidate(layer: PackCandidate['layer'], source: string, text: string, score: number): PackCandidate {
+  return { layer, source, text, score, reason: `r-${source}` };
+}
+
+describe('packContext', () => {
+  it('keeps the best-scoring candidates that fit, grouped by layer in a fixed order', () => {
+    const pack = packContext([
+      candidate('episodic', 'summary#1', 'x'.repeat(40), 0.5),
+      candidate('working', 'block:plan', 'y'.repeat(40), 0.9),
+      candidate('entities', 'entity#1', 'z'.repeat(400), 0.8),
+      candidate('working', 'block:notes', 'w'.repeat(40), 0.2),
+    ], 60, { query: 'auth', sessionId: 's1', now: new Date('2026-06-01T00:00:00Z') });
+
+    expect(pack.text).toBe(`# Context pack: auth\n\n## Working memory (shared blocks)\n${'y'.repeat(40)}\n${'w'.repeat(40)}\n\n## Past sessions\n${'x'.repeat(40)}`);
+    expect(pack.event).toMatchObject({
+      event: 'context_inspect', sessionId: 's1', timestamp: '2026-06-01T00:00:00.000Z', budgetTokens: 60,
+    });
+    expect(pack.event.layers.map((l) => l.source)).toEqual(['block:plan', 'summary#1', 'block:notes']);
+    expect(pack.event.layers[0]).toMatchObject({ name: 'working', reason: 'r-block:plan', score: 0.9, tokenEstimate: 10 });
+    expect(pack.event.dropped).toEqual([{ source: 'entity#1', reason: 'over budget (r-entity#1)', score: 0.8, tokenEstimate: 100 }]);
+    expect(pack.event.totalEstimate).toBeLessThanOrEqual(60);
+  });
+
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('')).toBe(1);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+  });
+});
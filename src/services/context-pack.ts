@@ -0,0 +1,111 @@
+/**
+ * Context Pack
+ *
+ * Token-budgeted assembly of one context block from every memory layer
+ * (dokoro_context_pack). Gathering and scoring happen in the tool; this
+ * module only packs and renders:
+ *
+ * - candidates are taken best score first and kept while they fit the
+ *   budget; anything that no longer fits is dropped, not truncated
+ * - the packed block lists kept candidates grouped by layer, in LAYER_ORDER
+ * - the decision is returned in the dokoro_context_log event shape (layers
+ *   with reason/score/tokenEstimate, plus dropped) so it can be inspected
+ */
+
+import type { ContextInspectEvent, ContextInspectLayer } from '../tools/context-inspect-tools.js';
+
+export const LAYER_ORDER = ['working', 'plan', 'questions', 'episodic', 'entities', 'feedback'] as const;
+export type PackLayer = (typeof LAYER_ORDER)[number];
+
+export const LAYER_TITLES: Record<PackLayer, string> = {
+  working: 'Working memory (shared blocks)',
+  plan: 'Active plan items',
+  questions: 'Open questions',
+  episodic: 'Past sessions',
+  entities: 'Entities',
+  feedback: 'Reliable tools',
+};
+
+export interface PackCandidate {
+  layer: PackLayer;
+  /** Where it came from, e.g. `block:plan`, `summary#12`. */
+  source: string;
+  text: string;
+  score: number;
+  /** Why it scored what it did. */
+  reason: string;
+}
+
+export interface ContextPack {
+  text: string;
+  event: ContextInspectEvent;
+}
+
+const SNIPPET_CHARS = 200;
+
+/** Rough token estimate (~4 characters per token), never below 1. */
+export function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+/** Round scores for display and storage. */
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Greedily pack `candidates` into `budgetTokens`. Section headings are
+ * charged to the budget the first time a layer gets an entry.
+ */
+export function packContext(
+  candidates: PackCandidate[],
+  budgetTokens: number,
+  meta: { query: string; sessionId?: string; now?: Date },
+): ContextPack {
+  const header = `# Context pack: ${meta.query}`;
+  let used = estimateTokens(header);
+  const kept = new Map<PackLayer, PackCandidate[]>();
+  const layers: ContextInspectLayer[] = [];
+  const dropped: NonNullable<ContextInspectEvent['dropped']> = [];
+
+  const ranked = [...candidates].sort((a, b) => b.score - a.score || a.source.localeCompare(b.source));
+  for (const c of ranked) {
+    const tokens = estimateTokens(c.text);
+    const heading = kept.has(c.layer) ? 0 : estimateTokens(`## ${LAYER_TITLES[c.layer]}`);
+    if (used + tokens + heading > budgetTokens) {
+      dropped.push({ source: c.source, reason: `over budget (${c.reason})`, score: round(c.score), tokenEstimate: tokens });
+      continue;
+    }
+    used += tokens + heading;
+    if (!kept.has(c.layer)) kept.set(c.layer, []);
+    kept.get(c.layer)!.push(c);
+    layers.push({
+      name: c.layer,
+      reason: c.reason,
+      score: round(c.score),
+      tokenEstimate: tokens,
+      source: c.source,
+      contentSnippet: c.text.slice(0, SNIPPET_CHARS),
+    });
+  }
+
+  const sections = [header];
+  for (const layer of LAYER_ORDER) {
+    const entries = kept.get(layer);
+    if (!entries) continue;
+    sections.push(`## ${LAYER_TITLES[layer]}\n${entries.map((e) => e.text).join('\n')}`);
+  }
+
+  return {
+    text: sections.join('\n\n'),
+    event: {
+      event: 'context_inspect',
+      ...(meta.sessionId ? { sessionId: meta.sessionId } : {}),
+      timestamp: (meta.now ?? new Date()).toISOString(),
+      budgetTokens,
+      totalEstimate: used,
+      layers,
+      dropped,
+    },
+  };
+}
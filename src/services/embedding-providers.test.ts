@@ -0,0 +1,121 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import {
+  LexicalHashEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  createEmbeddingProvider,
+  loadEmbeddingConfig,
+} from './embedding-providers.js';
+import { EmbeddingService } from './embedding-service.js';
+import { EmbeddingCache } from './embedding-cache.js';
+import { cosineSimilarity } from '../utils/vector-math.js';
+
+describe('LexicalHashEmbeddingProvider', () => {
+  const provider = new LexicalHashEmbeddingProvider(128);
+
+  it('is deterministic, normalised and sized by dimensions', async () => {
+    const a = await provider.embed('Refactor the vector index');
+    const b = await provider.embed('Refactor the vector index');
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(128);
+    expect(Math.sqrt(a.reduce((s, v) => s + v * v, 0))).toBeCloseTo(1, 6);
+    expect(provider.id).toBe('lexical:hash-ngram-128');
+  });
+
+  it('scores overlapping text above unrelated text', async () => {
+    const q = await provider.embed('rebuild the search index');
+    const near = await provider.embed('the search index needs a rebuild');
+    const far = await provider.embed('holiday photos from the beach');
+    expect(cosineSimilarity(q, near)).toBeGreaterThan(cosineSimilarity(q, far));
+  });
+});
+
+describe('OpenAICompatibleEmbeddingProvider', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('posts to /v1/embeddings and reads data[0].embedding', async () => {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(JSON.stringify({ data: [{ embedding: [0.1, 0.2, 0.3] }] }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleEmbeddingProvider('http://localhost:8080/v1/', 'bge-small', 'sk-test');
+    expect(await provider.embed('hello')).toEqual([0.1, 0.2, 0.3]);
+    expect(calls[0].url).toBe('http://localhost:8080/v1/embeddings');
+    expect(JSON.parse(String(calls[0].init.body))).toEqual({ model: 'bge-small', input: 'hello' });
+    expect((calls[0].init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(provider.id).toBe('openai:bge-small');
+  });
+
+  it('rejects on an HTTP error', async () => {
+    globalThis.fetch = (async () => new Response('nope', { status: 500 })) as unknown as typeof fetch;
+    await expect(new OpenAICompatibleEmbeddingProvider('http://x').embed('hello')).rejects.toThrow(/500/);
+  });
+});
+
+describe('loadEmbeddingConfig', () => {
+  let dir: string;
+  const saved = { ...process.env };
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-embed-'));
+    delete process.env.DOKORO_EMBEDDING_CONFIG;
+    delete process.env.DOKORO_EMBEDDING_PROVIDER;
+    delete process.env.DOKORO_EMBEDDING_MODEL;
+    delete process.env.DOKORO_EMBEDDING_URL;
+  });
+  afterEach(() => {
+    process.env = { ...saved };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('defaults to Ollama nomic-embed-text', () => {
+    expect(loadEmbeddingConfig(dir)).toEqual({ provider: 'ollama' });
+    expect(createEmbeddingProvider(loadEmbeddingConfig(dir)).id).toBe('ollama:nomic-embed-text');
+  });
+
+  it('reads the project embedding.json', () => {
+    fs.writeFileSync(path.join(dir, 'embedding.json'), JSON.stringify({ provider: 'lexical', dimensions: 64 }));
+    const provider = createEmbeddingProvider(loadEmbeddingConfig(dir));
+    expect(provider).toBeInstanceOf(LexicalHashEmbeddingProvider);
+    expect(provider.id).toBe('lexical:hash-ngram-64');
+  });
+
+  it('falls back to the DOKORO_EMBEDDING_* environment', () => {
+    process.env.DOKORO_EMBEDDING_PROVIDER = 'openai';
+    process.env.DOKORO_EMBEDDING_MODEL = 'e5-small';
+    process.env.DOKORO_EMBEDDING_URL = 'http://localhost:8000';
+    expect(createEmbeddingProvider(loadEmbeddingConfig(dir)).id).toBe('openai:e5-small');
+  });
+
+  it('rejects unknown providers and keys', () => {
+    fs.writeFileSync(path.join(dir, 'embedding.json'), JSON.stringify({ provider: 'cohere' }));
+    expect(() => loadEmbeddingConfig(dir)).toThrow(/Invalid embedding config/);
+    fs.writeFileSync(path.join(dir, 'embedding.json'), JSON.stringify({ provider: 'lexical', api_key: 'x' }));
+    expect(() => loadEmbeddingConfig(dir)).toThrow(/Unrecognized key/);
+  });
+});
+
+describe('EmbeddingService with providers', () => {
+  it('keys the cache by model so switching providers never reuses vectors', async () => {
+    const db = new Database(':memory:');
+    const cache = new EmbeddingCache(db);
+    const small = new EmbeddingService(new LexicalHashEmbeddingProvider(32), cache);
+    const large = new EmbeddingService(new LexicalHashEmbeddingProvider(64), cache);
+    expect((await small.embed('same text')).embedding).toHaveLength(32);
+    expect((await large.embed('same text')).embedding).toHaveLength(64);
+    expect(large.modelId).toBe('lexical:hash-ngram-64');
+    db.close();
+  });
+
+  it('reports the Ollama model id', () => {
+    expect(new EmbeddingService(new OllamaEmbeddingProvider('http://x', 'mxbai-embed-large')).modelId)
+      .toBe('ollama:mxbai-embed-large');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Embedding Providers
+ *
+ * EmbeddingService turns text into vectors through one of these providers,
+ * chosen per project by `<DOKORO_PATH>/embedding.json` (or
+ * DOKORO_EMBEDDING_CONFIG):
+ *
+ *   { "provider": "ollama", "model": "nomic-embed-text", "url": "http://localhost:11434" }
+ *   { "provider": "openai", "model": "bge-small-en", "url": "http://localhost:8080", "api_key_env": "EMBED_KEY" }
+ *   { "provider": "lexical", "dimensions": 256 }
+ *
+ * - ollama: Ollama's /api/embed (the default; OLLAMA_URL, nomic-embed-text)
+ * - openai: any OpenAI-compatible /v1/embeddings endpoint — OpenAI itself, or a
+ *   local llama.cpp / vLLM / LM Studio server
+ * - lexical: a fallback for machines with no embedding server, not a language
+ *   model. Signed feature hashing of word unigrams, word bigrams and character
+ *   trigrams, L2-normalised, computed in-process with no download. Vectors are
+ *   close when texts share wording, so "vector" search degrades to fuzzy
+ *   keyword matching; for real semantic search run a model behind ollama or
+ *   openai (llama.cpp, LM Studio and vLLM all serve one on CPU).
+ *
+ * Without a project file, DOKORO_EMBEDDING_PROVIDER / _MODEL / _URL apply.
+ * Each provider has an `id` (`<provider>:<model>`) that is recorded with every
+ * indexed doc, so vectors from different models are never mixed.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+
+export interface EmbeddingProvider {
+  /** Provider kind: 'ollama' | 'openai' | 'lexical'. */
+  readonly kind: EmbeddingProviderKind;
+  readonly model: string;
+  /** Stable identity recorded on indexed docs, e.g. `ollama:nomic-embed-text`. */
+  readonly id: string;
+  embed(text: string): Promise<number[]>;
+  healthCheck(): Promise<boolean>;
+}
+
+export type EmbeddingProviderKind = 'ollama' | 'openai' | 'lexical';
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'nomic-embed-text';
+const DEFAULT_OPENAI_URL = 'https://api.openai.com';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_LEXICAL_DIMENSIONS = 256;
+
+/** Per-request timeout for HTTP providers (OLLAMA_TIMEOUT_MS, default 5s). */
+function requestTimeoutMs(): number {
+  return Number(process.env.OLLAMA_TIMEOUT_MS) || 5000;
+}
+
+/**
+ * fetch with a hard timeout: a dropped connection would otherwise hang the
+ * request path indefinitely (see #19). Callers catch and fall back.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), requestTimeoutMs());
+  if (typeof timer.unref === 'function') timer.unref();
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'ollama' as const;
+  readonly id: string;
+
+  constructor(private readonly url = process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL, readonly model = DEFAULT_OLLAMA_MODEL) {
+    this.id = `ollama:${model}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetchWithTimeout(`${this.url}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: text }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Embedding] Ollama error: ${response.status} - ${errorText.slice(0, 200)}`);
+      throw new Error(`Ollama embedding failed: ${response.statusText}`);
+    }
+    const data = await response.json() as { embeddings: number[][] };
+    const embedding = data.embeddings?.[0];
+    if (!embedding || embedding.length === 0) throw new Error('No embedding returned from Ollama');
+    return embedding;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetchWithTimeout(`${this.url}/api/tags`);
+      if (!response.ok) return false;
+      const data = await response.json() as { models: { name: string }[] };
+      return data.models.some(m => m.name.includes(this.model));
+    } catch {
+      return false;
+    }
+  }
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'openai' as const;
+  readonly id: string;
+  private readonly url: string;
+
+  constructor(url = DEFAULT_OPENAI_URL, readonly model = DEFAULT_OPENAI_MODEL, private readonly apiKey?: string) {
+    // Accept both the server root and a base that already ends in /v1.
+    this.url = url.replace(/\/+$/, '').replace(/\/v1$/, '');
+    this.id = `openai:${model}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await fetchWithTimeout(`${this.url}/v1/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: text }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Embedding] OpenAI-compatible error: ${response.status} - ${errorText.slice(0, 200)}`);
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json() as { data?: Array<{ embedding: number[] }> };
+    const embedding = data.data?.[0]?.embedding;
+    if (!embedding || embedding.length === 0) throw new Error('No embedding returned from the embeddings endpoint');
+    return embedding;
+  }
+
+  /** Healthy when the endpoint embeds a probe string. */
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.embed('health check')).length > 0;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Lexical fallback: hashes words and character trigrams into a fixed-size
+ * vector. It matches shared wording, not meaning (see the header).
+ */
+export class LexicalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'lexical' as const;
+  readonly model: string;
+  readonly id: string;
+
+  constructor(private readonly dimensions = DEFAULT_LEXICAL_DIMENSIONS) {
+    this.model = `hash-ngram-${dimensions}`;
+    this.id = `lexical:${this.model}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const add = (feature: string, weight: number) => {
+      const h = crypto.createHash('md5').update(feature).digest();
+      const index = h.readUInt32LE(0) % this.dimensions;
+      vector[index] += (h[4] & 1 ? 1 : -1) * weight;
+    };
+    words.forEach((w, i) => {
+      add(`w:${w}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${w}`, 0.5);
+      const padded = ` ${w} `;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    });
+    const norm = Math.sqrt(vector.reduce((s, v) => s + v * v, 0));
+    if (norm === 0) throw new Error('Nothing to embed');
+    return vector.map((v) => v / norm);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+const configSchema = z.object({
+  provider: z.enum(['ollama', 'openai', 'lexical']),
+  model: z.string().min(1).optional(),
+  url: z.string().min(1).optional(),
+  /** Name of the env var holding the API key (keys never live in the project file). */
+  api_key_env: z.string().min(1).optional(),
+  dimensions: z.number().int().min(16).max(4096).optional(),
+}).strict();
+
+export type EmbeddingConfig = z.infer<typeof configSchema>;
+
+export function embeddingConfigPath(dokoroPath: string = DOKORO_PATH): string {
+  return process.env.DOKORO_EMBEDDING_CONFIG || path.join(dokoroPath, 'embedding.json');
+}
+
+/**
+ * The project's embedding config: embedding.json when present, else the
+ * DOKORO_EMBEDDING_* environment, else Ollama defaults. An invalid file throws
+ * rather than silently indexing with a different model.
+ */
+export function loadEmbeddingConfig(dokoroPath: string = DOKORO_PATH): EmbeddingConfig {
+  const file = embeddingConfigPath(dokoroPath);
+  let text: string | null = null;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw new Error(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+  if (text !== null) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Invalid embedding config ${file}: ${(e as Error).message}`);
+    }
+    const parsed = configSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+      throw new Error(`Invalid embedding config ${file}: ${issues.join('; ')}`);
+    }
+    return parsed.data;
+  }
+  const env = configSchema.safeParse({
+    provider: process.env.DOKORO_EMBEDDING_PROVIDER || 'ollama',
+    model: process.env.DOKORO_EMBEDDING_MODEL || undefined,
+    url: process.env.DOKORO_EMBEDDING_URL || undefined,
+  });
+  if (!env.success) throw new Error(`Invalid DOKORO_EMBEDDING_PROVIDER "${process.env.DOKORO_EMBEDDING_PROVIDER}" (ollama, openai or lexical)`);
+  return env.data;
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config.url ?? (process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL), config.model ?? DEFAULT_OLLAMA_MODEL);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(
+        config.url ?? DEFAULT_OPENAI_URL,
+        config.model ?? DEFAULT_OPENAI_MODEL,
+        config.api_key_env ? process.env[config.api_key_env] : process.env.OPENAI_API_KEY,
+      );
+    case 'lexical':
+      return new LexicalHashEmbeddingProvider(config.dimensions ?? DEFAULT_LEXICAL_DIMENSIONS);
+  }
+}
+
+/** The provider configured for a project (default: the current one). */
+export function resolveEmbeddingProvider(dokoroPath: string = DOKORO_PATH): EmbeddingProvider {
+  return createEmbeddingProvider(loadEmbeddingConfig(dokoroPath));
+}
@@ -6,16 +6,21 @@
  * the vector-store code path (vector-service.ts) lazy-loads LanceDB.
  *
  * Handles:
- * - Embeddings via Ollama (nomic-embed-text)
- * - Chunking logic (whole file ≤2k tokens, else 512-token line-aware sliding windows)
+ * - Embeddings via the project's EmbeddingProvider (Ollama by default; see
+ *   embedding-providers.ts)
+ * - Chunking logic (whole file ≤2k tokens, else ~512-token chunks: line-aware
+ *   sliding windows, or structure-aware for markdown and code — see
+ *   chunking-strategies.ts)
  */
 
 import * as crypto from 'node:crypto';
 import { EmbeddingCache } from './embedding-cache.js';
+import { type EmbeddingProvider, resolveEmbeddingProvider } from './embedding-providers.js';
+import { type ChunkStrategy, chunkStructured } from './chunking-strategies.js';
+
+export type { ChunkStrategy };
 
 // Constants
-const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
-const EMBEDDING_MODEL = 'nomic-embed-text';
 const MAX_TOKENS_WHOLE_FILE = 2000;
 const CHUNK_SIZE_TOKENS = 512;
 const CHUNK_OVERLAP_TOKENS = 128;
@@ -48,16 +53,19 @@ export interface Chunk {
 // ═══════════════════════════════════════════════════════════════════════════
 
 export class EmbeddingService {
-  private ollamaUrl: string;
-  private model: string;
+  private provider: EmbeddingProvider;
   private cache?: EmbeddingCache;
 
-  constructor(ollamaUrl = OLLAMA_URL, model = EMBEDDING_MODEL, cache?: EmbeddingCache) {
-    this.ollamaUrl = ollamaUrl;
-    this.model = model;
+  constructor(provider: EmbeddingProvider = resolveEmbeddingProvider(), cache?: EmbeddingCache) {
+    this.provider = provider;
     this.cache = cache;
   }
 
+  /** Identity of the model behind this service, e.g. `ollama:nomic-embed-text`. */
+  get modelId(): string {
+    return this.provider.id;
+  }
+
   async embed(text: string): Promise<EmbeddingResult> {
     const cleanText = text
       .replace(/\0/g, '')
@@ -69,59 +77,28 @@ export class EmbeddingService {
       throw new Error('Empty text after cleaning');
     }
 
-    // Check cache before calling Ollama
+    // Check cache before calling the provider. The key includes the model so
+    // switching providers never serves another model's vectors.
     if (this.cache) {
-      const contentHash = crypto.createHash('sha256').update(cleanText).digest('hex');
+      const contentHash = crypto.createHash('sha256').update(`${this.provider.id}\0${cleanText}`).digest('hex');
       const cached = this.cache.get(contentHash);
       if (cached) {
         return { embedding: cached.embedding, tokenCount: cached.tokenCount };
       }
 
-      // Cache miss - call Ollama and store result
-      const result = await this.callOllama(cleanText);
+      // Cache miss - call the provider and store result
+      const result = await this.callProvider(cleanText);
       this.cache.set(contentHash, result.embedding, result.tokenCount);
       return result;
     }
 
-    return this.callOllama(cleanText);
+    return this.callProvider(cleanText);
   }
 
-  private async callOllama(cleanText: string): Promise<EmbeddingResult> {
-    // Fast-fail if Ollama is unreachable (a dropped connection would otherwise
-    // hang the request path indefinitely — see #19). Callers catch and fall back.
-    const timeoutMs = Number(process.env.OLLAMA_TIMEOUT_MS) || 5000;
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
-    if (typeof timer.unref === 'function') timer.unref();
-    try {
-      const response = await fetch(`${this.ollamaUrl}/api/embed`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: this.model,
-          input: cleanText,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[Embedding] Ollama error: ${response.status} - ${errorText.slice(0, 200)}`);
-        throw new Error(`Ollama embedding failed: ${response.statusText}`);
-      }
-
-      const data = await response.json() as { embeddings: number[][] };
-      const embedding = data.embeddings[0];
-
-      if (!embedding || embedding.length === 0) {
-        throw new Error('No embedding returned from Ollama');
-      }
-
-      const tokenCount = Math.ceil(cleanText.length / APPROX_CHARS_PER_TOKEN);
-      return { embedding, tokenCount };
-    } finally {
-      clearTimeout(timer);
-    }
+  private async callProvider(cleanText: string): Promise<EmbeddingResult> {
+    const embedding = await this.provider.embed(cleanText);
+    const tokenCount = Math.ceil(cleanText.length / APPROX_CHARS_PER_TOKEN);
+    return { embedding, tokenCount };
   }
 
   async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
@@ -134,21 +111,7 @@ export class EmbeddingService {
   }
 
   async healthCheck(): Promise<boolean> {
-    const timeoutMs = Number(process.env.OLLAMA_TIMEOUT_MS) || 5000;
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
-    if (typeof timer.unref === 'function') timer.unref();
-    try {
-      const response = await fetch(`${this.ollamaUrl}/api/tags`, { signal: controller.signal });
-      if (!response.ok) return false;
-
-      const data = await response.json() as { models: { name: string }[] };
-      return data.models.some(m => m.name.includes(this.model));
-    } catch {
-      return false;
-    } finally {
-      clearTimeout(timer);
-    }
+    return this.provider.healthCheck();
   }
 }
 
@@ -157,7 +120,11 @@ export class EmbeddingService {
 // ═══════════════════════════════════════════════════════════════════════════
 
 export class ChunkingService {
-  chunk(content: string, docId: string): Chunk[] {
+  /**
+   * Split `content` for embedding. Small docs stay whole whatever the
+   * strategy; pick one per doc with chunkStrategyFor (chunking-strategies.ts).
+   */
+  chunk(content: string, docId: string, strategy: ChunkStrategy = 'lines'): Chunk[] {
     const lines = content.split('\n');
     const totalChars = content.length;
     const estimatedTokens = Math.ceil(totalChars / APPROX_CHARS_PER_TOKEN);
@@ -177,8 +144,12 @@ export class ChunkingService {
       }];
     }
 
-    const chunks: Chunk[] = [];
     const chunkBudget = CHUNK_SIZE_TOKENS * APPROX_CHARS_PER_TOKEN;
+    if (strategy !== 'lines') {
+      return chunkStructured(content, docId, strategy, chunkBudget, APPROX_CHARS_PER_TOKEN);
+    }
+
+    const chunks: Chunk[] = [];
     const overlapBudget = CHUNK_OVERLAP_TOKENS * APPROX_CHARS_PER_TOKEN;
 
     let lineIdx = 0;
@@ -1,4 +1,5 @@
 import { EmbeddingService } from './embedding-service.js';
+import { OllamaEmbeddingProvider } from './embedding-providers.js';
 
 describe('EmbeddingService timeout', () => {
   const realFetch = globalThis.fetch;
@@ -17,7 +18,7 @@ describe('EmbeddingService timeout', () => {
         );
       })) as unknown as typeof fetch;
 
-    const svc = new EmbeddingService('http://10.255.255.1:11434'); // unroutable
+    const svc = new EmbeddingService(new OllamaEmbeddingProvider('http://10.255.255.1:11434')); // unroutable
     const started = Date.now();
     await expect(svc.embed('hello world')).rejects.toThrow();
     expect(Date.now() - started).toBeLessThan(1000); // failed fast, not hung
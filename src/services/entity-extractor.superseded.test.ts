@@ -4,8 +4,8 @@ import {
   EntityExtractor,
   RelationDetector,
   EntityPersistence,
-  FUNCTIONAL_RELATION_TYPES,
 } from './entity-extractor.js';
+import { DEFAULT_ONTOLOGY } from './entity-ontology.js';
 
 function makeDb(): Database.Database {
   const db = new Database(':memory:');
@@ -17,8 +17,8 @@ function makeDb(): Database.Database {
   return db;
 }
 
-it('registers superseded_by as a functional relation', () => {
-  expect(FUNCTIONAL_RELATION_TYPES.has('superseded_by')).toBe(true);
+it('registers superseded_by as a single-valued relation', () => {
+  expect(DEFAULT_ONTOLOGY.relationTypes.superseded_by.cardinality).toBe('single');
 });
 
 it('extracts "X replaced by Y" as X superseded_by Y (not inverted)', () => {
@@ -41,7 +41,7 @@ it('closes the prior superseded_by window when the successor changes', () => {
 
   const open = db
     .prepare(
-      "SELECT target_id FROM entity_relations WHERE source_id=1 AND relation_type='superseded_by' AND valid_to IS NULL",
+      "SELECT target_id FROM entity_relations WHERE source_id=1 AND relation_type='superseded_by' AND valid_to IS NULL AND retracted_at IS NULL",
     )
     .all() as Array<{ target_id: number }>;
   const closed = db
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { canonicalizeRelation, getOntology, relationViolation, type Ontology } from './entity-ontology.js';
 
 /**
  * EntityExtractor — regex-based entity extraction with span merging
@@ -13,9 +14,21 @@ import Database from 'better-sqlite3';
 // Types
 // ═══════════════════════════════════════════════════════════════════════════
 
-export type EntityType = 'person' | 'project' | 'file' | 'service' | 'component' | 'concept';
+/** Entity types the regex extractor emits (the ontology's built-ins). */
+export type BuiltinEntityType = 'person' | 'project' | 'file' | 'service' | 'component' | 'concept';
 
-export type RelationType = 'mentions' | 'implements' | 'depends_on' | 'blocks' | 'authored_by' | 'superseded_by';
+/**
+ * Entity type name. Projects declare more in the ontology (entity-ontology.ts);
+ * EntityPersistence only writes types the ontology knows.
+ */
+export type EntityType = string;
+
+/**
+ * Relation type name. The accepted names and their semantics (cardinality,
+ * inverse, allowed endpoint types) come from the ontology — see
+ * entity-ontology.ts; the regex detector below emits only built-in names.
+ */
+export type RelationType = string;
 
 export interface ExtractedEntity {
   type: EntityType;
@@ -38,7 +51,7 @@ export interface ExtractedRelation {
 }
 
 interface RawSpan {
-  type: EntityType;
+  type: BuiltinEntityType;
   name: string;
   start: number;
   end: number;
@@ -55,7 +68,7 @@ interface CodeFenceRange {
 // ═══════════════════════════════════════════════════════════════════════════
 
 /** Higher number = higher priority when spans overlap */
-const TYPE_PRECEDENCE: Record<EntityType, number> = {
+const TYPE_PRECEDENCE: Record<BuiltinEntityType, number> = {
   file: 6,
   project: 5,
   service: 4,
@@ -632,33 +645,43 @@ export class RelationDetector {
 // EntityPersistence
 // ═══════════════════════════════════════════════════════════════════════════
 
-// Relations where a source has at most ONE valid target at a time. Only these
-// evict prior open windows on contradiction. The currently-extracted types
-// (implements, depends_on, blocks, authored_by) are all many-valued, so they are
-// deliberately excluded — preventing false invalidation. 'superseded_by' is
-// single-valued (an entity has at most one current successor: "X replaced by Y"),
-// so a newer successor closes the prior open window.
-export const FUNCTIONAL_RELATION_TYPES = new Set<string>(['superseded_by']);
-
 /**
  * Persists extracted entities and relations to SQLite.
  *
  * Uses better-sqlite3 transactions for atomicity. All SQL is parameterized.
  * Idempotent: deletes old doc_entities before re-inserting.
  * Stores raw surface form in metadata_json for provenance.
+ * Relation writes are checked against the ontology: unknown relation types and
+ * disallowed endpoint types are rejected, inverse names are stored in their
+ * declared direction, and only 'single'-cardinality types evict prior windows.
  */
 export class EntityPersistence {
   private db: Database.Database;
+  private now: () => Date;
+  private ontology: Ontology;
+  private stmtGetEntityType: Database.Statement;
   private stmtUpsertEntity: Database.Statement;
   private stmtGetEntityId: Database.Statement;
+  private stmtResolveAlias: Database.Statement;
   private stmtDeleteDocEntities: Database.Statement;
   private stmtInsertDocEntity: Database.Statement;
   private stmtFindOpenSameTuple: Database.Statement;
-  private stmtCloseOpenForSourceType: Database.Statement;
+  private stmtFindOpenForSourceType: Database.Statement;
+  private stmtRetractRow: Database.Statement;
+  private stmtRecordClosedCopy: Database.Statement;
+  private stmtRetractTuple: Database.Statement;
   private stmtInsertRelation: Database.Statement;
 
-  constructor(db: Database.Database) {
+  /**
+   * @param now transaction-time clock (when dokoro learns/retracts a fact);
+   *            injectable so tests can pin recorded_at / retracted_at.
+   * @param ontology relation semantics; defaults to the project ontology.
+   */
+  constructor(db: Database.Database, now: () => Date = () => new Date(), ontology: Ontology = getOntology()) {
     this.db = db;
+    this.now = now;
+    this.ontology = ontology;
+    this.stmtGetEntityType = db.prepare('SELECT type FROM entities WHERE id = ?');
     this.stmtUpsertEntity = db.prepare(`
       INSERT INTO entities (type, name, canonical_name, metadata_json, updated_at)
       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
@@ -672,33 +695,79 @@ export class EntityPersistence {
     this.stmtGetEntityId = db.prepare(
       'SELECT id FROM entities WHERE type = ? AND canonical_name = ?'
     );
+    // Names merged away by dokoro_entity_merge resolve to their survivor.
+    this.stmtResolveAlias = db.prepare(
+      'SELECT entity_id AS id FROM entity_aliases WHERE type = ? AND canonical_name = ?'
+    );
     this.stmtDeleteDocEntities = db.prepare(
       'DELETE FROM doc_entities WHERE doc_id = ?'
     );
     this.stmtInsertDocEntity = db.prepare(
       'INSERT OR IGNORE INTO doc_entities (doc_id, entity_id, relation_type, context, confidence) VALUES (?, ?, ?, ?, ?)'
     );
-    // Bi-temporal relation write path (BUG-2, BUG-7):
+    // Bi-temporal relation write path (BUG-2, BUG-7). Only still-believed rows
+    // (retracted_at IS NULL) take part; retracted rows are audit history.
     // 1. Check if the exact same open tuple already exists (idempotent re-assert).
     this.stmtFindOpenSameTuple = db.prepare(
-      'SELECT id FROM entity_relations WHERE source_id=? AND target_id=? AND relation_type=? AND valid_to IS NULL'
+      'SELECT id FROM entity_relations WHERE source_id=? AND target_id=? AND relation_type=? AND valid_to IS NULL AND retracted_at IS NULL'
     );
-    // 2. Close any currently-open row for the same (source, relation_type) where
-    //    the target differs — this is the "contradiction closes a window" step.
-    this.stmtCloseOpenForSourceType = db.prepare(
-      'UPDATE entity_relations SET valid_to=? WHERE source_id=? AND relation_type=? AND valid_to IS NULL AND target_id<>?'
+    // 2. Find currently-open rows for the same (source, relation_type) where the
+    //    target differs — the "contradiction closes a window" step. Closing is
+    //    itself a change of belief, so the open row is retracted and a closed
+    //    copy is recorded rather than updating valid_to in place.
+    this.stmtFindOpenForSourceType = db.prepare(
+      'SELECT id FROM entity_relations WHERE source_id=? AND relation_type=? AND valid_to IS NULL AND retracted_at IS NULL AND target_id<>?'
+    );
+    this.stmtRetractRow = db.prepare(
+      'UPDATE entity_relations SET retracted_at=? WHERE id=?'
+    );
+    this.stmtRecordClosedCopy = db.prepare(`
+      INSERT INTO entity_relations (source_id, target_id, relation_type, weight, metadata_json, valid_from, valid_to, recorded_at)
+      SELECT source_id, target_id, relation_type, weight, metadata_json, valid_from, ?, ? FROM entity_relations WHERE id=?
+    `);
+    this.stmtRetractTuple = db.prepare(
+      'UPDATE entity_relations SET retracted_at=? WHERE source_id=? AND target_id=? AND relation_type=? AND retracted_at IS NULL'
     );
     // 3. Insert the new open fact.
     this.stmtInsertRelation = db.prepare(
-      'INSERT INTO entity_relations (source_id, target_id, relation_type, weight, valid_from, valid_to) VALUES (?,?,?,?,?,NULL)'
+      'INSERT INTO entity_relations (source_id, target_id, relation_type, weight, valid_from, valid_to, recorded_at) VALUES (?,?,?,?,?,NULL,?)'
     );
   }
 
+  private recordedAt(): string {
+    return this.now().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  /**
+   * Resolve a relation to its stored form and check it against the ontology.
+   * Returns the reason as `violation` when the write must be rejected.
+   */
+  private checkRelation(
+    sourceId: number,
+    targetId: number,
+    relationType: string,
+  ): { sourceId: number; targetId: number; relationType: string } | { violation: string } {
+    const canonical = canonicalizeRelation(this.ontology, relationType, sourceId, targetId);
+    if (!canonical) return { violation: `unknown relation type "${relationType}"` };
+    const source = this.stmtGetEntityType.get(canonical.source) as { type: string } | undefined;
+    const target = this.stmtGetEntityType.get(canonical.target) as { type: string } | undefined;
+    if (!source) return { violation: `entity ${canonical.source} not found` };
+    if (!target) return { violation: `entity ${canonical.target} not found` };
+    const violation = relationViolation(this.ontology, canonical.relationType, source.type, target.type);
+    if (violation) return { violation };
+    return { sourceId: canonical.source, targetId: canonical.target, relationType: canonical.relationType };
+  }
+
   /**
    * Upsert a single entity relation with bi-temporal semantics:
+   * - The relation is validated against the ontology (throws when rejected)
+   *   and stored in its declared direction.
    * - If the same open (source, target, relation_type) already exists, no-op.
-   * - Otherwise close any open row for the same (source, relation_type) with a
-   *   different target (contradiction), then insert a new open row.
+   * - Otherwise, for a 'single'-cardinality type, close any open row for the
+   *   same (source, relation_type) with a different target (contradiction),
+   *   then insert a new open row.
+   * validFrom is valid time (defaults to now); recorded_at is always the
+   * transaction-time clock.
    */
   upsertRelation(
     sourceId: number,
@@ -707,28 +776,66 @@ export class EntityPersistence {
     weight: number,
     validFrom?: string,
   ): void {
-    const now = validFrom ?? new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const checked = this.checkRelation(sourceId, targetId, relationType);
+    if ('violation' in checked) throw new Error(`Relation rejected: ${checked.violation}`);
+    this.writeRelation(checked.sourceId, checked.targetId, checked.relationType, weight, validFrom);
+  }
+
+  private writeRelation(
+    sourceId: number,
+    targetId: number,
+    relationType: string,
+    weight: number,
+    validFrom?: string,
+  ): void {
+    const recordedAt = this.recordedAt();
+    const from = validFrom ?? recordedAt;
     if (this.stmtFindOpenSameTuple.get(sourceId, targetId, relationType)) return; // already open — idempotent
-    if (FUNCTIONAL_RELATION_TYPES.has(relationType)) {
-      this.stmtCloseOpenForSourceType.run(now, sourceId, relationType, targetId);
+    if (this.ontology.relationTypes[relationType].cardinality === 'single') {
+      const open = this.stmtFindOpenForSourceType.all(sourceId, relationType, targetId) as Array<{ id: number }>;
+      for (const { id } of open) {
+        this.stmtRetractRow.run(recordedAt, id);
+        this.stmtRecordClosedCopy.run(from, recordedAt, id);
+      }
     }
-    this.stmtInsertRelation.run(sourceId, targetId, relationType, weight, now);
+    this.stmtInsertRelation.run(sourceId, targetId, relationType, weight, from, recordedAt);
+  }
+
+  /**
+   * Retract every still-believed slice of (source, target, relation_type): the
+   * fact was recorded in error, so it drops out of the current view and out of
+   * any as_known_at on/after now, while as_known_at before now still sees it.
+   * Returns the number of rows retracted.
+   */
+  retractRelation(sourceId: number, targetId: number, relationType: string): number {
+    return this.stmtRetractTuple.run(this.recordedAt(), sourceId, targetId, relationType).changes;
   }
 
   /**
    * Persist extracted entities and relations for a document.
    * Runs in a single transaction for atomicity.
    * Idempotent: deletes old doc_entities before re-inserting.
+   * Entities of a type the ontology does not declare are skipped with their
+   * relations, and relations the ontology rejects are skipped (extraction is
+   * best-effort); returns how many relations were skipped.
    */
   persistForDocument(
     docId: string,
     entities: ExtractedEntity[],
     relations: ExtractedRelation[],
-  ): void {
+  ): number {
+    let rejected = 0;
     const persist = this.db.transaction(() => {
-      // 1. Upsert all entities, collect IDs
+      // 1. Upsert all entities (aliases resolve to their merge survivor), collect IDs
       const entityIdMap = new Map<string, number>();
+      const entityTypes = new Set(this.ontology.entityTypes);
       for (const entity of entities) {
+        if (!entityTypes.has(entity.type)) continue;
+        const alias = this.stmtResolveAlias.get(entity.type, entity.canonicalName) as { id: number } | undefined;
+        if (alias) {
+          entityIdMap.set(`${entity.type}:${entity.canonicalName}`, alias.id);
+          continue;
+        }
         const metadataJson = JSON.stringify({ surfaceForm: entity.name });
         this.stmtUpsertEntity.run(entity.type, entity.name, entity.canonicalName, metadataJson);
         const row = this.stmtGetEntityId.get(entity.type, entity.canonicalName) as { id: number } | undefined;
@@ -755,12 +862,22 @@ export class EntityPersistence {
         const targetKey = `${relation.targetType}:${relation.targetCanonical}`;
         const sourceId = entityIdMap.get(sourceKey);
         const targetId = entityIdMap.get(targetKey);
-        if (sourceId && targetId && sourceId !== targetId) {
-          this.upsertRelation(sourceId, targetId, relation.relationType, relation.confidence ?? 1.0);
+        if (!sourceId || !targetId) {
+          if (!entityTypes.has(relation.sourceType) || !entityTypes.has(relation.targetType)) rejected++;
+          continue;
+        }
+        if (sourceId !== targetId) {
+          const checked = this.checkRelation(sourceId, targetId, relation.relationType);
+          if ('violation' in checked) {
+            rejected++;
+            continue;
+          }
+          this.writeRelation(checked.sourceId, checked.targetId, checked.relationType, relation.confidence ?? 1.0);
         }
       }
     });
 
     persist();
+    return rejected;
   }
 }
@@ -0,0 +1,80 @@
+import Database from 'better-sqlite3';
+import { ensureEntityTables } from '../db/entity-tables.js';
+import {
+  connectedComponents,
+  degreeCentrality,
+  labelPropagationCommunities,
+  loadEntityGraph,
+  pageRank,
+  shortestPath,
+} from './entity-graph-analytics.js';
+
+function makeDb(): Database.Database {
+  const db = new Database(':memory:');
+  ensureEntityTables(db);
+  const entity = db.prepare('INSERT INTO entities (id, type, name, canonical_name) VALUES (?, ?, ?, ?)');
+  for (const [id, type, name] of [
+    [1, 'file', 'auth.ts'], [2, 'file', 'session.ts'], [3, 'file', 'login.ts'],
+    [4, 'service', 'billing'], [5, 'file', 'invoice.ts'], [6, 'file', 'tax.ts'],
+    [7, 'concept', 'orphan'],
+  ] as const) {
+    entity.run(id, type, name, name.toLowerCase());
+  }
+  const rel = db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, valid_from, valid_to)
+    VALUES (?, ?, ?, ?, ?)`);
+  // Auth cluster: session and login both depend on auth.
+  rel.run(2, 1, 'depends_on', '2026-01-01T00:00:00Z', null);
+  rel.run(3, 1, 'depends_on', '2026-01-01T00:00:00Z', null);
+  rel.run(3, 2, 'references', '2026-01-01T00:00:00Z', null);
+  // Billing cluster.
+  rel.run(5, 4, 'part_of', '2026-01-01T00:00:00Z', null);
+  rel.run(6, 4, 'part_of', '2026-01-01T00:00:00Z', null);
+  rel.run(5, 6, 'depends_on', '2026-01-01T00:00:00Z', null);
+  // Bridge that only existed in February.
+  rel.run(4, 1, 'depends_on', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z');
+  return db;
+}
+
+describe('entity graph analytics', () => {
+  let db: Database.Database;
+  beforeEach(() => { db = makeDb(); });
+  afterEach(() => db.close());
+
+  it('ranks the most depended-on entities highest', () => {
+    const graph = loadEntityGraph(db);
+    const rank = pageRank(graph);
+    const total = [...rank.values()].reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(rank.get(1)!).toBeGreaterThan(rank.get(2)!);
+    expect(rank.get(4)!).toBeGreaterThan(rank.get(5)!);
+    expect(degreeCentrality(graph).get(1)).toEqual({ in: 2, out: 0, total: 2 });
+  });
+
+  it('splits components and communities, and respects as_of', () => {
+    const now = loadEntityGraph(db);
+    expect(connectedComponents(now)).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+    expect(labelPropagationCommunities(now)).toEqual([[1, 2, 3], [4, 5, 6]]);
+
+    const february = loadEntityGraph(db, { asOf: '2026-02-15T00:00:00Z' });
+    expect(connectedComponents(february)).toEqual([[1, 2, 3, 4, 5, 6], [7]]);
+  });
+
+  it('finds the shortest path in either direction, or null when disconnected', () => {
+    const february = loadEntityGraph(db, { asOf: '2026-02-15T00:00:00Z' });
+    expect(shortestPath(february, 6, 3)).toEqual([
+      { from: 6, to: 4, relationType: 'part_of', forward: true },
+      { from: 4, to: 1, relationType: 'depends_on', forward: true },
+      { from: 1, to: 3, relationType: 'depends_on', forward: false },
+    ]);
+    expect(shortestPath(loadEntityGraph(db), 6, 3)).toBeNull();
+    expect(shortestPath(february, 2, 2)).toEqual([]);
+  });
+
+  it('filters by relation type and ignores retracted relations', () => {
+    expect(loadEntityGraph(db, { relationTypes: ['part_of'] }).edges).toHaveLength(2);
+    db.prepare('UPDATE entity_relations SET recorded_at = valid_from').run();
+    db.prepare(`UPDATE entity_relations SET retracted_at = '2026-04-01T00:00:00Z' WHERE source_id = 3 AND target_id = 2`).run();
+    expect(loadEntityGraph(db).edges).toHaveLength(5);
+    expect(loadEntityGraph(db, { asKnownAt: '2026-03-15T00:00:00Z' }).edges).toHaveLength(6);
+  });
+});
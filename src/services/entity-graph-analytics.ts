@@ -0,0 +1,298 @@
+/**
+ * Entity Graph Analytics
+ *
+ * Whole-graph questions over entity_relations that depth-limited traversal
+ * (dokoro_entity_graph) cannot answer:
+ *
+ * - PageRank and degree centrality: "what are the hub files of this project"
+ * - connected components and label-propagation communities: which entities
+ *   cluster together
+ * - shortest path between two entities: "how is billing connected to auth"
+ *
+ * The graph is loaded once per call as a bi-temporal snapshot (same as_of /
+ * as_known_at semantics as dokoro_entity_graph); all algorithms are pure
+ * functions over that snapshot.
+ */
+
+import type Database from 'better-sqlite3';
+import { entitiesMergedAfter } from './entity-resolution.js';
+
+export interface GraphNode {
+  id: number;
+  type: string;
+  name: string;
+}
+
+export interface GraphEdge {
+  source: number;
+  target: number;
+  relationType: string;
+  weight: number;
+}
+
+export interface EntityGraphSnapshot {
+  nodes: Map<number, GraphNode>;
+  edges: GraphEdge[];
+}
+
+export interface SnapshotOptions {
+  /** Valid time (ISO). Defaults to now. */
+  asOf?: string | null;
+  /** Transaction time (ISO). Defaults to now (current beliefs). */
+  asKnownAt?: string | null;
+  /** Only use relations of these types. */
+  relationTypes?: string[];
+}
+
+const normalizeIso = (s: string): string => new Date(s).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Load every entity plus the relations valid at `asOf` and known at
+ * `asKnownAt`. Entities without edges are included so they show up as
+ * singleton components, and so are entities merged away after `asKnownAt`.
+ */
+export function loadEntityGraph(db: Database.Database, opts: SnapshotOptions = {}): EntityGraphSnapshot {
+  const now = new Date().toISOString();
+  const asOf = normalizeIso(opts.asOf ?? now);
+  const knownAt = normalizeIso(opts.asKnownAt ?? now);
+
+  const nodes = new Map<number, GraphNode>();
+  for (const row of db.prepare('SELECT id, type, name FROM entities ORDER BY id').all() as GraphNode[]) {
+    nodes.set(row.id, row);
+  }
+  // Entities merged away since asKnownAt were still nodes then.
+  for (const e of entitiesMergedAfter(db, knownAt).values()) {
+    if (!nodes.has(e.id)) nodes.set(e.id, { id: e.id, type: e.type, name: e.name });
+  }
+
+  const params: unknown[] = [asOf, asOf, knownAt, knownAt];
+  let typeFilter = '';
+  if (opts.relationTypes?.length) {
+    typeFilter = `AND relation_type IN (${opts.relationTypes.map(() => '?').join(', ')})`;
+    params.push(...opts.relationTypes);
+  }
+  const rows = db
+    .prepare(
+      `SELECT source_id, target_id, relation_type, weight FROM entity_relations
+       WHERE valid_from <= ? AND (valid_to IS NULL OR valid_to > ?)
+         AND COALESCE(recorded_at, valid_from) <= ? AND (retracted_at IS NULL OR retracted_at > ?)
+         ${typeFilter}
+       ORDER BY id`,
+    )
+    .all(...params) as Array<{ source_id: number; target_id: number; relation_type: string; weight: number | null }>;
+
+  const edges: GraphEdge[] = [];
+  for (const r of rows) {
+    // Dangling ids (entity deleted without cascading) and self-loops carry no
+    // structural information.
+    if (!nodes.has(r.source_id) || !nodes.has(r.target_id) || r.source_id === r.target_id) continue;
+    edges.push({ source: r.source_id, target: r.target_id, relationType: r.relation_type, weight: r.weight ?? 1 });
+  }
+  return { nodes, edges };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Centrality
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface Degree {
+  in: number;
+  out: number;
+  total: number;
+}
+
+export function degreeCentrality(graph: EntityGraphSnapshot): Map<number, Degree> {
+  const degree = new Map<number, Degree>();
+  for (const id of graph.nodes.keys()) degree.set(id, { in: 0, out: 0, total: 0 });
+  for (const e of graph.edges) {
+    const s = degree.get(e.source)!;
+    const t = degree.get(e.target)!;
+    s.out++;
+    s.total++;
+    t.in++;
+    t.total++;
+  }
+  return degree;
+}
+
+export interface PageRankOptions {
+  damping?: number;
+  maxIterations?: number;
+  /** Stop when the L1 change between iterations falls below this. */
+  tolerance?: number;
+}
+
+/**
+ * Weighted PageRank along relation direction (source -> target), so an entity
+ * that many others depend on / reference / are part of ranks high. Rank from
+ * nodes without outgoing edges is spread uniformly. Scores sum to 1.
+ */
+export function pageRank(graph: EntityGraphSnapshot, opts: PageRankOptions = {}): Map<number, number> {
+  const damping = opts.damping ?? 0.85;
+  const maxIterations = opts.maxIterations ?? 100;
+  const tolerance = opts.tolerance ?? 1e-6;
+  const ids = [...graph.nodes.keys()];
+  const n = ids.length;
+  const rank = new Map<number, number>();
+  if (n === 0) return rank;
+
+  const outWeight = new Map<number, number>();
+  for (const e of graph.edges) outWeight.set(e.source, (outWeight.get(e.source) ?? 0) + Math.max(e.weight, 0));
+  for (const id of ids) rank.set(id, 1 / n);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let dangling = 0;
+    for (const id of ids) if (!(outWeight.get(id)! > 0)) dangling += rank.get(id)!;
+
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = new Map<number, number>();
+    for (const id of ids) next.set(id, base);
+    for (const e of graph.edges) {
+      const w = Math.max(e.weight, 0);
+      const total = outWeight.get(e.source)!;
+      if (w === 0 || !(total > 0)) continue;
+      next.set(e.target, next.get(e.target)! + (damping * rank.get(e.source)! * w) / total);
+    }
+
+    let delta = 0;
+    for (const id of ids) delta += Math.abs(next.get(id)! - rank.get(id)!);
+    for (const id of ids) rank.set(id, next.get(id)!);
+    if (delta < tolerance) break;
+  }
+  return rank;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Components & communities (relations treated as undirected)
+// ═══════════════════════════════════════════════════════════════════════════
+
+function adjacency(graph: EntityGraphSnapshot): Map<number, Map<number, number>> {
+  const adj = new Map<number, Map<number, number>>();
+  for (const id of graph.nodes.keys()) adj.set(id, new Map());
+  for (const e of graph.edges) {
+    const w = Math.max(e.weight, 0);
+    adj.get(e.source)!.set(e.target, (adj.get(e.source)!.get(e.target) ?? 0) + w);
+    adj.get(e.target)!.set(e.source, (adj.get(e.target)!.get(e.source) ?? 0) + w);
+  }
+  return adj;
+}
+
+/** Connected components, largest first (ties: lowest member id). Members sorted by id. */
+export function connectedComponents(graph: EntityGraphSnapshot): number[][] {
+  const adj = adjacency(graph);
+  const seen = new Set<number>();
+  const components: number[][] = [];
+  for (const start of graph.nodes.keys()) {
+    if (seen.has(start)) continue;
+    const members: number[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      members.push(id);
+      for (const next of adj.get(id)!.keys()) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    components.push(members.sort((a, b) => a - b));
+  }
+  return sortGroups(components);
+}
+
+/**
+ * Weighted label propagation: every node repeatedly adopts the label with the
+ * most edge weight among its neighbours until nothing changes. Deterministic —
+ * nodes are visited in id order and ties go to the smallest label — so the
+ * same graph always gives the same communities. Isolated nodes are omitted.
+ */
+export function labelPropagationCommunities(graph: EntityGraphSnapshot, maxIterations = 20): number[][] {
+  const adj = adjacency(graph);
+  const label = new Map<number, number>();
+  for (const id of graph.nodes.keys()) label.set(id, id);
+  const order = [...graph.nodes.keys()].filter((id) => adj.get(id)!.size > 0).sort((a, b) => a - b);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let changed = false;
+    for (const id of order) {
+      const votes = new Map<number, number>();
+      for (const [neighbour, w] of adj.get(id)!) {
+        const l = label.get(neighbour)!;
+        votes.set(l, (votes.get(l) ?? 0) + w);
+      }
+      let best = label.get(id)!;
+      let bestVotes = votes.get(best) ?? -1;
+      for (const [l, v] of votes) {
+        if (v > bestVotes || (v === bestVotes && l < best)) {
+          best = l;
+          bestVotes = v;
+        }
+      }
+      if (best !== label.get(id)) {
+        label.set(id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const id of order) {
+    const l = label.get(id)!;
+    if (!groups.has(l)) groups.set(l, []);
+    groups.get(l)!.push(id);
+  }
+  return sortGroups([...groups.values()]);
+}
+
+function sortGroups(groups: number[][]): number[][] {
+  return groups.sort((a, b) => b.length - a.length || a[0] - b[0]);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Shortest path
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface PathStep {
+  from: number;
+  to: number;
+  relationType: string;
+  /** False when the hop walks the relation against its direction. */
+  forward: boolean;
+}
+
+/**
+ * Fewest-hops path between two entities, following relations in either
+ * direction. Returns [] when from === to and null when they are not connected.
+ */
+export function shortestPath(graph: EntityGraphSnapshot, from: number, to: number): PathStep[] | null {
+  if (!graph.nodes.has(from) || !graph.nodes.has(to)) return null;
+  if (from === to) return [];
+
+  const links = new Map<number, PathStep[]>();
+  for (const id of graph.nodes.keys()) links.set(id, []);
+  for (const e of graph.edges) {
+    links.get(e.source)!.push({ from: e.source, to: e.target, relationType: e.relationType, forward: true });
+    links.get(e.target)!.push({ from: e.target, to: e.source, relationType: e.relationType, forward: false });
+  }
+
+  const via = new Map<number, PathStep>();
+  const queue = [from];
+  const seen = new Set([from]);
+  for (let head = 0; head < queue.length; head++) {
+    for (const step of links.get(queue[head])!) {
+      if (seen.has(step.to)) continue;
+      seen.add(step.to);
+      via.set(step.to, step);
+      if (step.to === to) {
+        const path: PathStep[] = [];
+        for (let at = to; at !== from; at = via.get(at)!.from) path.push(via.get(at)!);
+        return path.reverse();
+      }
+      queue.push(step.to);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,164 @@
+import Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ensureEntityTables } from '../db/entity-tables.js';
+import {
+  EntityExtractor,
+  EntityPersistence,
+  type EntityType,
+  type ExtractedEntity,
+  type ExtractedRelation,
+} from './entity-extractor.js';
+import {
+  DEFAULT_ONTOLOGY,
+  acceptedRelationNames,
+  canonicalizeRelation,
+  loadOntology,
+  parseOntology,
+  relationViolation,
+} from './entity-ontology.js';
+import { buildExtractionPrompt, parseLlmEntities, parseLlmRelations } from './llm-entity-extractor.js';
+
+const projectOntology = {
+  entityTypes: ['team'],
+  relationTypes: {
+    owned_by: { cardinality: 'single', inverse: 'owns', targetTypes: ['person', 'team'] },
+    tested_by: { cardinality: 'multi', inverse: 'tests', sourceTypes: ['file', 'component'] },
+  },
+};
+
+describe('parseOntology', () => {
+  it('extends the built-in types', () => {
+    const o = parseOntology(projectOntology);
+    expect(o.entityTypes).toEqual([...DEFAULT_ONTOLOGY.entityTypes, 'team']);
+    expect(o.relationTypes.superseded_by.cardinality).toBe('single');
+    expect(o.relationTypes.owned_by.inverse).toBe('owns');
+    expect(acceptedRelationNames(o)).toEqual(expect.arrayContaining(['owned_by', 'owns', 'tested_by', 'tests']));
+  });
+
+  it('rejects malformed and inconsistent definitions with every problem listed', () => {
+    expect(() => parseOntology({ relationTypes: { 'Owned-By': { cardinality: 'single' } } }))
+      .toThrow(/relationTypes\.Owned-By: must be lowercase snake_case/);
+    expect(() => parseOntology({ relationTypes: { owned_by: { cardinality: 'one' } } })).toThrow(/cardinality/);
+    expect(() => parseOntology({
+      relationTypes: {
+        owned_by: { cardinality: 'single', inverse: 'depends_on', targetTypes: ['squad'] },
+      },
+    })).toThrow(/unknown entity type "squad".*inverse "depends_on" is itself a declared relation type/);
+  });
+});
+
+describe('loadOntology', () => {
+  let dir: string;
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-ontology-')); });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('uses built-ins when the file is missing and reports an invalid file instead of throwing', () => {
+    expect(loadOntology(path.join(dir, 'missing.json'))).toEqual({ ontology: DEFAULT_ONTOLOGY, source: null });
+
+    const bad = path.join(dir, 'ontology.json');
+    fs.writeFileSync(bad, '{"relationTypes": {"owned_by": {}}}');
+    const loaded = loadOntology(bad);
+    expect(loaded.ontology).toBe(DEFAULT_ONTOLOGY);
+    expect(loaded.error).toMatch(/ontology\.json: Invalid ontology: relationTypes\.owned_by\.cardinality/);
+  });
+
+  it('loads a valid project file', () => {
+    const file = path.join(dir, 'ontology.json');
+    fs.writeFileSync(file, JSON.stringify(projectOntology));
+    const loaded = loadOntology(file);
+    expect(loaded.source).toBe(file);
+    expect(loaded.ontology.relationTypes.tested_by.sourceTypes).toEqual(['file', 'component']);
+  });
+});
+
+describe('ontology-checked persistence', () => {
+  const ontology = parseOntology(projectOntology);
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    ensureEntityTables(db);
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES
+      (1, 'service', 'billing', 'billing'), (2, 'team', 'payments', 'payments'),
+      (3, 'team', 'platform', 'platform'), (4, 'file', 'billing.test.ts', 'billing.test.ts'),
+      (5, 'file', 'billing.ts', 'billing.ts')`).run();
+  });
+  afterEach(() => db.close());
+
+  const open = () => db.prepare(`SELECT source_id, target_id, relation_type FROM entity_relations
+    WHERE valid_to IS NULL AND retracted_at IS NULL ORDER BY id`).all();
+
+  it('stores inverse names in the declared direction and applies single cardinality', () => {
+    const p = new EntityPersistence(db, undefined, ontology);
+    p.upsertRelation(2, 1, 'owns', 1.0, '2026-01-01T00:00:00Z');
+    p.upsertRelation(1, 3, 'owned_by', 1.0, '2026-02-01T00:00:00Z');
+    expect(open()).toEqual([{ source_id: 1, target_id: 3, relation_type: 'owned_by' }]);
+    expect(canonicalizeRelation(ontology, 'tests', 4, 5)).toEqual({ relationType: 'tested_by', source: 5, target: 4 });
+  });
+
+  it('rejects unknown relation types and disallowed endpoint types', () => {
+    const p = new EntityPersistence(db, undefined, ontology);
+    expect(() => p.upsertRelation(1, 2, 'maintains', 1.0)).toThrow('Relation rejected: unknown relation type "maintains"');
+    expect(() => p.upsertRelation(1, 4, 'owned_by', 1.0))
+      .toThrow('Relation rejected: owned_by does not allow a file target (allowed: person, team)');
+    expect(relationViolation(ontology, 'tested_by', 'service', 'file')).toMatch(/does not allow a service source/);
+    expect(open()).toEqual([]);
+  });
+
+  it('skips rejected relations during document persistence', () => {
+    const p = new EntityPersistence(db, undefined, ontology);
+    const rel = (
+      relationType: string, source: string, sourceType: EntityType, target: string, targetType: EntityType,
+    ): ExtractedRelation => ({
+      relationType, sourceCanonical: source, sourceType, targetCanonical: target, targetType, confidence: 0.9, evidence: '',
+    });
+    const entities: ExtractedEntity[] = [
+      { type: 'file', name: 'billing.ts', canonicalName: 'billing.ts', confidence: 1, start: 0, end: 1, context: '' },
+      { type: 'file', name: 'billing.test.ts', canonicalName: 'billing.test.ts', confidence: 1, start: 0, end: 1, context: '' },
+    ];
+    const rejected = p.persistForDocument('doc-1', entities, [
+      rel('tests', 'billing.test.ts', 'file', 'billing.ts', 'file'),
+      rel('owned_by', 'billing.ts', 'file', 'billing.test.ts', 'file'),
+    ]);
+    expect(rejected).toBe(1);
+    expect(open()).toEqual([{ source_id: 5, target_id: 4, relation_type: 'tested_by' }]);
+  });
+
+  it('writes project entity types and skips undeclared ones', () => {
+    const team: ExtractedEntity = { type: 'team', name: 'Search', canonicalName: 'search', confidence: 1, start: 0, end: 1, context: '' };
+    const mention: ExtractedRelation = {
+      relationType: 'mentions', sourceCanonical: 'search', sourceType: 'team', targetCanonical: 'search', targetType: 'team',
+      confidence: 0.9, evidence: '',
+    };
+    const count = () => (db.prepare(`SELECT COUNT(*) AS n FROM entities WHERE canonical_name = 'search'`).get() as { n: number }).n;
+
+    new EntityPersistence(db, undefined, DEFAULT_ONTOLOGY).persistForDocument('doc-1', [team], [mention]);
+    expect(count()).toBe(0);
+    new EntityPersistence(db, undefined, ontology).persistForDocument('doc-1', [team], [mention]);
+    expect(count()).toBe(1);
+  });
+});
+
+describe('LLM extraction follows the ontology', () => {
+  it('lists project relation types in the prompt and accepts them when parsing', () => {
+    const ontology = parseOntology(projectOntology);
+    expect(buildExtractionPrompt(ontology)).toContain('- owned_by: owned by');
+    expect(buildExtractionPrompt(ontology)).toContain('- team: team');
+    const entities: ExtractedEntity[] = [
+      { type: 'service', name: 'billing', canonicalName: 'billing', confidence: 0.9, start: 0, end: 7, context: '' },
+      { type: 'person', name: 'alice', canonicalName: 'alice', confidence: 0.9, start: 0, end: 5, context: '' },
+    ];
+    const raw = { relations: [{ source: 'billing', target: 'alice', type: 'owned_by' }] };
+    expect(parseLlmRelations(raw, entities, ontology)).toHaveLength(1);
+    expect(parseLlmRelations(raw, entities, DEFAULT_ONTOLOGY)).toHaveLength(0);
+  });
+
+  it('accepts project entity types when parsing', () => {
+    const raw = { entities: [{ name: 'Payments', type: 'team' }, { name: 'alice', type: 'person' }] };
+    const extractor = new EntityExtractor();
+    expect(parseLlmEntities(raw, extractor, parseOntology(projectOntology)).map((e) => e.type)).toEqual(['team', 'person']);
+    expect(parseLlmEntities(raw, extractor, DEFAULT_ONTOLOGY).map((e) => e.type)).toEqual(['person']);
+  });
+});
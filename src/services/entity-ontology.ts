@@ -0,0 +1,237 @@
+/**
+ * Entity Ontology
+ *
+ * Declares which entity types and relation types the knowledge graph accepts
+ * and what the relations mean:
+ *
+ *   cardinality  'single' — a source has at most one current target, so a new
+ *                target closes the previous validity window ('superseded_by');
+ *                'multi' — targets accumulate ('depends_on')
+ *   inverse      name of the reverse reading ('tested_by' <-> 'tests'). Writes
+ *                that use the inverse name are stored under the declared type
+ *                with source and target swapped, so one fact is one row.
+ *   sourceTypes  allowed entity types at either end (omitted = any)
+ *   targetTypes
+ *
+ * A project extends the built-in ontology with `<DOKORO_PATH>/ontology.json`
+ * (or DOKORO_ONTOLOGY_PATH):
+ *
+ *   {
+ *     "entityTypes": ["team"],
+ *     "relationTypes": {
+ *       "owned_by":  { "cardinality": "single", "inverse": "owns", "targetTypes": ["person", "team"] },
+ *       "tested_by": { "cardinality": "multi", "inverse": "tests", "sourceTypes": ["file", "component"] }
+ *     }
+ *   }
+ *
+ * Entity types are added to the built-ins; a relation type with a built-in
+ * name replaces the built-in definition. The file is read once per process
+ * (getOntology) — EntityPersistence checks every entity and relation write
+ * against it, and the extractors and entity tools offer its types.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+
+export type RelationCardinality = 'single' | 'multi';
+
+export interface RelationTypeSpec {
+  cardinality: RelationCardinality;
+  inverse?: string;
+  sourceTypes?: string[];
+  targetTypes?: string[];
+  description?: string;
+}
+
+export interface Ontology {
+  entityTypes: string[];
+  relationTypes: Record<string, RelationTypeSpec>;
+}
+
+export interface LoadedOntology {
+  ontology: Ontology;
+  /** File the project extensions came from; null when only built-ins apply. */
+  source: string | null;
+  /** Why the project file was ignored (unreadable or invalid), if it was. */
+  error?: string;
+}
+
+/**
+ * Built-in types, matching what the regex and LLM extractors emit. 'mentions'
+ * links a document to an entity (doc_entities) and is never stored as an
+ * entity-to-entity relation.
+ */
+export const DEFAULT_ONTOLOGY: Ontology = {
+  entityTypes: ['person', 'project', 'file', 'service', 'component', 'concept'],
+  relationTypes: {
+    mentions: { cardinality: 'multi', description: 'Entity appears in context (default)' },
+    implements: { cardinality: 'multi', description: 'Subject implements/builds target' },
+    depends_on: { cardinality: 'multi', description: 'Subject depends on/requires/uses target' },
+    blocks: { cardinality: 'multi', description: 'Subject blocks target' },
+    authored_by: { cardinality: 'multi', description: 'Subject was authored/created by target' },
+    // An entity has at most one current successor ("X replaced by Y").
+    superseded_by: { cardinality: 'single', description: 'Subject was replaced by target' },
+  },
+};
+
+const NAME = /^[a-z][a-z0-9_]*$/;
+const nameSchema = z.string().regex(NAME, 'must be lowercase snake_case');
+
+const ontologyFileSchema = z
+  .object({
+    entityTypes: z.array(nameSchema).optional(),
+    relationTypes: z
+      .record(
+        nameSchema,
+        z
+          .object({
+            cardinality: z.enum(['single', 'multi']),
+            inverse: nameSchema.optional(),
+            sourceTypes: z.array(nameSchema).min(1).optional(),
+            targetTypes: z.array(nameSchema).min(1).optional(),
+            description: z.string().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Validate a project ontology document and merge it over the built-ins.
+ * Throws an Error listing every problem found.
+ */
+export function parseOntology(raw: unknown): Ontology {
+  const parsed = ontologyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid ontology: ${issues.join('; ')}`);
+  }
+
+  const entityTypes = [...new Set([...DEFAULT_ONTOLOGY.entityTypes, ...(parsed.data.entityTypes ?? [])])];
+  const relationTypes: Record<string, RelationTypeSpec> = { ...DEFAULT_ONTOLOGY.relationTypes };
+  for (const [name, spec] of Object.entries(parsed.data.relationTypes ?? {})) {
+    relationTypes[name] = spec;
+  }
+
+  const problems: string[] = [];
+  const known = new Set(entityTypes);
+  const inverseOwner = new Map<string, string>();
+  for (const [name, spec] of Object.entries(relationTypes)) {
+    for (const t of [...(spec.sourceTypes ?? []), ...(spec.targetTypes ?? [])]) {
+      if (!known.has(t)) problems.push(`${name}: unknown entity type "${t}"`);
+    }
+    if (!spec.inverse) continue;
+    if (spec.inverse === name) problems.push(`${name}: inverse must differ from the relation name`);
+    else if (relationTypes[spec.inverse]) problems.push(`${name}: inverse "${spec.inverse}" is itself a declared relation type`);
+    else if (inverseOwner.has(spec.inverse)) {
+      problems.push(`${name}: inverse "${spec.inverse}" is already the inverse of ${inverseOwner.get(spec.inverse)}`);
+    }
+    inverseOwner.set(spec.inverse, name);
+  }
+  if (problems.length > 0) throw new Error(`Invalid ontology: ${problems.join('; ')}`);
+  return { entityTypes, relationTypes };
+}
+
+export function ontologyPath(): string {
+  return process.env.DOKORO_ONTOLOGY_PATH || path.join(DOKORO_PATH, 'ontology.json');
+}
+
+/**
+ * Read the project ontology file. A missing file means built-ins only; an
+ * unreadable or invalid file also falls back to built-ins, with the reason in
+ * `error` so the server can report it instead of refusing to start.
+ */
+export function loadOntology(filePath: string = ontologyPath()): LoadedOntology {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { ontology: DEFAULT_ONTOLOGY, source: null };
+    return { ontology: DEFAULT_ONTOLOGY, source: null, error: `${filePath}: ${(e as Error).message}` };
+  }
+  try {
+    return { ontology: parseOntology(JSON.parse(text)), source: filePath };
+  } catch (e) {
+    return { ontology: DEFAULT_ONTOLOGY, source: null, error: `${filePath}: ${(e as Error).message}` };
+  }
+}
+
+let cached: LoadedOntology | null = null;
+
+/** The process-wide ontology, loaded on first use. */
+export function getLoadedOntology(): LoadedOntology {
+  cached ??= loadOntology();
+  return cached;
+}
+
+export function getOntology(): Ontology {
+  return getLoadedOntology().ontology;
+}
+
+/** Re-read the ontology file (dokoro_ontology_get { reload: true }). */
+export function reloadOntology(): LoadedOntology {
+  cached = loadOntology();
+  return cached;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Queries
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CanonicalRelation<T> {
+  relationType: string;
+  source: T;
+  target: T;
+}
+
+/**
+ * Map a relation to its stored form: declared types pass through, inverse
+ * names become the declared type with the endpoints swapped. Returns null for
+ * relation types the ontology does not know.
+ */
+export function canonicalizeRelation<T>(
+  ontology: Ontology,
+  relationType: string,
+  source: T,
+  target: T,
+): CanonicalRelation<T> | null {
+  if (ontology.relationTypes[relationType]) return { relationType, source, target };
+  for (const [name, spec] of Object.entries(ontology.relationTypes)) {
+    if (spec.inverse === relationType) return { relationType: name, source: target, target: source };
+  }
+  return null;
+}
+
+/**
+ * Why a stored-form relation between entities of the given types is not
+ * allowed, or null when it is.
+ */
+export function relationViolation(
+  ontology: Ontology,
+  relationType: string,
+  sourceType: string,
+  targetType: string,
+): string | null {
+  const spec = ontology.relationTypes[relationType];
+  if (!spec) return `unknown relation type "${relationType}"`;
+  if (spec.sourceTypes && !spec.sourceTypes.includes(sourceType)) {
+    return `${relationType} does not allow a ${sourceType} source (allowed: ${spec.sourceTypes.join(', ')})`;
+  }
+  if (spec.targetTypes && !spec.targetTypes.includes(targetType)) {
+    return `${relationType} does not allow a ${targetType} target (allowed: ${spec.targetTypes.join(', ')})`;
+  }
+  return null;
+}
+
+/** Relation names an extractor may emit: declared types plus their inverses. */
+export function acceptedRelationNames(ontology: Ontology): string[] {
+  const names: string[] = [];
+  for (const [name, spec] of Object.entries(ontology.relationTypes)) {
+    names.push(name);
+    if (spec.inverse) names.push(spec.inverse);
+  }
+  return names;
+}
@@ -1,6 +1,10 @@
 import Database from 'better-sqlite3';
 import { ensureEntityTables } from '../db/entity-tables.js';
-import { EntityPersistence, FUNCTIONAL_RELATION_TYPES } from './entity-extractor.js';
+import { EntityPersistence } from './entity-extractor.js';
+import { parseOntology } from './entity-ontology.js';
+
+// A single-valued relation type beyond the built-in superseded_by.
+const withStatus = parseOntology({ relationTypes: { current_status: { cardinality: 'single' } } });
 
 function seed(db: Database.Database) {
   ensureEntityTables(db);
@@ -33,24 +37,65 @@ describe('EntityPersistence bi-temporal writes', () => {
     expect(n).toBe(1);
   });
 
-  it('a functional relation closes the prior window', () => {
-    const p = new EntityPersistence(db);
-    FUNCTIONAL_RELATION_TYPES.add('current_status');
-    try {
-      const t1 = '2026-01-01T00:00:00Z';
-      const t2 = '2026-05-01T00:00:00Z';
-      p.upsertRelation(1, 2, 'current_status', 1.0, t1);
-      p.upsertRelation(1, 3, 'current_status', 1.0, t2);
-      const target2 = db.prepare(
-        `SELECT valid_to FROM entity_relations WHERE source_id=1 AND target_id=2 AND relation_type='current_status'`
-      ).get() as { valid_to: string | null };
-      const target3 = db.prepare(
-        `SELECT valid_to FROM entity_relations WHERE source_id=1 AND target_id=3 AND relation_type='current_status'`
-      ).get() as { valid_to: string | null };
-      expect(target2.valid_to).toBe(t2);
-      expect(target3.valid_to).toBeNull();
-    } finally {
-      FUNCTIONAL_RELATION_TYPES.delete('current_status');
-    }
+  it('a single-valued relation closes the prior window', () => {
+    const p = new EntityPersistence(db, undefined, withStatus);
+    const t1 = '2026-01-01T00:00:00Z';
+    const t2 = '2026-05-01T00:00:00Z';
+    p.upsertRelation(1, 2, 'current_status', 1.0, t1);
+    p.upsertRelation(1, 3, 'current_status', 1.0, t2);
+    const target2 = db.prepare(
+      `SELECT valid_to FROM entity_relations WHERE source_id=1 AND target_id=2 AND relation_type='current_status' AND retracted_at IS NULL`
+    ).get() as { valid_to: string | null };
+    const target3 = db.prepare(
+      `SELECT valid_to FROM entity_relations WHERE source_id=1 AND target_id=3 AND relation_type='current_status' AND retracted_at IS NULL`
+    ).get() as { valid_to: string | null };
+    expect(target2.valid_to).toBe(t2);
+    expect(target3.valid_to).toBeNull();
+  });
+});
+
+describe('EntityPersistence transaction time', () => {
+  let db: Database.Database;
+  let clock: string;
+  beforeEach(() => { db = new Database(':memory:'); seed(db); });
+  afterEach(() => db.close());
+
+  const persistence = () => new EntityPersistence(db, () => new Date(clock), withStatus);
+
+  it('stamps recorded_at from the clock independently of valid_from', () => {
+    clock = '2026-03-03T12:00:00.000Z';
+    persistence().upsertRelation(1, 2, 'depends_on', 1.0, '2026-01-01T00:00:00Z');
+    const row = db.prepare(`SELECT valid_from, recorded_at, retracted_at FROM entity_relations`).get();
+    expect(row).toEqual({ valid_from: '2026-01-01T00:00:00Z', recorded_at: '2026-03-03T12:00:00Z', retracted_at: null });
+  });
+
+  it('closing a single-valued window retracts the open row and records a closed copy', () => {
+    clock = '2026-03-01T00:00:00Z';
+    persistence().upsertRelation(1, 2, 'current_status', 1.0, '2026-01-01T00:00:00Z');
+    clock = '2026-03-05T00:00:00Z';
+    persistence().upsertRelation(1, 3, 'current_status', 1.0, '2026-02-01T00:00:00Z');
+
+    const slices = db.prepare(`SELECT target_id, valid_to, recorded_at, retracted_at FROM entity_relations
+      WHERE target_id = 2 ORDER BY id`).all();
+    expect(slices).toEqual([
+      // What was believed on 03-01..03-05: open-ended.
+      { target_id: 2, valid_to: null, recorded_at: '2026-03-01T00:00:00Z', retracted_at: '2026-03-05T00:00:00Z' },
+      // What is believed since 03-05: it ended when target 3 took over.
+      { target_id: 2, valid_to: '2026-02-01T00:00:00Z', recorded_at: '2026-03-05T00:00:00Z', retracted_at: null },
+    ]);
+  });
+
+  it('retractRelation withdraws the fact and lets it be re-asserted later', () => {
+    clock = '2026-03-01T00:00:00Z';
+    const p = persistence();
+    p.upsertRelation(1, 2, 'depends_on', 1.0);
+    clock = '2026-03-02T00:00:00Z';
+    expect(p.retractRelation(1, 2, 'depends_on')).toBe(1);
+    expect(p.retractRelation(1, 2, 'depends_on')).toBe(0); // nothing left to retract
+
+    clock = '2026-03-03T00:00:00Z';
+    p.upsertRelation(1, 2, 'depends_on', 1.0); // unique open index ignores retracted rows
+    const believed = db.prepare(`SELECT recorded_at FROM entity_relations WHERE retracted_at IS NULL`).all();
+    expect(believed).toEqual([{ recorded_at: '2026-03-03T00:00:00Z' }]);
   });
 });
@@ -0,0 +1,140 @@
+import Database from 'better-sqlite3';
+import { ensureEntityTables } from '../db/entity-tables.js';
+import { EntityPersistence } from './entity-extractor.js';
+import { EntityMerger, EntityResolver, nameSimilarity, nameTokens } from './entity-resolution.js';
+
+function makeDb(): Database.Database {
+  const db = new Database(':memory:');
+  ensureEntityTables(db);
+  const ins = db.prepare('INSERT INTO entities (id, type, name, canonical_name) VALUES (?,?,?,?)');
+  ins.run(1, 'file', 'auth/session.ts', 'auth/session.ts');
+  ins.run(2, 'file', 'session.ts', 'session.ts');
+  ins.run(3, 'component', 'AuthSession', 'authsession');
+  ins.run(4, 'service', 'redis', 'redis');
+  ins.run(5, 'service', 'postgres', 'postgres');
+  return db;
+}
+
+describe('name similarity', () => {
+  it('normalizes paths, extensions and camelCase into the same tokens', () => {
+    expect(nameTokens('./auth/session.ts')).toEqual(['auth', 'session']);
+    expect(nameTokens('AuthSession')).toEqual(['auth', 'session']);
+    expect(nameTokens('HTTPServer')).toEqual(['http', 'server']);
+  });
+
+  it('scores normalized-name, path-suffix and cross-type matches', () => {
+    const full = nameSimilarity({ name: 'auth/session.ts', type: 'file' }, { name: 'AuthSession', type: 'component' });
+    expect(full.score).toBeCloseTo(0.95 * 0.9);
+    expect(full.reasons).toEqual(['same normalized name', 'cross-type']);
+
+    const suffix = nameSimilarity({ name: 'session.ts', type: 'file' }, { name: 'auth/session.ts', type: 'file' });
+    expect(suffix).toEqual({ score: 0.85, reasons: ['path suffix'] });
+
+    expect(nameSimilarity({ name: 'redis', type: 'service' }, { name: 'postgres', type: 'service' }).score).toBeLessThan(0.5);
+  });
+});
+
+describe('EntityResolver', () => {
+  it('proposes the duplicate session entities and prefers the better-connected survivor', async () => {
+    const db = makeDb();
+    db.prepare(`INSERT INTO doc_entities (doc_id, entity_id, relation_type) VALUES ('d1', 2, 'mentions'), ('d2', 2, 'mentions')`).run();
+    const candidates = await new EntityResolver(db).propose();
+    const pairs = candidates.map((c) => [c.survivor.id, c.merged.id]);
+    expect(pairs).toEqual(expect.arrayContaining([[2, 1], [1, 3]]));
+    expect(candidates.every((c) => c.survivor.id !== 4 && c.merged.id !== 4)).toBe(true);
+  });
+
+  it('adds embedding matches and degrades to string signals when the embedder fails', async () => {
+    const db = makeDb();
+    const vec: Record<string, number[]> = { 'service: redis': [1, 0], 'service: postgres': [0.99, 0.05] };
+    const withVectors = await new EntityResolver(db, async (t) => vec[t] ?? [0, 1]).propose({ type: 'service' });
+    expect(withVectors).toHaveLength(1);
+    expect(withVectors[0].reasons).toEqual(['embedding similarity']);
+
+    const offline = await new EntityResolver(db, async () => { throw new Error('offline'); }).propose({ type: 'service' });
+    expect(offline).toEqual([]);
+  });
+});
+
+describe('EntityMerger', () => {
+  let db: Database.Database;
+  let clock: string;
+  beforeEach(() => {
+    db = makeDb();
+    clock = '2026-03-01T00:00:00Z';
+    const p = new EntityPersistence(db, () => new Date(clock));
+    p.upsertRelation(2, 4, 'depends_on', 1.0, '2026-01-01T00:00:00Z'); // session.ts -> redis
+    p.upsertRelation(1, 4, 'depends_on', 1.0, '2026-01-01T00:00:00Z'); // duplicate after merge
+    p.upsertRelation(2, 1, 'implements', 1.0, '2026-01-01T00:00:00Z'); // self-loop after merge
+    p.upsertRelation(5, 2, 'blocks', 1.0, '2026-01-01T00:00:00Z');     // incoming edge
+    db.prepare(`INSERT INTO doc_entities (doc_id, entity_id, relation_type, context) VALUES
+      ('d1', 2, 'mentions', 'ctx-a'), ('d2', 2, 'mentions', 'ctx-b'), ('d2', 1, 'mentions', 'ctx-c')`).run();
+  });
+  afterEach(() => db.close());
+
+  const believed = () => db.prepare(`SELECT source_id, target_id, relation_type FROM entity_relations
+    WHERE retracted_at IS NULL ORDER BY relation_type, source_id`).all();
+
+  it('rewrites doc links and relations onto the survivor and records an alias', () => {
+    clock = '2026-03-05T00:00:00Z';
+    const merger = new EntityMerger(db, () => new Date(clock));
+    const out = merger.merge(1, 2, { reason: 'same file' });
+
+    expect(out).toMatchObject({ survivorId: 1, mergedId: 2, docLinksMoved: 2, relationsRewritten: 1, relationsDropped: 2 });
+    expect(db.prepare('SELECT id FROM entities WHERE id = 2').get()).toBeUndefined();
+    expect(db.prepare(`SELECT doc_id, context FROM doc_entities WHERE entity_id = 1 ORDER BY doc_id`).all())
+      .toEqual([{ doc_id: 'd1', context: 'ctx-a' }, { doc_id: 'd2', context: 'ctx-c' }]);
+    expect(believed()).toEqual([
+      { source_id: 5, target_id: 1, relation_type: 'blocks' },
+      { source_id: 1, target_id: 4, relation_type: 'depends_on' },
+    ]);
+    // Pre-merge graph is still visible on the transaction-time axis.
+    const before = db.prepare(`SELECT COUNT(*) c FROM entity_relations
+      WHERE recorded_at <= '2026-03-02T00:00:00Z' AND (retracted_at IS NULL OR retracted_at > '2026-03-02T00:00:00Z')`).get() as { c: number };
+    expect(before.c).toBe(4);
+    expect(merger.aliasesOf(1)).toEqual([{ type: 'file', name: 'session.ts', merge_id: out.mergeId }]);
+  });
+
+  it('future extraction of a merged name resolves to the survivor', () => {
+    new EntityMerger(db).merge(1, 2);
+    new EntityPersistence(db).persistForDocument('d9', [
+      { type: 'file', name: 'session.ts', canonicalName: 'session.ts', confidence: 0.7, start: 0, end: 10, context: '' },
+    ], [
+      { sourceType: 'file', sourceCanonical: 'session.ts', targetType: 'file', targetCanonical: 'session.ts', relationType: 'mentions', confidence: 0.7, evidence: 'x' },
+    ]);
+    expect(db.prepare(`SELECT COUNT(*) c FROM entities WHERE canonical_name = 'session.ts'`).get()).toEqual({ c: 0 });
+    expect(db.prepare(`SELECT entity_id FROM doc_entities WHERE doc_id = 'd9'`).get()).toEqual({ entity_id: 1 });
+  });
+
+  it('undo restores the entity, its links, aliases and relations', () => {
+    const merger = new EntityMerger(db, () => new Date(clock));
+    clock = '2026-03-05T00:00:00Z';
+    const { mergeId } = merger.merge(1, 2);
+    clock = '2026-03-06T00:00:00Z';
+    expect(merger.undo(mergeId)).toEqual({ survivorId: 1, mergedId: 2 });
+
+    expect(db.prepare('SELECT name FROM entities WHERE id = 2').get()).toEqual({ name: 'session.ts' });
+    expect(db.prepare(`SELECT doc_id, entity_id FROM doc_entities ORDER BY entity_id, doc_id`).all()).toEqual([
+      { doc_id: 'd2', entity_id: 1 }, { doc_id: 'd1', entity_id: 2 }, { doc_id: 'd2', entity_id: 2 },
+    ]);
+    expect(believed()).toEqual([
+      { source_id: 5, target_id: 2, relation_type: 'blocks' },
+      { source_id: 1, target_id: 4, relation_type: 'depends_on' },
+      { source_id: 2, target_id: 4, relation_type: 'depends_on' },
+      { source_id: 2, target_id: 1, relation_type: 'implements' },
+    ]);
+    expect(merger.aliasesOf(1)).toEqual([]);
+    expect(() => merger.undo(mergeId)).toThrow(/already undone/);
+  });
+
+  it('refuses to undo when the survivor was merged away later', () => {
+    const merger = new EntityMerger(db);
+    const first = merger.merge(1, 2);
+    const second = merger.merge(3, 1);
+    expect(() => merger.undo(first.mergeId)).toThrow(`undo merge #${second.mergeId} first`);
+    // The alias of the first merge followed the survivor.
+    expect(merger.aliasesOf(3).map((a) => a.name).sort()).toEqual(['auth/session.ts', 'session.ts']);
+    merger.undo(second.mergeId);
+    expect(merger.aliasesOf(1).map((a) => a.name)).toEqual(['session.ts']);
+  });
+});
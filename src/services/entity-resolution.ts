@@ -0,0 +1,472 @@
+/**
+ * Entity Resolution & Merge
+ *
+ * `entities` are deduplicated only by (type, lower(name)), so one thing can
+ * end up as several nodes: `auth/session.ts`, `session.ts`, `AuthSession`.
+ *
+ * - EntityResolver proposes merge candidates from normalized-name equality,
+ *   path-suffix matches, character-bigram similarity and, when an embedder is
+ *   supplied (Ollama), cosine similarity of the names.
+ * - EntityMerger folds one entity into another: doc_entities and
+ *   entity_relations are rewritten onto the survivor (relations through the
+ *   transaction-time axis: old rows retracted, rewritten rows recorded), the
+ *   merged name becomes an alias of the survivor, and an undo record is kept
+ *   in entity_merges.
+ */
+
+import type Database from 'better-sqlite3';
+import { cosineSimilarity } from '../utils/vector-math.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Name normalization & similarity
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Penalty applied when the two entities have different types. */
+const CROSS_TYPE_FACTOR = 0.9;
+/** Minimum cosine similarity for an embedding match to count. */
+const EMBEDDING_MIN_COSINE = 0.9;
+/** Entities scanned per resolution pass (most recently updated first). */
+const DEFAULT_MAX_ENTITIES = 2000;
+/** Entities embedded per pass; embedding is one Ollama call per name. */
+const EMBED_CAP = 200;
+
+/**
+ * Lowercase word tokens of an entity name: strips ./ @ # prefixes and a file
+ * extension, then splits on path separators, punctuation and camelCase.
+ * `auth/session.ts` and `AuthSession` both give ['auth', 'session'].
+ */
+export function nameTokens(name: string): string[] {
+  const trimmed = name.trim().replace(/^(\.\/|[@#])/, '').replace(/\.[a-z0-9]{1,5}$/i, '');
+  return trimmed
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .map((t) => t.toLowerCase())
+    .filter(Boolean);
+}
+
+function isPathLike(name: string): boolean {
+  return /[/\\]/.test(name) || /\.[a-z0-9]{1,5}$/i.test(name);
+}
+
+/** Sørensen–Dice coefficient over character bigrams. */
+function bigramDice(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const grams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const g = a.slice(i, i + 2);
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const g = b.slice(i, i + 2);
+    const n = grams.get(g) ?? 0;
+    if (n > 0) {
+      overlap++;
+      grams.set(g, n - 1);
+    }
+  }
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+export interface NameMatch {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * String-level similarity of two entity names in [0, 1] with the signals
+ * that produced it. Cross-type pairs are scaled by CROSS_TYPE_FACTOR.
+ */
+export function nameSimilarity(
+  a: { name: string; type: string },
+  b: { name: string; type: string },
+): NameMatch {
+  const ta = nameTokens(a.name);
+  const tb = nameTokens(b.name);
+  const ka = ta.join('');
+  const kb = tb.join('');
+  let score = 0;
+  const reasons: string[] = [];
+  const consider = (s: number, reason: string) => {
+    if (s > score) {
+      score = s;
+      reasons.splice(0, reasons.length, reason);
+    }
+  };
+
+  if (ka && ka === kb) consider(0.95, 'same normalized name');
+
+  // `session.ts` vs `auth/session.ts`: the shorter is a path tail of the longer.
+  const [short, long, longName] = ta.length <= tb.length ? [ta, tb, b.name] : [tb, ta, a.name];
+  if (short.length > 0 && short.length < long.length && isPathLike(longName)
+    && short.every((t, i) => t === long[long.length - short.length + i])) {
+    consider(0.85, 'path suffix');
+  }
+
+  // Spelling alone never outranks a structural match (capped at 0.9).
+  if (ka && kb && ka !== kb) consider(Math.min(bigramDice(ka, kb), 0.9), 'similar spelling');
+
+  if (a.type !== b.type && score > 0) {
+    score *= CROSS_TYPE_FACTOR;
+    reasons.push('cross-type');
+  }
+  return { score, reasons };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EntityResolver
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ResolverEntity {
+  id: number;
+  type: string;
+  name: string;
+  /** doc_entities + believed entity_relations touching the entity. */
+  links: number;
+}
+
+export interface MergeCandidate {
+  survivor: ResolverEntity;
+  merged: ResolverEntity;
+  score: number;
+  reasons: string[];
+}
+
+export interface ResolveOptions {
+  type?: string;
+  minScore?: number;
+  limit?: number;
+  maxEntities?: number;
+}
+
+/** Embeds one text; throw to signal the embedder is unavailable. */
+export type NameEmbedder = (text: string) => Promise<number[]>;
+
+export class EntityResolver {
+  private db: Database.Database;
+  private embed?: NameEmbedder;
+
+  constructor(db: Database.Database, embed?: NameEmbedder) {
+    this.db = db;
+    this.embed = embed;
+  }
+
+  /**
+   * Propose merge pairs scoring at least minScore (default 0.8), best first.
+   * The suggested survivor is the better-connected entity (ties: the longer,
+   * more specific name, then the older id).
+   */
+  async propose(opts: ResolveOptions = {}): Promise<MergeCandidate[]> {
+    const minScore = opts.minScore ?? 0.8;
+    const entities = this.db.prepare(`
+      SELECT e.id, e.type, e.name,
+        (SELECT COUNT(*) FROM doc_entities de WHERE de.entity_id = e.id)
+        + (SELECT COUNT(*) FROM entity_relations er
+           WHERE (er.source_id = e.id OR er.target_id = e.id) AND er.retracted_at IS NULL) AS links
+      FROM entities e
+      ${opts.type ? 'WHERE e.type = ?' : ''}
+      ORDER BY e.updated_at DESC, e.id DESC
+      LIMIT ?
+    `).all(...(opts.type ? [opts.type] : []), opts.maxEntities ?? DEFAULT_MAX_ENTITIES) as ResolverEntity[];
+
+    const vectors = await this.embedNames(entities.slice(0, EMBED_CAP));
+
+    const candidates: MergeCandidate[] = [];
+    for (let i = 0; i < entities.length; i++) {
+      for (let j = i + 1; j < entities.length; j++) {
+        const a = entities[i];
+        const b = entities[j];
+        const match = nameSimilarity(a, b);
+        const va = vectors.get(a.id);
+        const vb = vectors.get(b.id);
+        if (va && vb) {
+          const cos = cosineSimilarity(va, vb) * (a.type === b.type ? 1 : CROSS_TYPE_FACTOR);
+          if (cos >= EMBEDDING_MIN_COSINE * (a.type === b.type ? 1 : CROSS_TYPE_FACTOR) && cos > match.score) {
+            match.score = cos;
+            match.reasons = ['embedding similarity', ...(a.type === b.type ? [] : ['cross-type'])];
+          }
+        }
+        if (match.score < minScore) continue;
+        const [survivor, merged] = preferSurvivor(a, b);
+        candidates.push({ survivor, merged, score: match.score, reasons: match.reasons });
+      }
+    }
+    candidates.sort((x, y) => y.score - x.score || x.survivor.id - y.survivor.id);
+    return candidates.slice(0, opts.limit ?? 20);
+  }
+
+  /** Embed names until the embedder first fails (then give up for this pass). */
+  private async embedNames(entities: ResolverEntity[]): Promise<Map<number, number[]>> {
+    const vectors = new Map<number, number[]>();
+    if (!this.embed) return vectors;
+    for (const e of entities) {
+      try {
+        const v = await this.embed(`${e.type}: ${e.name}`);
+        if (v.length) vectors.set(e.id, v);
+      } catch {
+        break; // offline -> string signals only
+      }
+    }
+    return vectors;
+  }
+}
+
+function preferSurvivor(a: ResolverEntity, b: ResolverEntity): [ResolverEntity, ResolverEntity] {
+  if (a.links !== b.links) return a.links > b.links ? [a, b] : [b, a];
+  if (a.name.length !== b.name.length) return a.name.length > b.name.length ? [a, b] : [b, a];
+  return a.id < b.id ? [a, b] : [b, a];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EntityMerger
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface EntitySnapshot {
+  id: number;
+  type: string;
+  name: string;
+  canonical_name: string;
+  description: string | null;
+  metadata_json: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+interface DocEntitySnapshot {
+  doc_id: string;
+  relation_type: string;
+  context: string | null;
+  confidence: number | null;
+}
+
+interface AliasSnapshot {
+  type: string;
+  canonical_name: string;
+  merge_id: number | null;
+}
+
+/** Everything undo needs, stored as entity_merges.undo_json. */
+interface MergeUndo {
+  entity: EntitySnapshot;
+  docEntities: DocEntitySnapshot[];
+  /** (doc_id, relation_type) rows newly created on the survivor. */
+  insertedDocEntities: Array<{ doc_id: string; relation_type: string }>;
+  /** Aliases that pointed at the merged entity before the merge. */
+  movedAliases: AliasSnapshot[];
+  retractedRelationIds: number[];
+  insertedRelationIds: number[];
+}
+
+/**
+ * Entities merged away after `knownAt` and not restored since, rebuilt from
+ * their entity_merges snapshots. A merge deletes the entities row, so readers
+ * looking back with as_known_at use these to name the pre-merge endpoints of
+ * retracted relations. Empty when the database has no entity_merges table.
+ */
+export function entitiesMergedAfter(db: Database.Database, knownAt: string): Map<number, EntitySnapshot> {
+  const out = new Map<number, EntitySnapshot>();
+  const table = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='entity_merges'`).get();
+  if (!table) return out;
+  const rows = db.prepare(`
+    SELECT merged_id, undo_json FROM entity_merges WHERE created_at > ? AND undone_at IS NULL ORDER BY id
+  `).all(knownAt) as Array<{ merged_id: number; undo_json: string }>;
+  for (const r of rows) {
+    if (!out.has(r.merged_id)) out.set(r.merged_id, (JSON.parse(r.undo_json) as MergeUndo).entity);
+  }
+  return out;
+}
+
+export interface MergeOutcome {
+  mergeId: number;
+  survivorId: number;
+  mergedId: number;
+  docLinksMoved: number;
+  relationsRewritten: number;
+  relationsDropped: number;
+}
+
+export class EntityMerger {
+  private db: Database.Database;
+  private now: () => Date;
+
+  /** @param now transaction-time clock for retracted_at / recorded_at. */
+  constructor(db: Database.Database, now: () => Date = () => new Date()) {
+    this.db = db;
+    this.now = now;
+  }
+
+  private stamp(): string {
+    return this.now().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  /** Fold `mergedId` into `survivorId` atomically; returns what moved. */
+  merge(survivorId: number, mergedId: number, meta: { score?: number; reason?: string } = {}): MergeOutcome {
+    if (survivorId === mergedId) throw new Error('cannot merge an entity into itself');
+    const run = this.db.transaction((): MergeOutcome => {
+      const survivor = this.entity(survivorId);
+      if (!survivor) throw new Error(`survivor entity ${survivorId} not found`);
+      const merged = this.entity(mergedId);
+      if (!merged) throw new Error(`entity ${mergedId} not found`);
+      const at = this.stamp();
+
+      // doc_entities: re-point onto the survivor (PK collisions keep the survivor's row).
+      const docEntities = this.db.prepare(
+        'SELECT doc_id, relation_type, context, confidence FROM doc_entities WHERE entity_id = ?',
+      ).all(mergedId) as DocEntitySnapshot[];
+      const insertDoc = this.db.prepare(
+        'INSERT OR IGNORE INTO doc_entities (doc_id, entity_id, relation_type, context, confidence) VALUES (?, ?, ?, ?, ?)',
+      );
+      const insertedDocEntities: MergeUndo['insertedDocEntities'] = [];
+      for (const d of docEntities) {
+        if (insertDoc.run(d.doc_id, survivorId, d.relation_type, d.context, d.confidence).changes > 0) {
+          insertedDocEntities.push({ doc_id: d.doc_id, relation_type: d.relation_type });
+        }
+      }
+      this.db.prepare('DELETE FROM doc_entities WHERE entity_id = ?').run(mergedId);
+
+      // entity_relations: retract every believed row touching the merged entity
+      // and record its rewrite onto the survivor. Self-loops are dropped; an open
+      // rewrite that duplicates an already-open survivor fact is skipped.
+      const relations = this.db.prepare(`
+        SELECT id, source_id, target_id, relation_type, valid_to FROM entity_relations
+        WHERE (source_id = ? OR target_id = ?) AND retracted_at IS NULL ORDER BY id
+      `).all(mergedId, mergedId) as Array<{ id: number; source_id: number; target_id: number; relation_type: string; valid_to: string | null }>;
+      const retract = this.db.prepare('UPDATE entity_relations SET retracted_at = ? WHERE id = ?');
+      const openExists = this.db.prepare(`
+        SELECT 1 FROM entity_relations WHERE source_id = ? AND target_id = ? AND relation_type = ?
+          AND valid_to IS NULL AND retracted_at IS NULL
+      `);
+      const rewrite = this.db.prepare(`
+        INSERT INTO entity_relations (source_id, target_id, relation_type, weight, metadata_json, valid_from, valid_to, recorded_at)
+        SELECT ?, ?, relation_type, weight, metadata_json, valid_from, valid_to, ? FROM entity_relations WHERE id = ?
+      `);
+      const retractedRelationIds: number[] = [];
+      const insertedRelationIds: number[] = [];
+      let dropped = 0;
+      for (const r of relations) {
+        retract.run(at, r.id);
+        retractedRelationIds.push(r.id);
+        const source = r.source_id === mergedId ? survivorId : r.source_id;
+        const target = r.target_id === mergedId ? survivorId : r.target_id;
+        if (source === target || (r.valid_to === null && openExists.get(source, target, r.relation_type))) {
+          dropped++;
+          continue;
+        }
+        insertedRelationIds.push(Number(rewrite.run(source, target, at, r.id).lastInsertRowid));
+      }
+
+      const movedAliases = this.db.prepare(
+        'SELECT type, canonical_name, merge_id FROM entity_aliases WHERE entity_id = ?',
+      ).all(mergedId) as AliasSnapshot[];
+
+      const undo: MergeUndo = {
+        entity: merged, docEntities, insertedDocEntities, movedAliases, retractedRelationIds, insertedRelationIds,
+      };
+      const mergeId = Number(this.db.prepare(
+        'INSERT INTO entity_merges (survivor_id, merged_id, score, reason, undo_json, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      ).run(survivorId, mergedId, meta.score ?? null, meta.reason ?? null, JSON.stringify(undo), at).lastInsertRowid);
+
+      // Aliases: the merged name, plus everything that already aliased it.
+      this.db.prepare('UPDATE entity_aliases SET entity_id = ? WHERE entity_id = ?').run(survivorId, mergedId);
+      this.db.prepare(`
+        INSERT INTO entity_aliases (type, canonical_name, name, entity_id, merge_id, created_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(type, canonical_name) DO UPDATE SET entity_id = excluded.entity_id, merge_id = excluded.merge_id
+      `).run(merged.type, merged.canonical_name, merged.name, survivorId, mergeId, at);
+
+      this.db.prepare('DELETE FROM entities WHERE id = ?').run(mergedId);
+
+      return {
+        mergeId,
+        survivorId,
+        mergedId,
+        docLinksMoved: docEntities.length,
+        relationsRewritten: insertedRelationIds.length,
+        relationsDropped: dropped,
+      };
+    });
+    return run();
+  }
+
+  /**
+   * Revert a merge: restore the merged entity (same id), its doc links and
+   * aliases, retract the rewritten relations and re-record the originals.
+   * Refuses when the survivor has since been merged away itself.
+   */
+  undo(mergeId: number): { survivorId: number; mergedId: number } {
+    const run = this.db.transaction(() => {
+      const rec = this.db.prepare(
+        'SELECT survivor_id, merged_id, undo_json, undone_at FROM entity_merges WHERE id = ?',
+      ).get(mergeId) as { survivor_id: number; merged_id: number; undo_json: string; undone_at: string | null } | undefined;
+      if (!rec) throw new Error(`merge #${mergeId} not found`);
+      if (rec.undone_at) throw new Error(`merge #${mergeId} was already undone at ${rec.undone_at}`);
+      if (!this.entity(rec.survivor_id)) {
+        const later = this.db.prepare(
+          'SELECT id FROM entity_merges WHERE merged_id = ? AND undone_at IS NULL ORDER BY id DESC LIMIT 1',
+        ).get(rec.survivor_id) as { id: number } | undefined;
+        throw new Error(
+          `survivor entity ${rec.survivor_id} no longer exists${later ? `; undo merge #${later.id} first` : ''}`,
+        );
+      }
+      if (this.entity(rec.merged_id)) throw new Error(`entity ${rec.merged_id} already exists`);
+
+      const undo = JSON.parse(rec.undo_json) as MergeUndo;
+      const at = this.stamp();
+      const e = undo.entity;
+      this.db.prepare(`
+        INSERT INTO entities (id, type, name, canonical_name, description, metadata_json, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(e.id, e.type, e.name, e.canonical_name, e.description, e.metadata_json, e.created_at, e.updated_at);
+
+      const deleteDoc = this.db.prepare('DELETE FROM doc_entities WHERE doc_id = ? AND entity_id = ? AND relation_type = ?');
+      for (const d of undo.insertedDocEntities) deleteDoc.run(d.doc_id, rec.survivor_id, d.relation_type);
+      const insertDoc = this.db.prepare(
+        'INSERT OR IGNORE INTO doc_entities (doc_id, entity_id, relation_type, context, confidence) VALUES (?, ?, ?, ?, ?)',
+      );
+      for (const d of undo.docEntities) insertDoc.run(d.doc_id, e.id, d.relation_type, d.context, d.confidence);
+
+      const retract = this.db.prepare('UPDATE entity_relations SET retracted_at = ? WHERE id = ? AND retracted_at IS NULL');
+      for (const id of undo.insertedRelationIds) retract.run(at, id);
+      const original = this.db.prepare(
+        'SELECT source_id, target_id, relation_type, valid_to FROM entity_relations WHERE id = ?',
+      );
+      const openExists = this.db.prepare(`
+        SELECT 1 FROM entity_relations WHERE source_id = ? AND target_id = ? AND relation_type = ?
+          AND valid_to IS NULL AND retracted_at IS NULL
+      `);
+      const rerecord = this.db.prepare(`
+        INSERT INTO entity_relations (source_id, target_id, relation_type, weight, metadata_json, valid_from, valid_to, recorded_at)
+        SELECT source_id, target_id, relation_type, weight, metadata_json, valid_from, valid_to, ? FROM entity_relations WHERE id = ?
+      `);
+      for (const id of undo.retractedRelationIds) {
+        const r = original.get(id) as { source_id: number; target_id: number; relation_type: string; valid_to: string | null } | undefined;
+        if (!r || (r.valid_to === null && openExists.get(r.source_id, r.target_id, r.relation_type))) continue;
+        rerecord.run(at, id);
+      }
+
+      this.db.prepare('DELETE FROM entity_aliases WHERE merge_id = ? AND type = ? AND canonical_name = ?')
+        .run(mergeId, e.type, e.canonical_name);
+      const restoreAlias = this.db.prepare(
+        'UPDATE entity_aliases SET entity_id = ?, merge_id = ? WHERE type = ? AND canonical_name = ?',
+      );
+      for (const a of undo.movedAliases) restoreAlias.run(e.id, a.merge_id, a.type, a.canonical_name);
+
+      this.db.prepare('UPDATE entity_merges SET undone_at = ? WHERE id = ?').run(at, mergeId);
+      return { survivorId: rec.survivor_id, mergedId: rec.merged_id };
+    });
+    return run();
+  }
+
+  /** Names that resolve to `entityId` (merged-away entities). */
+  aliasesOf(entityId: number): Array<{ type: string; name: string; merge_id: number | null }> {
+    return this.db.prepare(
+      'SELECT type, name, merge_id FROM entity_aliases WHERE entity_id = ? ORDER BY created_at, name',
+    ).all(entityId) as Array<{ type: string; name: string; merge_id: number | null }>;
+  }
+
+  private entity(id: number): EntitySnapshot | undefined {
+    return this.db.prepare(
+      'SELECT id, type, name, canonical_name, description, metadata_json, created_at, updated_at FROM entities WHERE id = ?',
+    ).get(id) as EntitySnapshot | undefined;
+  }
+}
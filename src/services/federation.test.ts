@@ -0,0 +1,85 @@
+import Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { loadFederation, openFederatedDbs, hasColumn } from './federation.js';
+
+// db/index.ts needs ESM (import.meta); mirror its read-only open here.
+const opened: Database.Database[] = [];
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: (cfg: { projectPath: string; dokoroFolder: string; readonly?: boolean }) => {
+    const file = path.join(cfg.projectPath, cfg.dokoroFolder, '.dokoro', 'db', 'dokoro.sqlite');
+    const db = new Database(file, { readonly: cfg.readonly, fileMustExist: cfg.readonly });
+    opened.push(db);
+    return db;
+  },
+}));
+
+/** Create <root>/<name>/dokoro/.dokoro/db/dokoro.sqlite with one summary row. */
+function makeSibling(root: string, name: string): string {
+  const dokoroPath = path.join(root, name, 'dokoro');
+  const dbDir = path.join(dokoroPath, '.dokoro', 'db');
+  fs.mkdirSync(dbDir, { recursive: true });
+  const db = new Database(path.join(dbDir, 'dokoro.sqlite'));
+  db.exec(`CREATE TABLE conversation_summaries (id INTEGER PRIMARY KEY, summary TEXT);
+    INSERT INTO conversation_summaries (summary) VALUES ('${name} decision');`);
+  db.close();
+  return dokoroPath;
+}
+
+describe('federation', () => {
+  let root: string;
+  let local: Database.Database;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-federation-'));
+    local = new Database(':memory:');
+  });
+  afterEach(() => {
+    opened.splice(0).forEach((db) => db.close());
+    local.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('is off without a config file and resolves relative paths against it', () => {
+    expect(loadFederation(path.join(root, 'federation.json'))).toEqual({ projects: [], source: null });
+    expect(() => openFederatedDbs(local, { config: { projects: [], source: null } })).toThrow(/Federation is not configured/);
+
+    const file = path.join(root, 'api', 'dokoro', 'federation.json');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ projects: [{ name: 'billing', path: '../../billing/dokoro' }] }));
+    expect(loadFederation(file).projects).toEqual([{ name: 'billing', dokoroPath: path.join(root, 'billing', 'dokoro') }]);
+
+    fs.writeFileSync(file, JSON.stringify({ projects: [{ name: 'a b', path: 'x' }] }));
+    expect(() => loadFederation(file)).toThrow(/projects\.0\.name: must be a simple name/);
+  });
+
+  it('opens siblings read-only, labels them, and reports ones that cannot be opened', () => {
+    const billing = makeSibling(root, 'billing');
+    const config = {
+      source: 'federation.json',
+      projects: [
+        { name: 'billing', dokoroPath: billing },
+        { name: 'ghost', dokoroPath: path.join(root, 'ghost', 'dokoro') },
+      ],
+    };
+    const { dbs, errors } = openFederatedDbs(local, { config, localName: 'api' });
+    expect(dbs.map((p) => [p.project, p.local])).toEqual([['api', true], ['billing', false]]);
+    expect(dbs[1].db.prepare('SELECT summary FROM conversation_summaries').get()).toEqual({ summary: 'billing decision' });
+    expect(() => dbs[1].db.prepare(`INSERT INTO conversation_summaries (summary) VALUES ('x')`).run()).toThrow(/readonly/);
+    expect(hasColumn(dbs[1].db, 'conversation_summaries', 'rollup_level')).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^ghost: /);
+
+  });
+
+  it('filters by project name and rejects unknown names', () => {
+    const billing = makeSibling(root, 'billing');
+    const config = { source: 'federation.json', projects: [{ name: 'billing', dokoroPath: billing }] };
+    expect(openFederatedDbs(local, { config, localName: 'api', projects: ['billing'] }).dbs.map((p) => p.project))
+      .toEqual(['billing']);
+    expect(() => openFederatedDbs(local, { config, localName: 'api', projects: ['payroll'] }))
+      .toThrow('Unknown project(s): payroll. Federated projects: api, billing.');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Multi-project federation
+ *
+ * Memory is per-project by default: one database under DOKORO_PATH. A project
+ * can opt in to reading its siblings' memory (e.g. the other services of a
+ * monorepo) by listing their dokoro folders in `<DOKORO_PATH>/federation.json`
+ * (or DOKORO_FEDERATION_PATH):
+ *
+ *   {
+ *     "projects": [
+ *       { "name": "billing", "path": "../../billing/dokoro" },
+ *       { "name": "auth",    "path": "/work/monorepo/auth/dokoro" }
+ *     ]
+ *   }
+ *
+ * Relative paths resolve against the folder holding federation.json. Sibling
+ * databases are opened read-only through getSqliteDb; federated queries never
+ * write to another project. Every federated result carries its project name.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type Database from 'better-sqlite3';
+import { z } from 'zod';
+import { getSqliteDb } from '../db/index.js';
+import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+
+export interface FederatedProject {
+  name: string;
+  /** Absolute path of the project's dokoro folder (what DOKORO_PATH is locally). */
+  dokoroPath: string;
+}
+
+export interface FederationConfig {
+  projects: FederatedProject[];
+  /** File the config was read from; null when federation is not configured. */
+  source: string | null;
+}
+
+export interface ProjectDb {
+  project: string;
+  dokoroPath: string;
+  db: Database.Database;
+  local: boolean;
+}
+
+const federationFileSchema = z
+  .object({
+    projects: z.array(
+      z
+        .object({
+          name: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, 'must be a simple name (letters, digits, . _ -)'),
+          path: z.string().min(1),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+export function federationPath(): string {
+  return process.env.DOKORO_FEDERATION_PATH || path.join(DOKORO_PATH, 'federation.json');
+}
+
+/** Name results from this project are labelled with: its directory name. */
+export function localProjectName(dokoroPath: string = DOKORO_PATH): string {
+  return path.basename(path.dirname(path.resolve(dokoroPath)));
+}
+
+/**
+ * Read the federation config. A missing file means federation is off (no
+ * projects); a present but invalid file throws, since the caller explicitly
+ * asked for a federated query.
+ */
+export function loadFederation(filePath: string = federationPath()): FederationConfig {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { projects: [], source: null };
+    throw new Error(`Cannot read ${filePath}: ${(e as Error).message}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid federation config ${filePath}: ${(e as Error).message}`);
+  }
+  const parsed = federationFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid federation config ${filePath}: ${issues.join('; ')}`);
+  }
+
+  const base = path.dirname(path.resolve(filePath));
+  const seen = new Set<string>();
+  const projects: FederatedProject[] = [];
+  for (const p of parsed.data.projects) {
+    if (seen.has(p.name)) throw new Error(`Invalid federation config ${filePath}: duplicate project "${p.name}"`);
+    seen.add(p.name);
+    projects.push({ name: p.name, dokoroPath: path.resolve(base, p.path) });
+  }
+  return { projects, source: filePath };
+}
+
+export interface OpenFederationOptions {
+  /** Only these project names (the local project included by its name). Default: all. */
+  projects?: string[];
+  /** Federation config; defaults to loadFederation(). */
+  config?: FederationConfig;
+  /** Name for the local project; defaults to localProjectName(). */
+  localName?: string;
+}
+
+export interface OpenFederationResult {
+  dbs: ProjectDb[];
+  /** Per-project failures (missing or unreadable databases), reported alongside results. */
+  errors: string[];
+}
+
+/**
+ * The local database plus every configured sibling opened read-only. A sibling
+ * that cannot be opened is reported in `errors` rather than failing the whole
+ * query. Throws when federation is not configured or `projects` names an
+ * unknown project.
+ */
+export function openFederatedDbs(localDb: Database.Database, opts: OpenFederationOptions = {}): OpenFederationResult {
+  const config = opts.config ?? loadFederation();
+  if (config.projects.length === 0) {
+    throw new Error(`Federation is not configured: add sibling projects to ${federationPath()}.`);
+  }
+  const localName = opts.localName ?? localProjectName();
+  const known = new Set([localName, ...config.projects.map((p) => p.name)]);
+  const unknown = (opts.projects ?? []).filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown project(s): ${unknown.join(', ')}. Federated projects: ${[...known].join(', ')}.`);
+  }
+  const wanted = (name: string) => !opts.projects?.length || opts.projects.includes(name);
+
+  const dbs: ProjectDb[] = [];
+  const errors: string[] = [];
+  if (wanted(localName)) dbs.push({ project: localName, dokoroPath: DOKORO_PATH, db: localDb, local: true });
+  for (const p of config.projects) {
+    if (!wanted(p.name)) continue;
+    try {
+      const db = getSqliteDb({
+        projectPath: path.dirname(p.dokoroPath),
+        dokoroFolder: path.basename(p.dokoroPath),
+        readonly: true,
+      });
+      dbs.push({ project: p.name, dokoroPath: p.dokoroPath, db, local: false });
+    } catch (e) {
+      errors.push(`${p.name}: ${(e as Error).message}`);
+    }
+  }
+  return { dbs, errors };
+}
+
+/** True when `table` has `column` (sibling databases may predate a migration). */
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).some((c) => c.name === column);
+}
+
+/** Footer listing projects that could not be queried, or '' when all answered. */
+export function formatFederationErrors(errors: string[]): string {
+  return errors.length ? `\n\n*Skipped projects:*\n${errors.map((e) => `- ${e}`).join('\n')}` : '';
+}
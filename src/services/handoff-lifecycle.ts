@@ -0,0 +1,25 @@
+/**
+ * Handoff Lifecycle
+ *
+ * State changes to a handoff that more than one caller makes. A claimed
+ * handoff goes back to the pool through dokoro_handoff_release or, when its
+ * claimer's presence expired, the presence reaper; both must leave it in the
+ * same state.
+ */
+
+import type Database from 'better-sqlite3';
+
+/**
+ * Return a claimed handoff to the pool: status back to 'open', the claim
+ * cleared (and to_agent too when `clearTarget`), and a handoff written with a
+ * TTL gets all of it again from now (expires_at = now + ttl_seconds), so the
+ * time it spent claimed does not make it expire on the next handoff call.
+ */
+export function reopenHandoff(sqlite: Database.Database, id: number, clearTarget = false): void {
+  sqlite.prepare(
+    `UPDATE handoffs SET status='open', claimed_by=NULL, claimed_at=NULL${clearTarget ? ', to_agent=NULL' : ''},
+      expires_at = CASE WHEN ttl_seconds IS NULL THEN expires_at
+        ELSE strftime('%Y-%m-%dT%H:%M:%SZ','now','+' || ttl_seconds || ' seconds') END
+     WHERE id=?`,
+  ).run(id);
+}
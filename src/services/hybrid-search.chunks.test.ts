@@ -0,0 +1,103 @@
+import Database from 'better-sqlite3';
+import { ensureChunkFts } from '../db/chunk-fts.js';
+import { HybridSearchService, type IndexingService } from './vector-service.js';
+
+describe('HybridSearchService passage-level search', () => {
+  let db: Database.Database;
+  let vectorHits: Array<Record<string, unknown>>;
+  let service: HybridSearchService;
+
+  const content = [
+    '# Runbook',
+    'General notes.',
+    '## Cache',
+    'The cache evicts entries when memory is low.',
+    '## Deploys',
+    'Deploys roll out gradually.',
+  ].join('\n');
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, title TEXT, content TEXT, doc_type TEXT, status TEXT,
+        priority TEXT, updated_at TEXT, filepath TEXT, created_at TEXT, summary_ai TEXT);
+      CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT UNIQUE);
+      CREATE TABLE doc_tags (doc_id TEXT, tag_id INTEGER);
+      CREATE VIRTUAL TABLE docs_fts USING fts5(id, title, content);
+      CREATE TABLE chunks (chunk_id TEXT PRIMARY KEY, doc_id TEXT NOT NULL, chunk_index INTEGER NOT NULL,
+        start_line INTEGER, end_line INTEGER, start_char INTEGER, end_char INTEGER, header_context TEXT,
+        token_count INTEGER, text TEXT);
+    `);
+    ensureChunkFts(db);
+    const doc = db.prepare('INSERT INTO docs (id, title, content, filepath) VALUES (?, ?, ?, ?)');
+    doc.run('d1', 'Runbook', content, 'docs/runbook.md');
+    doc.run('d2', 'Notes', 'misc\nwhy the cache is cold', 'docs/notes.md');
+    db.exec('INSERT INTO docs_fts (rowid, id, title, content) SELECT rowid, id, title, content FROM docs');
+
+    // d1 is chunked per section; d2 has not been embedded yet.
+    const chunk = db.prepare(`INSERT INTO chunks (chunk_id, doc_id, chunk_index, start_line, end_line, start_char, end_char,
+      header_context, text) VALUES (?, 'd1', ?, ?, ?, ?, ?, ?, ?)`);
+    const lines = content.split('\n');
+    const section = (index: number, from: number, to: number, header: string) => {
+      const startChar = lines.slice(0, from - 1).join('\n').length + (from > 1 ? 1 : 0);
+      const text = lines.slice(from - 1, to).join('\n') + (to < lines.length ? '\n' : '');
+      chunk.run(`d1_${index}`, index, from, to, startChar, startChar + text.length, header, text);
+    };
+    section(0, 1, 2, 'Runbook');
+    section(1, 3, 4, 'Runbook > Cache');
+    section(2, 5, 6, 'Runbook > Deploys');
+
+    vectorHits = [];
+    const indexing = {
+      getEmbeddingService: () => ({ modelId: 'local:test', embed: async () => ({ embedding: [1], tokenCount: 1 }) }),
+      getVectorStore: () => ({ search: async () => vectorHits }),
+      hasModelMismatch: () => false,
+      indexedModels: () => ['local:test'],
+    } as unknown as IndexingService;
+    service = new HybridSearchService(db, indexing);
+  });
+
+  afterEach(() => db.close());
+
+  it('points keyword hits at the matching chunk with match offsets', async () => {
+    const [hit] = await service.search('evicts', 5);
+    expect(hit).toMatchObject({ docId: 'd1', chunkId: 'd1_1', source: 'keyword' });
+    expect(hit.highlight).toMatchObject({ startLine: 3, endLine: 4 });
+    expect(hit.highlight.excerpt).toContain('**evicts**');
+    const [match] = hit.highlight.matches!;
+    expect(content.slice(match.start, match.end)).toBe('evicts');
+  });
+
+  it('falls back to the whole doc for unchunked docs and locates the match line', async () => {
+    const results = await service.search('cold', 5);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ docId: 'd2', chunkId: null });
+    expect(results[0].highlight).toMatchObject({ startLine: 2, endLine: 2, matches: [{ start: 22, end: 26 }] });
+  });
+
+  it('fuses keyword and vector hits on the same chunk and keeps one passage per doc', async () => {
+    vectorHits = [
+      { id: 'd1_2', doc_id: 'd1', _distance: 0.1, start_line: 5, end_line: 6 },
+      { id: 'd1_1', doc_id: 'd1', _distance: 0.3, start_line: 3, end_line: 4 },
+    ];
+    const results = await service.search('cache', 5);
+    const d1 = results.filter((r) => r.docId === 'd1');
+    expect(d1).toHaveLength(1);
+    expect(d1[0]).toMatchObject({ chunkId: 'd1_1', source: 'hybrid' });
+    expect(d1[0].highlight.startLine).toBe(3);
+  });
+
+  it('merges chunk and whole-doc keyword hits by rank, not by raw bm25', async () => {
+    // Six short chunks, four about eviction: their bm25 dwarfs d2's whole-doc score.
+    const sections = ['eviction policy', 'eviction order', 'eviction stats', 'eviction logs', 'intro', 'outro'];
+    db.prepare('INSERT INTO docs (id, title, content, filepath) VALUES (?, ?, ?, ?)').run('d3', 'Eviction', sections.join('\n'), 'docs/eviction.md');
+    db.prepare('UPDATE docs SET content = ? WHERE id = ?').run('misc\nwhy eviction is slow', 'd2');
+    db.exec(`DELETE FROM docs_fts; INSERT INTO docs_fts (rowid, id, title, content) SELECT rowid, id, title, content FROM docs`);
+    const chunk = db.prepare(`INSERT INTO chunks (chunk_id, doc_id, chunk_index, start_line, end_line, start_char, end_char,
+      header_context, text) VALUES (?, 'd3', ?, ?, ?, 0, 0, NULL, ?)`);
+    sections.forEach((text, i) => chunk.run(`d3_${i}`, i, i + 1, i + 1, text));
+
+    const results = await service.search('eviction', 2);
+    expect(results.map((r) => r.docId)).toEqual(['d3', 'd2']);
+  });
+});
@@ -0,0 +1,82 @@
+import Database from 'better-sqlite3';
+import { HybridSearchService, type IndexingService } from './vector-service.js';
+
+describe('HybridSearchService filters and facets', () => {
+  let db: Database.Database;
+  let vectorWheres: Array<string | undefined>;
+  let service: HybridSearchService;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, title TEXT, content TEXT, doc_type TEXT, status TEXT,
+        priority TEXT, updated_at TEXT, filepath TEXT, created_at TEXT, summary_ai TEXT);
+      CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT UNIQUE);
+      CREATE TABLE doc_tags (doc_id TEXT, tag_id INTEGER, PRIMARY KEY (doc_id, tag_id));
+      CREATE VIRTUAL TABLE docs_fts USING fts5(id, title, content);
+    `);
+    const doc = db.prepare(`INSERT INTO docs (id, title, content, doc_type, status, priority, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`);
+    doc.run('d1', 'Cache bug', 'the cache evicts too early', 'issue', 'active', 'high', '2026-03-01 10:00:00');
+    doc.run('d2', 'Cache design', 'cache layout and eviction', 'prd', 'active', 'medium', '2026-01-15T09:00:00Z');
+    doc.run('d3', 'Old cache note', 'legacy cache notes', 'issue', 'done', 'low', '2025-06-01 08:00:00');
+    db.exec(`INSERT INTO docs_fts (rowid, id, title, content) SELECT rowid, id, title, content FROM docs`);
+    db.exec(`INSERT INTO tags (id, name) VALUES (1, 'perf'), (2, 'backend')`);
+    db.exec(`INSERT INTO doc_tags VALUES ('d1', 1), ('d1', 2), ('d2', 1), ('d3', 2)`);
+
+    vectorWheres = [];
+    const indexing = {
+      getEmbeddingService: () => ({ modelId: 'local:test', embed: async () => ({ embedding: [1, 0], tokenCount: 1 }) }),
+      getVectorStore: () => ({
+        search: async (_v: number[], _limit: number, where?: string) => {
+          vectorWheres.push(where);
+          return [];
+        },
+      }),
+      hasModelMismatch: () => false,
+      indexedModels: () => ['local:test'],
+    } as unknown as IndexingService;
+    service = new HybridSearchService(db, indexing);
+  });
+
+  afterEach(() => db.close());
+
+  const ids = (results: Array<{ docId: string }>) => results.map((r) => r.docId).sort();
+
+  it('counts facets over every match when unfiltered', async () => {
+    const { results, facets, matched } = await service.searchFaceted('cache', 10);
+    expect(ids(results)).toEqual(['d1', 'd2', 'd3']);
+    expect(matched).toBe(3);
+    expect(facets).toEqual({
+      docType: { issue: 2, prd: 1 },
+      status: { active: 2, done: 1 },
+      tags: { backend: 2, perf: 2 },
+    });
+    expect(vectorWheres).toEqual([undefined]);
+  });
+
+  it('pushes filters into the keyword query and the vector where clause', async () => {
+    const { results, facets } = await service.searchFaceted('cache', 10, { docTypes: ['issue'], statuses: ['active'] });
+    expect(ids(results)).toEqual(['d1']);
+    expect(facets.docType).toEqual({ issue: 1 });
+    expect(vectorWheres).toEqual([`doc_id IN ('d1')`]);
+  });
+
+  it('requires every requested tag', async () => {
+    expect(ids(await service.search('cache', 10, { tags: ['perf'] }))).toEqual(['d1', 'd2']);
+    expect(ids(await service.search('cache', 10, { tags: ['perf', 'backend'] }))).toEqual(['d1']);
+  });
+
+  it('filters by priority and an updated_at range across timestamp formats', async () => {
+    expect(ids(await service.search('cache', 10, { since: '2026-01-01' }))).toEqual(['d1', 'd2']);
+    expect(ids(await service.search('cache', 10, { since: '2026-01-15T08:00:00Z', until: '2026-01-15' }))).toEqual(['d2']);
+    expect(ids(await service.search('cache', 10, { priorities: ['low'] }))).toEqual(['d3']);
+  });
+
+  it('skips the vector search when no doc passes the filters', async () => {
+    const { results, matched } = await service.searchFaceted('cache', 10, { docTypes: ['research'] });
+    expect(results).toEqual([]);
+    expect(matched).toBe(0);
+    expect(vectorWheres).toEqual([]);
+  });
+});
@@ -11,9 +11,8 @@ import {
   RelationDetector,
   type ExtractedEntity,
   type ExtractedRelation,
-  type EntityType,
-  type RelationType,
 } from './entity-extractor.js';
+import { acceptedRelationNames, getOntology, type Ontology } from './entity-ontology.js';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Constants
@@ -25,15 +24,17 @@ const INFERENCE_MODEL = process.env.OLLAMA_INFERENCE_MODEL || 'llama3.2';
 const REGEX_CONFIDENCE = 0.7;
 const LLM_CONFIDENCE = 0.9;
 
-const VALID_ENTITY_TYPES = new Set<EntityType>([
-  'person', 'project', 'file', 'service', 'component', 'concept',
-]);
-
-const VALID_RELATION_TYPES = new Set<RelationType>([
-  'mentions', 'implements', 'depends_on', 'blocks', 'authored_by',
-]);
-
-const EXTRACTION_SYSTEM_PROMPT = `You are an entity extraction system for a developer knowledge graph.
+/** What each built-in entity type covers; project types are listed by name. */
+const BUILTIN_ENTITY_TYPE_HINTS: Record<string, string> = {
+  person: 'People, usernames (@alice), team members',
+  project: 'Repositories (org/repo), packages',
+  file: 'File paths (src/foo.ts), imports',
+  service: 'External services (Redis, Postgres, Docker, AWS, etc.)',
+  component: 'Code components, classes, modules (PascalCase)',
+  concept: 'Abstract concepts, topics, features (#auth, authentication)',
+};
+
+const EXTRACTION_PROMPT_HEAD = `You are an entity extraction system for a developer knowledge graph.
 Extract structured entities and relations from the given text.
 
 Output ONLY valid JSON with this schema:
@@ -41,7 +42,7 @@ Output ONLY valid JSON with this schema:
   "entities": [
     {
       "name": "exact text as it appears",
-      "type": "person|project|file|service|component|concept",
+      "type": "<one of the entity types below>",
       "description": "brief description"
     }
   ],
@@ -49,27 +50,32 @@ Output ONLY valid JSON with this schema:
     {
       "source": "entity name",
       "target": "entity name",
-      "type": "mentions|implements|depends_on|blocks|authored_by"
+      "type": "<one of the relation types below>"
     }
   ]
 }
+`;
 
+/**
+ * System prompt with the entity and relation types taken from the ontology, so
+ * project types (e.g. team, owned_by) are extracted without code changes.
+ */
+export function buildExtractionPrompt(ontology: Ontology = getOntology()): string {
+  const entityLines = ontology.entityTypes.map(
+    (name) => `- ${name}: ${BUILTIN_ENTITY_TYPE_HINTS[name] ?? name.replace(/_/g, ' ')}`,
+  );
+  const relationLines = Object.entries(ontology.relationTypes).map(
+    ([name, spec]) => `- ${name}: ${spec.description ?? name.replace(/_/g, ' ')}`,
+  );
+  return `${EXTRACTION_PROMPT_HEAD}
 Entity types:
-- person: People, usernames (@alice), team members
-- project: Repositories (org/repo), packages
-- file: File paths (src/foo.ts), imports
-- service: External services (Redis, Postgres, Docker, AWS, etc.)
-- component: Code components, classes, modules (PascalCase)
-- concept: Abstract concepts, topics, features (#auth, authentication)
+${entityLines.join('\n')}
 
 Relation types:
-- mentions: Entity appears in context (default)
-- implements: Subject implements/builds target
-- depends_on: Subject depends on/requires/uses target
-- blocks: Subject blocks target
-- authored_by: Subject was authored/created by target
+${relationLines.join('\n')}
 
 Be thorough but precise. Only include entities clearly mentioned in the text.`;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
 // OllamaInferenceService
@@ -147,25 +153,27 @@ interface LlmResponseRaw {
 
 /**
  * Parse and validate LLM JSON response into ExtractedEntity[].
- * Silently drops malformed entries.
+ * Silently drops malformed entries and types the ontology does not declare.
  */
 export function parseLlmEntities(
   raw: LlmResponseRaw,
   regexExtractor: EntityExtractor,
+  ontology: Ontology = getOntology(),
 ): ExtractedEntity[] {
   if (!Array.isArray(raw.entities)) return [];
+  const validEntityTypes = new Set(ontology.entityTypes);
 
   const results: ExtractedEntity[] = [];
   for (const item of raw.entities as LlmEntityRaw[]) {
     const name = typeof item.name === 'string' ? item.name.trim() : '';
     const type = typeof item.type === 'string' ? item.type.trim().toLowerCase() : '';
 
-    if (!name || !VALID_ENTITY_TYPES.has(type as EntityType)) continue;
+    if (!name || !validEntityTypes.has(type)) continue;
 
-    const canonicalName = regexExtractor.canonicalize(name, type as EntityType);
+    const canonicalName = regexExtractor.canonicalize(name, type);
 
     results.push({
-      type: type as EntityType,
+      type,
       name,
       canonicalName,
       confidence: LLM_CONFIDENCE,
@@ -185,8 +193,10 @@ export function parseLlmEntities(
 export function parseLlmRelations(
   raw: LlmResponseRaw,
   entities: ExtractedEntity[],
+  ontology: Ontology = getOntology(),
 ): ExtractedRelation[] {
   if (!Array.isArray(raw.relations)) return [];
+  const validRelationTypes = new Set(acceptedRelationNames(ontology));
 
   // Build a lookup: name -> entity (case-insensitive)
   const nameToEntity = new Map<string, ExtractedEntity>();
@@ -201,7 +211,7 @@ export function parseLlmRelations(
     const targetName = typeof item.target === 'string' ? item.target.trim() : '';
     const relType = typeof item.type === 'string' ? item.type.trim().toLowerCase() : '';
 
-    if (!sourceName || !targetName || !VALID_RELATION_TYPES.has(relType as RelationType)) continue;
+    if (!sourceName || !targetName || !validRelationTypes.has(relType)) continue;
 
     const sourceEntity = nameToEntity.get(sourceName.toLowerCase());
     const targetEntity = nameToEntity.get(targetName.toLowerCase());
@@ -209,7 +219,7 @@ export function parseLlmRelations(
     if (!sourceEntity || !targetEntity) continue;
 
     results.push({
-      relationType: relType as RelationType,
+      relationType: relType,
       sourceCanonical: sourceEntity.canonicalName,
       sourceType: sourceEntity.type,
       targetCanonical: targetEntity.canonicalName,
@@ -318,14 +328,15 @@ export class LlmEntityExtractor {
 
     // Attempt LLM extraction
     try {
+      const ontology = getOntology();
       const rawJson = await this.inferenceService.chat(
         `Extract entities and relations from this text:\n\n${text}`,
-        EXTRACTION_SYSTEM_PROMPT,
+        buildExtractionPrompt(ontology),
       );
 
       const parsed = JSON.parse(rawJson) as LlmResponseRaw;
-      const llmEntities = parseLlmEntities(parsed, this.regexExtractor);
-      const llmRelations = parseLlmRelations(parsed, llmEntities);
+      const llmEntities = parseLlmEntities(parsed, this.regexExtractor, ontology);
+      const llmRelations = parseLlmRelations(parsed, llmEntities, ontology);
 
       const mergedEntities = mergeEntities(regexEntities, llmEntities);
       const mergedRelations = mergeRelations(regexRelations, llmRelations);
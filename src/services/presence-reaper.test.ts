@@ -0,0 +1,137 @@
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { reapOrphans, startPresenceReaper } = require('./presence-reaper.js') as typeof import('./presence-reaper.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { HANDOFFS_OPEN_URI, onResourceChanged } = require('../utils/resource-events.js') as typeof import('../utils/resource-events.js');
+
+describe('presence-reaper', () => {
+  let db: Database.Database;
+  let now: number;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE agent_presence (
+        agent_id TEXT PRIMARY KEY, session_id TEXT, status TEXT NOT NULL DEFAULT 'active',
+        current_focus TEXT, last_heartbeat INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE file_claims (
+        claim_key TEXT PRIMARY KEY, file_path TEXT NOT NULL, kind TEXT NOT NULL DEFAULT 'file',
+        agent_id TEXT NOT NULL, session_id TEXT, intent TEXT, claimed_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0, released_at INTEGER
+      );
+      CREATE TABLE claim_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, claim_key TEXT NOT NULL, file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file', agent_id TEXT NOT NULL, session_id TEXT, intent TEXT,
+        ttl_seconds INTEGER NOT NULL, enqueued_at INTEGER NOT NULL, granted_at INTEGER, notified_at INTEGER
+      );
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open', claimed_by TEXT,
+        created_at TEXT, claimed_at TEXT, expires_at TEXT, ttl_seconds INTEGER
+      );
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY, started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP, ended_at DATETIME,
+        status TEXT NOT NULL DEFAULT 'active'
+      );
+    `);
+    now = Math.floor(Date.now() / 1000);
+    const presence = db.prepare('INSERT INTO agent_presence (agent_id, session_id, last_heartbeat) VALUES (?, ?, ?)');
+    presence.run('dead', 's-dead', now - 5000);
+    presence.run('alive', 's-alive', now);
+    const session = db.prepare('INSERT INTO sessions (id, status) VALUES (?, ?)');
+    session.run('s-dead', 'active');
+    session.run('s-alive', 'active');
+    const claim = db.prepare('INSERT INTO file_claims (claim_key, file_path, agent_id, session_id, claimed_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)');
+    claim.run('a.ts', 'a.ts', 'dead', 's-dead', now - 100, now + 3000);
+    claim.run('b.ts', 'b.ts', 'alive', 's-alive', now, now + 300);
+    claim.run('c.ts', 'c.ts', 'ghost', null, now, now + 300); // never pinged
+    const handoff = db.prepare(`INSERT INTO handoffs (from_agent, summary, status, claimed_by, claimed_at) VALUES ('x', ?, ?, ?, ?)`);
+    handoff.run('taken by dead', 'claimed', 'dead', '2026-01-01T00:00:00Z');
+    handoff.run('taken by alive', 'claimed', 'alive', '2026-01-01T00:00:00Z');
+  });
+  afterEach(() => { db.close(); });
+
+  it('releases claims, abandons sessions and reopens handoffs of stale agents only', () => {
+    const changed: string[] = [];
+    const unsubscribe = onResourceChanged((uri) => changed.push(uri));
+    const r = reapOrphans(db);
+    expect(r.agents).toEqual(['dead']);
+    expect(r.releasedClaims).toEqual([{ agent_id: 'dead', file_path: 'a.ts' }]);
+    expect(r.abandonedSessions).toEqual(['s-dead']);
+    expect(r.reopenedHandoffs).toEqual([1]);
+
+    const released = db.prepare('SELECT claim_key FROM file_claims WHERE released_at IS NOT NULL').all();
+    expect(released).toEqual([{ claim_key: 'a.ts' }]);
+    const sessions = db.prepare('SELECT id, status, ended_at FROM sessions ORDER BY id').all() as Array<{ id: string; status: string; ended_at: string | null }>;
+    expect(sessions[0]).toMatchObject({ id: 's-alive', status: 'active', ended_at: null });
+    expect(sessions[1]).toMatchObject({ id: 's-dead', status: 'abandoned' });
+    expect(sessions[1].ended_at).not.toBeNull();
+    const handoffs = db.prepare('SELECT status, claimed_by, claimed_at FROM handoffs ORDER BY id').all();
+    expect(handoffs).toEqual([
+      { status: 'open', claimed_by: null, claimed_at: null },
+      { status: 'claimed', claimed_by: 'alive', claimed_at: '2026-01-01T00:00:00Z' },
+    ]);
+
+    // Idempotent: nothing left to reap, and nothing more to announce.
+    expect(reapOrphans(db).agents).toEqual([]);
+    unsubscribe();
+    expect(changed).toEqual([HANDOFFS_OPEN_URI]);
+  });
+
+  it('restarts the TTL of a reopened handoff whose deadline passed while it was claimed', () => {
+    db.prepare(`INSERT INTO handoffs (from_agent, summary, status, claimed_by, claimed_at, created_at, expires_at, ttl_seconds)
+      VALUES ('x', 'short-lived', 'claimed', 'dead', '2000-01-01T00:00:00Z', '2000-01-01T00:00:00Z', '2000-01-01T00:10:00Z', 600)`).run();
+    expect(reapOrphans(db).reopenedHandoffs).toEqual([1, 3]);
+    const left = db.prepare(`SELECT status, CAST(strftime('%s', expires_at) AS INTEGER) - CAST(strftime('%s','now') AS INTEGER) AS s
+      FROM handoffs WHERE id = 3`).get() as { status: string; s: number };
+    expect(left.status).toBe('open');
+    expect(left.s).toBeGreaterThan(590);
+    expect(left.s).toBeLessThanOrEqual(600);
+    // A handoff without a TTL keeps no expiry.
+    expect(db.prepare('SELECT expires_at FROM handoffs WHERE id = 1').get()).toEqual({ expires_at: null });
+  });
+
+  it('keeps a session a live agent still reports and grants freed claims to waiters', () => {
+    db.prepare(`UPDATE agent_presence SET session_id = 's-dead' WHERE agent_id = 'alive'`).run();
+    db.prepare(`INSERT INTO claim_waiters (claim_key, file_path, agent_id, ttl_seconds, enqueued_at) VALUES ('a.ts', 'a.ts', 'alive', 120, ?)`).run(now);
+
+    const r = reapOrphans(db);
+    expect(r.abandonedSessions).toEqual([]);
+    expect(r.grantedWaiters).toEqual([{ agent_id: 'alive', file_path: 'a.ts' }]);
+    const row = db.prepare(`SELECT agent_id, released_at FROM file_claims WHERE claim_key = 'a.ts'`).get();
+    expect(row).toEqual({ agent_id: 'alive', released_at: null });
+    const notice = db.prepare(`SELECT to_agent FROM handoffs WHERE from_agent = 'dokoro_file_claim'`).get();
+    expect(notice).toEqual({ to_agent: 'alive' });
+  });
+
+  it('grants a waiter a claim whose lease ran out when no agent is stale', () => {
+    db.prepare(`DELETE FROM agent_presence WHERE agent_id = 'dead'`).run();
+    db.prepare(`INSERT INTO agent_presence (agent_id, last_heartbeat) VALUES ('carol', ?)`).run(now);
+    db.prepare(`UPDATE file_claims SET expires_at = ? WHERE claim_key = 'b.ts'`).run(now - 1);
+    db.prepare(`INSERT INTO claim_waiters (claim_key, file_path, agent_id, ttl_seconds, enqueued_at) VALUES ('b.ts', 'b.ts', 'carol', 120, ?)`).run(now);
+
+    const r = reapOrphans(db);
+    expect(r.agents).toEqual([]);
+    expect(r.releasedClaims).toEqual([]);
+    expect(r.grantedWaiters).toEqual([{ agent_id: 'carol', file_path: 'b.ts' }]);
+    const row = db.prepare(`SELECT agent_id, released_at FROM file_claims WHERE claim_key = 'b.ts'`).get();
+    expect(row).toEqual({ agent_id: 'carol', released_at: null });
+  });
+
+  it('skips missing tables and can be disabled', () => {
+    const bare = new Database(':memory:');
+    expect(reapOrphans(bare).agents).toEqual([]);
+    bare.close();
+    expect(startPresenceReaper(db, 0)).toBeNull();
+    const stop = startPresenceReaper(db, 3600);
+    expect(typeof stop).toBe('function');
+    stop!();
+  });
+});
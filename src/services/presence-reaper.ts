@@ -0,0 +1,172 @@
+/**
+ * Presence Reaper
+ *
+ * Cleans up after agents that went away without saying so. Presence is a
+ * heartbeat (dokoro_presence_ping); once an agent's last heartbeat is older
+ * than the presence TTL its coordination state is orphaned:
+ *
+ * - open file claims are released
+ * - its sessions still 'active' or 'paused' are marked 'abandoned'
+ * - handoffs it claimed are reopened so another agent can pick them up, with
+ *   any TTL restarted as dokoro_handoff_release does
+ *
+ * Agents that never pinged are left alone — without a presence row there is
+ * no evidence they are gone. A session is only abandoned when no live agent
+ * reports it as its current session.
+ *
+ * Every pass also grants the claim wait queue whatever is free by then, both
+ * claims released above and leases that expired on their own, so a waiter
+ * gets its claim within one interval. One pass is one immediate transaction;
+ * the server runs it every DOKORO_PRESENCE_REAPER_INTERVAL seconds.
+ */
+
+import type Database from 'better-sqlite3';
+import { promoteWaiters } from '../tools/file-claim-tools.js';
+import { reopenHandoff } from './handoff-lifecycle.js';
+import { HANDOFFS_OPEN_URI, notifyResourceChanged } from '../utils/resource-events.js';
+
+/** Presence liveness window — matches dokoro_presence_list's default. */
+const PRESENCE_TTL_SECONDS = 900;
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+export interface ReapResult {
+  /** Agents whose presence had expired and who still held something. */
+  agents: string[];
+  releasedClaims: Array<{ agent_id: string; file_path: string }>;
+  abandonedSessions: string[];
+  reopenedHandoffs: number[];
+  /** Waiters granted a claim freed by this pass: agent_id -> file_path. */
+  grantedWaiters: Array<{ agent_id: string; file_path: string }>;
+}
+
+export interface ReapOptions {
+  /** Liveness window in seconds (default 900). */
+  presenceTtlSeconds?: number;
+}
+
+function hasTable(sqlite: Database.Database, name: string): boolean {
+  return !!sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name);
+}
+
+/** Run one reaper pass. Missing tables (older databases) are skipped. */
+export function reapOrphans(sqlite: Database.Database, opts: ReapOptions = {}): ReapResult {
+  const ttl = opts.presenceTtlSeconds ?? PRESENCE_TTL_SECONDS;
+  const result: ReapResult = { agents: [], releasedClaims: [], abandonedSessions: [], reopenedHandoffs: [], grantedWaiters: [] };
+  if (!hasTable(sqlite, 'agent_presence')) return result;
+
+  sqlite.transaction(() => {
+    const now = Number((sqlite.prepare(`SELECT strftime('%s','now') AS n`).get() as { n: string }).n);
+    const stale = sqlite.prepare('SELECT agent_id, session_id FROM agent_presence WHERE ? - last_heartbeat > ?')
+      .all(now, ttl) as Array<{ agent_id: string; session_id: string | null }>;
+    if (stale.length > 0) releaseStale(sqlite, stale, now, ttl, result);
+
+    // Every pass, not only after releasing: a lease that simply ran out frees
+    // its target too, and its waiters should not have to wait for the next
+    // claim or release call to get it.
+    if (hasTable(sqlite, 'file_claims') && hasTable(sqlite, 'claim_waiters')) {
+      result.grantedWaiters = promoteWaiters(sqlite, now).map((w) => ({ agent_id: w.agent_id, file_path: w.file_path }));
+    }
+  }).immediate();
+
+  // Reopened handoffs are back in the open list; grants announce themselves.
+  if (result.reopenedHandoffs.length > 0) notifyResourceChanged(HANDOFFS_OPEN_URI);
+  return result;
+}
+
+/** Release the claims, sessions and handoffs of agents whose presence expired. */
+function releaseStale(
+  sqlite: Database.Database,
+  stale: Array<{ agent_id: string; session_id: string | null }>,
+  now: number,
+  ttl: number,
+  result: ReapResult,
+): void {
+  const agents = new Set<string>();
+  const sessionIds = new Set<string>();
+  for (const p of stale) if (p.session_id) sessionIds.add(p.session_id);
+
+  if (hasTable(sqlite, 'file_claims')) {
+    const selectOpen = sqlite.prepare('SELECT file_path, session_id FROM file_claims WHERE agent_id = ? AND released_at IS NULL ORDER BY claim_key');
+    const release = sqlite.prepare('UPDATE file_claims SET released_at = ? WHERE agent_id = ? AND released_at IS NULL');
+    for (const p of stale) {
+      const open = selectOpen.all(p.agent_id) as Array<{ file_path: string; session_id: string | null }>;
+      if (open.length === 0) continue;
+      release.run(now, p.agent_id);
+      agents.add(p.agent_id);
+      for (const c of open) {
+        result.releasedClaims.push({ agent_id: p.agent_id, file_path: c.file_path });
+        if (c.session_id) sessionIds.add(c.session_id);
+      }
+    }
+  }
+
+  if (hasTable(sqlite, 'sessions') && sessionIds.size > 0) {
+    const liveSessions = new Set(
+      (sqlite.prepare('SELECT session_id FROM agent_presence WHERE session_id IS NOT NULL AND ? - last_heartbeat <= ?')
+        .all(now, ttl) as Array<{ session_id: string }>).map((r) => r.session_id),
+    );
+    const abandon = sqlite.prepare(`
+      UPDATE sessions SET status = 'abandoned', ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP)
+      WHERE id = ? AND status IN ('active', 'paused')
+    `);
+    for (const id of sessionIds) {
+      if (liveSessions.has(id)) continue;
+      if (abandon.run(id).changes > 0) result.abandonedSessions.push(id);
+    }
+    const owner = new Map(stale.filter((p) => p.session_id).map((p) => [p.session_id!, p.agent_id]));
+    for (const id of result.abandonedSessions) if (owner.has(id)) agents.add(owner.get(id)!);
+  }
+
+  if (hasTable(sqlite, 'handoffs')) {
+    const selectClaimed = sqlite.prepare(`SELECT id FROM handoffs WHERE status = 'claimed' AND claimed_by = ? ORDER BY id`);
+    // Recorded in the handoff's thread like an explicit dokoro_handoff_release.
+    const note = hasTable(sqlite, 'handoff_replies')
+      ? sqlite.prepare(`INSERT INTO handoff_replies (handoff_id, agent_id, kind, body, created_at)
+          VALUES (?, ?, 'release', 'presence expired; returned to the pool by the presence reaper', strftime('%Y-%m-%dT%H:%M:%SZ','now'))`)
+      : null;
+    for (const p of stale) {
+      for (const h of selectClaimed.all(p.agent_id) as Array<{ id: number }>) {
+        reopenHandoff(sqlite, h.id);
+        note?.run(h.id, p.agent_id);
+        result.reopenedHandoffs.push(h.id);
+        agents.add(p.agent_id);
+      }
+    }
+  }
+  result.agents = [...agents].sort();
+}
+
+/** Reaper interval from DOKORO_PRESENCE_REAPER_INTERVAL (seconds); 0 disables it. */
+export function reaperIntervalSeconds(): number {
+  const raw = process.env.DOKORO_PRESENCE_REAPER_INTERVAL;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_INTERVAL_SECONDS;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_INTERVAL_SECONDS;
+}
+
+/**
+ * Run reapOrphans on a timer in the server process. The timer is unref'd so
+ * it never keeps the process alive; a failing pass is logged and retried on
+ * the next tick. Returns a stop function, or null when disabled.
+ */
+export function startPresenceReaper(sqlite: Database.Database, intervalSeconds: number = reaperIntervalSeconds()): (() => void) | null {
+  if (intervalSeconds <= 0) return null;
+  const timer = setInterval(() => {
+    try {
+      const r = reapOrphans(sqlite);
+      if (r.agents.length > 0) {
+        console.error(
+          `[PresenceReaper] ${r.agents.join(', ')}: released ${r.releasedClaims.length} claim(s), ` +
+          `abandoned ${r.abandonedSessions.length} session(s), reopened ${r.reopenedHandoffs.length} handoff(s)` +
+          (r.grantedWaiters.length ? `, granted ${r.grantedWaiters.length} queued claim(s)` : ''),
+        );
+      } else if (r.grantedWaiters.length > 0) {
+        console.error(`[PresenceReaper] granted ${r.grantedWaiters.length} queued claim(s) freed by lease expiry`);
+      }
+    } catch (e) {
+      console.error('[PresenceReaper] pass failed:', (e as Error).message);
+    }
+  }, intervalSeconds * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,80 @@
+import { importanceScore, rankRecall, recencyScore, wordOverlap, type RecallCandidate } from './recall-ranking.js';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+function candidate(id: string, over: Partial<RecallCandidate<string>> = {}): RecallCandidate<string> {
+  return {
+    item: id, text: id, embedding: null, timestamp: '2026-06-01T00:00:00Z',
+    decisions: 0, linkedDocs: 0, group: null, ...over,
+  };
+}
+
+describe('recall ranking signals', () => {
+  it('recency halves every half-life and accepts SQLite datetimes', () => {
+    expect(recencyScore('2026-06-01T00:00:00Z', NOW, 30)).toBe(1);
+    expect(recencyScore('2026-05-02 00:00:00', NOW, 30)).toBeCloseTo(0.5, 5);
+    expect(recencyScore(null, NOW, 30)).toBe(0);
+  });
+
+  it('importance saturates with decisions and linked docs', () => {
+    expect(importanceScore(0, 0)).toBe(0);
+    expect(importanceScore(2, 1)).toBeGreaterThan(importanceScore(1, 0));
+    expect(importanceScore(50, 0)).toBeLessThanOrEqual(1);
+  });
+
+  it('word overlap is a Jaccard of words longer than two characters', () => {
+    expect(wordOverlap('fixed a cache bug', 'Fixed cache bug!')).toBe(1);
+    expect(wordOverlap('alpha beta', 'gamma delta')).toBe(0);
+  });
+});
+
+describe('rankRecall', () => {
+  it('weighs similarity, recency and importance', () => {
+    const ranked = rankRecall([
+      candidate('old-match', { embedding: [1, 0], timestamp: '2025-06-01T00:00:00Z' }),
+      candidate('fresh-miss', { embedding: [0, 1] }),
+      candidate('fresh-match', { embedding: [1, 0], decisions: 3 }),
+    ], [1, 0], 3, { now: NOW, diversity: 0 });
+    expect(ranked.map((r) => r.item)).toEqual(['fresh-match', 'old-match', 'fresh-miss']);
+    expect(ranked[0].breakdown).toMatchObject({ similarity: 1, recency: 1, redundancy: 0 });
+    expect(ranked[0].breakdown.importance).toBeGreaterThan(0.6);
+  });
+
+  it('ranks on recency and importance alone when the query has no embedding', () => {
+    const ranked = rankRecall([
+      candidate('older', { timestamp: '2026-04-01T00:00:00Z' }),
+      candidate('newer'),
+    ], null, 2, { now: NOW });
+    expect(ranked.map((r) => r.item)).toEqual(['newer', 'older']);
+    expect(ranked[0].breakdown.similarity).toBeNull();
+    expect(ranked[0].breakdown.relevance).toBeCloseTo(1 * 0.25 / 0.4, 5);
+  });
+
+  it('MMR keeps near-duplicates of one session from crowding out a distinct result', () => {
+    const candidates = [
+      candidate('s1-a', { embedding: [1, 0, 0], group: 's1' }),
+      candidate('s1-b', { embedding: [0.99, 0.1, 0], group: 's1' }),
+      candidate('s1-c', { embedding: [0.98, 0.15, 0], group: 's1' }),
+      candidate('s2', { embedding: [0.7, 0, 0.7], group: 's2' }),
+    ];
+    expect(rankRecall(candidates, [1, 0, 0], 2, { now: NOW, diversity: 0 }).map((r) => r.item)).toEqual(['s1-a', 's1-b']);
+    const diverse = rankRecall(candidates, [1, 0, 0], 2, { now: NOW, diversity: 0.5 });
+    expect(diverse.map((r) => r.item)).toEqual(['s1-a', 's2']);
+    expect(diverse[1].breakdown.redundancy).toBeCloseTo(0.707, 2);
+  });
+
+  it('MMR compares each pool entry with only the latest pick per round', () => {
+    let reads = 0;
+    const pool = Array.from({ length: 100 }, (_, i) => {
+      const c = candidate(`c${i}`, { group: `g${i % 10}` });
+      const embedding = [1, i / 100, (i % 7) / 7];
+      Object.defineProperty(c, 'embedding', { get: () => { reads++; return embedding; } });
+      return c;
+    });
+    const ranked = rankRecall(pool, [1, 0, 0], 20, { now: NOW, diversity: 0.5 });
+    expect(ranked).toHaveLength(20);
+    expect(new Set(ranked.map((r) => r.item)).size).toBe(20);
+    // Re-scoring every pick each round would read embeddings ~20× more often.
+    expect(reads).toBeLessThan(5 * 20 * 100);
+  });
+});
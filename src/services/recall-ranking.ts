@@ -0,0 +1,192 @@
+/**
+ * Recall Ranking
+ *
+ * Scores episodic recall candidates on three signals and picks the final list
+ * with maximal marginal relevance (MMR):
+ *
+ *   similarity  cosine(query, summary embedding), clamped to [0, 1]
+ *   recency     0.5 ^ (age / half-life)
+ *   importance  saturating count of key decisions + linked docs
+ *
+ *   relevance   = weighted sum of the three (weights renormalised when the
+ *                 query has no embedding, so similarity never counts as 0)
+ *   mmr         = λ·relevance − (1 − λ)·max redundancy with what is already
+ *                 picked, redundancy being embedding cosine (word overlap when
+ *                 either side lacks an embedding), floored for rows of the
+ *                 same session so one session cannot fill the whole list
+ *
+ * Pure functions: the caller loads rows and renders the breakdown.
+ */
+
+import { blobToFloatArray, cosineSimilarity } from '../utils/vector-math.js';
+
+export interface RecallCandidate<T = unknown> {
+  item: T;
+  text: string;
+  embedding: number[] | null;
+  /** ISO timestamp the memory refers to (started_at). */
+  timestamp: string | null;
+  decisions: number;
+  linkedDocs: number;
+  /** Rows sharing a group (project + session) count as near-duplicates. */
+  group: string | null;
+}
+
+export interface ScoreBreakdown {
+  similarity: number | null;
+  recency: number;
+  importance: number;
+  relevance: number;
+  /** Max redundancy with a higher-ranked result (0 for the first pick). */
+  redundancy: number;
+  score: number;
+}
+
+export interface RankedRecall<T> {
+  item: T;
+  breakdown: ScoreBreakdown;
+}
+
+export interface RecallRankOptions {
+  /** Recency half-life in days (default 30). */
+  halfLifeDays?: number;
+  /** 0 = pure relevance, 1 = maximal diversity; λ = 1 − diversity (default 0.3). */
+  diversity?: number;
+  weights?: { similarity: number; recency: number; importance: number };
+  /** Reference time for recency (default now). */
+  now?: Date;
+}
+
+export const DEFAULT_WEIGHTS = { similarity: 0.6, recency: 0.25, importance: 0.15 };
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DEFAULT_DIVERSITY = 0.3;
+/** Decisions + linked docs at which importance reaches ~0.63. */
+const IMPORTANCE_SCALE = 3;
+/** Minimum redundancy between two rows of the same session. */
+const SAME_GROUP_REDUNDANCY = 0.5;
+const DAY_MS = 86_400_000;
+
+export function recencyScore(timestamp: string | null, now: Date, halfLifeDays: number): number {
+  if (!timestamp) return 0;
+  const t = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(timestamp) ? timestamp : `${timestamp.replace(' ', 'T')}Z`);
+  if (Number.isNaN(t)) return 0;
+  const ageDays = Math.max(0, (now.getTime() - t) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+export function importanceScore(decisions: number, linkedDocs: number): number {
+  return 1 - Math.exp(-(decisions + linkedDocs) / IMPORTANCE_SCALE);
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 2));
+}
+
+/** Jaccard overlap of the two texts' word sets. */
+export function wordOverlap(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+function redundancy(a: RecallCandidate, b: RecallCandidate): number {
+  const r = a.embedding && b.embedding
+    ? Math.max(0, cosineSimilarity(a.embedding, b.embedding))
+    : wordOverlap(a.text, b.text);
+  return a.group !== null && a.group === b.group ? Math.max(r, SAME_GROUP_REDUNDANCY) : r;
+}
+
+function jsonArrayLength(value: unknown): number {
+  if (typeof value !== 'string' || !value) return 0;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * A conversation_summaries row (summary, summary_embedding,
+ * summary_embedding_model, started_at, key_decisions_json, linked_docs_json,
+ * session_id, optional project) as a ranking candidate; project + session
+ * groups near-duplicates. With `modelId`, an embedding from any other model
+ * (or of unknown origin) is dropped, so the row ranks without similarity
+ * rather than against an incomparable vector.
+ */
+export function summaryCandidate(r: Record<string, unknown>, modelId?: string): RecallCandidate<Record<string, unknown>> {
+  const blob = r['summary_embedding'] as Buffer | null;
+  const sameModel = modelId === undefined || r['summary_embedding_model'] === modelId;
+  return {
+    item: r,
+    text: String(r['summary'] ?? ''),
+    embedding: blob && sameModel ? blobToFloatArray(blob) : null,
+    timestamp: (r['started_at'] as string | null) ?? null,
+    decisions: jsonArrayLength(r['key_decisions_json']),
+    linkedDocs: jsonArrayLength(r['linked_docs_json']),
+    group: r['session_id'] ? `${r['project'] ?? ''}:${r['session_id']}` : null,
+  };
+}
+
+/**
+ * Rank `candidates` for `queryEmbedding` (null when the query did not embed)
+ * and return the top `limit` in MMR order, each with its score breakdown.
+ */
+export function rankRecall<T>(
+  candidates: Array<RecallCandidate<T>>,
+  queryEmbedding: number[] | null,
+  limit: number,
+  opts: RecallRankOptions = {},
+): Array<RankedRecall<T>> {
+  const now = opts.now ?? new Date();
+  const halfLife = opts.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const lambda = 1 - (opts.diversity ?? DEFAULT_DIVERSITY);
+  const w = opts.weights ?? DEFAULT_WEIGHTS;
+  const useSimilarity = queryEmbedding !== null && queryEmbedding.length > 0;
+  const total = (useSimilarity ? w.similarity : 0) + w.recency + w.importance || 1;
+
+  const scored = candidates.map((c) => {
+    const similarity = useSimilarity
+      ? (c.embedding ? Math.max(0, cosineSimilarity(queryEmbedding, c.embedding)) : 0)
+      : null;
+    const recency = recencyScore(c.timestamp, now, halfLife);
+    const importance = importanceScore(c.decisions, c.linkedDocs);
+    const relevance = ((similarity ?? 0) * (useSimilarity ? w.similarity : 0) + recency * w.recency + importance * w.importance) / total;
+    return { c, similarity, recency, importance, relevance };
+  });
+
+  const picked: Array<RankedRecall<T>> = [];
+  // Each entry keeps its max redundancy against everything picked so far, so a
+  // round only compares the pool with the item picked last: O(limit × pool).
+  const pool = [...scored].sort((x, y) => y.relevance - x.relevance).map((s) => ({ ...s, red: 0 }));
+  let last: RecallCandidate | null = null;
+  while (picked.length < limit && pool.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < pool.length; i++) {
+      if (last) pool[i].red = Math.max(pool[i].red, redundancy(pool[i].c, last));
+      const mmr = lambda * pool[i].relevance - (1 - lambda) * pool[i].red;
+      if (mmr > bestScore) { best = i; bestScore = mmr; }
+    }
+    const [s] = pool.splice(best, 1);
+    last = s.c;
+    picked.push({
+      item: s.c.item,
+      breakdown: {
+        similarity: s.similarity, recency: s.recency, importance: s.importance,
+        relevance: s.relevance, redundancy: s.red, score: bestScore,
+      },
+    });
+  }
+  return picked;
+}
+
+/** One-line rendering of a breakdown, e.g. for recall output. */
+export function formatBreakdown(b: ScoreBreakdown): string {
+  const sim = b.similarity === null ? 'sim n/a' : `sim ${b.similarity.toFixed(2)}`;
+  return `score=${b.score.toFixed(3)} (relevance ${b.relevance.toFixed(2)}: ${sim}, recency ${b.recency.toFixed(2)}, ` +
+    `importance ${b.importance.toFixed(2)}; redundancy ${b.redundancy.toFixed(2)})`;
+}
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import {
+  OllamaReranker,
+  OpenAICompatibleReranker,
+  type Reranker,
+  loadRerankConfig,
+  rerankWithinBudget,
+} from './reranker.js';
+import { HybridSearchService, type IndexingService } from './vector-service.js';
+
+describe('rerankers', () => {
+  const realFetch = globalThis.fetch;
+  const signal = new AbortController().signal;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  function respond(body: unknown) {
+    const calls: Array<{ url: string; body: Record<string, unknown> }> = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      calls.push({ url, body: JSON.parse(String(init.body)) as Record<string, unknown> });
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as unknown as typeof fetch;
+    return calls;
+  }
+
+  it('maps /v1/rerank results back to passage order and squashes logits', async () => {
+    const calls = respond({ results: [{ index: 1, relevance_score: 4 }, { index: 0, relevance_score: -2 }] });
+    const scores = await new OpenAICompatibleReranker('http://localhost:8080/v1', 'bge').score('q', ['a', 'b'], signal);
+    expect(calls[0].url).toBe('http://localhost:8080/v1/rerank');
+    expect(calls[0].body).toEqual({ model: 'bge', query: 'q', documents: ['a', 'b'] });
+    expect(scores[1]).toBeGreaterThan(0.9);
+    expect(scores[0]).toBeLessThan(0.2);
+  });
+
+  it('reads 0-10 grades from an Ollama chat reply', async () => {
+    respond({ message: { content: '{"scores": [10, 3]}' } });
+    expect(await new OllamaReranker('http://x', 'llama3.2').score('q', ['a', 'b'], signal)).toEqual([1, 0.3]);
+  });
+
+  it('rejects an Ollama reply with the wrong number of scores', async () => {
+    respond({ message: { content: '{"scores": [10]}' } });
+    await expect(new OllamaReranker('http://x').score('q', ['a', 'b'], signal)).rejects.toThrow(/1 scores for 2/);
+  });
+});
+
+describe('rerankWithinBudget', () => {
+  it('gives up at the deadline and aborts the request', async () => {
+    let aborted = false;
+    const hanging: Reranker = {
+      kind: 'openai', model: 'slow', id: 'openai:slow',
+      score: (_q, _p, signal) => new Promise(() => { signal.addEventListener('abort', () => { aborted = true; }); }),
+    };
+    const outcome = await rerankWithinBudget(hanging, 'q', ['a'], 30);
+    expect(outcome).toMatchObject({ ok: false, reason: 'over the 30ms budget' });
+    expect(aborted).toBe(true);
+  });
+});
+
+describe('loadRerankConfig', () => {
+  let dir: string;
+  const saved = { ...process.env };
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-rerank-'));
+    delete process.env.DOKORO_RERANK_CONFIG;
+    delete process.env.DOKORO_RERANK_PROVIDER;
+  });
+  afterEach(() => {
+    process.env = { ...saved };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is off by default and reads rerank.json when present', () => {
+    expect(loadRerankConfig(dir)).toBeNull();
+    fs.writeFileSync(path.join(dir, 'rerank.json'), JSON.stringify({ provider: 'ollama', top_n: 5, budget_ms: 800 }));
+    expect(loadRerankConfig(dir)).toEqual({ provider: 'ollama', top_n: 5, budget_ms: 800 });
+  });
+
+  it('rejects an invalid config', () => {
+    process.env.DOKORO_RERANK_PROVIDER = 'cohere';
+    expect(() => loadRerankConfig(dir)).toThrow(/Invalid rerank config/);
+  });
+});
+
+describe('HybridSearchService re-ranking', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, title TEXT, content TEXT, doc_type TEXT, status TEXT,
+        priority TEXT, updated_at TEXT, filepath TEXT, created_at TEXT, summary_ai TEXT);
+      CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT UNIQUE);
+      CREATE TABLE doc_tags (doc_id TEXT, tag_id INTEGER);
+      CREATE VIRTUAL TABLE docs_fts USING fts5(id, title, content);
+    `);
+    const doc = db.prepare('INSERT INTO docs (id, title, content) VALUES (?, ?, ?)');
+    doc.run('d1', 'Cache cache cache', 'cache cache cache mentions');
+    doc.run('d2', 'Eviction policy', 'why the cache evicts entries early');
+    db.exec('INSERT INTO docs_fts (rowid, id, title, content) SELECT rowid, id, title, content FROM docs');
+  });
+
+  afterEach(() => db.close());
+
+  const indexing = {
+    getEmbeddingService: () => ({ modelId: 'local:test', embed: async () => ({ embedding: [1], tokenCount: 1 }) }),
+    getVectorStore: () => ({ search: async () => [] }),
+    hasModelMismatch: () => false,
+    indexedModels: () => [],
+  } as unknown as IndexingService;
+
+  function serviceWith(score: Reranker['score'], budgetMs = 500) {
+    const reranker: Reranker = { kind: 'openai', model: 'fake', id: 'openai:fake', score };
+    return new HybridSearchService(db, indexing, { reranker, topN: 10, budgetMs });
+  }
+
+  it('reorders by rerank score and exposes it in scores', async () => {
+    const service = serviceWith(async (_q, passages) => passages.map((p) => (p.includes('evicts') ? 0.9 : 0.1)));
+    const { results, rerank } = await service.searchFaceted('cache', 2);
+    expect(results.map((r) => r.docId)).toEqual(['d2', 'd1']);
+    expect(results[0].scores.rerank).toBe(0.9);
+    expect(rerank).toMatchObject({ model: 'openai:fake', applied: true, candidates: 2 });
+  });
+
+  it('keeps RRF order when the reranker fails or is turned off', async () => {
+    const failing = serviceWith(async () => { throw new Error('connection refused'); });
+    const { results, rerank } = await failing.searchFaceted('cache', 2);
+    expect(results.map((r) => r.docId)).toEqual(['d1', 'd2']);
+    expect(results[0].scores.rerank).toBeUndefined();
+    expect(rerank).toMatchObject({ applied: false, reason: 'connection refused' });
+
+    const off = serviceWith(async () => { throw new Error('should not run'); });
+    expect((await off.searchFaceted('cache', 2, {}, { rerank: false })).rerank).toBeUndefined();
+  });
+});
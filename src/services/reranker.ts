@@ -0,0 +1,237 @@
+/**
+ * Search Re-ranking
+ *
+ * Optional second stage for hybrid search: the top-N RRF candidates are scored
+ * jointly with the query by a local model, and the results are reordered by
+ * that score. Off unless configured per project in `<DOKORO_PATH>/rerank.json`
+ * (or DOKORO_RERANK_CONFIG):
+ *
+ *   { "provider": "openai", "model": "bge-reranker-v2-m3", "url": "http://localhost:8080" }
+ *   { "provider": "ollama", "model": "llama3.2", "top_n": 10, "budget_ms": 3000 }
+ *
+ * - openai: a cross-encoder behind an OpenAI-style `/v1/rerank` endpoint
+ *   (llama.cpp server, vLLM, TEI, Jina/Cohere-compatible APIs)
+ * - ollama: an instruction model asked to grade every passage 0-10 in one call
+ *
+ * Every query gets `budget_ms` (default 1500); a reranker that is slower, down
+ * or returns garbage leaves the RRF order untouched. Without a project file,
+ * DOKORO_RERANK_PROVIDER / _MODEL / _URL / _BUDGET_MS apply.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+
+export interface Reranker {
+  readonly kind: 'ollama' | 'openai';
+  readonly model: string;
+  /** e.g. `openai:bge-reranker-v2-m3` */
+  readonly id: string;
+  /** Relevance of each passage to the query in [0, 1], in passage order. */
+  score(query: string, passages: string[], signal: AbortSignal): Promise<number[]>;
+}
+
+export interface RerankSettings {
+  reranker: Reranker;
+  /** Fused candidates sent to the reranker. */
+  topN: number;
+  /** Per-query latency budget. */
+  budgetMs: number;
+}
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.2';
+const DEFAULT_OPENAI_URL = 'http://localhost:8080';
+const DEFAULT_OPENAI_MODEL = 'bge-reranker-v2-m3';
+const DEFAULT_TOP_N = 20;
+const DEFAULT_BUDGET_MS = 1500;
+/** Passage characters sent per candidate. */
+const PASSAGE_CHARS = 1000;
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+export class OpenAICompatibleReranker implements Reranker {
+  readonly kind = 'openai' as const;
+  readonly id: string;
+  private readonly url: string;
+
+  constructor(url = DEFAULT_OPENAI_URL, readonly model = DEFAULT_OPENAI_MODEL, private readonly apiKey?: string) {
+    this.url = url.replace(/\/+$/, '').replace(/\/v1$/, '');
+    this.id = `openai:${model}`;
+  }
+
+  async score(query: string, passages: string[], signal: AbortSignal): Promise<number[]> {
+    const response = await fetch(`${this.url}/v1/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, query, documents: passages.map((p) => p.slice(0, PASSAGE_CHARS)) }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`rerank request failed: ${response.status} ${response.statusText}`);
+    const data = await response.json() as { results?: Array<{ index: number; relevance_score: number }> };
+    if (!Array.isArray(data.results)) throw new Error('rerank response has no results');
+
+    const raw = new Array<number>(passages.length).fill(NaN);
+    for (const r of data.results) {
+      if (Number.isInteger(r.index) && r.index >= 0 && r.index < passages.length) raw[r.index] = r.relevance_score;
+    }
+    if (raw.some((s) => typeof s !== 'number' || Number.isNaN(s))) throw new Error('rerank response is missing passages');
+    // Some servers return raw cross-encoder logits rather than probabilities.
+    return raw.some((s) => s < 0 || s > 1) ? raw.map(sigmoid) : raw;
+  }
+}
+
+export class OllamaReranker implements Reranker {
+  readonly kind = 'ollama' as const;
+  readonly id: string;
+
+  constructor(private readonly url = process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL, readonly model = DEFAULT_OLLAMA_MODEL) {
+    this.id = `ollama:${model}`;
+  }
+
+  async score(query: string, passages: string[], signal: AbortSignal): Promise<number[]> {
+    const prompt = [
+      'Rate how relevant each passage is to the search query, from 0 (unrelated) to 10 (directly answers it).',
+      `Reply with JSON only: {"scores": [n, ...]} with exactly ${passages.length} numbers, one per passage, in order.`,
+      '',
+      `Query: ${query}`,
+      '',
+      ...passages.map((p, i) => `[${i + 1}] ${p.slice(0, PASSAGE_CHARS).replace(/\s+/g, ' ')}`),
+    ].join('\n');
+    const response = await fetch(`${this.url}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        stream: false,
+        format: 'json',
+        options: { temperature: 0 },
+        messages: [{ role: 'user', content: prompt }],
+      }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Ollama rerank failed: ${response.status} ${response.statusText}`);
+    const data = await response.json() as { message?: { content?: string } };
+    let scores: unknown;
+    try {
+      scores = (JSON.parse(data.message?.content ?? '') as { scores?: unknown }).scores;
+    } catch {
+      throw new Error('Ollama rerank returned invalid JSON');
+    }
+    if (!Array.isArray(scores) || scores.length !== passages.length || scores.some((s) => typeof s !== 'number')) {
+      throw new Error(`Ollama rerank returned ${Array.isArray(scores) ? scores.length : 'no'} scores for ${passages.length} passages`);
+    }
+    return (scores as number[]).map((s) => Math.min(1, Math.max(0, s / 10)));
+  }
+}
+
+export type RerankOutcome =
+  | { ok: true; scores: number[]; ms: number }
+  | { ok: false; reason: string; ms: number };
+
+/**
+ * Score `passages` within `budgetMs`. The request is aborted at the deadline;
+ * any failure is reported, never thrown, so callers keep their RRF order.
+ */
+export async function rerankWithinBudget(
+  reranker: Reranker,
+  query: string,
+  passages: string[],
+  budgetMs: number,
+): Promise<RerankOutcome> {
+  const started = Date.now();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`over the ${budgetMs}ms budget`));
+    }, budgetMs);
+    if (typeof timer.unref === 'function') timer.unref();
+  });
+  try {
+    const scores = await Promise.race([reranker.score(query, passages, controller.signal), deadline]);
+    return { ok: true, scores, ms: Date.now() - started };
+  } catch (e) {
+    const reason = controller.signal.aborted ? `over the ${budgetMs}ms budget` : (e as Error).message;
+    return { ok: false, reason, ms: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const configSchema = z.object({
+  provider: z.enum(['ollama', 'openai']),
+  model: z.string().min(1).optional(),
+  url: z.string().min(1).optional(),
+  /** Name of the env var holding the API key (keys never live in the project file). */
+  api_key_env: z.string().min(1).optional(),
+  top_n: z.number().int().min(2).max(100).optional(),
+  budget_ms: z.number().int().min(50).max(60_000).optional(),
+}).strict();
+
+export type RerankConfig = z.infer<typeof configSchema>;
+
+export function rerankConfigPath(dokoroPath: string = DOKORO_PATH): string {
+  return process.env.DOKORO_RERANK_CONFIG || path.join(dokoroPath, 'rerank.json');
+}
+
+/**
+ * The project's rerank config: rerank.json when present, else the
+ * DOKORO_RERANK_* environment, else null (re-ranking off). An invalid file
+ * throws, like embedding.json.
+ */
+export function loadRerankConfig(dokoroPath: string = DOKORO_PATH): RerankConfig | null {
+  const file = rerankConfigPath(dokoroPath);
+  let text: string | null = null;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw new Error(`Cannot read ${file}: ${(e as Error).message}`);
+  }
+  let raw: unknown;
+  if (text !== null) {
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Invalid rerank config ${file}: ${(e as Error).message}`);
+    }
+  } else {
+    if (!process.env.DOKORO_RERANK_PROVIDER) return null;
+    raw = {
+      provider: process.env.DOKORO_RERANK_PROVIDER,
+      model: process.env.DOKORO_RERANK_MODEL || undefined,
+      url: process.env.DOKORO_RERANK_URL || undefined,
+      budget_ms: process.env.DOKORO_RERANK_BUDGET_MS ? Number(process.env.DOKORO_RERANK_BUDGET_MS) : undefined,
+    };
+  }
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid rerank config ${text !== null ? file : 'DOKORO_RERANK_*'}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+export function createReranker(config: RerankConfig): RerankSettings {
+  const reranker = config.provider === 'ollama'
+    ? new OllamaReranker(config.url ?? (process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL), config.model ?? (process.env.OLLAMA_INFERENCE_MODEL || DEFAULT_OLLAMA_MODEL))
+    : new OpenAICompatibleReranker(
+      config.url ?? DEFAULT_OPENAI_URL,
+      config.model ?? DEFAULT_OPENAI_MODEL,
+      config.api_key_env ? process.env[config.api_key_env] : process.env.OPENAI_API_KEY,
+    );
+  return { reranker, topN: config.top_n ?? DEFAULT_TOP_N, budgetMs: config.budget_ms ?? DEFAULT_BUDGET_MS };
+}
+
+/** The project's re-ranking stage, or null when none is configured. */
+export function resolveReranker(dokoroPath: string = DOKORO_PATH): RerankSettings | null {
+  const config = loadRerankConfig(dokoroPath);
+  return config ? createReranker(config) : null;
+}
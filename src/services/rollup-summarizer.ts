@@ -0,0 +1,138 @@
+/**
+ * Pluggable summarizers for episodic compaction rollups.
+ *
+ * CompactionService folds conversation summaries into session, day and week
+ * rollups; the gist text for each rollup comes from a RollupSummarizer:
+ *
+ *   ExtractiveRollupSummarizer  offline sentence ranking (src/tools/summarizer.ts)
+ *   OllamaRollupSummarizer      local LLM via OllamaInferenceService
+ *   AutoRollupSummarizer        Ollama when reachable, extractive otherwise
+ *
+ * Selection: DOKORO_COMPACTION_SUMMARIZER = auto (default) | extractive | ollama.
+ */
+import { Summarizer } from '../tools/summarizer.js';
+import { OllamaInferenceService } from './llm-entity-extractor.js';
+
+export type RollupLevel = 'session' | 'day' | 'week';
+
+export interface RollupSummarizer {
+  /** Recorded as ai_model on the rollup row (e.g. 'compaction:extractive'). */
+  readonly name: string;
+  /** Produce one gist for `sources` (already formatted, oldest first). */
+  summarize(sources: string[], level: RollupLevel): Promise<string>;
+}
+
+/** Target gist length in words per level; coarser levels get terser. */
+const LEVEL_WORD_BUDGET: Record<RollupLevel, number> = {
+  session: 200,
+  day: 150,
+  week: 120,
+};
+
+/** What the children of a rollup at each level are, for the LLM prompt. */
+const LEVEL_SOURCE_LABEL: Record<RollupLevel, string> = {
+  session: 'conversation summaries of one session',
+  day: 'session rollups from one day',
+  week: 'daily rollups from one week',
+};
+
+const OLLAMA_HEALTH_TIMEOUT_MS = 1500;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export class ExtractiveRollupSummarizer implements RollupSummarizer {
+  readonly name = 'compaction:extractive';
+  private summarizer = new Summarizer();
+
+  async summarize(sources: string[], level: RollupLevel): Promise<string> {
+    const joined = sources.join('\n\n');
+    const budget = LEVEL_WORD_BUDGET[level];
+    // Already within budget: the sources are their own best gist.
+    if (wordCount(joined) <= budget) return joined;
+    const { text } = await this.summarizer.summarize(joined, { maxLength: budget, style: 'paragraph' });
+    // Sentence ranking drops very short fragments; never return an empty gist.
+    return text.trim() || joined.split(/\s+/).slice(0, budget).join(' ');
+  }
+}
+
+const ROLLUP_SYSTEM_PROMPT = `You condense a developer's work log into a short gist for later recall.
+Keep decisions, names of files/services/components, open problems and outcomes; drop chatter.
+Output ONLY valid JSON: {"summary": "<gist>"}`;
+
+export class OllamaRollupSummarizer implements RollupSummarizer {
+  readonly name: string;
+  private inference: OllamaInferenceService;
+
+  constructor(inference = new OllamaInferenceService()) {
+    this.inference = inference;
+    this.name = `compaction:${inference.getModel()}`;
+  }
+
+  async summarize(sources: string[], level: RollupLevel): Promise<string> {
+    const prompt = `Summarize these ${sources.length} ${LEVEL_SOURCE_LABEL[level]} ` +
+      `in at most ${LEVEL_WORD_BUDGET[level]} words:\n\n${sources.join('\n\n')}`;
+    const raw = await this.inference.chat(prompt, ROLLUP_SYSTEM_PROMPT);
+    const parsed = JSON.parse(raw) as { summary?: unknown };
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+      throw new Error('Ollama rollup returned no summary');
+    }
+    return parsed.summary.trim();
+  }
+
+  async available(): Promise<boolean> {
+    const timeout = new Promise<boolean>((resolve) => {
+      setTimeout(() => resolve(false), OLLAMA_HEALTH_TIMEOUT_MS).unref();
+    });
+    return Promise.race([this.inference.healthCheck(), timeout]);
+  }
+}
+
+/**
+ * Ollama when its health check passes (probed once per instance), otherwise
+ * extractive. Any Ollama failure mid-run also falls back to extractive, so
+ * compaction never fails just because the local model went away.
+ */
+export class AutoRollupSummarizer implements RollupSummarizer {
+  private ollama: OllamaRollupSummarizer;
+  private extractive = new ExtractiveRollupSummarizer();
+  private probe: Promise<boolean> | null = null;
+  private lastUsed: RollupSummarizer;
+
+  constructor(ollama = new OllamaRollupSummarizer()) {
+    this.ollama = ollama;
+    this.lastUsed = this.extractive;
+  }
+
+  get name(): string {
+    return this.lastUsed.name;
+  }
+
+  async summarize(sources: string[], level: RollupLevel): Promise<string> {
+    this.probe ??= this.ollama.available();
+    if (await this.probe) {
+      try {
+        const text = await this.ollama.summarize(sources, level);
+        this.lastUsed = this.ollama;
+        return text;
+      } catch {
+        // fall through to extractive
+      }
+    }
+    this.lastUsed = this.extractive;
+    return this.extractive.summarize(sources, level);
+  }
+}
+
+/** Build the summarizer selected by DOKORO_COMPACTION_SUMMARIZER. */
+export function createRollupSummarizer(): RollupSummarizer {
+  switch ((process.env.DOKORO_COMPACTION_SUMMARIZER || 'auto').toLowerCase()) {
+    case 'extractive':
+      return new ExtractiveRollupSummarizer();
+    case 'ollama':
+      return new OllamaRollupSummarizer();
+    default:
+      return new AutoRollupSummarizer();
+  }
+}
@@ -0,0 +1,46 @@
+import Database from 'better-sqlite3';
+import * as crypto from 'node:crypto';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { chunkingId } from './chunking-strategies.js';
+import { IndexingService } from './vector-service.js';
+
+describe('IndexingService.needsReindex', () => {
+  let db: Database.Database;
+  let indexing: IndexingService;
+  const content = '# Guide\n\nSetup notes.';
+  const hash = crypto.createHash('sha256').update(content).digest('hex');
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, doc_type TEXT, filepath TEXT);
+      CREATE TABLE doc_vectors (doc_id TEXT PRIMARY KEY, content_hash TEXT NOT NULL, token_count INTEGER,
+        chunk_count INTEGER DEFAULT 1, last_indexed TEXT NOT NULL, embedding_model TEXT, chunking TEXT);
+      INSERT INTO docs VALUES ('guide', NULL, 'docs/guide.md'), ('main', NULL, 'src/main.ts');
+    `);
+    indexing = new IndexingService(db, path.join(os.tmpdir(), 'dokoro-reindex-test'));
+  });
+
+  afterEach(() => db.close());
+
+  function stored(docId: string, chunking: string | null): void {
+    db.prepare(`INSERT OR REPLACE INTO doc_vectors (doc_id, content_hash, last_indexed, embedding_model, chunking)
+      VALUES (?, ?, '2026-01-01', ?, ?)`).run(docId, hash, indexing.getEmbeddingService().modelId, chunking);
+  }
+
+  it('skips a doc indexed with the same content, model and chunking', () => {
+    stored('guide', chunkingId('markdown'));
+    expect(indexing.needsReindex('guide', content)).toBe(false);
+    expect(indexing.needsReindex('guide', `${content}\nmore`)).toBe(true);
+  });
+
+  it('re-indexes a doc chunked with another strategy or before chunking was recorded', () => {
+    stored('guide', null);
+    expect(indexing.needsReindex('guide', content)).toBe(true);
+    stored('main', chunkingId('markdown'));
+    expect(indexing.needsReindex('main', content)).toBe(true);
+    stored('main', chunkingId('code'));
+    expect(indexing.needsReindex('main', content)).toBe(false);
+  });
+});
@@ -5,7 +5,14 @@
  *
  * Handles:
  * - LanceDB vector storage (lazy-loaded — see optionalDependencies)
- * - Hybrid search (FTS5 + vectors via Reciprocal Rank Fusion)
+ * - Indexing with the project's embedding model recorded per doc; a model
+ *   change drops the index and re-embeds everything. The chunking strategy and
+ *   version are recorded too, so a doc chunked the old way is re-chunked
+ * - Hybrid search (FTS5 + vectors via Reciprocal Rank Fusion), with filters
+ *   pushed down into both the FTS5 query and the LanceDB `where` clause, and
+ *   tag / type / status facet counts over the matches
+ * - Optional re-ranking of the top fused candidates by a local model, within a
+ *   per-query latency budget (see reranker.ts); RRF order is the fallback
  *
  * NOTE: EmbeddingService, ChunkingService, and the embedding/chunk types live in
  * ./embedding-service.ts so the core server can use them without ever loading the
@@ -20,6 +27,9 @@ import Database from 'better-sqlite3';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import { EmbeddingService, ChunkingService } from './embedding-service.js';
+import { resolveEmbeddingProvider } from './embedding-providers.js';
+import { type ChunkStrategy, chunkStrategyFor, chunkingId } from './chunking-strategies.js';
+import { type RerankSettings, rerankWithinBudget, resolveReranker } from './reranker.js';
 import type { EmbeddingResult, Chunk } from './embedding-service.js';
 
 // Re-export the LanceDB-free embedding/chunking surface so existing importers of
@@ -48,11 +58,14 @@ export interface SearchResult {
   title: string;
   score: number;
   source: 'semantic' | 'keyword' | 'hybrid';
-  scores: { fts: number; vector: number };
+  /** `rerank` is set only when the re-ranking stage ran for this query. */
+  scores: { fts: number; vector: number; rerank?: number };
   highlight: {
     startLine: number;
     endLine: number;
     excerpt: string;
+    /** Query term matches as char offsets into the doc content, when FTS5 could locate them. */
+    matches?: MatchOffset[];
   };
   // Extended doc fields
   id?: string;
@@ -67,6 +80,53 @@ export interface SearchResult {
   matchedLines?: number[];
 }
 
+export interface MatchOffset {
+  start: number;
+  end: number;
+}
+
+/** Doc filters applied before ranking; every set field must match. */
+export interface SearchFilters {
+  docTypes?: string[];
+  statuses?: string[];
+  priorities?: string[];
+  /** Docs carrying all of these tags. */
+  tags?: string[];
+  /** Inclusive bounds on updated_at (ISO date or timestamp). */
+  since?: string;
+  until?: string;
+}
+
+/** Match counts per value, most frequent first. */
+export interface SearchFacets {
+  docType: Record<string, number>;
+  status: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+export interface SearchOptions {
+  /** Use the configured re-ranking stage (default true; no-op when none is configured). */
+  rerank?: boolean;
+}
+
+/** What the re-ranking stage did for one query. */
+export interface RerankReport {
+  model: string;
+  applied: boolean;
+  /** Why RRF order was kept (timeout, error). */
+  reason?: string;
+  candidates: number;
+  ms: number;
+}
+
+export interface FacetedSearchResults {
+  results: SearchResult[];
+  facets: SearchFacets;
+  /** Distinct docs behind the facets (keyword matches plus vector hits). */
+  matched: number;
+  rerank?: RerankReport;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // VECTOR STORE SERVICE (LanceDB)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -141,12 +201,23 @@ export class VectorStoreService {
     }
   }
 
-  async search(queryVector: number[], limit = 10): Promise<Record<string, unknown>[]> {
+  /** Drop every vector (e.g. before re-embedding with a different model). */
+  async dropAll(): Promise<void> {
+    await this.init();
+    if (!this.table) return;
+
+    await this.db!.dropTable('vectors');
+    this.table = null;
+  }
+
+  /** `where` is a LanceDB SQL predicate, applied before the vector search (prefilter). */
+  async search(queryVector: number[], limit = 10, where?: string): Promise<Record<string, unknown>[]> {
     await this.init();
     if (!this.table) return [];
 
-    const results = await this.table
-      .search(queryVector)
+    let query = this.table.search(queryVector);
+    if (where) query = query.where(where);
+    const results = await query
       .limit(limit)
       .toArray();
 
@@ -173,7 +244,7 @@ export class IndexingService {
 
   constructor(sqliteDb: Database.Database, projectPath: string) {
     this.sqliteDb = sqliteDb;
-    this.embeddingService = new EmbeddingService();
+    this.embeddingService = new EmbeddingService(resolveEmbeddingProvider(projectPath));
     this.chunkingService = new ChunkingService();
     this.vectorStore = new VectorStoreService(projectPath);
   }
@@ -182,15 +253,62 @@ export class IndexingService {
     return crypto.createHash('sha256').update(content).digest('hex');
   }
 
+  /** Chunking strategy for a doc (markdown- or code-aware, by doc type / file extension). */
+  private chunkStrategyOf(docId: string): ChunkStrategy {
+    const doc = this.sqliteDb.prepare(
+      'SELECT doc_type, filepath FROM docs WHERE id = ?'
+    ).get(docId) as { doc_type: string | null; filepath: string | null } | undefined;
+    return chunkStrategyFor(doc?.doc_type, doc?.filepath);
+  }
+
   needsReindex(docId: string, content: string): boolean {
     const currentHash = this.hashContent(content);
 
     const stored = this.sqliteDb.prepare(
-      'SELECT content_hash FROM doc_vectors WHERE doc_id = ?'
-    ).get(docId) as { content_hash: string } | undefined;
+      'SELECT content_hash, embedding_model, chunking FROM doc_vectors WHERE doc_id = ?'
+    ).get(docId) as { content_hash: string; embedding_model: string | null; chunking: string | null } | undefined;
 
     if (!stored) return true;
-    return stored.content_hash !== currentHash;
+    return stored.content_hash !== currentHash || stored.embedding_model !== this.embeddingService.modelId ||
+      stored.chunking !== chunkingId(this.chunkStrategyOf(docId));
+  }
+
+  /**
+   * Embedding models the index currently holds vectors for. More than one, or
+   * one that is not the configured model, means the index must be rebuilt.
+   * Empty when nothing is indexed (or the DB predates model tracking).
+   */
+  indexedModels(): string[] {
+    try {
+      const rows = this.sqliteDb.prepare(
+        'SELECT DISTINCT embedding_model AS model FROM doc_vectors'
+      ).all() as { model: string | null }[];
+      return rows.map(r => r.model ?? 'unknown');
+    } catch {
+      return [];
+    }
+  }
+
+  /** True when the index holds vectors from a model other than the configured one. */
+  hasModelMismatch(): boolean {
+    return this.indexedModels().some(m => m !== this.embeddingService.modelId);
+  }
+
+  /**
+   * Vectors from different models (often with different dimensions) cannot
+   * share one LanceDB table, so when the configured model changes the whole
+   * index is dropped and every doc is re-embedded on its next indexDocument.
+   * Returns the models that were dropped (empty when nothing changed).
+   */
+  async reconcileModel(): Promise<string[]> {
+    const stale = this.indexedModels().filter(m => m !== this.embeddingService.modelId);
+    if (stale.length === 0) return [];
+
+    console.error(`[Indexer] Embedding model changed (${stale.join(', ')} -> ${this.embeddingService.modelId}), dropping index`);
+    await this.vectorStore.dropAll();
+    this.sqliteDb.prepare('DELETE FROM chunks').run();
+    this.sqliteDb.prepare('DELETE FROM doc_vectors').run();
+    return stale;
   }
 
   async indexDocument(docId: string, content: string, title: string): Promise<{ chunks: number; tokens: number }> {
@@ -201,14 +319,16 @@ export class IndexingService {
       return { chunks: 0, tokens: 0 };
     }
 
+    await this.reconcileModel();
     console.error(`[Indexer] Indexing ${docId}...`);
 
     // Delete old vectors and chunks
     await this.vectorStore.deleteByDocId(docId);
     this.sqliteDb.prepare('DELETE FROM chunks WHERE doc_id = ?').run(docId);
 
-    // Chunk the document
-    const chunks = this.chunkingService.chunk(content, docId);
+    // Chunk the document (markdown- or code-aware, by doc type / file extension)
+    const strategy = this.chunkStrategyOf(docId);
+    const chunks = this.chunkingService.chunk(content, docId, strategy);
 
     // Generate embeddings and create vector records
     const vectorRecords: VectorRecord[] = [];
@@ -231,9 +351,9 @@ export class IndexingService {
 
         // Store chunk metadata in SQLite
         this.sqliteDb.prepare(`
-          INSERT OR REPLACE INTO chunks
-          (chunk_id, doc_id, chunk_index, start_line, end_line, start_char, end_char, header_context, token_count)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO chunks
+          (chunk_id, doc_id, chunk_index, start_line, end_line, start_char, end_char, header_context, token_count, text)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).run(
           chunk.chunkId,
           chunk.docId,
@@ -242,8 +362,9 @@ export class IndexingService {
           chunk.endLine,
           chunk.startChar,
           chunk.endChar,
-          chunk.headerContext,
-          chunk.tokenCount
+          chunk.headerContext || title,
+          chunk.tokenCount,
+          chunk.text
         );
       } catch (err) {
         console.error(`[Indexer] Failed to embed chunk ${chunk.chunkId}:`, err);
@@ -255,13 +376,18 @@ export class IndexingService {
       await this.vectorStore.addVectors(vectorRecords);
     }
 
-    // Update doc_vectors metadata
+    // Update doc_vectors metadata (and record the model on the doc itself)
     const totalTokens = chunks.reduce((sum, c) => sum + c.tokenCount, 0);
+    const now = new Date().toISOString();
+    const model = this.embeddingService.modelId;
     this.sqliteDb.prepare(`
       INSERT OR REPLACE INTO doc_vectors
-      (doc_id, content_hash, token_count, chunk_count, last_indexed)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(docId, contentHash, totalTokens, chunks.length, new Date().toISOString());
+      (doc_id, content_hash, token_count, chunk_count, last_indexed, embedding_model, chunking)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(docId, contentHash, totalTokens, chunks.length, now, model, chunkingId(strategy));
+    this.sqliteDb.prepare(
+      'UPDATE docs SET embedding_model = ?, embedding_updated_at = ? WHERE id = ?'
+    ).run(model, now, docId);
 
     console.error(`[Indexer] Indexed ${docId}: ${chunks.length} chunks, ${totalTokens} tokens`);
     return { chunks: chunks.length, tokens: totalTokens };
@@ -303,61 +429,255 @@ export class IndexingService {
 // HYBRID SEARCH SERVICE
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Keyword matches counted into facets at most. */
+const FACET_MATCH_CAP = 1000;
+/** Most frequent tags returned as facets. */
+const FACET_TAG_LIMIT = 20;
+/** Tokens of context in a snippet() excerpt. */
+const SNIPPET_TOKENS = 24;
+
+/** A ranked passage from one retriever; chunkId is null for a whole-doc keyword hit. */
+type PassageHit = { docId: string; chunkId: string | null; score: number; startLine: number; endLine: number };
+type FusedHit = {
+  docId: string;
+  chunkId: string | null;
+  ftsScore: number;
+  vectorScore: number;
+  rrfScore: number;
+  startLine: number;
+  endLine: number;
+  source: 'semantic' | 'keyword' | 'hybrid';
+};
+
 export class HybridSearchService {
   private sqliteDb: Database.Database;
   private indexingService: IndexingService;
   private k = 60; // RRF constant
+  private rerank: RerankSettings | null;
 
-  constructor(sqliteDb: Database.Database, indexingService: IndexingService) {
+  constructor(sqliteDb: Database.Database, indexingService: IndexingService, rerank: RerankSettings | null = null) {
     this.sqliteDb = sqliteDb;
     this.indexingService = indexingService;
+    this.rerank = rerank;
   }
 
-  async search(query: string, limit = 10): Promise<SearchResult[]> {
-    const ftsResults = this.ftsSearch(query, limit * 2);
-    const vectorResults = await this.vectorSearch(query, limit * 2);
+  async search(query: string, limit = 10, filters: SearchFilters = {}, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const pool = this.poolSize(limit, options);
+    const ftsResults = this.ftsSearch(query, pool * 2, filters);
+    const vectorResults = await this.vectorSearch(query, pool * 2, filters);
 
     const combined = this.reciprocalRankFusion(ftsResults, vectorResults);
-    const topResults = combined.slice(0, limit);
+    return (await this.rerankTop(query, this.enrichResults(combined.slice(0, pool), query), limit, options)).results;
+  }
+
+  /**
+   * search() plus facet counts. Facets cover every filtered keyword match
+   * (up to FACET_MATCH_CAP) and every vector hit, not just the top `limit`.
+   */
+  async searchFaceted(query: string, limit = 10, filters: SearchFilters = {}, options: SearchOptions = {}): Promise<FacetedSearchResults> {
+    // Same normalisation as search(): the top keyword match sets the scale either way.
+    const pool = this.poolSize(limit, options);
+    const ftsMatches = this.ftsSearch(query, FACET_MATCH_CAP, filters);
+    const vectorResults = await this.vectorSearch(query, pool * 2, filters);
 
-    return this.enrichResults(topResults);
+    const combined = this.reciprocalRankFusion(ftsMatches.slice(0, pool * 2), vectorResults);
+    const matchedIds = new Set([...ftsMatches, ...vectorResults].map(r => r.docId));
+    const { results, report } = await this.rerankTop(query, this.enrichResults(combined.slice(0, pool), query), limit, options);
+
+    return {
+      results,
+      facets: this.facetCounts([...matchedIds]),
+      matched: matchedIds.size,
+      ...(report ? { rerank: report } : {}),
+    };
+  }
+
+  /** Candidates to fuse and enrich: the rerank window when re-ranking, else `limit`. */
+  private poolSize(limit: number, options: SearchOptions): number {
+    return this.rerank && options.rerank !== false ? Math.max(limit, this.rerank.topN) : limit;
+  }
+
+  /** Passage shown to the reranker: the matched chunk, or the doc's opening for whole-doc keyword hits. */
+  private passageFor(r: SearchResult): string {
+    if (r.chunkId && this.tableExists('chunks')) {
+      const chunk = this.sqliteDb.prepare('SELECT text FROM chunks WHERE chunk_id = ?').get(r.chunkId) as { text: string | null } | undefined;
+      if (chunk?.text) return `${r.title}\n${chunk.text.replace(/^---[\s\S]*?---\n?/, '')}`.trim();
+    }
+    const doc = this.sqliteDb.prepare('SELECT content FROM docs WHERE id = ?').get(r.docId) as { content: string | null } | undefined;
+    const content = (doc?.content ?? '').replace(/^---[\s\S]*?---\n?/, '');
+    const passage = r.highlight.endLine > r.highlight.startLine
+      ? content.split('\n').slice(r.highlight.startLine - 1, r.highlight.endLine).join('\n')
+      : content;
+    return `${r.title}\n${passage}`.trim();
+  }
+
+  /**
+   * Reorder `candidates` by the reranker's joint query–passage score and keep
+   * `limit`. Over budget or on error, the RRF order stands.
+   */
+  private async rerankTop(
+    query: string,
+    candidates: SearchResult[],
+    limit: number,
+    options: SearchOptions,
+  ): Promise<{ results: SearchResult[]; report?: RerankReport }> {
+    if (!this.rerank || options.rerank === false || candidates.length < 2) {
+      return { results: candidates.slice(0, limit) };
+    }
+    const { reranker, budgetMs } = this.rerank;
+    const outcome = await rerankWithinBudget(reranker, query, candidates.map(r => this.passageFor(r)), budgetMs);
+    const report: RerankReport = { model: reranker.id, applied: outcome.ok, candidates: candidates.length, ms: outcome.ms };
+    if (!outcome.ok) {
+      console.error(`[HybridSearch] Rerank skipped (${outcome.reason}), keeping RRF order`);
+      return { results: candidates.slice(0, limit), report: { ...report, reason: outcome.reason } };
+    }
+    const reranked = candidates
+      .map((r, i) => ({ ...r, scores: { ...r.scores, rerank: outcome.scores[i] } }))
+      .sort((a, b) => b.scores.rerank - a.scores.rerank || b.score - a.score);
+    return { results: reranked.slice(0, limit), report };
   }
 
-  private ftsSearch(query: string, limit: number): { docId: string; score: number }[] {
+  /** SQL conditions on `docs d` for the filters (empty when unfiltered). */
+  private filterClause(filters: SearchFilters): { sql: string; params: unknown[] } {
+    const conds: string[] = [];
+    const params: unknown[] = [];
+    const inList = (column: string, values?: string[]) => {
+      if (!values || values.length === 0) return;
+      conds.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+      params.push(...values);
+    };
+    inList('d.doc_type', filters.docTypes);
+    inList('d.status', filters.statuses);
+    inList('d.priority', filters.priorities);
+    if (filters.tags && filters.tags.length > 0) {
+      const tags = [...new Set(filters.tags)];
+      conds.push(`d.id IN (
+        SELECT dt.doc_id FROM doc_tags dt JOIN tags t ON t.id = dt.tag_id
+        WHERE t.name IN (${tags.map(() => '?').join(', ')})
+        GROUP BY dt.doc_id HAVING COUNT(DISTINCT t.name) = ?
+      )`);
+      params.push(...tags, tags.length);
+    }
+    // julianday() compares SQLite ('YYYY-MM-DD HH:MM:SS') and ISO timestamps alike.
+    if (filters.since) {
+      conds.push('julianday(d.updated_at) >= julianday(?)');
+      params.push(filters.since);
+    }
+    if (filters.until) {
+      // A bare date includes that whole day.
+      conds.push('julianday(d.updated_at) <= julianday(?)');
+      params.push(/^\d{4}-\d{2}-\d{2}$/.test(filters.until) ? `${filters.until} 23:59:59.999` : filters.until);
+    }
+    return { sql: conds.join(' AND '), params };
+  }
+
+  /**
+   * LanceDB predicate for the filters: vector rows only carry doc_id, so the
+   * filters are resolved against SQLite and pushed down as an id list.
+   * Returns undefined when unfiltered and null when nothing can match.
+   */
+  private vectorWhere(filters: SearchFilters): string | null | undefined {
+    const { sql, params } = this.filterClause(filters);
+    if (!sql) return undefined;
+    const ids = (this.sqliteDb.prepare(`SELECT d.id FROM docs d WHERE ${sql}`).all(...params) as { id: string }[])
+      .map(r => r.id);
+    if (ids.length === 0) return null;
+    return `doc_id IN (${ids.map(id => `'${id.replace(/'/g, "''")}'`).join(', ')})`;
+  }
+
+  private facetCounts(docIds: string[]): SearchFacets {
+    const facets: SearchFacets = { docType: {}, status: {}, tags: {} };
+    if (docIds.length === 0) return facets;
+    const ids = JSON.stringify(docIds);
+    const count = (sql: string, into: Record<string, number>) => {
+      for (const r of this.sqliteDb.prepare(sql).all(ids) as { value: string | null; n: number }[]) {
+        into[r.value ?? 'none'] = r.n;
+      }
+    };
+    count(`SELECT doc_type AS value, COUNT(*) AS n FROM docs
+      WHERE id IN (SELECT value FROM json_each(?)) GROUP BY doc_type ORDER BY n DESC, value`, facets.docType);
+    count(`SELECT status AS value, COUNT(*) AS n FROM docs
+      WHERE id IN (SELECT value FROM json_each(?)) GROUP BY status ORDER BY n DESC, value`, facets.status);
+    count(`SELECT t.name AS value, COUNT(DISTINCT dt.doc_id) AS n FROM doc_tags dt JOIN tags t ON t.id = dt.tag_id
+      WHERE dt.doc_id IN (SELECT value FROM json_each(?)) GROUP BY t.name ORDER BY n DESC, value LIMIT ${FACET_TAG_LIMIT}`, facets.tags);
+    return facets;
+  }
+
+  private tableExists(name: string): boolean {
+    return !!this.sqliteDb.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name = ?`).get(name);
+  }
+
+  /**
+   * Keyword search at passage granularity: chunks_fts ranks individual chunks,
+   * and docs without chunks (not embedded yet) fall back to docs_fts as a whole
+   * with chunkId null. bm25 from the two tables is not comparable (different
+   * corpora and lengths), so each list is normalised on its own scale and the
+   * two are merged by rank, as reciprocalRankFusion does.
+   */
+  private ftsSearch(query: string, limit: number, filters: SearchFilters = {}): PassageHit[] {
     try {
-      // Check if docs_fts table exists
-      const ftsExists = this.sqliteDb.prepare(
-        `SELECT name FROM sqlite_master WHERE type='table' AND name='docs_fts'`
-      ).get();
-
-      if (!ftsExists) return [];
-
-      const results = this.sqliteDb.prepare(`
-        SELECT d.id as docId, bm25(docs_fts) as score
-        FROM docs_fts
-        JOIN docs d ON docs_fts.rowid = d.rowid
-        WHERE docs_fts MATCH ?
-        ORDER BY score
-        LIMIT ?
-      `).all(query, limit) as { docId: string; score: number }[];
-
-      const maxScore = Math.max(...results.map(r => Math.abs(r.score)), 1);
-      return results.map(r => ({
-        docId: r.docId,
-        score: 1 - (Math.abs(r.score) / maxScore),
-      }));
+      const filter = this.filterClause(filters);
+      const where = filter.sql ? ` AND ${filter.sql}` : '';
+      const lists: PassageHit[][] = [];
+
+      if (this.tableExists('chunks_fts')) {
+        lists.push(this.sqliteDb.prepare(`
+          SELECT c.doc_id as docId, c.chunk_id as chunkId, c.start_line as startLine, c.end_line as endLine,
+            bm25(chunks_fts) as score
+          FROM chunks_fts
+          JOIN chunks c ON chunks_fts.rowid = c.rowid
+          JOIN docs d ON d.id = c.doc_id
+          WHERE chunks_fts MATCH ?${where}
+          ORDER BY score
+          LIMIT ?
+        `).all(query, ...filter.params, limit) as PassageHit[]);
+      }
+
+      if (this.tableExists('docs_fts')) {
+        const unchunked = this.tableExists('chunks')
+          ? ' AND NOT EXISTS (SELECT 1 FROM chunks c WHERE c.doc_id = d.id)'
+          : '';
+        lists.push(this.sqliteDb.prepare(`
+          SELECT d.id as docId, NULL as chunkId, 1 as startLine, 1 as endLine, bm25(docs_fts) as score
+          FROM docs_fts
+          JOIN docs d ON docs_fts.rowid = d.rowid
+          WHERE docs_fts MATCH ?${unchunked}${where}
+          ORDER BY score
+          LIMIT ?
+        `).all(query, ...filter.params, limit) as PassageHit[]);
+      }
+
+      return lists
+        .flatMap(list => {
+          const maxScore = Math.max(...list.map(r => Math.abs(r.score)), 1);
+          return list.map((r, rank) => ({
+            hit: { ...r, score: 1 - (Math.abs(r.score) / maxScore) },
+            rrf: 1 / (this.k + rank),
+          }));
+        })
+        .sort((a, b) => b.rrf - a.rrf)
+        .slice(0, limit)
+        .map(r => r.hit);
     } catch {
       return [];
     }
   }
 
-  private async vectorSearch(query: string, limit: number): Promise<{ docId: string; chunkId: string; score: number; startLine: number; endLine: number }[]> {
+  private async vectorSearch(query: string, limit: number, filters: SearchFilters = {}): Promise<PassageHit[]> {
     const embeddingService = this.indexingService.getEmbeddingService();
     const vectorStore = this.indexingService.getVectorStore();
 
+    // A query embedded with one model cannot be compared to vectors from another.
+    if (this.indexingService.hasModelMismatch()) {
+      console.error(`[HybridSearch] Index was built with ${this.indexingService.indexedModels().join(', ')}, not ${embeddingService.modelId}; skipping vector search until reindexed`);
+      return [];
+    }
+
     try {
+      const where = this.vectorWhere(filters);
+      if (where === null) return [];
       const { embedding } = await embeddingService.embed(query);
-      const results = await vectorStore.search(embedding, limit);
+      const results = await vectorStore.search(embedding, limit, where);
 
       return results.map((r: Record<string, unknown>) => ({
         docId: r.doc_id as string,
@@ -372,10 +692,11 @@ export class HybridSearchService {
     }
   }
 
-  private reciprocalRankFusion(
-    ftsResults: { docId: string; score: number }[],
-    vectorResults: { docId: string; chunkId: string; score: number; startLine: number; endLine: number }[]
-  ): { docId: string; chunkId: string | null; ftsScore: number; vectorScore: number; rrfScore: number; startLine: number; endLine: number; source: 'semantic' | 'keyword' | 'hybrid' }[] {
+  /**
+   * RRF over passages: a chunk found by both keyword and vector search fuses
+   * into one hybrid hit, then each doc keeps its best-scoring passage.
+   */
+  private reciprocalRankFusion(ftsResults: PassageHit[], vectorResults: PassageHit[]): FusedHit[] {
     const scores: Map<string, {
       docId: string;
       chunkId: string | null;
@@ -386,30 +707,28 @@ export class HybridSearchService {
       startLine: number;
       endLine: number;
     }> = new Map();
+    const keyOf = (r: PassageHit) => r.chunkId ?? `doc:${r.docId}`;
 
     ftsResults.forEach((r, rank) => {
-      scores.set(r.docId, {
+      scores.set(keyOf(r), {
         docId: r.docId,
-        chunkId: null,
+        chunkId: r.chunkId,
         ftsRank: rank,
         vectorRank: null,
         ftsScore: r.score,
         vectorScore: 0,
-        startLine: 1,
-        endLine: 1,
+        startLine: r.startLine,
+        endLine: r.endLine,
       });
     });
 
     vectorResults.forEach((r, rank) => {
-      const existing = scores.get(r.docId);
+      const existing = scores.get(keyOf(r));
       if (existing) {
         existing.vectorRank = rank;
         existing.vectorScore = r.score;
-        existing.chunkId = r.chunkId;
-        existing.startLine = r.startLine;
-        existing.endLine = r.endLine;
       } else {
-        scores.set(r.docId, {
+        scores.set(keyOf(r), {
           docId: r.docId,
           chunkId: r.chunkId,
           ftsRank: null,
@@ -447,10 +766,63 @@ export class HybridSearchService {
       };
     });
 
-    return results.sort((a, b) => b.rrfScore - a.rrfScore);
+    const bestPerDoc = new Map<string, FusedHit>();
+    for (const r of results.sort((a, b) => b.rrfScore - a.rrfScore)) {
+      if (!bestPerDoc.has(r.docId)) bestPerDoc.set(r.docId, r);
+    }
+    return [...bestPerDoc.values()];
+  }
+
+  /**
+   * FTS5 excerpt for a passage: snippet() for display and highlight() to
+   * locate every query match (as doc char offsets). Works for vector-only
+   * hits too, as long as the query terms occur in the passage.
+   */
+  private locateMatches(query: string, r: FusedHit, content: string): {
+    excerpt: string;
+    matches: MatchOffset[];
+    startLine: number;
+    endLine: number;
+  } | null {
+    try {
+      if (r.chunkId) {
+        if (!this.tableExists('chunks_fts')) return null;
+        const chunk = this.sqliteDb.prepare(
+          'SELECT rowid, start_char as startChar FROM chunks WHERE chunk_id = ?'
+        ).get(r.chunkId) as { rowid: number; startChar: number } | undefined;
+        if (!chunk) return null;
+        const row = this.sqliteDb.prepare(`
+          SELECT snippet(chunks_fts, 1, '**', '**', '…', ${SNIPPET_TOKENS}) as excerpt,
+            highlight(chunks_fts, 1, char(1), char(2)) as marked
+          FROM chunks_fts WHERE chunks_fts MATCH ? AND rowid = ?
+        `).get(query, chunk.rowid) as { excerpt: string; marked: string | null } | undefined;
+        if (!row) return null;
+        return {
+          excerpt: row.excerpt,
+          matches: markedOffsets(row.marked ?? '', chunk.startChar),
+          startLine: r.startLine,
+          endLine: r.endLine,
+        };
+      }
+
+      if (!this.tableExists('docs_fts')) return null;
+      const row = this.sqliteDb.prepare(`
+        SELECT snippet(docs_fts, 2, '**', '**', '…', ${SNIPPET_TOKENS}) as excerpt,
+          highlight(docs_fts, 2, char(1), char(2)) as marked
+        FROM docs_fts WHERE docs_fts MATCH ? AND rowid = (SELECT rowid FROM docs WHERE id = ?)
+      `).get(query, r.docId) as { excerpt: string; marked: string | null } | undefined;
+      if (!row) return null;
+      const matches = markedOffsets(row.marked ?? '', 0);
+      if (matches.length === 0) return { excerpt: row.excerpt, matches, startLine: r.startLine, endLine: r.endLine };
+      // An unchunked doc has no passage bounds; point at the line of the first match.
+      const line = content.slice(0, matches[0].start).split('\n').length;
+      return { excerpt: row.excerpt, matches, startLine: line, endLine: line };
+    } catch {
+      return null;
+    }
   }
 
-  private enrichResults(results: { docId: string; chunkId: string | null; ftsScore: number; vectorScore: number; rrfScore: number; startLine: number; endLine: number; source: 'semantic' | 'keyword' | 'hybrid' }[]): SearchResult[] {
+  private enrichResults(results: FusedHit[], query: string): SearchResult[] {
     return results.map(r => {
       const doc = this.sqliteDb.prepare(
         `SELECT * FROM docs WHERE id = ?`
@@ -465,13 +837,21 @@ export class HybridSearchService {
       `).all(r.docId) as { name: string }[];
 
       const content = (doc.content as string) || '';
-      const lines = content.split('\n');
-      const excerptLines = lines.slice(r.startLine - 1, r.endLine).join('\n');
-      const excerpt = excerptLines.length > 200
-        ? excerptLines.slice(0, 200) + '...'
-        : excerptLines;
+      const located = this.locateMatches(query, r, content);
+      const startLine = located?.startLine ?? r.startLine;
+      const endLine = located?.endLine ?? r.endLine;
 
-      const cleanExcerpt = excerpt.replace(/^---[\s\S]*?---\n?/, '').trim();
+      let cleanExcerpt: string;
+      if (located) {
+        cleanExcerpt = located.excerpt.replace(/\s+/g, ' ').trim();
+      } else {
+        const lines = content.split('\n');
+        const excerptLines = lines.slice(startLine - 1, endLine).join('\n');
+        const excerpt = excerptLines.length > 200
+          ? excerptLines.slice(0, 200) + '...'
+          : excerptLines;
+        cleanExcerpt = excerpt.replace(/^---[\s\S]*?---\n?/, '').trim();
+      }
 
       return {
         id: doc.id as string,
@@ -492,24 +872,46 @@ export class HybridSearchService {
           vector: r.vectorScore,
         },
         highlight: {
-          startLine: r.startLine,
-          endLine: r.endLine,
+          startLine,
+          endLine,
           excerpt: cleanExcerpt,
+          ...(located && located.matches.length > 0 ? { matches: located.matches } : {}),
         },
         matchedSnippet: cleanExcerpt,
-        matchedLines: [r.startLine, r.endLine],
+        matchedLines: [startLine, endLine],
       };
     }).filter(Boolean) as SearchResult[];
   }
 }
 
+/**
+ * Offsets of highlight() matches, delimited by \x01 / \x02 markers, shifted
+ * by `base` (the passage's start_char in the doc).
+ */
+function markedOffsets(marked: string, base: number): MatchOffset[] {
+  const matches: MatchOffset[] = [];
+  let plain = 0;
+  let start = -1;
+  for (const ch of marked) {
+    if (ch === '\x01') {
+      start = plain;
+    } else if (ch === '\x02') {
+      if (start >= 0) matches.push({ start: base + start, end: base + plain });
+      start = -1;
+    } else {
+      plain += ch.length;
+    }
+  }
+  return matches;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // FACTORY
 // ═══════════════════════════════════════════════════════════════════════════
 
 export function createVectorServices(sqliteDb: Database.Database, projectPath: string) {
   const indexingService = new IndexingService(sqliteDb, projectPath);
-  const searchService = new HybridSearchService(sqliteDb, indexingService);
+  const searchService = new HybridSearchService(sqliteDb, indexingService, resolveReranker(projectPath));
 
   return {
     indexingService,
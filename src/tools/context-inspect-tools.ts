@@ -12,6 +12,9 @@
  * - dokoro_context_last:   read the N most recent events (newest first)
  * - dokoro_context_search: case-insensitive substring search over stored events
  *
+ * dokoro_context_pack (context-pack-tools.ts) emits the same event shape for
+ * the packs it assembles and can append them here via appendContextEvent.
+ *
  * No database — these are plain append-only JSONL files. Malformed lines are
  * tolerated (skipped) on read so a single bad write never breaks reads.
  */
@@ -38,7 +41,7 @@ const SEARCH_LIMIT_MAX = 500;
  */
 const SEARCH_SCAN_MAX = 5000;
 
-interface ContextInspectLayer {
+export interface ContextInspectLayer {
   name: string;
   reason: string;
   score?: number;
@@ -47,7 +50,7 @@ interface ContextInspectLayer {
   contentSnippet: string;
 }
 
-interface ContextInspectEvent {
+export interface ContextInspectEvent {
   event: string;
   sessionId?: string;
   turn?: number;
@@ -120,6 +123,18 @@ function sanitizeForStorage(event: ContextInspectEvent): ContextInspectEvent {
   return { ...event, layers };
 }
 
+/**
+ * Append one event to its day's JSONL file (snippets truncated). Returns the
+ * file path relative to the dokoro workspace.
+ */
+export async function appendContextEvent(event: ContextInspectEvent): Promise<string> {
+  const stored = sanitizeForStorage(event);
+  const date = partitionDate(stored.timestamp);
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.appendFile(path.join(STORE_DIR, `${date}.jsonl`), JSON.stringify(stored) + '\n', 'utf-8');
+  return path.join('context-inspect', `${date}.jsonl`);
+}
+
 /** List stored JSONL filenames (YYYY-MM-DD.jsonl), sorted newest date first. */
 async function listFilesNewestFirst(): Promise<string[]> {
   let entries: string[];
@@ -186,20 +201,13 @@ export const contextInspectTools: ToolDefinition[] = [
           };
         }
 
-        const stored = sanitizeForStorage(a.event);
-        const date = partitionDate(stored.timestamp);
-        const file = path.join(STORE_DIR, `${date}.jsonl`);
-
-        await fs.mkdir(STORE_DIR, { recursive: true });
-        await fs.appendFile(file, JSON.stringify(stored) + '\n', 'utf-8');
-
-        const rel = path.join('context-inspect', `${date}.jsonl`);
-        const turn = stored.turn ?? '?';
+        const rel = await appendContextEvent(a.event);
+        const turn = a.event.turn ?? '?';
         return {
           content: [
             {
               type: 'text' as const,
-              text: `logged context_inspect (turn=${turn}, layers=${stored.layers.length}) -> ${rel}`,
+              text: `logged context_inspect (turn=${turn}, layers=${a.event.layers.length}) -> ${rel}`,
             },
           ],
         };
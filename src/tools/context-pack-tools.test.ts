@@ -0,0 +1,155 @@
+/**
+ * dokoro_context_pack across every layer.
+ *
+ * DOKORO_PATH is captured at module import time (plans, questions and the
+ * context-inspect store all live under it), so each test points it at a temp
+ * dir and loads a fresh module via jest.isolateModules().
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+jest.mock('../utils/render-output.js', () => ({
+  renderOutput: (data: unknown) => JSON.stringify(data),
+}));
+jest.mock('../utils/color-setup.js', () => ({}));
+// Offline embedder: the pack falls back to lexical relevance.
+let mockEmbedderUnavailable = false;
+jest.mock('../services/embedding-service.js', () => ({
+  EmbeddingService: class {
+    constructor() {
+      if (mockEmbedderUnavailable) throw new Error('no embedding provider configured');
+    }
+    async embed(): Promise<never> {
+      throw new Error('offline');
+    }
+  },
+}));
+
+type ContextPackModule = typeof import('./context-pack-tools.js');
+
+let tmpDir: string;
+let db: Database.Database;
+let mod: ContextPackModule;
+
+function freshModule(): Promise<ContextPackModule> {
+  return new Promise<ContextPackModule>((resolve) => {
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      resolve(require('./context-pack-tools.js') as ContextPackModule);
+    });
+  });
+}
+
+async function pack(args: Record<string, unknown>) {
+  const res = await mod.contextPackTools[0].handler(args);
+  const texts = (res.content ?? []).map((c) => (c.type === 'text' ? c.text : ''));
+  return { res, text: texts[0] ?? '', event: JSON.parse(texts[1] ?? 'null') as {
+    budgetTokens: number; totalEstimate: number;
+    layers: Array<{ name: string; source: string; score: number }>;
+    dropped: Array<{ source: string; reason: string }>;
+  } };
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dokoro-context-pack-test-'));
+  process.env['DOKORO_PATH'] = tmpDir;
+  await fs.mkdir(path.join(tmpDir, '.mcp', 'plans'), { recursive: true });
+  await fs.writeFile(path.join(tmpDir, '.mcp', 'plans', 'index.json'), JSON.stringify({ 'plan-auth': 'Auth refactor' }));
+  await fs.writeFile(path.join(tmpDir, '.mcp', 'plans', 'plan-auth.json'), JSON.stringify({
+    id: 'plan-auth', title: 'Auth refactor', status: 'active', completion_percentage: 50,
+    created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z',
+    items: [
+      { id: 'i1', text: 'extract token service', completed: true, created_at: '2026-01-01T00:00:00Z' },
+      { id: 'i2', text: 'migrate login route', completed: false, created_at: '2026-01-01T00:00:00Z' },
+    ],
+  }));
+  await fs.writeFile(path.join(tmpDir, '.mcp', 'questions.json'), JSON.stringify([
+    { id: 'q1', question: 'Keep refresh tokens for login?', status: 'open', priority: 'high', created_at: '2026-01-01T00:00:00Z' },
+    { id: 'q2', question: 'Which hash?', status: 'answered', priority: 'low', created_at: '2026-01-01T00:00:00Z' },
+  ]));
+
+  db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE shared_blocks (block_key TEXT PRIMARY KEY, content TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1,
+      updated_by TEXT NOT NULL, created_at TEXT, updated_at TEXT);
+    CREATE TABLE conversation_summaries (id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT NOT NULL,
+      summary TEXT NOT NULL, key_decisions_json TEXT, linked_docs_json TEXT, started_at TEXT NOT NULL);
+    CREATE TABLE entities (id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT NOT NULL, name TEXT NOT NULL,
+      description TEXT, updated_at TEXT);
+    INSERT INTO shared_blocks (block_key, content, updated_by, updated_at) VALUES ('login status', 'login route half migrated', 'a', '2026-01-02');
+    INSERT INTO shared_blocks (block_key, content, updated_by, updated_at) VALUES ('scratch', '${'lorem ipsum '.repeat(200)}', 'a', '2026-01-01');
+    INSERT INTO conversation_summaries (session_id, ai_model, summary, key_decisions_json, started_at)
+      VALUES ('s1', 'opus', 'moved login to the token service', '["keep cookies"]', '2026-01-01T00:00:00Z');
+    INSERT INTO entities (type, name, description) VALUES ('file', 'src/login.ts', 'login route handler');
+    INSERT INTO entities (type, name, description) VALUES ('file', 'src/billing.ts', 'invoices');
+  `);
+  (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  mod = await freshModule();
+});
+
+afterEach(async () => {
+  mockEmbedderUnavailable = false;
+  db.close();
+  delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  delete process.env['DOKORO_PATH'];
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('dokoro_context_pack', () => {
+  it('packs every layer into one block and reports what was kept and dropped', async () => {
+    const { res, text, event } = await pack({ query: 'login route', budget_tokens: 300 });
+    expect(res.isError).toBeFalsy();
+    expect(text).toMatch(/^# Context pack: login route/);
+    expect(text).toContain('## Working memory (shared blocks)\n### login status (v1)\nlogin route half migrated');
+    expect(text).toContain('## Active plan items\n- [ ] Auth refactor › migrate login route');
+    expect(text).toContain('## Open questions\n- [high] Keep refresh tokens for login?');
+    expect(text).toContain('## Past sessions\n- [2026-01-01T00:00:00Z] session s1: moved login to the token service');
+    expect(text).toContain('## Entities\n- src/login.ts (file): login route handler');
+    expect(text).not.toContain('billing');
+    expect(text).not.toContain('Which hash');
+    expect(text).toMatch(/\*Skipped layers:\*\n- feedback: no such table: agent_feedback/);
+
+    expect(event.budgetTokens).toBe(300);
+    expect(event.totalEstimate).toBeLessThanOrEqual(300);
+    expect(event.layers[0]).toMatchObject({ name: 'working', source: 'block:login status', score: 1 });
+    expect(event.layers.map((l) => l.name)).toEqual(expect.arrayContaining(['plan', 'questions', 'episodic', 'entities']));
+    expect(event.dropped).toEqual([expect.objectContaining({ source: 'block:scratch', reason: expect.stringMatching(/^over budget/) })]);
+  });
+
+  it('packs only the feedback of tools that match the query', async () => {
+    db.exec(`CREATE TABLE agent_feedback (id INTEGER PRIMARY KEY AUTOINCREMENT, agent_id TEXT NOT NULL, tool_name TEXT NOT NULL,
+      outcome TEXT NOT NULL, metadata_json TEXT, recorded_at TEXT DEFAULT (datetime('now')))`);
+    const add = db.prepare('INSERT INTO agent_feedback (agent_id, tool_name, outcome, metadata_json) VALUES (?, ?, ?, ?)');
+    for (let i = 0; i < 10; i++) {
+      add.run('a', 'dokoro_block_read', 'success', null); // most reliable, but unrelated to the query
+      add.run('a', 'search_universal', i < 8 ? 'success' : 'failure', null);
+      add.run('a', 'dokoro_entity_extract_deep', i < 6 ? 'success' : 'failure', JSON.stringify({ context: { tags: ['login'] } }));
+    }
+    const { event } = await pack({ query: 'search login handlers', layers: ['feedback'] });
+    expect(event.layers.map((l) => l.source)).toEqual(['tool:search_universal', 'tool:dokoro_entity_extract_deep']);
+  });
+
+  it('falls back to lexical relevance when no embedder can be built', async () => {
+    mockEmbedderUnavailable = true;
+    const { res, text } = await pack({ query: 'login route', layers: ['episodic', 'entities'] });
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('session s1: moved login to the token service');
+    expect(text).toContain('- src/login.ts (file): login route handler');
+  });
+
+  it('limits layers and appends the event to the context-inspect store when log=true', async () => {
+    const { text, event } = await pack({ query: 'login', layers: ['plan'], session_id: 'sess-9', log: true });
+    expect(event.layers.map((l) => l.source)).toEqual(['plan:plan-auth/i2']);
+    const logged = text.match(/logged -> (context-inspect\/\d{4}-\d{2}-\d{2}\.jsonl)/);
+    expect(logged).not.toBeNull();
+    const stored = JSON.parse((await fs.readFile(path.join(tmpDir, logged![1]), 'utf-8')).trim());
+    expect(stored).toMatchObject({ event: 'context_inspect', sessionId: 'sess-9', layers: [{ source: 'plan:plan-auth/i2' }] });
+  });
+});
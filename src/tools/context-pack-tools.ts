@@ -0,0 +1,303 @@
+/**
+ * Context Pack MCP Tool
+ *
+ * dokoro_context_pack replaces the round of session-start reads (session
+ * recall, entity graph, plan status, question list, block reads, feedback
+ * route) with one call: every layer is queried for `query`, each candidate is
+ * scored, and the best ones are packed into a single block under a token
+ * budget (src/services/context-pack.ts).
+ *
+ * Scoring: score = LAYER_PRIOR[layer] × (0.3 + 0.7 × relevance), relevance in
+ * [0, 1] being
+ *
+ *   working    share of query terms in the block key + content
+ *   plan       share of query terms in the plan title + item text
+ *   questions  half query-term share, half priority
+ *   episodic   recall relevance (similarity, recency, importance; MMR-picked),
+ *              averaged with the query-term share when the query has no embedding
+ *   entities   share of query terms in name + description
+ *   feedback   share of query terms in the tool name and the task context its
+ *              outcomes were recorded with (tags, doc_type, file_ext), times
+ *              the Wilson lower bound of its success rate; tools that match
+ *              no query term are left out
+ *
+ * The pack is returned with its dokoro_context_log event (kept layers,
+ * scores, token estimates and what was dropped); log=true also appends that
+ * event to the context-inspect store. A layer whose storage is missing is
+ * skipped and named in the output, never failing the pack.
+ */
+
+import { z } from 'zod';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { ToolDefinition } from './registry.js';
+import { DOKORO_PATH } from '../types/dokoro.js';
+import { getSqliteDb } from '../db/index.js';
+import { loadPlansIndex, loadPlanWithLocation } from './plan-tools.js';
+import { loadQuestions } from './question-tools.js';
+import { rowContext, wilsonLower } from './feedback-tools.js';
+import { appendContextEvent } from './context-inspect-tools.js';
+import { EmbeddingService } from '../services/embedding-service.js';
+import { formatBreakdown, rankRecall, summaryCandidate } from '../services/recall-ranking.js';
+import { LAYER_ORDER, packContext, type PackCandidate, type PackLayer } from '../services/context-pack.js';
+import { hasColumn } from '../services/federation.js';
+
+function getSqlite(): Database.Database {
+  const projectPath = path.dirname(DOKORO_PATH);
+  return getSqliteDb({ projectPath, dokoroFolder: path.basename(DOKORO_PATH) });
+}
+
+function db(): Database.Database {
+  const existing = (globalThis as Record<string, unknown>).__TEST_DB__ as Database.Database | undefined;
+  if (existing) return existing;
+  return getSqlite();
+}
+
+const LAYER_PRIOR: Record<PackLayer, number> = {
+  working: 1.0,
+  plan: 0.9,
+  questions: 0.8,
+  episodic: 0.8,
+  entities: 0.6,
+  feedback: 0.4,
+};
+
+const PRIORITY_WEIGHT: Record<string, number> = { blocker: 1, high: 0.75, medium: 0.5, low: 0.25 };
+
+/** Per-layer candidate caps, so a large project cannot flood the dropped list. */
+const MAX_BLOCKS = 20;
+const MAX_SUMMARIES = 10;
+const SUMMARY_POOL = 200;
+const MAX_ENTITIES = 20;
+const MAX_FEEDBACK_TOOLS = 5;
+const FEEDBACK_MIN_SAMPLES = 5;
+/** Most recently used distinct (tool, context) pairs read to match tools against the query. */
+const FEEDBACK_CONTEXT_POOL = 1000;
+
+function layerScore(layer: PackLayer, relevance: number): number {
+  return LAYER_PRIOR[layer] * (0.3 + 0.7 * relevance);
+}
+
+function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 2))];
+}
+
+/** Share of the query terms that occur in `text` (substring match, case-insensitive). */
+function termCoverage(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const haystack = text.toLowerCase();
+  return terms.filter((t) => haystack.includes(t)).length / terms.length;
+}
+
+interface GatherInput {
+  terms: string[];
+  queryEmbedding: number[] | null;
+  /** Model behind queryEmbedding (undefined without an embedder); summaries embedded by another model are not compared. */
+  embeddingModel: string | undefined;
+}
+
+function workingCandidates(g: GatherInput): PackCandidate[] {
+  const rows = db().prepare('SELECT block_key, content, version FROM shared_blocks ORDER BY updated_at DESC LIMIT ?')
+    .all(MAX_BLOCKS) as Array<{ block_key: string; content: string; version: number }>;
+  return rows.map((r) => {
+    const relevance = termCoverage(g.terms, `${r.block_key} ${r.content}`);
+    return {
+      layer: 'working' as const,
+      source: `block:${r.block_key}`,
+      text: `### ${r.block_key} (v${r.version})\n${r.content}`,
+      score: layerScore('working', relevance),
+      reason: `query terms ${relevance.toFixed(2)}`,
+    };
+  });
+}
+
+async function planCandidates(g: GatherInput): Promise<PackCandidate[]> {
+  const out: PackCandidate[] = [];
+  for (const [id, entry] of Object.entries(await loadPlansIndex())) {
+    if (typeof entry !== 'string') continue; // archived
+    const loc = await loadPlanWithLocation(id);
+    if (!loc || loc.archived || loc.plan.status !== 'active') continue;
+    for (const item of loc.plan.items.filter((i) => !i.completed)) {
+      const relevance = termCoverage(g.terms, `${loc.plan.title} ${item.text}`);
+      const blockers = item.blockers?.length ? ` (blocked: ${item.blockers.join('; ')})` : '';
+      out.push({
+        layer: 'plan',
+        source: `plan:${id}/${item.id}`,
+        text: `- [ ] ${loc.plan.title} › ${item.text}${blockers}`,
+        score: layerScore('plan', relevance),
+        reason: `query terms ${relevance.toFixed(2)}`,
+      });
+    }
+  }
+  return out;
+}
+
+async function questionCandidates(g: GatherInput): Promise<PackCandidate[]> {
+  return (await loadQuestions()).filter((q) => q.status === 'open').map((q) => {
+    const coverage = termCoverage(g.terms, `${q.question} ${q.context ?? ''}`);
+    const priority = PRIORITY_WEIGHT[q.priority] ?? 0.5;
+    const relevance = 0.5 * coverage + 0.5 * priority;
+    return {
+      layer: 'questions' as const,
+      source: `question:${q.id}`,
+      text: `- [${q.priority}] ${q.question}${q.context ? ` — ${q.context}` : ''}`,
+      score: layerScore('questions', relevance),
+      reason: `query terms ${coverage.toFixed(2)}, priority ${q.priority}`,
+    };
+  });
+}
+
+function episodicCandidates(g: GatherInput): PackCandidate[] {
+  const conn = db();
+  const cols = ['summary_embedding', 'summary_embedding_model', 'key_decisions_json', 'linked_docs_json']
+    .map((c) => (hasColumn(conn, 'conversation_summaries', c) ? c : `NULL AS ${c}`)).join(', ');
+  const topOnly = hasColumn(conn, 'conversation_summaries', 'parent_id') ? 'WHERE parent_id IS NULL' : '';
+  const rows = conn.prepare(`
+    SELECT id, session_id, summary, started_at, ${cols}
+    FROM conversation_summaries ${topOnly}
+    ORDER BY started_at DESC LIMIT ?
+  `).all(SUMMARY_POOL) as Array<Record<string, unknown>>;
+  const ranked = rankRecall(rows.map((r) => summaryCandidate(r, g.embeddingModel)), g.queryEmbedding, MAX_SUMMARIES);
+  return ranked.map(({ item, breakdown }) => {
+    const relevance = g.queryEmbedding ? breakdown.relevance
+      : (breakdown.relevance + termCoverage(g.terms, String(item['summary']))) / 2;
+    return {
+      layer: 'episodic' as const,
+      source: `summary#${item['id']}`,
+      text: `- [${item['started_at']}] session ${item['session_id']}: ${item['summary']}`,
+      score: layerScore('episodic', relevance),
+      reason: formatBreakdown(breakdown),
+    };
+  });
+}
+
+function entityCandidates(g: GatherInput): PackCandidate[] {
+  if (g.terms.length === 0) return [];
+  const like = g.terms.map(() => '(lower(name) LIKE ? OR lower(COALESCE(description, \'\')) LIKE ?)').join(' OR ');
+  const rows = db().prepare(`SELECT id, type, name, description FROM entities WHERE ${like} ORDER BY updated_at DESC LIMIT ?`)
+    .all(...g.terms.flatMap((t) => [`%${t}%`, `%${t}%`]), MAX_ENTITIES * 3) as
+    Array<{ id: number; type: string; name: string; description: string | null }>;
+  return rows
+    .map((r) => {
+      const relevance = termCoverage(g.terms, `${r.name} ${r.description ?? ''}`);
+      return {
+        layer: 'entities' as const,
+        source: `entity#${r.id}`,
+        text: `- ${r.name} (${r.type})${r.description ? `: ${r.description}` : ''}`,
+        score: layerScore('entities', relevance),
+        reason: `query terms ${relevance.toFixed(2)}`,
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_ENTITIES);
+}
+
+/** Tool name words plus every task context its outcomes were recorded with. */
+function feedbackContextText(): Map<string, string> {
+  const rows = db().prepare(`
+    SELECT tool_name, metadata_json FROM agent_feedback WHERE metadata_json IS NOT NULL
+    GROUP BY tool_name, metadata_json ORDER BY MAX(recorded_at) DESC LIMIT ?
+  `).all(FEEDBACK_CONTEXT_POOL) as Array<{ tool_name: string; metadata_json: string }>;
+  const text = new Map<string, string>();
+  for (const r of rows) {
+    const ctx = rowContext(r.metadata_json);
+    if (!ctx) continue;
+    const words = [...(ctx.tags ?? []), ctx.doc_type ?? '', ctx.file_ext ?? ''].join(' ');
+    text.set(r.tool_name, `${text.get(r.tool_name) ?? ''} ${words}`);
+  }
+  return text;
+}
+
+function feedbackCandidates(g: GatherInput): PackCandidate[] {
+  if (g.terms.length === 0) return [];
+  const rows = db().prepare(`
+    SELECT tool_name, COUNT(*) AS n, SUM(CASE WHEN outcome = 'success' THEN 1 ELSE 0 END) AS success
+    FROM agent_feedback GROUP BY tool_name HAVING COUNT(*) >= ?
+  `).all(FEEDBACK_MIN_SAMPLES) as Array<{ tool_name: string; n: number; success: number }>;
+  const contexts = feedbackContextText();
+  return rows
+    .map((r) => {
+      const coverage = termCoverage(g.terms, `${r.tool_name.replace(/_/g, ' ')} ${contexts.get(r.tool_name) ?? ''}`);
+      const wilson = wilsonLower(r.success, r.n);
+      return { ...r, coverage, wilson, relevance: coverage * wilson };
+    })
+    .filter((r) => r.coverage > 0)
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, MAX_FEEDBACK_TOOLS)
+    .map((r) => ({
+      layer: 'feedback' as const,
+      source: `tool:${r.tool_name}`,
+      text: `- ${r.tool_name}: ${r.success}/${r.n} succeeded (wilson ${r.wilson.toFixed(2)})`,
+      score: layerScore('feedback', r.relevance),
+      reason: `query terms ${r.coverage.toFixed(2)}, wilson ${r.wilson.toFixed(2)} over ${r.n} call(s)`,
+    }));
+}
+
+const GATHER: Record<PackLayer, (g: GatherInput) => PackCandidate[] | Promise<PackCandidate[]>> = {
+  working: workingCandidates,
+  plan: planCandidates,
+  questions: questionCandidates,
+  episodic: episodicCandidates,
+  entities: entityCandidates,
+  feedback: feedbackCandidates,
+};
+
+export const contextPackTools: ToolDefinition[] = [
+  {
+    name: 'dokoro_context_pack',
+    title: 'Assemble a token-budgeted context pack',
+    description:
+      'One call at session start instead of recall + entity_graph + plan_status + question_list + block reads: ' +
+      'pulls shared blocks, past session summaries, entities, active plan items, open questions and the most reliable tools matching the query, ' +
+      'scores each against the query, and packs the best into one block within budget_tokens. ' +
+      'Also returns the packing decision as a context_inspect event (layers with score/reason/tokenEstimate, and dropped); ' +
+      'log=true appends it to the dokoro_context_log store.',
+    inputSchema: {
+      query: z.string().min(1).describe('What the session is about; drives relevance.'),
+      budget_tokens: z.number().int().min(100).max(32000).optional().describe('Token budget for the pack (default 2000).'),
+      layers: z.array(z.enum(LAYER_ORDER)).min(1).optional().describe('Only these layers (default all).'),
+      session_id: z.string().optional().describe('Recorded on the emitted event.'),
+      log: z.boolean().optional().describe('Also append the event to the context-inspect store.'),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { query: string; budget_tokens?: number; layers?: PackLayer[]; session_id?: string; log?: boolean };
+        let queryEmbedding: number[] | null = null;
+        let embeddingModel: string | undefined;
+        try {
+          const embedder = new EmbeddingService();
+          embeddingModel = embedder.modelId;
+          const { embedding } = await embedder.embed(a.query);
+          if (embedding && embedding.length) queryEmbedding = embedding;
+        } catch { /* no embedder or offline -> lexical relevance only */ }
+        const g: GatherInput = { terms: queryTerms(a.query), queryEmbedding, embeddingModel };
+
+        const candidates: PackCandidate[] = [];
+        const skipped: string[] = [];
+        for (const layer of LAYER_ORDER) {
+          if (a.layers && !a.layers.includes(layer)) continue;
+          try {
+            candidates.push(...await GATHER[layer](g));
+          } catch (e) {
+            skipped.push(`${layer}: ${(e as Error).message}`);
+          }
+        }
+
+        const pack = packContext(candidates, a.budget_tokens ?? 2000, { query: a.query, sessionId: a.session_id });
+        let text = pack.text;
+        text += `\n\n(${pack.event.layers.length} of ${candidates.length} item(s), ~${pack.event.totalEstimate}/${pack.event.budgetTokens} tokens)`;
+        if (skipped.length) text += `\n\n*Skipped layers:*\n${skipped.map((s) => `- ${s}`).join('\n')}`;
+        if (a.log) text += `\n\nlogged -> ${await appendContextEvent(pack.event)}`;
+        return {
+          content: [
+            { type: 'text' as const, text },
+            { type: 'text' as const, text: JSON.stringify(pack.event) },
+          ],
+        };
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return { isError: true, content: [{ type: 'text' as const, text: `context_pack failed: ${msg}` }] };
+      }
+    },
+  },
+];
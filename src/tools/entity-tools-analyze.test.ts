@@ -0,0 +1,72 @@
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+import { ensureEntityTables } from '../db/entity-tables.js';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { entityTools } = require('./entity-tools.js') as typeof import('./entity-tools.js');
+
+async function analyze(args: Record<string, unknown>): Promise<{ text: string; isError?: boolean }> {
+  const tool = entityTools.find((t) => t.name === 'dokoro_entity_analyze')!;
+  const res = await tool.handler(args);
+  const first = res.content?.[0];
+  return { text: first && first.type === 'text' ? first.text : '', isError: res.isError };
+}
+
+describe('dokoro_entity_analyze', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    ensureEntityTables(db);
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES
+      (1, 'service', 'auth', 'auth'), (2, 'file', 'auth/session.ts', 'auth/session.ts'),
+      (3, 'service', 'billing', 'billing'), (4, 'file', 'billing/charge.ts', 'billing/charge.ts'),
+      (5, 'file', 'util.ts', 'util.ts')`).run();
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, valid_from) VALUES
+      (2, 1, 'part_of', '2026-01-01T00:00:00Z'),
+      (4, 3, 'part_of', '2026-01-01T00:00:00Z'),
+      (2, 5, 'depends_on', '2026-01-01T00:00:00Z'),
+      (4, 5, 'depends_on', '2026-01-01T00:00:00Z')`).run();
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('lists hub entities of a type', async () => {
+    const res = await analyze({ mode: 'centrality', type: 'file', limit: 1 });
+    expect(res.text).toContain('1. **util.ts** [file] #5');
+    expect(res.text).toContain('degree 2 (in 2, out 0)');
+    expect(res.text).not.toContain('2.');
+  });
+
+  it('explains how two entities are connected, by name', async () => {
+    const res = await analyze({ mode: 'path', from: 'Billing', to: 1 });
+    expect(res.text).toBe([
+      '## Path: billing [service] #3 → auth [service] #1',
+      '',
+      '4 hops:',
+      '- billing <--[part_of]-- billing/charge.ts',
+      '- billing/charge.ts --[depends_on]--> util.ts',
+      '- util.ts <--[depends_on]-- auth/session.ts',
+      '- auth/session.ts --[part_of]--> auth',
+    ].join('\n'));
+  });
+
+  it('reports communities and rejects incomplete path requests', async () => {
+    const res = await analyze({ mode: 'communities' });
+    expect(res.text).toContain('## Connected Components (1, plus 0 isolated entities)');
+    expect(res.text).toMatch(/## Communities \(\d+, label propagation\)/);
+
+    const missing = await analyze({ mode: 'path', from: 1 });
+    expect(missing.isError).toBe(true);
+    const unknown = await analyze({ mode: 'path', from: 'nope', to: 1 });
+    expect(unknown.text).toBe('**Error:** No entity named "nope".');
+  });
+});
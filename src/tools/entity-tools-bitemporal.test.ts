@@ -149,3 +149,57 @@ describe('dokoro_entity_graph cycle traversal (BUG-14)', () => {
     expect(text).toMatch(/c_to_a/);
   });
 });
+
+describe('dokoro_entity_graph transaction time (as_known_at)', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    ensureEntityTables(db);
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES (1, 'file', 'auth.ts', 'auth.ts')`).run();
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES (2, 'service', 'redis', 'redis')`).run();
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES (3, 'service', 'postgres', 'postgres')`).run();
+
+    // Valid since 2026-01-01 throughout; learned at different times:
+    //   depends_on redis    : recorded 2026-03-01, retracted 2026-03-10 (found to be wrong)
+    //   depends_on postgres : recorded 2026-03-05, still believed
+    const insert = db.prepare(`
+      INSERT INTO entity_relations
+        (source_id, target_id, relation_type, valid_from, valid_to, recorded_at, retracted_at)
+      VALUES (?, ?, 'depends_on', '2026-01-01T00:00:00Z', NULL, ?, ?)
+    `);
+    insert.run(1, 2, '2026-03-01T00:00:00Z', '2026-03-10T00:00:00Z');
+    insert.run(1, 3, '2026-03-05T00:00:00Z', null);
+
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('default: only current beliefs (retracted facts hidden)', async () => {
+    const text = extractText(await findTool('dokoro_entity_graph').handler({ entityId: 1 }));
+    expect(text).toMatch(/postgres/);
+    expect(text).not.toMatch(/redis/);
+  });
+
+  it('as_known_at replays what was believed at that time', async () => {
+    const tool = findTool('dokoro_entity_graph');
+    const march3 = extractText(await tool.handler({ entityId: 1, as_known_at: '2026-03-03T00:00:00Z' }));
+    expect(march3).toMatch(/redis/);
+    expect(march3).not.toMatch(/postgres/); // not learned yet
+
+    const march7 = extractText(await tool.handler({ entityId: 1, as_known_at: '2026-03-07T00:00:00Z' }));
+    expect(march7).toMatch(/redis/);
+    expect(march7).toMatch(/postgres/);
+  });
+
+  it('combines with as_of (valid time) independently', async () => {
+    const text = extractText(await findTool('dokoro_entity_graph').handler({
+      entityId: 1, as_of: '2025-06-01T00:00:00Z', as_known_at: '2026-03-07T00:00:00Z',
+    }));
+    expect(text).toMatch(/No relations found/); // believed on 03-07, but not valid in 2025
+  });
+});
@@ -0,0 +1,91 @@
+import Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+import { ensureEntityTables } from '../db/entity-tables.js';
+
+const siblings = new Map<string, Database.Database>();
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: (cfg: { projectPath: string; dokoroFolder: string; readonly?: boolean }) => {
+    const db = cfg.readonly ? siblings.get(path.join(cfg.projectPath, cfg.dokoroFolder)) : undefined;
+    if (!db) throw new Error('getSqliteDb should only open federated siblings in tests');
+    return db;
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { entityTools } = require('./entity-tools.js') as typeof import('./entity-tools.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { localProjectName } = require('../services/federation.js') as typeof import('../services/federation.js');
+
+async function graph(args: Record<string, unknown>): Promise<{ text: string; isError?: boolean }> {
+  const res = await entityTools.find((t) => t.name === 'dokoro_entity_graph')!.handler(args);
+  const first = res.content?.[0];
+  return { text: first && first.type === 'text' ? first.text : '', isError: res.isError };
+}
+
+function graphDb(entities: string): Database.Database {
+  const db = new Database(':memory:');
+  ensureEntityTables(db);
+  db.exec(`INSERT INTO entities (id, type, name, canonical_name) VALUES ${entities}`);
+  return db;
+}
+
+describe('dokoro_entity_graph federated', () => {
+  let root: string;
+  let local: Database.Database;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-fed-graph-'));
+    const file = path.join(root, 'federation.json');
+    fs.writeFileSync(file, JSON.stringify({ projects: [{ name: 'billing', path: 'billing/dokoro' }] }));
+    process.env.DOKORO_FEDERATION_PATH = file;
+    siblings.set(path.join(root, 'billing', 'dokoro'), graphDb(`(1, 'service', 'auth-client', 'auth-client')`));
+    local = graphDb(`(1, 'service', 'auth', 'auth'), (2, 'file', 'auth/session.ts', 'auth/session.ts')`);
+    (globalThis as Record<string, unknown>).__TEST_DB__ = local;
+  });
+
+  afterEach(() => {
+    for (const db of siblings.values()) db.close();
+    siblings.clear();
+    local.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+    delete process.env.DOKORO_FEDERATION_PATH;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('searches every project and labels each entity with its project', async () => {
+    const { text } = await graph({ query: 'auth', type: 'service', federated: true });
+    expect(text).toContain(`## Entity Search Results (federated: ${localProjectName()}, billing)`);
+    expect(text).toContain('- **auth-client** [service] (project: billing, ID: 1, docs: 0)');
+    expect(text).toContain(`- **auth** [service] (project: ${localProjectName()}, ID: 1, docs: 0)`);
+  });
+
+  it('traverses an entity inside the one named project', async () => {
+    expect((await graph({ entityId: 1, federated: true })).isError).toBe(true);
+    const { text } = await graph({ entityId: 1, federated: true, projects: ['billing'] });
+    expect(text).toContain('## Entity: auth-client');
+    expect(text).toContain('- **Project:** billing');
+  });
+
+  it('traverses a sibling that predates transaction time and aliases', async () => {
+    const old = new Database(':memory:');
+    old.exec(`
+      CREATE TABLE entities (id INTEGER PRIMARY KEY, type TEXT NOT NULL, name TEXT NOT NULL, canonical_name TEXT NOT NULL, description TEXT);
+      CREATE TABLE doc_entities (doc_id TEXT NOT NULL, entity_id INTEGER NOT NULL, relation_type TEXT NOT NULL, context TEXT, confidence REAL);
+      CREATE TABLE entity_relations (id INTEGER PRIMARY KEY, source_id INTEGER NOT NULL, target_id INTEGER NOT NULL,
+        relation_type TEXT NOT NULL, weight REAL DEFAULT 1.0, valid_from TEXT NOT NULL, valid_to TEXT);
+      INSERT INTO entities VALUES (1, 'service', 'ledger', 'ledger', NULL), (2, 'service', 'payments', 'payments', NULL);
+      INSERT INTO entity_relations (source_id, target_id, relation_type, valid_from) VALUES (1, 2, 'calls', '2026-01-01T00:00:00Z');
+    `);
+    siblings.get(path.join(root, 'billing', 'dokoro'))!.close();
+    siblings.set(path.join(root, 'billing', 'dokoro'), old);
+
+    const { text, isError } = await graph({ entityId: 1, federated: true, projects: ['billing'] });
+    expect(isError).toBeFalsy();
+    expect(text).toContain('## Entity: ledger');
+    expect(text).toContain('- ledger --[calls]--> payments');
+    expect(text).not.toContain('Aliases');
+  });
+});
@@ -0,0 +1,97 @@
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+import { ensureEntityTables } from '../db/entity-tables.js';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+// Offline embedder: resolution must fall back to string signals.
+jest.mock('../services/embedding-service.js', () => ({
+  EmbeddingService: class {
+    async embed(): Promise<never> { throw new Error('offline'); }
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { entityTools } = require('./entity-tools.js') as typeof import('./entity-tools.js');
+
+function findTool(name: string) {
+  const t = entityTools.find((x) => x.name === name);
+  if (!t) throw new Error(`tool ${name} not found`);
+  return t;
+}
+
+async function run(name: string, args: Record<string, unknown>): Promise<{ text: string; isError?: boolean }> {
+  const res = await findTool(name).handler(args);
+  const first = res.content?.[0];
+  return { text: first && first.type === 'text' ? first.text : '', isError: res.isError };
+}
+
+describe('dokoro_entity_resolve / dokoro_entity_merge', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    ensureEntityTables(db);
+    db.prepare(`INSERT INTO entities (id, type, name, canonical_name) VALUES
+      (1, 'file', 'auth/session.ts', 'auth/session.ts'),
+      (2, 'file', 'session.ts', 'session.ts'),
+      (3, 'component', 'AuthSession', 'authsession'),
+      (4, 'service', 'redis', 'redis')`).run();
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, valid_from)
+      VALUES (3, 4, 'depends_on', '2026-01-01T00:00:00Z')`).run();
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('proposes candidates offline, merges them, shows aliases in the graph, and undoes', async () => {
+    const proposals = await run('dokoro_entity_resolve', {});
+    expect(proposals.text).toMatch(/keep \*\*AuthSession\*\* \[component\] #3 <- merge \*\*auth\/session\.ts\*\* \[file\] #1/);
+    expect(proposals.text).toMatch(/path suffix/);
+
+    const merged = await run('dokoro_entity_merge', { survivor_id: 1, merged_ids: [2, 3], reason: 'one file' });
+    expect(merged.isError).toBeFalsy();
+    expect(merged.text).toMatch(/merge #1: #2 -> #1/);
+    expect(merged.text).toMatch(/merge #2: #3 -> #1 \(0 doc links, 1 relations rewritten/);
+    expect(merged.text).toContain('**Aliases:** AuthSession [component], session.ts [file]');
+
+    const graph = await run('dokoro_entity_graph', { entityId: 1 });
+    expect(graph.text).toContain('- **Aliases:** AuthSession [component], session.ts [file]');
+    expect(graph.text).toContain('auth/session.ts --[depends_on]--> redis');
+
+    const undone = await run('dokoro_entity_merge', { undo: 2 });
+    expect(undone.text).toBe('Undid merge #2: entity #3 restored alongside #1.');
+    expect((await run('dokoro_entity_graph', { entityId: 3 })).text).toContain('AuthSession --[depends_on]--> redis');
+  });
+
+  it('as_known_at before a merge still shows the merged entity and its relations', async () => {
+    db.prepare(`INSERT INTO entity_relations (source_id, target_id, relation_type, valid_from, recorded_at)
+      VALUES (2, 4, 'imports', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')`).run();
+    const before = new Date(Date.now() - 1000).toISOString();
+    await run('dokoro_entity_merge', { survivor_id: 1, merged_ids: [2] });
+
+    const past = await run('dokoro_entity_graph', { entityId: 4, as_known_at: before });
+    expect(past.text).toContain('session.ts --[imports]--> redis');
+    expect(past.text).not.toContain('auth/session.ts --[imports]');
+    expect((await run('dokoro_entity_graph', { entityId: 2, as_known_at: before })).text).toContain('## Entity: session.ts');
+
+    const now = await run('dokoro_entity_graph', { entityId: 4 });
+    expect(now.text).toContain('auth/session.ts --[imports]--> redis');
+    expect((await run('dokoro_entity_graph', { entityId: 2 })).isError).toBe(true);
+
+    const analyze = await run('dokoro_entity_analyze', { mode: 'path', from: 2, to: 4, as_known_at: before });
+    expect(analyze.text).toContain('session.ts --[imports]--> redis');
+  });
+
+  it('rolls back the whole batch when one merge fails', async () => {
+    const res = await run('dokoro_entity_merge', { survivor_id: 1, merged_ids: [2, 99] });
+    expect(res.isError).toBe(true);
+    expect(res.text).toMatch(/entity 99 not found/);
+    expect(db.prepare('SELECT COUNT(*) c FROM entities').get()).toEqual({ c: 4 });
+    expect(db.prepare('SELECT COUNT(*) c FROM entity_merges').get()).toEqual({ c: 0 });
+  });
+});
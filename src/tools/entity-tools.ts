@@ -1,7 +1,8 @@
 /**
  * Entity Graph MCP Tool
  *
- * Provides graph traversal and search over the entity knowledge graph.
+ * Provides graph traversal, search and whole-graph analytics over the entity
+ * knowledge graph.
  * Supports recursive CTE-based graph exploration and filtered entity search.
  */
 
@@ -13,6 +14,19 @@ import { getSqliteDb } from '../db/index.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
 import { LlmEntityExtractor } from '../services/llm-entity-extractor.js';
 import { EntityPersistence } from '../services/entity-extractor.js';
+import { EntityMerger, EntityResolver, entitiesMergedAfter } from '../services/entity-resolution.js';
+import { getLoadedOntology, getOntology, ontologyPath, reloadOntology } from '../services/entity-ontology.js';
+import { formatFederationErrors, hasColumn, openFederatedDbs } from '../services/federation.js';
+import { EmbeddingService } from '../services/embedding-service.js';
+import {
+  connectedComponents,
+  degreeCentrality,
+  labelPropagationCommunities,
+  loadEntityGraph,
+  pageRank,
+  shortestPath,
+  type EntityGraphSnapshot,
+} from '../services/entity-graph-analytics.js';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -73,6 +87,14 @@ interface DocRow {
   content: string | null;
 }
 
+/**
+ * Entity type parameter: the types the ontology declares (built-ins plus the
+ * project's ontology.json), as loaded when the tools are registered.
+ */
+function entityTypeSchema() {
+  return z.enum(getOntology().entityTypes as [string, ...string[]]);
+}
+
 export const entityTools: ToolDefinition[] = [
   {
     name: 'dokoro_entity_graph',
@@ -81,8 +103,7 @@ export const entityTools: ToolDefinition[] = [
       'Query the entity knowledge graph. Search entities by name/type, or explore the graph from a specific entity using recursive traversal. Returns entities, their relations, and linked documents.',
     inputSchema: {
       query: z.string().optional().describe('Search entities by name (partial match)'),
-      type: z
-        .enum(['person', 'project', 'file', 'service', 'component', 'concept'])
+      type: entityTypeSchema()
         .optional()
         .describe('Filter by entity type'),
       entityId: z.number().optional().describe('Get a specific entity and its relations by ID'),
@@ -105,6 +126,16 @@ export const entityTools: ToolDefinition[] = [
         .datetime()
         .optional()
         .describe('ISO timestamp — traverse facts valid at this point in time. Defaults to now (currently-valid facts: valid_from <= now AND valid_to IS NULL).'),
+      as_known_at: z
+        .string()
+        .datetime()
+        .optional()
+        .describe('ISO timestamp — only use facts dokoro had recorded and not yet retracted at this point (transaction time). Defaults to now (current beliefs). Combine with as_of for "what did we believe on T1 about T2".'),
+      federated: z
+        .boolean()
+        .optional()
+        .describe('Search the sibling projects listed in federation.json too (read-only); results are labelled with their project. With entityId, name its project in projects.'),
+      projects: z.array(z.string()).optional().describe('With federated: only these projects (default all, including this one)'),
     },
     handler: async (args: {
       query?: string;
@@ -113,9 +144,13 @@ export const entityTools: ToolDefinition[] = [
       depth?: number;
       limit?: number;
       as_of?: string;
+      as_known_at?: string;
+      federated?: boolean;
+      projects?: string[];
     }): Promise<CallToolResult> => {
       const { query, type, entityId, depth = 2, limit = 20 } = args;
       const asOf = (args.as_of as string | undefined) ?? null;
+      const asKnownAt = (args.as_known_at as string | undefined) ?? null;
 
       let db;
       try {
@@ -136,9 +171,25 @@ export const entityTools: ToolDefinition[] = [
         // Cap depth at 5
         const safeDepth = Math.min(Math.max(depth, 1), 5);
 
+        if (args.federated) {
+          // Entity ids are per-database, so traversal needs exactly one project.
+          if (entityId !== undefined && args.projects?.length !== 1) {
+            return {
+              content: [{ type: 'text', text: "**Error:** With federated, entityId needs projects=[<the entity's project>]." }],
+              isError: true,
+            };
+          }
+          const { dbs, errors } = openFederatedDbs(db, { projects: args.projects });
+          if (entityId !== undefined) {
+            if (dbs.length === 0) throw new Error(errors.join('; '));
+            return handleEntityGraph(dbs[0].db, entityId, safeDepth, asOf, asKnownAt, dbs[0].project, errors);
+          }
+          return handleFederatedEntitySearch(dbs, errors, query, type, limit);
+        }
+
         // Mode 1: Get entity by ID and traverse graph
         if (entityId !== undefined) {
-          return handleEntityGraph(db, entityId, safeDepth, asOf);
+          return handleEntityGraph(db, entityId, safeDepth, asOf, asKnownAt);
         }
 
         // Mode 2: Search entities
@@ -278,18 +329,345 @@ export const entityTools: ToolDefinition[] = [
       }
     },
   },
+  {
+    name: 'dokoro_entity_resolve',
+    title: 'Propose Entity Merges',
+    description:
+      'Entity-resolution pass over the knowledge graph: proposes pairs of entities that likely name the same thing (e.g. `auth/session.ts`, `session.ts`, `AuthSession`) using normalized-name and path-suffix matching, spelling similarity and, when Ollama is reachable, name-embedding similarity. Read-only — apply a proposal with dokoro_entity_merge.',
+    inputSchema: {
+      type: entityTypeSchema()
+        .optional()
+        .describe('Only compare entities of this type (default: all, cross-type pairs are scored lower)'),
+      min_score: z.number().min(0).max(1).optional().describe('Minimum similarity (default 0.8)'),
+      limit: z.number().int().min(1).max(100).optional().describe('Max proposals (default 20)'),
+      use_embeddings: z.boolean().optional().describe('Use name embeddings when Ollama is available (default true)'),
+    },
+    handler: async (args: {
+      type?: string;
+      min_score?: number;
+      limit?: number;
+      use_embeddings?: boolean;
+    }): Promise<CallToolResult> => {
+      let db;
+      try {
+        db = getSqlite();
+      } catch {
+        return {
+          content: [{ type: 'text', text: '**Error:** Database not initialized. Run `dokoro_init` first.' }],
+          isError: true,
+        };
+      }
+
+      try {
+        const embedder = new EmbeddingService();
+        const resolver = new EntityResolver(
+          db,
+          args.use_embeddings === false ? undefined : async (text) => (await embedder.embed(text)).embedding,
+        );
+        const candidates = await resolver.propose({ type: args.type, minScore: args.min_score, limit: args.limit });
+        if (candidates.length === 0) {
+          return { content: [{ type: 'text', text: 'No merge candidates found.' }] };
+        }
+        const lines = [`## Merge Candidates (${candidates.length})`, ''];
+        for (const c of candidates) {
+          lines.push(
+            `- keep **${c.survivor.name}** [${c.survivor.type}] #${c.survivor.id} <- merge **${c.merged.name}** [${c.merged.type}] #${c.merged.id}` +
+              ` (score ${c.score.toFixed(2)}: ${c.reasons.join(', ')})`,
+          );
+        }
+        lines.push('', '*Apply with `dokoro_entity_merge { survivor_id, merged_ids }`; every merge can be undone.*');
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      } catch (error: unknown) {
+        return {
+          content: [{ type: 'text', text: `**Error:** ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    },
+  },
+  {
+    name: 'dokoro_entity_merge',
+    title: 'Merge Entities',
+    description:
+      'Merge duplicate entities into a surviving entity: doc links and relations are rewritten onto the survivor (old relation rows are retracted, so as_known_at still shows the pre-merge graph), merged names become aliases that future extraction resolves to the survivor, and an undo record is kept. Pass `undo` with a merge id to revert.',
+    inputSchema: {
+      survivor_id: z.number().int().optional().describe('Entity that remains'),
+      merged_ids: z.array(z.number().int()).min(1).optional().describe('Entities folded into the survivor (deleted)'),
+      reason: z.string().optional().describe('Why these are the same entity (kept on the merge record)'),
+      undo: z.number().int().optional().describe('Merge id to revert instead of merging'),
+    },
+    handler: async (args: {
+      survivor_id?: number;
+      merged_ids?: number[];
+      reason?: string;
+      undo?: number;
+    }): Promise<CallToolResult> => {
+      let db;
+      try {
+        db = getSqlite();
+      } catch {
+        return {
+          content: [{ type: 'text', text: '**Error:** Database not initialized. Run `dokoro_init` first.' }],
+          isError: true,
+        };
+      }
+
+      try {
+        const merger = new EntityMerger(db);
+        if (args.undo !== undefined) {
+          const { survivorId, mergedId } = merger.undo(args.undo);
+          return {
+            content: [{ type: 'text', text: `Undid merge #${args.undo}: entity #${mergedId} restored alongside #${survivorId}.` }],
+          };
+        }
+        if (args.survivor_id === undefined || !args.merged_ids?.length) {
+          return {
+            content: [{ type: 'text', text: '**Error:** Provide survivor_id and merged_ids, or undo.' }],
+            isError: true,
+          };
+        }
+
+        const survivorId = args.survivor_id;
+        const outcomes = db.transaction(() =>
+          args.merged_ids!.map((id) => merger.merge(survivorId, id, { reason: args.reason })),
+        )();
+        const lines = [`## Merged into entity #${survivorId}`, ''];
+        for (const o of outcomes) {
+          lines.push(
+            `- merge #${o.mergeId}: #${o.mergedId} -> #${o.survivorId} (${o.docLinksMoved} doc links, ` +
+              `${o.relationsRewritten} relations rewritten, ${o.relationsDropped} dropped as self-loops/duplicates)`,
+          );
+        }
+        const aliases = merger.aliasesOf(survivorId);
+        if (aliases.length > 0) {
+          lines.push('', `**Aliases:** ${aliases.map((a) => `${a.name} [${a.type}]`).join(', ')}`);
+        }
+        lines.push('', `*Undo with \`dokoro_entity_merge { undo: <merge id> }\`.*`);
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      } catch (error: unknown) {
+        return {
+          content: [{ type: 'text', text: `**Error:** ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    },
+  },
+  {
+    name: 'dokoro_entity_analyze',
+    title: 'Entity Graph Analytics',
+    description:
+      'Whole-graph analytics over entity relations. mode=centrality ranks hub entities by PageRank and degree ("what are the hub files of this project"); mode=communities lists connected components and label-propagation communities; mode=path finds the shortest chain of relations between two entities ("how is billing connected to auth"). Respects as_of / as_known_at like dokoro_entity_graph.',
+    inputSchema: {
+      mode: z.enum(['centrality', 'communities', 'path']).describe('Analysis to run'),
+      type: entityTypeSchema()
+        .optional()
+        .describe('centrality: only rank entities of this type (scores are still computed over the whole graph)'),
+      from: z.union([z.number().int(), z.string()]).optional().describe('path: start entity id or name'),
+      to: z.union([z.number().int(), z.string()]).optional().describe('path: end entity id or name'),
+      relation_types: z.array(z.string()).optional().describe('Only use relations of these types'),
+      limit: z.number().int().min(1).max(100).optional().describe('Max entities / groups listed (default 10)'),
+      as_of: z.string().datetime().optional().describe('ISO timestamp — analyze the graph of facts valid at this point in time (default now)'),
+      as_known_at: z.string().datetime().optional().describe('ISO timestamp — only use facts recorded and not yet retracted at this point (default now)'),
+    },
+    handler: async (args: {
+      mode: 'centrality' | 'communities' | 'path';
+      type?: string;
+      from?: number | string;
+      to?: number | string;
+      relation_types?: string[];
+      limit?: number;
+      as_of?: string;
+      as_known_at?: string;
+    }): Promise<CallToolResult> => {
+      let db;
+      try {
+        db = getSqlite();
+      } catch {
+        return {
+          content: [{ type: 'text', text: '**Error:** Database not initialized. Run `dokoro_init` first.' }],
+          isError: true,
+        };
+      }
+
+      try {
+        const graph = loadEntityGraph(db, {
+          asOf: args.as_of,
+          asKnownAt: args.as_known_at,
+          relationTypes: args.relation_types,
+        });
+        const limit = args.limit ?? 10;
+        let text: string;
+        if (args.mode === 'centrality') {
+          text = formatCentrality(graph, args.type, limit);
+        } else if (args.mode === 'communities') {
+          text = formatCommunities(graph, limit);
+        } else {
+          if (args.from === undefined || args.to === undefined) {
+            return {
+              content: [{ type: 'text', text: '**Error:** mode=path needs both from and to.' }],
+              isError: true,
+            };
+          }
+          text = formatPath(graph, resolveEntityRef(db, args.from), resolveEntityRef(db, args.to));
+        }
+        return { content: [{ type: 'text', text }] };
+      } catch (error: unknown) {
+        return {
+          content: [{ type: 'text', text: `**Error:** ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    },
+  },
+  {
+    name: 'dokoro_ontology_get',
+    title: 'Entity Ontology',
+    description:
+      'Show the entity/relation ontology the knowledge graph enforces: entity types, relation types with cardinality (single = a new target closes the previous one), inverse names, and allowed source/target types. Projects extend it with <DOKORO_PATH>/ontology.json (or DOKORO_ONTOLOGY_PATH); pass reload after editing that file. Entity type parameters of the other entity tools pick up new types after a server restart.',
+    inputSchema: {
+      reload: z.boolean().optional().describe('Re-read the ontology file before answering'),
+    },
+    handler: async (args: { reload?: boolean }): Promise<CallToolResult> => {
+      const loaded = args.reload ? reloadOntology() : getLoadedOntology();
+      const { ontology } = loaded;
+      const lines = [
+        '## Entity Ontology',
+        '',
+        `- **Source:** ${loaded.source ?? `built-in defaults (no ${ontologyPath()})`}`,
+      ];
+      if (loaded.error) {
+        lines.push(`- **Warning:** project ontology ignored — ${loaded.error}`);
+      }
+      lines.push(`- **Entity types:** ${ontology.entityTypes.join(', ')}`, '', '### Relation Types');
+      for (const [name, spec] of Object.entries(ontology.relationTypes)) {
+        const parts: string[] = [spec.cardinality];
+        if (spec.inverse) parts.push(`inverse: ${spec.inverse}`);
+        if (spec.sourceTypes) parts.push(`source: ${spec.sourceTypes.join('|')}`);
+        if (spec.targetTypes) parts.push(`target: ${spec.targetTypes.join('|')}`);
+        lines.push(`- **${name}** (${parts.join(', ')})${spec.description ? ` — ${spec.description}` : ''}`);
+      }
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    },
+  },
 ];
 
+/**
+ * Entity id, or a name matched case-insensitively against entity names and
+ * merge aliases. Throws when the name is unknown or matches several entities.
+ */
+function resolveEntityRef(db: ReturnType<typeof getSqlite>, ref: number | string): number {
+  if (typeof ref === 'number') return ref;
+  const key = ref.trim().toLowerCase();
+  const ids = db
+    .prepare(
+      `SELECT id FROM entities WHERE canonical_name = ? OR lower(name) = ?
+       UNION SELECT entity_id FROM entity_aliases WHERE canonical_name = ?`
+    )
+    .all(key, key, key) as Array<{ id: number }>;
+  if (ids.length === 0) throw new Error(`No entity named "${ref}".`);
+  if (ids.length > 1) {
+    throw new Error(`"${ref}" matches ${ids.length} entities (${ids.map((r) => `#${r.id}`).join(', ')}); pass an id.`);
+  }
+  return ids[0].id;
+}
+
+function entityLabel(graph: EntityGraphSnapshot, id: number): string {
+  const node = graph.nodes.get(id);
+  return node ? `${node.name} [${node.type}] #${id}` : `#${id}`;
+}
+
+function formatCentrality(graph: EntityGraphSnapshot, type: string | undefined, limit: number): string {
+  const rank = pageRank(graph);
+  const degree = degreeCentrality(graph);
+  const ranked = [...graph.nodes.values()]
+    .filter((n) => (type ? n.type === type : true) && degree.get(n.id)!.total > 0)
+    .sort((a, b) => rank.get(b.id)! - rank.get(a.id)! || degree.get(b.id)!.total - degree.get(a.id)!.total || a.id - b.id)
+    .slice(0, limit);
+  if (ranked.length === 0) return 'No connected entities found.';
+
+  const lines = [
+    `## Hub Entities${type ? ` (${type})` : ''} — ${graph.nodes.size} entities, ${graph.edges.length} relations`,
+    '',
+  ];
+  ranked.forEach((n, i) => {
+    const d = degree.get(n.id)!;
+    lines.push(
+      `${i + 1}. **${n.name}** [${n.type}] #${n.id} — pagerank ${rank.get(n.id)!.toFixed(4)}, degree ${d.total} (in ${d.in}, out ${d.out})`
+    );
+  });
+  return lines.join('\n');
+}
+
+/** Members listed per group before eliding the rest. */
+const GROUP_MEMBER_PREVIEW = 8;
+
+function formatCommunities(graph: EntityGraphSnapshot, limit: number): string {
+  const components = connectedComponents(graph);
+  const connected = components.filter((c) => c.length > 1);
+  const communities = labelPropagationCommunities(graph);
+  if (connected.length === 0) return 'No connected entities found.';
+
+  const rank = pageRank(graph);
+  const describe = (members: number[]): string => {
+    const top = [...members].sort((a, b) => rank.get(b)! - rank.get(a)! || a - b);
+    const shown = top.slice(0, GROUP_MEMBER_PREVIEW).map((id) => entityLabel(graph, id));
+    const more = members.length - shown.length;
+    return `${members.length} entities: ${shown.join(', ')}${more > 0 ? `, +${more} more` : ''}`;
+  };
+
+  const lines = [
+    `## Connected Components (${connected.length}, plus ${components.length - connected.length} isolated entities)`,
+    '',
+  ];
+  connected.slice(0, limit).forEach((c, i) => lines.push(`${i + 1}. ${describe(c)}`));
+  lines.push('', `## Communities (${communities.length}, label propagation)`, '');
+  communities.slice(0, limit).forEach((c, i) => lines.push(`${i + 1}. ${describe(c)}`));
+  return lines.join('\n');
+}
+
+function formatPath(graph: EntityGraphSnapshot, from: number, to: number): string {
+  for (const id of [from, to]) {
+    if (!graph.nodes.has(id)) throw new Error(`Entity with ID ${id} not found.`);
+  }
+  const path = shortestPath(graph, from, to);
+  const header = `## Path: ${entityLabel(graph, from)} → ${entityLabel(graph, to)}`;
+  if (path === null) return `${header}\n\nNot connected.`;
+  if (path.length === 0) return `${header}\n\nSame entity.`;
+
+  const lines = [header, '', `${path.length} hop${path.length === 1 ? '' : 's'}:`];
+  for (const step of path) {
+    const fromName = graph.nodes.get(step.from)!.name;
+    const toName = graph.nodes.get(step.to)!.name;
+    lines.push(
+      step.forward
+        ? `- ${fromName} --[${step.relationType}]--> ${toName}`
+        : `- ${fromName} <--[${step.relationType}]-- ${toName}`
+    );
+  }
+  return lines.join('\n');
+}
+
 function handleEntityGraph(
   db: ReturnType<typeof getSqlite>,
   entityId: number,
   depth: number,
-  asOf: string | null
+  asOf: string | null,
+  asKnownAt: string | null = null,
+  project?: string,
+  federationErrors: string[] = []
 ): CallToolResult {
+  const normalizeIso = (s: string): string => new Date(s).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  // Transaction time: rows recorded by as_known_at and not yet retracted then.
+  // The default (now) is simply the current belief set (retracted_at IS NULL).
+  const effectiveKnownAt: string = normalizeIso(asKnownAt ?? new Date().toISOString());
+  // A merge deletes the merged entity's row; as_known_at before the merge still
+  // sees it (and its relations) through the merge's snapshot.
+  const mergedAway = entitiesMergedAfter(db, effectiveKnownAt);
+
   // Get the root entity
-  const entity = db
+  const entity = (db
     .prepare('SELECT * FROM entities WHERE id = ?')
-    .get(entityId) as EntityRow | undefined;
+    .get(entityId) as EntityRow | undefined) ?? mergedAway.get(entityId);
 
   if (!entity) {
     return {
@@ -309,12 +687,19 @@ function handleEntityGraph(
   // Normalising asOf to the current timestamp when omitted means a single SQL
   // fragment handles both cases — and importantly, future-opened facts (valid_from
   // in the future) are excluded from the default view.
-  const normalizeIso = (s: string): string => new Date(s).toISOString().replace(/\.\d{3}Z$/, 'Z');
   const effectiveAsOf: string = normalizeIso(asOf ?? new Date().toISOString());
-  const validityFilter = `AND er.valid_from <= ? AND (er.valid_to IS NULL OR er.valid_to > ?)`;
+  // A federated sibling may predate transaction time; it only filters on valid time.
+  const biTemporal = hasColumn(db, 'entity_relations', 'recorded_at');
+  const validityFilter = biTemporal
+    ? `AND er.valid_from <= ? AND (er.valid_to IS NULL OR er.valid_to > ?)
+        AND COALESCE(er.recorded_at, er.valid_from) <= ? AND (er.retracted_at IS NULL OR er.retracted_at > ?)`
+    : 'AND er.valid_from <= ? AND (er.valid_to IS NULL OR er.valid_to > ?)';
+  const validityParams = biTemporal
+    ? [effectiveAsOf, effectiveAsOf, effectiveKnownAt, effectiveKnownAt]
+    : [effectiveAsOf, effectiveAsOf];
 
   // Recursive CTE to find connected entities (bi-temporal: only traverse valid edges)
-  const relations = db
+  const relations = (db
     .prepare(
       `WITH RECURSIVE graph(entity_id, depth) AS (
         SELECT ?, 0
@@ -330,12 +715,19 @@ function handleEntityGraph(
       SELECT DISTINCT er.*, es.name as source_name, et.name as target_name
       FROM entity_relations er
       JOIN graph g ON er.source_id = g.entity_id OR er.target_id = g.entity_id
-      JOIN entities es ON er.source_id = es.id
-      JOIN entities et ON er.target_id = et.id
-      WHERE er.valid_from <= ? AND (er.valid_to IS NULL OR er.valid_to > ?)
+      LEFT JOIN entities es ON er.source_id = es.id
+      LEFT JOIN entities et ON er.target_id = et.id
+      WHERE 1 = 1 ${validityFilter}
       LIMIT 50`
     )
-    .all(entityId, effectiveAsOf, effectiveAsOf, depth, effectiveAsOf, effectiveAsOf) as RelationRow[];
+    .all(entityId, ...validityParams, depth, ...validityParams) as Array<Omit<RelationRow, 'source_name' | 'target_name'> & { source_name: string | null; target_name: string | null }>)
+    .map((r) => ({
+      ...r,
+      source_name: r.source_name ?? mergedAway.get(r.source_id)?.name ?? null,
+      target_name: r.target_name ?? mergedAway.get(r.target_id)?.name ?? null,
+    }))
+    // Endpoints that are neither live nor merged away later (dangling ids) carry no name.
+    .filter((r): r is RelationRow => r.source_name !== null && r.target_name !== null);
 
   // Get linked documents
   const docLinks = db
@@ -352,10 +744,20 @@ function handleEntityGraph(
     `- **Type:** ${entity.type}`,
     `- **ID:** ${entity.id}`,
   ];
+  if (project) {
+    lines.push(`- **Project:** ${project}`);
+  }
 
   if (entity.canonical_name) {
     lines.push(`- **Canonical:** ${entity.canonical_name}`);
   }
+  const aliases = hasColumn(db, 'entity_aliases', 'entity_id')
+    ? db.prepare('SELECT name, type FROM entity_aliases WHERE entity_id = ? ORDER BY name')
+      .all(entityId) as Array<{ name: string; type: string }>
+    : [];
+  if (aliases.length > 0) {
+    lines.push(`- **Aliases:** ${aliases.map((a) => `${a.name} [${a.type}]`).join(', ')}`);
+  }
   if (entity.description) {
     lines.push(`- **Description:** ${entity.description}`);
   }
@@ -385,16 +787,16 @@ function handleEntityGraph(
   }
 
   return {
-    content: [{ type: 'text', text: lines.join('\n') }],
+    content: [{ type: 'text', text: lines.join('\n') + formatFederationErrors(federationErrors) }],
   };
 }
 
-function handleEntitySearch(
+function searchEntities(
   db: ReturnType<typeof getSqlite>,
   query: string | undefined,
   type: string | undefined,
   limit: number
-): CallToolResult {
+): EntityWithDocCount[] {
   // Build WHERE clause dynamically with parameterized SQL
   const conditions: string[] = [];
   const params: (string | number)[] = [];
@@ -415,7 +817,7 @@ function handleEntitySearch(
   const safeLimit = Math.min(Math.max(limit, 1), 100);
   params.push(safeLimit);
 
-  const entities = db
+  return db
     .prepare(
       `SELECT e.id, e.type, e.name, e.canonical_name, e.description, COUNT(de.doc_id) as doc_count
        FROM entities e
@@ -426,6 +828,15 @@ function handleEntitySearch(
        LIMIT ?`
     )
     .all(...params) as EntityWithDocCount[];
+}
+
+function handleEntitySearch(
+  db: ReturnType<typeof getSqlite>,
+  query: string | undefined,
+  type: string | undefined,
+  limit: number
+): CallToolResult {
+  const entities = searchEntities(db, query, type, limit);
 
   // Get graph stats
   const totalEntities = (
@@ -465,3 +876,49 @@ function handleEntitySearch(
     content: [{ type: 'text', text: lines.join('\n') }],
   };
 }
+
+/** Entity search across federated projects, merged by doc count and labelled by project. */
+function handleFederatedEntitySearch(
+  dbs: Array<{ project: string; db: ReturnType<typeof getSqlite> }>,
+  errors: string[],
+  query: string | undefined,
+  type: string | undefined,
+  limit: number
+): CallToolResult {
+  const found: Array<EntityWithDocCount & { project: string }> = [];
+  for (const p of dbs) {
+    try {
+      found.push(...searchEntities(p.db, query, type, limit).map((e) => ({ ...e, project: p.project })));
+    } catch (e) {
+      errors.push(`${p.project}: ${(e as Error).message}`);
+    }
+  }
+  const entities = found.sort((a, b) => b.doc_count - a.doc_count).slice(0, Math.min(Math.max(limit, 1), 100));
+
+  const lines: string[] = [
+    `## Entity Search Results (federated: ${dbs.map((p) => p.project).join(', ')})`,
+    '',
+  ];
+  if (query) {
+    lines.push(`Query: "${query}"`);
+  }
+  if (type) {
+    lines.push(`Type filter: ${type}`);
+  }
+  lines.push(`Results: ${entities.length} found`, '');
+
+  if (entities.length > 0) {
+    for (const e of entities) {
+      const desc = e.description ? ` - ${e.description}` : '';
+      lines.push(
+        `- **${e.name}** [${e.type}] (project: ${e.project}, ID: ${e.id}, docs: ${e.doc_count})${desc}`
+      );
+    }
+  } else {
+    lines.push('No entities found matching your criteria.');
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') + formatFederationErrors(errors) }],
+  };
+}
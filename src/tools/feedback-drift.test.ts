@@ -0,0 +1,117 @@
+/**
+ * dokoro_feedback_drift
+ *
+ * (a) a significant success-rate drop after an "upgrade" is flagged
+ * (b) a p95 latency jump is flagged even when success holds
+ * (c) stable tools and under-sampled pairs are not flagged
+ * (d) alert=handoff / alert=block publish the regressions, updating an open handoff
+ */
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+import { ensureAgentFeedbackTable } from '../db/agent-feedback.js';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { feedbackTools } = require('./feedback-tools.js') as typeof import('./feedback-tools.js');
+
+function drift() {
+  const t = feedbackTools.find((x) => x.name === 'dokoro_feedback_drift');
+  if (!t) throw new Error('tool dokoro_feedback_drift not found');
+  return t;
+}
+function textOf(res: { content?: Array<{ type: string; text?: string }> }): string {
+  return res.content?.[0]?.type === 'text' ? (res.content[0].text ?? '') : '';
+}
+
+describe('dokoro_feedback_drift', () => {
+  let db: Database.Database;
+
+  function insert(tool: string, outcome: string, n: number, daysAgo: number, latency: number | null = null, agent = 'agent1') {
+    const stmt = db.prepare(`INSERT INTO agent_feedback (agent_id, tool_name, outcome, latency_ms, recorded_at)
+      VALUES (?, ?, ?, ?, datetime('now', ?))`);
+    for (let i = 0; i < n; i++) stmt.run(agent, tool, outcome, latency, `-${daysAgo} days`);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, filepath TEXT UNIQUE NOT NULL, title TEXT NOT NULL);
+      CREATE TABLE sessions (id TEXT PRIMARY KEY, started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, status TEXT NOT NULL DEFAULT 'active');
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open',
+        claimed_by TEXT, created_at TEXT, claimed_at TEXT
+      );
+      CREATE TABLE shared_blocks (
+        block_key TEXT PRIMARY KEY, content TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1,
+        updated_by TEXT NOT NULL, created_at TEXT, updated_at TEXT
+      );
+    `);
+    ensureAgentFeedbackTable(db);
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('(a) flags a significant success-rate drop', async () => {
+    insert('tool_upgraded', 'success', 38, 10);
+    insert('tool_upgraded', 'failure', 2, 10);
+    insert('tool_upgraded', 'success', 8, 1);
+    insert('tool_upgraded', 'failure', 12, 1);
+    const text = textOf(await drift().handler({}));
+    expect(text).toMatch(/1 regression\(s\)/);
+    expect(text).toMatch(/tool_upgraded agent=agent1 recent_n=20 baseline_n=40: success_rate 0\.950 -> 0\.400 \(z=\d/);
+  });
+
+  it('(b) flags a p95 latency jump while success holds', async () => {
+    insert('tool_slow', 'success', 30, 10, 100);
+    insert('tool_slow', 'success', 30, 1, 400);
+    const text = textOf(await drift().handler({}));
+    expect(text).toMatch(/tool_slow .*p95_latency_ms 100 -> 400 \(x4\.00\)/);
+    expect(text).not.toMatch(/success_rate/);
+  });
+
+  it('(c) ignores stable tools and pairs below min_samples', async () => {
+    insert('tool_stable', 'success', 30, 10, 100);
+    insert('tool_stable', 'success', 30, 1, 110);
+    insert('tool_sparse', 'success', 30, 10);
+    insert('tool_sparse', 'failure', 3, 1);
+    const text = textOf(await drift().handler({}));
+    expect(text).toMatch(/1 pair\(s\) with >= 10 samples per window, 0 regression\(s\)/);
+  });
+
+  it('(d) publishes alerts as an open handoff or a shared block', async () => {
+    insert('tool_upgraded', 'success', 40, 10);
+    insert('tool_upgraded', 'failure', 20, 1);
+
+    const asHandoff = textOf(await drift().handler({ alert: 'handoff', alert_agent_id: 'watchdog' }));
+    expect(asHandoff).toMatch(/alert raised as handoff #1/);
+    const handoff = db.prepare('SELECT from_agent, status, open_items_json FROM handoffs WHERE id = 1').get() as
+      { from_agent: string; status: string; open_items_json: string };
+    expect(handoff).toMatchObject({ from_agent: 'watchdog', status: 'open' });
+    expect(JSON.parse(handoff.open_items_json)[0]).toMatch(/^tool_upgraded agent=agent1/);
+
+    // A second run refreshes the still-open drift handoff instead of piling up new ones.
+    insert('other_tool', 'success', 40, 10);
+    insert('other_tool', 'failure', 20, 1);
+    expect(textOf(await drift().handler({ alert: 'handoff', alert_agent_id: 'watchdog' }))).toMatch(/alert updated on handoff #1/);
+    const handoffs = db.prepare('SELECT id, summary FROM handoffs').all() as Array<{ id: number; summary: string }>;
+    expect(handoffs).toEqual([{ id: 1, summary: 'Feedback drift: 2 tool regression(s) detected' }]);
+    // Once it is picked up, the next run opens a fresh one.
+    db.prepare(`UPDATE handoffs SET status = 'claimed' WHERE id = 1`).run();
+    expect(textOf(await drift().handler({ alert: 'handoff', alert_agent_id: 'watchdog' }))).toMatch(/alert raised as handoff #2/);
+
+    await drift().handler({ alert: 'block' });
+    await drift().handler({ alert: 'block' });
+    const block = db.prepare(`SELECT content, version, updated_by FROM shared_blocks WHERE block_key = 'feedback-drift'`).get() as
+      { content: string; version: number; updated_by: string };
+    expect(block).toMatchObject({ version: 2, updated_by: 'dokoro-drift' });
+    expect(block.content).toMatch(/- tool_upgraded agent=agent1/);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * dokoro_feedback_route mode=thompson|ucb (contextual bandit)
+ *
+ * (a) UCB explores an arm with no outcomes before exploiting a good one
+ * (b) Thompson prefers the clearly better arm and reports the posterior per arm
+ * (c) outcomes recorded in a matching context outweigh other contexts
+ * (d) the pick is persisted; feedback_record(decision_id) credits the chosen arm once
+ */
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+import { ensureAgentFeedbackTable } from '../db/agent-feedback.js';
+import { MIGRATIONS } from '../db/migrations.js';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { feedbackTools } = require('./feedback-tools.js') as typeof import('./feedback-tools.js');
+
+function findTool(name: string) {
+  const t = feedbackTools.find((x) => x.name === name);
+  if (!t) throw new Error(`tool ${name} not found`);
+  return t;
+}
+function textOf(res: { content?: Array<{ type: string; text?: string }> }): string {
+  return res.content?.[0]?.type === 'text' ? (res.content[0].text ?? '') : '';
+}
+function chosenOf(text: string): string {
+  return /chosen=(\S+)/.exec(text)?.[1] ?? '';
+}
+
+describe('dokoro_feedback_route bandit modes', () => {
+  let db: Database.Database;
+
+  function insert(tool: string, outcome: string, n: number, metadata: Record<string, unknown> | null = null) {
+    const stmt = db.prepare(`INSERT INTO agent_feedback (agent_id, tool_name, outcome, metadata_json, recorded_at)
+      VALUES ('agent1', ?, ?, ?, datetime('now','-1 day'))`);
+    for (let i = 0; i < n; i++) stmt.run(tool, outcome, metadata ? JSON.stringify(metadata) : null);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE docs (id TEXT PRIMARY KEY, filepath TEXT UNIQUE NOT NULL, title TEXT NOT NULL);
+      CREATE TABLE sessions (id TEXT PRIMARY KEY, started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, status TEXT NOT NULL DEFAULT 'active');
+    `);
+    ensureAgentFeedbackTable(db);
+    MIGRATIONS.find((m) => m.version === 13)!.up(db);
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+
+  afterEach(() => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  });
+
+  it('(a) ucb picks an unexplored arm before exploiting a well-sampled one', async () => {
+    insert('tool_good', 'success', 20);
+    const res = await findTool('dokoro_feedback_route').handler({ mode: 'ucb', candidates: ['tool_good', 'tool_new'] });
+    expect(res.isError).toBeFalsy();
+    expect(chosenOf(textOf(res))).toBe('tool_new');
+    expect(textOf(res)).toMatch(/tool_new n=0 .*ucb=inf/);
+  });
+
+  it('(b) thompson prefers the clearly better arm and prints alpha/beta/mean per arm', async () => {
+    insert('tool_good', 'success', 40);
+    insert('tool_bad', 'failure', 40);
+    const res = await findTool('dokoro_feedback_route').handler({ mode: 'thompson', candidates: ['tool_bad', 'tool_good'], seed: 7 });
+    const text = textOf(res);
+    expect(chosenOf(text)).toBe('tool_good');
+    expect(text).toMatch(/tool_bad n=40 .*alpha=1\.00 beta=\d+\.\d+ mean=0\.0\d+/);
+    expect(text).toMatch(/\* tool_good n=40/);
+  });
+
+  it('(c) context-matching outcomes dominate outcomes from other contexts', async () => {
+    // model_a is great on markdown docs but fails on .ts files; model_b is the reverse.
+    insert('model_a', 'success', 30, { context: { file_ext: '.md' } });
+    insert('model_a', 'failure', 30, { context: { file_ext: '.ts' } });
+    insert('model_b', 'failure', 30, { context: { file_ext: '.md' } });
+    insert('model_b', 'success', 30, { context: { file_ext: '.ts' } });
+    const route = findTool('dokoro_feedback_route');
+    const forTs = await route.handler({ mode: 'ucb', candidates: ['model_a', 'model_b'], context: { file_ext: 'ts' } });
+    const forMd = await route.handler({ mode: 'ucb', candidates: ['model_a', 'model_b'], context: { file_ext: '.MD' } });
+    expect(chosenOf(textOf(forTs))).toBe('model_b');
+    expect(chosenOf(textOf(forMd))).toBe('model_a');
+  });
+
+  it('(d) records the decision and credits a later outcome to the chosen arm', async () => {
+    const route = findTool('dokoro_feedback_route');
+    const res = await route.handler({ mode: 'ucb', candidates: ['gpt-x', 'qwen-y'], context: { tags: ['refactor'] }, agent_id: 'agent1' });
+    const decisionId = Number(/decision #(\d+)/.exec(textOf(res))?.[1]);
+    const chosen = chosenOf(textOf(res));
+    const decision = db.prepare('SELECT mode, chosen_arm, candidates_json, resolved_at FROM route_decisions WHERE id = ?').get(decisionId) as
+      { mode: string; chosen_arm: string; candidates_json: string; resolved_at: string | null };
+    expect(decision).toMatchObject({ mode: 'ucb', chosen_arm: chosen, resolved_at: null });
+    expect(JSON.parse(decision.candidates_json)).toEqual(['gpt-x', 'qwen-y']);
+
+    const rec = await findTool('dokoro_feedback_record').handler({
+      agent_id: 'agent1', tool_name: 'dokoro_summarize', outcome: 'success', decision_id: decisionId,
+    });
+    expect(rec.isError).toBeFalsy();
+    const meta = JSON.parse((db.prepare('SELECT metadata_json FROM agent_feedback ORDER BY id DESC LIMIT 1').get() as { metadata_json: string }).metadata_json);
+    expect(meta).toMatchObject({ arm: chosen, route_decision_id: decisionId, context: { tags: ['refactor'] } });
+    expect((db.prepare('SELECT resolved_at FROM route_decisions WHERE id = ?').get(decisionId) as { resolved_at: string | null }).resolved_at).not.toBeNull();
+
+    // The next pick sees that outcome under the arm, not under tool_name.
+    const next = textOf(await route.handler({ mode: 'ucb', candidates: ['gpt-x', 'qwen-y'], agent_id: 'agent1' }));
+    expect(next).toMatch(new RegExp(`${chosen} n=1 `));
+  });
+
+  it('rejects bandit modes without candidates and unknown decision ids', async () => {
+    const noCandidates = await findTool('dokoro_feedback_route').handler({ mode: 'thompson' });
+    expect(noCandidates.isError).toBe(true);
+    const badDecision = await findTool('dokoro_feedback_record').handler({
+      agent_id: 'a', tool_name: 't', outcome: 'success', decision_id: 999,
+    });
+    expect(badDecision.isError).toBe(true);
+    expect(textOf(badDecision)).toMatch(/no routing decision #999/);
+  });
+
+  it('rejects a second outcome for an already-resolved decision', async () => {
+    const res = await findTool('dokoro_feedback_route').handler({ mode: 'ucb', candidates: ['gpt-x', 'qwen-y'], agent_id: 'agent1' });
+    const decisionId = Number(/decision #(\d+)/.exec(textOf(res))?.[1]);
+    const record = findTool('dokoro_feedback_record');
+    const first = await record.handler({ agent_id: 'agent1', tool_name: 't', outcome: 'success', decision_id: decisionId });
+    expect(first.isError).toBeFalsy();
+    const second = await record.handler({ agent_id: 'agent1', tool_name: 't', outcome: 'failure', decision_id: decisionId });
+    expect(second.isError).toBe(true);
+    expect(textOf(second)).toMatch(new RegExp(`decision #${decisionId} was already resolved`));
+    expect((db.prepare('SELECT COUNT(*) AS n FROM agent_feedback').get() as { n: number }).n).toBe(1);
+  });
+});
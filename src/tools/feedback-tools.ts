@@ -1,9 +1,13 @@
 /**
  * Affective Memory MCP Tools
  *
- * Provides two tools for recording and querying agent feedback (affective memory layer):
+ * Provides tools for recording and querying agent feedback (affective memory layer):
  * - dokoro_feedback_record: Persist the outcome of a tool call
  * - dokoro_feedback_query: Summarise success rates and per-tool stats
+ * - dokoro_feedback_route: Rank tools (Wilson + decay) or pick one arm with a
+ *   contextual bandit (Thompson sampling / UCB1) over a candidate set
+ * - dokoro_feedback_drift: Flag success-rate drops / p95 latency jumps versus a
+ *   baseline window, optionally raising an open handoff or shared block
  */
 
 import { z } from 'zod';
@@ -11,6 +15,8 @@ import type Database from 'better-sqlite3';
 import { ToolDefinition } from './registry.js';
 import { getSqliteDb } from '../db/index.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+import { seededRng, sampleBeta, ucb1, jaccard } from '../utils/bandit-math.js';
+import { notifyResourceChanged, blockResourceUri, HANDOFFS_OPEN_URI } from '../utils/resource-events.js';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -32,7 +38,7 @@ const Outcome = z.enum(['success', 'failure', 'partial', 'rejected', 'timeout'])
  * This is used as the sort key for dokoro_feedback_route so a tool with 1/1 does
  * not outrank a tool with 95/100.
  */
-function wilsonLower(k: number, n: number, z = 1.96): number {
+export function wilsonLower(k: number, n: number, z = 1.96): number {
   if (n === 0) return 0;
   const phat = k / n;
   const z2 = z * z;
@@ -41,6 +47,90 @@ function wilsonLower(k: number, n: number, z = 1.96): number {
   return numerator / denominator;
 }
 
+/**
+ * One-sided two-proportion z statistic for a DROP from baseline to recent
+ * (positive = recent is worse). Pooled standard error; 0 when undefined.
+ */
+function dropZ(baseSuccess: number, baseN: number, recentSuccess: number, recentN: number): number {
+  if (baseN === 0 || recentN === 0) return 0;
+  const p1 = baseSuccess / baseN;
+  const p2 = recentSuccess / recentN;
+  const pooled = (baseSuccess + recentSuccess) / (baseN + recentN);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / baseN + 1 / recentN));
+  return se === 0 ? 0 : (p1 - p2) / se;
+}
+
+/** Nearest-rank percentile of a numeric sample; null when empty. */
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((x, y) => x - y);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/** Default shared block that drift alerts are written to (alert=block). */
+const DRIFT_BLOCK_KEY = 'feedback-drift';
+
+/** Summary prefix of drift handoffs (alert=handoff); an open one is updated, not duplicated. */
+const DRIFT_HANDOFF_PREFIX = 'Feedback drift:';
+
+/** Task context for bandit routing; the same keys are read back from agent_feedback.metadata_json. */
+const RouteContext = z.object({
+  tags: z.array(z.string()).optional(),
+  doc_type: z.string().optional(),
+  file_ext: z.string().optional(),
+});
+export type RouteContextInput = z.infer<typeof RouteContext>;
+
+/**
+ * Weight of a historical outcome recorded in a DIFFERENT context, relative to an
+ * exact context match (1.0). Keeps cross-context evidence informative without
+ * letting it drown out the outcomes that match the current task.
+ */
+const CROSS_CONTEXT_WEIGHT = 0.2;
+
+/** Normalised feature set: `tag:x`, `doc_type:x`, `file_ext:.x` (lower-cased). */
+function contextFeatures(ctx: RouteContextInput | null | undefined): Set<string> {
+  const out = new Set<string>();
+  if (!ctx) return out;
+  for (const t of ctx.tags ?? []) out.add(`tag:${t.toLowerCase()}`);
+  if (ctx.doc_type) out.add(`doc_type:${ctx.doc_type.toLowerCase()}`);
+  if (ctx.file_ext) {
+    const ext = ctx.file_ext.toLowerCase();
+    out.add(`file_ext:${ext.startsWith('.') ? ext : `.${ext}`}`);
+  }
+  return out;
+}
+
+/** Context stored with a feedback row: `metadata.context` if present, else the metadata itself. */
+export function rowContext(metadataJson: string | null): RouteContextInput | null {
+  if (!metadataJson) return null;
+  try {
+    const meta = JSON.parse(metadataJson) as Record<string, unknown>;
+    const ctx = (meta.context && typeof meta.context === 'object' ? meta.context : meta) as Record<string, unknown>;
+    return RouteContext.safeParse(ctx).success ? (ctx as RouteContextInput) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Outcome -> success credit for the Beta posterior (partial counts half). */
+function outcomeCredit(outcome: string): number {
+  if (outcome === 'success') return 1;
+  if (outcome === 'partial') return 0.5;
+  return 0;
+}
+
+interface ArmPosterior {
+  arm: string;
+  n: number;
+  n_eff: number;
+  alpha: number;
+  beta: number;
+  mean: number;
+  score: number;
+}
+
 export const feedbackTools: ToolDefinition[] = [
   {
     name: 'dokoro_feedback_record',
@@ -56,6 +146,8 @@ export const feedbackTools: ToolDefinition[] = [
       doc_id: z.string().optional(),
       session_id: z.string().optional(),
       metadata: z.record(z.unknown()).optional(),
+      decision_id: z.number().int().positive().optional()
+        .describe('Routing decision this outcome answers (from dokoro_feedback_route mode=thompson|ucb); credits the chosen arm. Each decision takes one outcome.'),
     },
     handler: async (args) => {
       try {
@@ -69,7 +161,29 @@ export const feedbackTools: ToolDefinition[] = [
           doc_id?: string;
           session_id?: string;
           metadata?: Record<string, unknown>;
+          decision_id?: number;
         };
+        let metadata = a.metadata;
+        if (a.decision_id !== undefined) {
+          const decision = db().prepare('SELECT chosen_arm, context_json, resolved_at FROM route_decisions WHERE id = ?')
+            .get(a.decision_id) as { chosen_arm: string; context_json: string | null; resolved_at: string | null } | undefined;
+          if (!decision) {
+            return { isError: true, content: [{ type: 'text' as const, text: `feedback_record failed: no routing decision #${a.decision_id}` }] };
+          }
+          // One outcome per decision: a second record would credit the arm twice.
+          if (decision.resolved_at !== null) {
+            return { isError: true, content: [{ type: 'text' as const, text: `feedback_record failed: routing decision #${a.decision_id} was already resolved at ${decision.resolved_at}` }] };
+          }
+          // Tag the row with the decision's arm + context so later routing reads it back.
+          metadata = {
+            ...metadata,
+            arm: decision.chosen_arm,
+            route_decision_id: a.decision_id,
+            ...(decision.context_json ? { context: JSON.parse(decision.context_json) } : {}),
+          };
+          db().prepare(`UPDATE route_decisions SET resolved_at = strftime('%Y-%m-%dT%H:%M:%SZ','now') WHERE id = ?`)
+            .run(a.decision_id);
+        }
         db().prepare(`
           INSERT INTO agent_feedback
             (agent_id, tool_name, outcome, confidence, latency_ms, error_message, doc_id, session_id, metadata_json, recorded_at)
@@ -83,7 +197,7 @@ export const feedbackTools: ToolDefinition[] = [
           a.error_message ?? null,
           a.doc_id ?? null,
           a.session_id ?? null,
-          a.metadata ? JSON.stringify(a.metadata) : null,
+          metadata ? JSON.stringify(metadata) : null,
         );
         return { content: [{ type: 'text' as const, text: `recorded ${a.outcome} for ${a.tool_name}` }] };
       } catch (error: unknown) {
@@ -153,12 +267,22 @@ export const feedbackTools: ToolDefinition[] = [
     description:
       'Return a statistically-sound ranked list of tools using Wilson lower bound (z=1.96) ' +
       'and recency-decayed success rate. Use this to bias tool selection toward historically ' +
-      'reliable tools. Results include outcome breakdown and a confident flag (n >= min_samples).',
+      'reliable tools. Results include outcome breakdown and a confident flag (n >= min_samples). ' +
+      'With mode=thompson or mode=ucb, pass candidates (tools or models) and an optional task context ' +
+      '(tags, doc_type, file_ext): returns ONE picked arm plus the Beta posterior per arm, explores ' +
+      'under-sampled arms, and records a decision_id — pass it to dokoro_feedback_record so the outcome updates that arm.',
     inputSchema: {
       tool_name:      z.string().optional(),
       agent_id:       z.string().optional(),
       half_life_days: z.number().positive().optional(),
       min_samples:    z.number().int().positive().optional(),
+      mode:           z.enum(['rank', 'thompson', 'ucb']).optional()
+        .describe('rank (default): Wilson ranking of every tool. thompson/ucb: contextual-bandit pick among candidates.'),
+      candidates:     z.array(z.string().min(1)).min(1).max(50).optional()
+        .describe('Arms to choose between (tool or model names); required for thompson/ucb.'),
+      context:        RouteContext.optional()
+        .describe('Task context; outcomes recorded in a matching context (metadata tags/doc_type/file_ext) weigh more.'),
+      seed:           z.number().int().optional().describe('Seed for reproducible Thompson samples.'),
     },
     handler: async (args) => {
       try {
@@ -167,10 +291,18 @@ export const feedbackTools: ToolDefinition[] = [
           agent_id?: string;
           half_life_days?: number;
           min_samples?: number;
+          mode?: 'rank' | 'thompson' | 'ucb';
+          candidates?: string[];
+          context?: RouteContextInput;
+          seed?: number;
         };
         const halfLife = a.half_life_days ?? 14;
         const minSamples = a.min_samples ?? 5;
 
+        if (a.mode === 'thompson' || a.mode === 'ucb') {
+          return banditRoute(a.mode, a.candidates ?? [], a.context, a.agent_id, halfLife, a.seed);
+        }
+
         // Build WHERE clause
         const where: string[] = [];
         const params: unknown[] = [];
@@ -306,4 +438,224 @@ export const feedbackTools: ToolDefinition[] = [
       }
     },
   },
+  {
+    name: 'dokoro_feedback_drift',
+    title: 'Detect feedback drift / regressions',
+    description:
+      'Compare a recent window of agent_feedback against a baseline window per (agent_id, tool_name) and flag ' +
+      'statistically significant success-rate DROPS (one-sided two-proportion z-test) or p95 latency_ms JUMPS. ' +
+      'Use after a model or tool upgrade. Optionally raise the alerts as an open handoff (updated in place while ' +
+      `still open) or a shared block ('${DRIFT_BLOCK_KEY}') so the next agent sees them.`,
+    inputSchema: {
+      agent_id:       z.string().optional(),
+      tool_name:      z.string().optional(),
+      recent_days:    z.number().positive().max(90).optional().describe('Recent window length in days (default 3).'),
+      baseline_days:  z.number().positive().max(365).optional().describe('Baseline window length in days, ending where the recent window starts (default 30).'),
+      min_samples:    z.number().int().positive().optional().describe('Minimum outcomes in EACH window to test a pair (default 10).'),
+      z_threshold:    z.number().positive().optional().describe('z above which a success-rate drop is significant (default 2.33, ~p<0.01 one-sided).'),
+      latency_ratio:  z.number().gt(1).optional().describe('Flag when recent p95 latency >= ratio x baseline p95 (default 1.5).'),
+      alert:          z.enum(['none', 'handoff', 'block']).optional().describe('Where to publish flagged regressions (default none).'),
+      alert_agent_id: z.string().optional().describe("Author recorded on the handoff/block (default 'dokoro-drift')."),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as {
+          agent_id?: string;
+          tool_name?: string;
+          recent_days?: number;
+          baseline_days?: number;
+          min_samples?: number;
+          z_threshold?: number;
+          latency_ratio?: number;
+          alert?: 'none' | 'handoff' | 'block';
+          alert_agent_id?: string;
+        };
+        const recentDays = a.recent_days ?? 3;
+        const baselineDays = a.baseline_days ?? 30;
+        const minSamples = a.min_samples ?? 10;
+        const zThreshold = a.z_threshold ?? 2.33;
+        const latencyRatio = a.latency_ratio ?? 1.5;
+
+        const where = [`julianday('now') - julianday(recorded_at) <= ?`];
+        const params: unknown[] = [recentDays + baselineDays];
+        if (a.tool_name) { where.push('tool_name = ?'); params.push(a.tool_name); }
+        if (a.agent_id)  { where.push('agent_id = ?');  params.push(a.agent_id); }
+        const rows = db().prepare(`
+          SELECT agent_id, tool_name, outcome, latency_ms,
+                 CAST(julianday('now') - julianday(recorded_at) AS REAL) AS age_days
+          FROM agent_feedback WHERE ${where.join(' AND ')}
+        `).all(...params) as Array<{ agent_id: string; tool_name: string; outcome: string; latency_ms: number | null; age_days: number }>;
+
+        interface Window { n: number; success: number; latencies: number[] }
+        const empty = (): Window => ({ n: 0, success: 0, latencies: [] });
+        const pairs = new Map<string, { agent_id: string; tool_name: string; recent: Window; baseline: Window }>();
+        for (const r of rows) {
+          const key = `${r.agent_id}\x00${r.tool_name}`;
+          if (!pairs.has(key)) pairs.set(key, { agent_id: r.agent_id, tool_name: r.tool_name, recent: empty(), baseline: empty() });
+          const w = Math.max(0, r.age_days) <= recentDays ? pairs.get(key)!.recent : pairs.get(key)!.baseline;
+          w.n++;
+          if (r.outcome === 'success') w.success++;
+          if (typeof r.latency_ms === 'number') w.latencies.push(r.latency_ms);
+        }
+
+        const alerts: string[] = [];
+        let tested = 0;
+        for (const p of pairs.values()) {
+          if (p.recent.n < minSamples || p.baseline.n < minSamples) continue;
+          tested++;
+          const reasons: string[] = [];
+          const z = dropZ(p.baseline.success, p.baseline.n, p.recent.success, p.recent.n);
+          if (z >= zThreshold) {
+            reasons.push(
+              `success_rate ${(p.baseline.success / p.baseline.n).toFixed(3)} -> ${(p.recent.success / p.recent.n).toFixed(3)} (z=${z.toFixed(2)})`,
+            );
+          }
+          const baseP95 = percentile(p.baseline.latencies, 95);
+          const recentP95 = percentile(p.recent.latencies, 95);
+          if (baseP95 !== null && recentP95 !== null && baseP95 > 0 && recentP95 >= baseP95 * latencyRatio) {
+            reasons.push(`p95_latency_ms ${baseP95} -> ${recentP95} (x${(recentP95 / baseP95).toFixed(2)})`);
+          }
+          if (reasons.length > 0) {
+            alerts.push(`${p.tool_name} agent=${p.agent_id} recent_n=${p.recent.n} baseline_n=${p.baseline.n}: ${reasons.join('; ')}`);
+          }
+        }
+
+        const header =
+          `drift check: recent=${recentDays}d vs baseline=${baselineDays}d, ${tested} pair(s) with >= ${minSamples} samples per window, ` +
+          `${alerts.length} regression(s)`;
+        if (alerts.length === 0) {
+          return { content: [{ type: 'text' as const, text: header }] };
+        }
+
+        let published = '';
+        const author = a.alert_agent_id ?? 'dokoro-drift';
+        if (a.alert === 'handoff') {
+          const summary = `${DRIFT_HANDOFF_PREFIX} ${alerts.length} tool regression(s) detected`;
+          const open = db().prepare(
+            `SELECT id FROM handoffs WHERE from_agent = ? AND status = 'open' AND substr(summary, 1, ?) = ? ORDER BY id DESC LIMIT 1`,
+          ).get(author, DRIFT_HANDOFF_PREFIX.length, DRIFT_HANDOFF_PREFIX) as { id: number } | undefined;
+          if (open) {
+            db().prepare('UPDATE handoffs SET summary = ?, open_items_json = ? WHERE id = ?')
+              .run(summary, JSON.stringify(alerts), open.id);
+            published = `\nalert updated on handoff #${open.id}`;
+          } else {
+            const info = db().prepare(
+              `INSERT INTO handoffs (from_agent, summary, open_items_json, status, created_at)
+               VALUES (?, ?, ?, 'open', strftime('%Y-%m-%dT%H:%M:%SZ','now'))`,
+            ).run(author, summary, JSON.stringify(alerts));
+            published = `\nalert raised as handoff #${info.lastInsertRowid}`;
+          }
+          notifyResourceChanged(HANDOFFS_OPEN_URI);
+        } else if (a.alert === 'block') {
+          const content = `# Feedback drift (${new Date().toISOString()})\n\n${alerts.map((l) => `- ${l}`).join('\n')}\n`;
+          db().prepare(`
+            INSERT INTO shared_blocks (block_key, content, version, updated_by, created_at, updated_at)
+            VALUES (?, ?, 1, ?, strftime('%Y-%m-%dT%H:%M:%SZ','now'), strftime('%Y-%m-%dT%H:%M:%SZ','now'))
+            ON CONFLICT(block_key) DO UPDATE SET
+              content = excluded.content,
+              version = shared_blocks.version + 1,
+              updated_by = excluded.updated_by,
+              updated_at = excluded.updated_at
+          `).run(DRIFT_BLOCK_KEY, content, author);
+          notifyResourceChanged(blockResourceUri(DRIFT_BLOCK_KEY));
+          published = `\nalert written to shared block '${DRIFT_BLOCK_KEY}'`;
+        }
+        return { content: [{ type: 'text' as const, text: `${header}\n${alerts.join('\n')}${published}` }] };
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{ type: 'text' as const, text: `feedback_drift failed: ${msg}` }],
+        };
+      }
+    },
+  },
 ];
+
+/**
+ * Contextual-bandit pick among `candidates`. Each arm gets a Beta(1,1) prior
+ * updated with its agent_feedback outcomes (arm = metadata_json.arm, else
+ * tool_name), each weighted by recency decay × context kernel
+ * (CROSS_CONTEXT_WEIGHT + (1 - CROSS_CONTEXT_WEIGHT) · Jaccard(context, row context)).
+ * Thompson samples each posterior; UCB1 adds an exploration bonus on n_eff.
+ * The pick is persisted in route_decisions and its id returned.
+ */
+function banditRoute(
+  mode: 'thompson' | 'ucb',
+  candidates: string[],
+  context: RouteContextInput | undefined,
+  agentId: string | undefined,
+  halfLife: number,
+  seed: number | undefined,
+) {
+  const arms = [...new Set(candidates)];
+  if (arms.length === 0) {
+    return { isError: true, content: [{ type: 'text' as const, text: `feedback_route failed: mode=${mode} requires candidates` }] };
+  }
+
+  const armExpr = `COALESCE(CASE WHEN json_valid(metadata_json) THEN json_extract(metadata_json, '$.arm') END, tool_name)`;
+  const where = [`${armExpr} IN (${arms.map(() => '?').join(',')})`];
+  const params: unknown[] = [...arms];
+  if (agentId) { where.push('agent_id = ?'); params.push(agentId); }
+  const rows = db().prepare(`
+    SELECT ${armExpr} AS arm, outcome, metadata_json,
+           CAST(julianday('now') - julianday(recorded_at) AS REAL) AS age_days
+    FROM agent_feedback WHERE ${where.join(' AND ')}
+  `).all(...params) as Array<{ arm: string; outcome: string; metadata_json: string | null; age_days: number }>;
+
+  const wanted = contextFeatures(context);
+  const stats = new Map(arms.map((arm) => [arm, { n: 0, nEff: 0, wins: 0 }]));
+  for (const r of rows) {
+    const st = stats.get(r.arm);
+    if (!st) continue;
+    const decay = Math.pow(0.5, Math.max(0, r.age_days) / halfLife);
+    const kernel = wanted.size === 0
+      ? 1
+      : CROSS_CONTEXT_WEIGHT + (1 - CROSS_CONTEXT_WEIGHT) * jaccard(wanted, contextFeatures(rowContext(r.metadata_json)));
+    const w = decay * kernel;
+    st.n++;
+    st.nEff += w;
+    st.wins += w * outcomeCredit(r.outcome);
+  }
+
+  const rng = seed !== undefined ? seededRng(seed) : Math.random;
+  const totalEff = [...stats.values()].reduce((acc, st) => acc + st.nEff, 0);
+  const posteriors: ArmPosterior[] = arms.map((arm) => {
+    const st = stats.get(arm)!;
+    const alpha = 1 + st.wins;
+    const beta = 1 + (st.nEff - st.wins);
+    const mean = alpha / (alpha + beta);
+    const score = mode === 'thompson' ? sampleBeta(alpha, beta, rng) : ucb1(mean, st.nEff, totalEff);
+    return { arm, n: st.n, n_eff: st.nEff, alpha, beta, mean, score };
+  });
+
+  // First candidate wins ties (stable reduce over the caller's order).
+  const chosen = posteriors.reduce((best, p) => (p.score > best.score ? p : best));
+  const info = db().prepare(`
+    INSERT INTO route_decisions (agent_id, mode, candidates_json, context_json, chosen_arm, posterior_json)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    agentId ?? null,
+    mode,
+    JSON.stringify(arms),
+    context ? JSON.stringify(context) : null,
+    chosen.arm,
+    JSON.stringify(posteriors),
+  );
+
+  const scoreLabel = mode === 'thompson' ? 'sample' : 'ucb';
+  const lines = [
+    `decision #${info.lastInsertRowid} mode=${mode} chosen=${chosen.arm}`,
+    ...posteriors.map((p) => [
+      p.arm === chosen.arm ? `* ${p.arm}` : `  ${p.arm}`,
+      `n=${p.n}`,
+      `n_eff=${p.n_eff.toFixed(2)}`,
+      `alpha=${p.alpha.toFixed(2)}`,
+      `beta=${p.beta.toFixed(2)}`,
+      `mean=${p.mean.toFixed(3)}`,
+      `${scoreLabel}=${Number.isFinite(p.score) ? p.score.toFixed(4) : 'inf'}`,
+    ].join(' ')),
+    `report the outcome with dokoro_feedback_record(decision_id=${info.lastInsertRowid}) to update this arm`,
+  ];
+  return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+}
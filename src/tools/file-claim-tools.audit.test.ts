@@ -0,0 +1,154 @@
+import { execFileSync } from 'node:child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { fileClaimTools } = require('./file-claim-tools.js') as typeof import('./file-claim-tools.js');
+
+function findTool(name: string) {
+  const t = fileClaimTools.find((x) => x.name === name);
+  if (!t) throw new Error(`tool ${name} not found`);
+  return t;
+}
+function textOf(res: { content?: Array<{ type: string; text?: string }> }): string {
+  return res.content?.[0]?.type === 'text' ? (res.content[0].text ?? '') : '';
+}
+function jsonOf(res: { content?: Array<{ type: string; text?: string }> }): Record<string, unknown> {
+  const block = res.content?.[1];
+  if (!block || block.type !== 'text' || !block.text) throw new Error('no JSON content block');
+  return JSON.parse(block.text) as Record<string, unknown>;
+}
+
+interface AuditJson {
+  collisions: Array<{ path: string; also_claimed_by_you: boolean; holders: Array<{ agent_id: string; claim: string; kind: string }> }>;
+  unclaimed: string[];
+  claimed_by_you: string[];
+  outside_root: number;
+}
+
+describe('dokoro_claim_audit', () => {
+  let db: Database.Database;
+  let repo: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+  const write = async (rel: string, text = 'x\n') => {
+    await fs.mkdir(path.dirname(path.join(repo, rel)), { recursive: true });
+    await fs.writeFile(path.join(repo, rel), text);
+  };
+  const claim = (args: Record<string, unknown>) => findTool('dokoro_file_claim').handler({ root: repo, ...args });
+  const audit = (args: Record<string, unknown>) => findTool('dokoro_claim_audit').handler({ root: repo, ...args });
+
+  beforeEach(async () => {
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dokoro-audit-test-')));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'test');
+    await write('src/auth/login.ts');
+    await write('src/db.ts');
+    await write('src/old-name.ts');
+    await write('README.md');
+    git('add', '-A');
+    git('commit', '-qm', 'init');
+
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE file_claims (
+        claim_key TEXT PRIMARY KEY, file_path TEXT NOT NULL, kind TEXT NOT NULL DEFAULT 'file',
+        agent_id TEXT NOT NULL, session_id TEXT, intent TEXT, claimed_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0, released_at INTEGER
+      );
+      CREATE TABLE agent_presence (
+        agent_id TEXT PRIMARY KEY, session_id TEXT, status TEXT NOT NULL DEFAULT 'active',
+        current_focus TEXT, last_heartbeat INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE claim_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, claim_key TEXT NOT NULL, file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file', agent_id TEXT NOT NULL, session_id TEXT, intent TEXT,
+        ttl_seconds INTEGER NOT NULL, enqueued_at INTEGER NOT NULL, granted_at INTEGER, notified_at INTEGER
+      );
+      CREATE UNIQUE INDEX uq_claim_waiters_pending ON claim_waiters(claim_key, agent_id) WHERE granted_at IS NULL;
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open', claimed_by TEXT,
+        created_at TEXT, claimed_at TEXT, expires_at TEXT, ttl_seconds INTEGER
+      );
+    `);
+    (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  });
+  afterEach(async () => {
+    db.close();
+    delete (globalThis as Record<string, unknown>).__TEST_DB__;
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('sorts changed files into collisions, unclaimed and claimed by you', async () => {
+    await claim({ paths: ['src/auth/'], agent_id: 'alice', intent: 'auth refactor' });
+    await claim({ paths: ['src/db.ts'], agent_id: 'bob' });
+    await claim({ paths: ['docs/*.md'], agent_id: 'bob' });
+
+    await write('src/auth/login.ts', 'changed\n');   // modified, alice's directory
+    await write('src/auth/new-file.ts');             // untracked, alice's directory
+    await write('src/db.ts', 'changed\n');           // bob's own file
+    await write('docs/guide.md');                    // untracked, bob's glob
+    git('mv', 'src/old-name.ts', 'src/new-name.ts'); // staged rename, nobody's
+    await fs.rm(path.join(repo, 'README.md'));       // deleted, nobody's
+
+    const res = await audit({ agent_id: 'bob' });
+    expect(res.isError).toBeFalsy();
+    const json = jsonOf(res) as unknown as AuditJson;
+    expect(json.collisions.map((c) => c.path)).toEqual(['src/auth/login.ts', 'src/auth/new-file.ts']);
+    expect(json.collisions[0].holders[0]).toMatchObject({ agent_id: 'alice', claim: 'src/auth/', kind: 'dir' });
+    expect(json.unclaimed).toEqual(['README.md', 'src/new-name.ts']);
+    expect(json.claimed_by_you).toEqual(['docs/guide.md', 'src/db.ts']);
+    expect(textOf(res)).toMatch(/src\/auth\/login\.ts — alice via src\/auth\/ \(dir\)/);
+    expect(textOf(res)).toMatch(/2 collision\(s\), 2 unclaimed, 2 claimed by you/);
+  });
+
+  it('ignores expired claims and audits committed changes since base', async () => {
+    git('checkout', '-qb', 'feature');
+    await write('src/db.ts', 'committed\n');
+    git('commit', '-qam', 'edit db');
+    await claim({ paths: ['src/db.ts'], agent_id: 'alice' });
+
+    const workingTreeOnly = jsonOf(await audit({ agent_id: 'bob' })) as unknown as AuditJson;
+    expect(workingTreeOnly.collisions).toEqual([]);
+    expect(workingTreeOnly.unclaimed).toEqual([]);
+
+    const sinceMain = jsonOf(await audit({ agent_id: 'bob', base: 'main' })) as unknown as AuditJson;
+    expect(sinceMain.collisions.map((c) => c.path)).toEqual(['src/db.ts']);
+
+    db.prepare(`UPDATE file_claims SET expires_at = strftime('%s','now') - 1`).run();
+    const expired = jsonOf(await audit({ agent_id: 'bob', base: 'main' })) as unknown as AuditJson;
+    expect(expired.collisions).toEqual([]);
+    expect(expired.unclaimed).toEqual(['src/db.ts']);
+  });
+
+  it('maps repository paths onto a root below the top level and reports git failures', async () => {
+    await write('src/auth/login.ts', 'changed\n');
+    await write('README.md', 'changed\n');
+    const sub = path.join(repo, 'src');
+    const res = await findTool('dokoro_claim_audit').handler({ agent_id: 'bob', root: sub });
+    const json = jsonOf(res) as unknown as AuditJson;
+    expect(json.unclaimed).toEqual(['auth/login.ts']);
+    expect(json.outside_root).toBe(1);
+
+    const bad = await audit({ agent_id: 'bob', base: 'no-such-ref' });
+    expect(bad.isError).toBe(true);
+    expect(textOf(bad)).toMatch(/unknown base ref "no-such-ref"/);
+  });
+
+  it('never passes a base ref to git as an option', async () => {
+    const out = path.join(repo, 'diff-output.txt');
+    const res = await audit({ agent_id: 'bob', base: `--output=${out}` });
+    expect(res.isError).toBe(true);
+    expect(textOf(res)).toMatch(/unknown base ref "--output=/);
+    expect((await fs.readdir(repo)).filter((f) => f.startsWith('diff-output'))).toEqual([]);
+  });
+});
@@ -7,6 +7,8 @@ jest.mock('../db/index.js', () => ({
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const { fileClaimTools } = require('./file-claim-tools.js') as typeof import('./file-claim-tools.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { HANDOFFS_OPEN_URI, onResourceChanged } = require('../utils/resource-events.js') as typeof import('../utils/resource-events.js');
 
 const ROOT = '/repo';
 
@@ -25,7 +27,7 @@ function jsonOf(res: { content?: Array<{ type: string; text?: string }> }): Reco
 }
 
 interface ClaimRow {
-  claim_key: string; file_path: string; agent_id: string; session_id: string | null;
+  claim_key: string; file_path: string; kind: string; agent_id: string; session_id: string | null;
   intent: string | null; claimed_at: number; expires_at: number; heartbeat_seq: number; released_at: number | null;
 }
 
@@ -54,6 +56,7 @@ describe('file-claim-tools', () => {
       CREATE TABLE file_claims (
         claim_key TEXT PRIMARY KEY,
         file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file',
         agent_id TEXT NOT NULL,
         session_id TEXT,
         intent TEXT,
@@ -71,6 +74,17 @@ describe('file-claim-tools', () => {
         last_heartbeat INTEGER NOT NULL,
         heartbeat_seq INTEGER NOT NULL DEFAULT 0
       );
+      CREATE TABLE claim_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, claim_key TEXT NOT NULL, file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file', agent_id TEXT NOT NULL, session_id TEXT, intent TEXT,
+        ttl_seconds INTEGER NOT NULL, enqueued_at INTEGER NOT NULL, granted_at INTEGER, notified_at INTEGER
+      );
+      CREATE UNIQUE INDEX uq_claim_waiters_pending ON claim_waiters(claim_key, agent_id) WHERE granted_at IS NULL;
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open', claimed_by TEXT,
+        created_at TEXT, claimed_at TEXT, expires_at TEXT, ttl_seconds INTEGER
+      );
     `);
     (globalThis as Record<string, unknown>).__TEST_DB__ = db;
   });
@@ -298,4 +312,143 @@ describe('file-claim-tools', () => {
       .map((r) => r.claim_key);
     expect(keys).toEqual(['src/fresh-open.ts', 'src/fresh-released.ts', 'src/trigger.ts']);
   });
+
+  it('directory claims cover every file under the prefix, including new ones', async () => {
+    const res = await claim({ paths: ['src/auth/'], agent_id: 'alice', intent: 'auth refactor' });
+    expect(res.isError).toBeFalsy();
+    expect(getRow('src/auth/')).toMatchObject({ file_path: 'src/auth/', kind: 'dir', agent_id: 'alice' });
+    expect((jsonOf(res) as { report: unknown[] }).report).toEqual([{ path: 'src/auth/', status: 'claimed', kind: 'dir' }]);
+
+    const blocked = await claim({ paths: ['src/Auth/new-file.ts', 'src/other.ts'], agent_id: 'bob' });
+    const json = jsonOf(blocked) as { claimed: boolean; report: Array<{ path: string; status: string; holder?: { agent_id: string; claim: string; kind: string } }> };
+    expect(json.claimed).toBe(false);
+    expect(json.report[0]).toMatchObject({ status: 'conflict', holder: { agent_id: 'alice', claim: 'src/auth/', kind: 'dir' } });
+    expect(textOf(blocked)).toMatch(/held by alice via src\/auth\/ \(dir\)/);
+    expect(getRow('src/other.ts')).toBeUndefined(); // still all-or-nothing
+
+    // The holder's own files and paths outside the prefix are not conflicts.
+    expect((jsonOf(await claim({ paths: ['src/auth/login.ts'], agent_id: 'alice' })) as { claimed: boolean }).claimed).toBe(true);
+    expect((jsonOf(await claim({ paths: ['src/authz.ts'], agent_id: 'bob' })) as { claimed: boolean }).claimed).toBe(true);
+  });
+
+  it('pattern claims conflict with overlapping file, directory and glob claims of live agents', async () => {
+    await claim({ paths: ['src/auth/login.ts'], agent_id: 'alice' });
+    const glob = await claim({ paths: ['src/**/*.ts'], agent_id: 'bob' });
+    const report = (jsonOf(glob) as { report: Array<{ status: string; holder?: { claim: string } }> }).report;
+    expect(report[0]).toMatchObject({ status: 'conflict', holder: { claim: 'src/auth/login.ts' } });
+    expect(getRow('src/**/*.ts')).toBeUndefined();
+
+    // A glob that cannot match alice's file is fine, and is stored as kind glob.
+    expect((jsonOf(await claim({ paths: ['docs/*.md'], agent_id: 'bob' })) as { claimed: boolean }).claimed).toBe(true);
+    expect(getRow('docs/*.md')!.kind).toBe('glob');
+    // ...but a directory containing bob's glob overlaps it.
+    const dir = await claim({ paths: ['docs/'], agent_id: 'carol' });
+    expect((jsonOf(dir) as { report: Array<{ holder?: { agent_id: string } }> }).report[0].holder!.agent_id).toBe('bob');
+  });
+
+  it('ignores expired or stale overlapping claims and reports forced overlaps', async () => {
+    await claim({ paths: ['src/auth/'], agent_id: 'alice' });
+    setPresence('alice', now() - 2000); // stale holder
+    expect((jsonOf(await claim({ paths: ['src/auth/a.ts'], agent_id: 'bob' })) as { claimed: boolean }).claimed).toBe(true);
+
+    await claim({ paths: ['lib/*.ts'], agent_id: 'carol' });
+    const forced = await claim({ paths: ['lib/x.ts'], agent_id: 'bob', force: true });
+    const report = (jsonOf(forced) as { report: Array<{ status: string; overlaps_forced?: unknown[] }> }).report;
+    expect(report[0]).toEqual({
+      path: 'lib/x.ts', status: 'claimed',
+      overlaps_forced: [{ claim: 'lib/*.ts', kind: 'glob', agent_id: 'carol' }],
+    });
+    expect(textOf(forced)).toMatch(/FORCED over live overlapping claim lib\/\*\.ts \(glob\) held by carol/);
+    expect(getRow('lib/*.ts')!.agent_id).toBe('carol'); // the pattern claim itself is untouched
+  });
+
+  it('claim_list shows which pattern covers which path and filters by path', async () => {
+    await claim({ paths: ['src/auth/'], agent_id: 'alice' });
+    await claim({ paths: ['src/auth/login.ts'], agent_id: 'bob', force: true });
+    await claim({ paths: ['src/db.ts'], agent_id: 'carol' });
+
+    const res = await list();
+    expect(textOf(res)).toContain('| src/auth/ (dir) | alice |');
+    expect(textOf(res)).toContain('Coverage:\n- src/auth/ (dir) [alice] covers src/auth/login.ts [bob]');
+    const claims = (jsonOf(res) as { claims: Array<{ path: string; kind: string; covers?: unknown[]; covered_by?: unknown[] }> }).claims;
+    expect(claims.find((c) => c.path === 'src/auth/')!.covers).toEqual([{ path: 'src/auth/login.ts', agent_id: 'bob' }]);
+    expect(claims.find((c) => c.path === 'src/auth/login.ts')!.covered_by).toEqual([{ claim: 'src/auth/', agent_id: 'alice' }]);
+    expect(claims.find((c) => c.path === 'src/db.ts')!.covered_by).toEqual([]);
+
+    const who = await list({ path: 'src/auth/session.ts' });
+    expect((jsonOf(who) as { claims: Array<{ path: string }> }).claims.map((c) => c.path)).toEqual(['src/auth/']);
+    expect((await list({ path: '../outside.ts' })).isError).toBe(true);
+  });
+
+  it('enqueue:true queues conflicting paths FIFO and release hands the claim to the first waiter', async () => {
+    await claim({ paths: ['src/a.ts'], agent_id: 'alice' });
+    const bobQueued = await claim({ paths: ['src/a.ts'], agent_id: 'bob', enqueue: true, ttl_seconds: 600 });
+    const bobReport = (jsonOf(bobQueued) as { claimed: boolean; report: Array<{ status: string; queue_position?: number }> });
+    expect(bobReport.claimed).toBe(false);
+    expect(bobReport.report[0]).toMatchObject({ status: 'conflict', queue_position: 1 });
+    expect(textOf(bobQueued)).toMatch(/queued, position 1/);
+    // Re-enqueueing keeps your place; a later agent lines up behind.
+    expect((jsonOf(await claim({ paths: ['src/a.ts'], agent_id: 'bob', enqueue: true, ttl_seconds: 600 })) as { report: Array<{ queue_position: number }> })
+      .report[0].queue_position).toBe(1);
+    expect((jsonOf(await claim({ paths: ['src/a.ts'], agent_id: 'carol', enqueue: true })) as { report: Array<{ queue_position: number }> })
+      .report[0].queue_position).toBe(2);
+
+    const listed = await list();
+    expect(textOf(listed)).toContain('Wait queue:\n- src/a.ts: 1. bob, 2. carol');
+
+    const changed: string[] = [];
+    const unsubscribe = onResourceChanged((uri) => changed.push(uri));
+    const rel = await release({ paths: ['src/a.ts'], agent_id: 'alice' });
+    unsubscribe();
+    expect((jsonOf(rel) as { report: unknown[] }).report[0]).toEqual({ path: 'src/a.ts', status: 'released', granted_to: 'bob' });
+    expect(changed).toEqual([HANDOFFS_OPEN_URI]);
+    const row = getRow('src/a.ts')!;
+    expect(row).toMatchObject({ agent_id: 'bob', released_at: null });
+    expect(row.expires_at).toBeGreaterThanOrEqual(now() + 590); // the waiter's own ttl
+
+    // The grant lands in bob's handoff inbox and, once, in his next claim-tool response.
+    const handoff = db.prepare(`SELECT from_agent, to_agent, summary, expires_at, ttl_seconds FROM handoffs`).get() as
+      { from_agent: string; to_agent: string; summary: string; expires_at: string; ttl_seconds: number };
+    expect(handoff).toMatchObject({ from_agent: 'dokoro_file_claim', to_agent: 'bob', ttl_seconds: 600 });
+    // The notice lapses with the lease it announces.
+    expect(Date.parse(handoff.expires_at) / 1000).toBe(row.expires_at);
+    expect(handoff.summary).toMatch(/You now hold src\/a\.ts/);
+    const next = await claim({ paths: ['src/b.ts'], agent_id: 'bob' });
+    expect(textOf(next)).toMatch(/^NOTICE: you now hold src\/a\.ts/);
+    expect(textOf(await claim({ paths: ['src/b.ts'], agent_id: 'bob' }))).not.toMatch(/NOTICE/);
+
+    // carol is now first in line behind bob.
+    await release({ all: true, agent_id: 'bob' });
+    expect(getRow('src/a.ts')!.agent_id).toBe('carol');
+  });
+
+  it('grants queued claims freed by lease expiry before evaluating the next caller', async () => {
+    await claim({ paths: ['src/a.ts'], agent_id: 'alice' });
+    await claim({ paths: ['src/a.ts'], agent_id: 'bob', enqueue: true });
+    await claim({ paths: ['src/z.ts'], agent_id: 'dave', enqueue: true });
+    db.prepare('UPDATE file_claims SET expires_at = ? WHERE claim_key = ?').run(now() - 1, 'src/a.ts');
+
+    // carol would take over the expired claim, but bob was waiting first.
+    const carol = await claim({ paths: ['src/a.ts'], agent_id: 'carol' });
+    const report = (jsonOf(carol) as { report: Array<{ status: string; holder?: { agent_id: string } }> }).report;
+    expect(report[0]).toMatchObject({ status: 'conflict', holder: { agent_id: 'bob' } });
+    expect(getRow('src/a.ts')!.agent_id).toBe('bob');
+
+    // A waiter whose presence went stale is dropped instead of granted.
+    await claim({ paths: ['src/a.ts'], agent_id: 'erin', enqueue: true });
+    setPresence('erin', now() - 2000);
+    db.prepare('UPDATE file_claims SET expires_at = ? WHERE claim_key = ?').run(now() - 1, 'src/a.ts');
+    await claim({ paths: ['src/other.ts'], agent_id: 'carol' });
+    expect(getRow('src/a.ts')!.agent_id).toBe('bob');
+    expect(db.prepare(`SELECT COUNT(*) c FROM claim_waiters WHERE agent_id = 'erin'`).get()).toEqual({ c: 0 });
+  });
+
+  it('releasing a path you are only queued for leaves the queue', async () => {
+    await claim({ paths: ['src/a.ts'], agent_id: 'alice' });
+    await claim({ paths: ['src/a.ts'], agent_id: 'bob', enqueue: true });
+    const res = await release({ paths: ['src/a.ts'], agent_id: 'bob' });
+    expect((jsonOf(res) as { report: unknown[] }).report[0]).toEqual({ path: 'src/a.ts', status: 'dequeued' });
+    await release({ all: true, agent_id: 'alice' });
+    expect(getRow('src/a.ts')!.released_at).not.toBeNull(); // nobody was waiting any more
+  });
 });
@@ -4,17 +4,33 @@
  * Multiple agents share one worktree; claims let them see who is editing what.
  * Claims WARN, they never block: a conflict report is advisory and force:true
  * always wins. Lease semantics (DynamoDB lock-client style): a claim expires at
- * expires_at unless renewed (re-claiming bumps heartbeat_seq and extends the
- * lease). Holder liveness is corroborated at read time with agent_presence —
+ * expires_at unless renewed (re-claiming, or dokoro_presence_ping with
+ * renew_claims:true, bumps heartbeat_seq and extends the lease). Holder liveness is corroborated at read time with agent_presence —
  * an unexpired claim whose holder's heartbeat is stale (> 900s) may be taken
  * over; a holder with NO presence row is treated as live while the claim is
- * unexpired (presence is evidence only when present).
+ * unexpired (presence is evidence only when present). The server's presence
+ * reaper (services/presence-reaper.ts) releases the claims of stale holders.
  *
  * Identity is claim_key — the casefolded normalized root-relative path
  * (src/utils/claim-path.ts) — so one file maps to exactly one row. Only
  * root-relative paths are stored; `root` defaults to the server process cwd,
  * so pass it explicitly when the MCP server's cwd differs from the worktree.
  *
+ * Besides single files, a claim can cover a directory prefix (`src/auth/`) or
+ * a glob (`src/auth/**`, `*.md`), stored as its own row with kind 'dir' or
+ * 'glob'. A live holder of any overlapping claim — file inside a claimed
+ * directory, glob matching a claimed file, two intersecting patterns — is a
+ * conflict just like a holder of the exact same path.
+ *
+ * enqueue:true turns a conflict into a FIFO wait (claim_waiters): freed
+ * targets are granted to the first waiter whenever a claim or release runs,
+ * and the waiter learns of it in its next claim-tool response and its
+ * handoff inbox.
+ *
+ * dokoro_claim_audit closes the loop with what actually changed: it reads
+ * `git status` under root and reports changed files claimed by someone else
+ * and changed files nobody claimed.
+ *
  * All timestamps are server-assigned SQLite unixepoch seconds
  * (strftime('%s','now')) — one clock domain, never Date.now(). Per-project only.
  */
@@ -22,8 +38,10 @@ import { z } from 'zod';
 import type Database from 'better-sqlite3';
 import { ToolDefinition } from './registry.js';
 import { getSqliteDb } from '../db/index.js';
+import { HANDOFFS_OPEN_URI, notifyResourceChanged } from '../utils/resource-events.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
-import { normalizeClaimPath } from '../utils/claim-path.js';
+import { claimCovers, claimsOverlap, normalizeClaimPath, normalizeClaimTarget, type ClaimKind } from '../utils/claim-path.js';
+import { AmbientContextService } from '../services/ambient-context.js';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -48,6 +66,7 @@ const PRUNE_AGE_SECONDS = 86400;
 interface ClaimRow {
   claim_key: string;
   file_path: string;
+  kind: ClaimKind;
   agent_id: string;
   session_id: string | null;
   intent: string | null;
@@ -77,7 +96,7 @@ function presenceLabel(sqlite: Database.Database, agentId: string, now: number):
 }
 
 /**
- * Opportunistic pruning of dead coordination state (no background sweeper):
+ * Opportunistic pruning of dead coordination state:
  * released rows older than a day, and open rows whose lease expired over a
  * day ago. Safe — claims are ephemeral coordination state, not memory.
  */
@@ -87,23 +106,27 @@ function pruneOldClaims(sqlite: Database.Database): void {
     WHERE (released_at IS NOT NULL AND released_at < strftime('%s','now') - ${PRUNE_AGE_SECONDS})
        OR (released_at IS NULL AND expires_at < strftime('%s','now') - ${PRUNE_AGE_SECONDS})
   `).run();
+  sqlite.prepare(`
+    DELETE FROM claim_waiters
+    WHERE COALESCE(notified_at, granted_at, enqueued_at) < strftime('%s','now') - ${PRUNE_AGE_SECONDS}
+  `).run();
 }
 
-interface NormalizedTarget { input: string; relPath: string; claimKey: string }
+interface NormalizedTarget { input: string; relPath: string; claimKey: string; kind: ClaimKind }
 
 /**
- * Normalize all input paths against `root`. Any failure rejects the whole
- * batch (all-or-nothing). Duplicate spellings of the same file collapse to
- * one target via claimKey.
+ * Normalize all input paths (files, `dir/` prefixes, globs) against `root`.
+ * Any failure rejects the whole batch (all-or-nothing). Duplicate spellings
+ * of the same target collapse to one via claimKey.
  */
 function normalizeAll(paths: string[], root: string):
   { ok: true; targets: NormalizedTarget[] } | { ok: false; errors: string[] } {
   const errors: string[] = [];
   const byKey = new Map<string, NormalizedTarget>();
   for (const input of paths) {
-    const r = normalizeClaimPath(input, root);
+    const r = normalizeClaimTarget(input, root);
     if (!r.ok) { errors.push(`${input}: ${r.error}`); continue; }
-    if (!byKey.has(r.claimKey)) byKey.set(r.claimKey, { input, relPath: r.relPath, claimKey: r.claimKey });
+    if (!byKey.has(r.claimKey)) byKey.set(r.claimKey, { input, relPath: r.relPath, claimKey: r.claimKey, kind: r.kind });
   }
   if (errors.length > 0) return { ok: false, errors };
   return { ok: true, targets: [...byKey.values()] };
@@ -111,10 +134,258 @@ function normalizeAll(paths: string[], root: string):
 
 type ClaimAction = 'insert' | 'reuse_released' | 'renew' | 'takeover' | 'takeover_forced' | 'conflict';
 
+interface Overlap {
+  row: ClaimRow;
+  presence: PresenceLabel;
+}
+
 interface ClaimEval extends NormalizedTarget {
   action: ClaimAction;
   holder?: ClaimRow;
   presence?: PresenceLabel;
+  /** Live overlapping claims of other agents (a dir/glob covering this path, or vice versa). */
+  overlaps?: Overlap[];
+  /** 1-based wait-queue position when a conflict was enqueued. */
+  queuePosition?: number;
+}
+
+/** `src/auth/ (dir)` — a holder's claim as shown in reports. */
+function claimLabel(row: Pick<ClaimRow, 'file_path' | 'kind'>): string {
+  return row.kind === 'file' ? row.file_path : `${row.file_path} (${row.kind})`;
+}
+
+/**
+ * Holder liveness: live while the claim is unexpired UNLESS presence
+ * positively shows them dead. No presence row = live (don't punish agents
+ * that never ping).
+ */
+function holderLiveness(sqlite: Database.Database, row: ClaimRow, now: number): { live: boolean; presence: PresenceLabel } {
+  const presence = presenceLabel(sqlite, row.agent_id, now);
+  return { live: row.expires_at > now && presence !== 'stale', presence };
+}
+
+/**
+ * Other agents' open claims that could overlap the given targets: patterns
+ * always, single files only when a pattern is among the targets.
+ */
+function overlapCandidates(sqlite: Database.Database, agentId: string, targets: NormalizedTarget[]): ClaimRow[] {
+  const claimsPattern = targets.some((t) => t.kind !== 'file');
+  return sqlite.prepare(`
+    SELECT * FROM file_claims
+    WHERE released_at IS NULL AND agent_id != ? ${claimsPattern ? '' : `AND kind != 'file'`}
+  `).all(agentId) as ClaimRow[];
+}
+
+/** Live claims among `candidates` that overlap `t` without being its exact row. */
+function liveOverlaps(sqlite: Database.Database, t: NormalizedTarget, candidates: ClaimRow[], now: number): Overlap[] {
+  return candidates
+    .filter((row) => row.claim_key !== t.claimKey && claimsOverlap(t, { kind: row.kind, claimKey: row.claim_key }))
+    .map((row) => ({ row, ...holderLiveness(sqlite, row, now) }))
+    .filter((o) => o.live)
+    .map(({ row, presence }) => ({ row, presence }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Wait queue
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface WaiterRow {
+  id: number;
+  claim_key: string;
+  file_path: string;
+  kind: ClaimKind;
+  agent_id: string;
+  session_id: string | null;
+  intent: string | null;
+  ttl_seconds: number;
+  enqueued_at: number;
+  granted_at: number | null;
+  notified_at: number | null;
+}
+
+/** Sender of the handoff that tells a waiter its claim was granted. */
+const QUEUE_HANDOFF_SENDER = 'dokoro_file_claim';
+
+/**
+ * Join (or keep your place in) the FIFO queue for a target. Returns the
+ * 1-based position among pending waiters for that claim_key.
+ */
+function enqueueWaiter(
+  sqlite: Database.Database,
+  t: NormalizedTarget,
+  a: { agent_id: string; session_id?: string; intent?: string },
+  ttl: number,
+  now: number,
+): number {
+  sqlite.prepare(`
+    INSERT INTO claim_waiters (claim_key, file_path, kind, agent_id, session_id, intent, ttl_seconds, enqueued_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(claim_key, agent_id) WHERE granted_at IS NULL DO UPDATE SET
+      ttl_seconds = excluded.ttl_seconds,
+      intent = COALESCE(excluded.intent, intent),
+      session_id = COALESCE(excluded.session_id, session_id)
+  `).run(t.claimKey, t.relPath, t.kind, a.agent_id, a.session_id ?? null, a.intent ?? null, ttl, now);
+  const row = sqlite.prepare(`
+    SELECT COUNT(*) AS n FROM claim_waiters
+    WHERE claim_key = ? AND granted_at IS NULL
+      AND id <= (SELECT id FROM claim_waiters WHERE claim_key = ? AND agent_id = ? AND granted_at IS NULL)
+  `).get(t.claimKey, t.claimKey, a.agent_id) as { n: number };
+  return row.n;
+}
+
+/**
+ * Grant queued claims whose target is free again — released, expired, or
+ * held by a stale agent, with no live overlapping claim of someone else.
+ * Runs on every claim and release call, on dokoro_presence_ping, and on every
+ * presence reaper pass, so a lease that lapses is granted within one reaper
+ * interval even when nobody touches the claim tools.
+ * Waiters are served in enqueue order, so the first waiter for a claim_key
+ * gets it and the next one keeps waiting behind the new holder. Waiters whose
+ * own presence went stale are dropped rather than handed a lease they cannot
+ * use. Each grant leaves a handoff addressed to the waiter that expires with
+ * the granted lease; the grant is also reported in the waiter's next
+ * claim-tool or presence-ping response. Runs inside the caller's transaction.
+ */
+export function promoteWaiters(sqlite: Database.Database, now: number): WaiterRow[] {
+  const waiters = sqlite.prepare('SELECT * FROM claim_waiters WHERE granted_at IS NULL ORDER BY id')
+    .all() as WaiterRow[];
+  const granted: WaiterRow[] = [];
+  const selectClaim = sqlite.prepare('SELECT * FROM file_claims WHERE claim_key = ?');
+  const drop = sqlite.prepare('DELETE FROM claim_waiters WHERE id = ?');
+  const grant = sqlite.prepare('UPDATE claim_waiters SET granted_at = ? WHERE id = ?');
+  const upsert = sqlite.prepare(`
+    INSERT INTO file_claims (claim_key, file_path, kind, agent_id, session_id, intent, claimed_at, expires_at, heartbeat_seq, released_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, NULL)
+    ON CONFLICT(claim_key) DO UPDATE SET file_path = excluded.file_path, kind = excluded.kind,
+      agent_id = excluded.agent_id, session_id = excluded.session_id, intent = excluded.intent,
+      claimed_at = excluded.claimed_at, expires_at = excluded.expires_at, heartbeat_seq = 0, released_at = NULL
+  `);
+  const notify = sqlite.prepare(`
+    INSERT INTO handoffs (from_agent, to_agent, session_id, summary, status, created_at, expires_at, ttl_seconds)
+    VALUES (?, ?, ?, ?, 'open', strftime('%Y-%m-%dT%H:%M:%SZ','now'), strftime('%Y-%m-%dT%H:%M:%SZ', ?, 'unixepoch'), ?)
+  `);
+
+  for (const w of waiters) {
+    if (presenceLabel(sqlite, w.agent_id, now) === 'stale') { drop.run(w.id); continue; }
+    const target: NormalizedTarget = { input: w.file_path, relPath: w.file_path, claimKey: w.claim_key, kind: w.kind };
+    const row = selectClaim.get(w.claim_key) as ClaimRow | undefined;
+    if (row && row.released_at === null && row.agent_id !== w.agent_id && holderLiveness(sqlite, row, now).live) continue;
+    if (liveOverlaps(sqlite, target, overlapCandidates(sqlite, w.agent_id, [target]), now).length > 0) continue;
+
+    upsert.run(w.claim_key, w.file_path, w.kind, w.agent_id, w.session_id, w.intent, now, now + w.ttl_seconds);
+    grant.run(now, w.id);
+    notify.run(
+      QUEUE_HANDOFF_SENDER, w.agent_id, w.session_id,
+      `You now hold ${claimLabel(w)} — granted from the claim wait queue (lease ${w.ttl_seconds}s). Renew by claiming it again.`,
+      now + w.ttl_seconds, w.ttl_seconds,
+    );
+    granted.push({ ...w, granted_at: now });
+  }
+  if (granted.length > 0) notifyResourceChanged(HANDOFFS_OPEN_URI);
+  return granted;
+}
+
+/**
+ * "You now hold X" lines for grants the agent has not been told about yet,
+ * marking them delivered. Empty string when there is nothing to report.
+ */
+export function takeGrantNotices(sqlite: Database.Database, agentId: string, now: number): string {
+  const rows = sqlite.prepare(`
+    SELECT * FROM claim_waiters WHERE agent_id = ? AND granted_at IS NOT NULL AND notified_at IS NULL ORDER BY granted_at, id
+  `).all(agentId) as WaiterRow[];
+  if (rows.length === 0) return '';
+  sqlite.prepare(`UPDATE claim_waiters SET notified_at = ? WHERE agent_id = ? AND granted_at IS NOT NULL AND notified_at IS NULL`)
+    .run(now, agentId);
+  return rows.map((r) => `NOTICE: you now hold ${claimLabel(r)} (granted from the wait queue ${now - r.granted_at!}s ago)`).join('\n') + '\n\n';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Handoff transfer
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** A file claim referenced by a handoff (handoffs.refs_json). */
+export interface ClaimRef {
+  claim_key: string;
+  path: string;
+  kind: ClaimKind;
+}
+
+/**
+ * Resolve `paths` (spelled as for dokoro_file_claim) to the open, unexpired
+ * claims `agentId` holds — the only claims a handoff from that agent may
+ * reference. Every path that is not currently held is reported in `errors`.
+ */
+export function resolveHeldClaims(
+  sqlite: Database.Database,
+  agentId: string,
+  paths: string[],
+  root: string,
+): { refs: ClaimRef[]; errors: string[] } {
+  const norm = normalizeAll(paths, root);
+  if (!norm.ok) return { refs: [], errors: norm.errors };
+  const now = nowSeconds(sqlite);
+  const select = sqlite.prepare('SELECT * FROM file_claims WHERE claim_key = ?');
+  const refs: ClaimRef[] = [];
+  const errors: string[] = [];
+  for (const t of norm.targets) {
+    const row = select.get(t.claimKey) as ClaimRow | undefined;
+    if (!row || row.released_at !== null || row.agent_id !== agentId || row.expires_at <= now) {
+      errors.push(`${t.input}: not an open claim of ${agentId}`);
+      continue;
+    }
+    refs.push({ claim_key: row.claim_key, path: row.file_path, kind: row.kind });
+  }
+  return { refs, errors };
+}
+
+export interface ClaimTransfer extends ClaimRef {
+  transferred: boolean;
+  /** Why the claim was not transferred. */
+  reason?: string;
+}
+
+/**
+ * Hand the referenced claims from `fromAgent` to `toAgent`. Only claims
+ * `fromAgent` still holds with an unexpired lease move; the new holder gets
+ * at least a default lease from now. Released, expired or re-claimed targets
+ * are reported with a reason and left alone. Runs inside the caller's
+ * transaction so the transfer commits together with the handoff claim.
+ */
+export function transferClaims(
+  sqlite: Database.Database,
+  refs: ClaimRef[],
+  fromAgent: string,
+  toAgent: string,
+  sessionId: string | null,
+): ClaimTransfer[] {
+  const now = nowSeconds(sqlite);
+  const select = sqlite.prepare('SELECT * FROM file_claims WHERE claim_key = ?');
+  const move = sqlite.prepare(`
+    UPDATE file_claims SET agent_id = ?, session_id = ?, claimed_at = ?,
+      expires_at = MAX(expires_at, ?), heartbeat_seq = heartbeat_seq + 1
+    WHERE claim_key = ?
+  `);
+  return refs.map((ref) => {
+    const row = select.get(ref.claim_key) as ClaimRow | undefined;
+    let reason: string | undefined;
+    if (!row || row.released_at !== null) reason = 'released';
+    else if (row.agent_id === toAgent) reason = 'already yours';
+    else if (row.agent_id !== fromAgent) reason = `now held by ${row.agent_id}`;
+    else if (row.expires_at <= now) reason = 'lease expired';
+    if (reason) return { ...ref, transferred: false, reason };
+    move.run(toAgent, sessionId, now, now + DEFAULT_TTL_SECONDS, ref.claim_key);
+    return { ...ref, transferred: true };
+  });
+}
+
+/** Another agent's claim covering a changed file (dokoro_claim_audit). */
+interface AuditHolder {
+  agent_id: string;
+  claim: string;
+  kind: ClaimKind;
+  intent: string | null;
+  expires_in_seconds: number;
+  presence: PresenceLabel;
 }
 
 const ROOT_DESCRIPTION =
@@ -129,9 +400,15 @@ export const fileClaimTools: ToolDefinition[] = [
       'ADVISORY claim on one or more files in the current project so cooperating agents can see who is editing what. ' +
       'All-or-nothing: if ANY path is held by a live agent (and force is not set), NOTHING is claimed and a per-path conflict report is returned. ' +
       'Re-claiming your own file renews the lease (extends expiry, bumps heartbeat_seq). Expired or stale-holder claims are taken over automatically. ' +
+      'A path ending in "/" claims the whole directory and a path with * or ? claims a glob (** spans directories), so new files are covered too; ' +
+      'a live overlapping claim (your file inside their directory, their glob matching your file, ...) is a conflict like the same path. ' +
+      'With enqueue:true a conflict puts you in a FIFO wait queue per path: when the holder releases, or within one presence-reaper interval ' +
+      'of the lease lapsing, the claim is granted to the first waiter, who is told "you now hold X" in its next claim-tool or ' +
+      'dokoro_presence_ping response and in its handoff inbox. ' +
       'Claims never block edits — they warn. Paths are stored root-relative; ' + ROOT_DESCRIPTION,
     inputSchema: {
-      paths: z.array(z.string()).min(1).max(50).describe('Files to claim (relative to root, or absolute under it).'),
+      paths: z.array(z.string()).min(1).max(50)
+        .describe('Files, directories (trailing "/") or globs ("src/auth/**") to claim, relative to root or absolute under it.'),
       agent_id: z.string().describe('Your stable agent identity.'),
       session_id: z.string().optional(),
       intent: z.string().optional().describe('What you plan to do with these files (shown to other agents).'),
@@ -139,12 +416,14 @@ export const fileClaimTools: ToolDefinition[] = [
         .describe(`Lease duration in seconds (default ${DEFAULT_TTL_SECONDS}, max ${MAX_TTL_SECONDS}). Renew by re-claiming.`),
       root: z.string().optional().describe(ROOT_DESCRIPTION),
       force: z.boolean().optional().describe('Override even live holders (recorded as a forced takeover). Default false.'),
+      enqueue: z.boolean().optional()
+        .describe('On conflict, wait in a FIFO queue for each conflicting path; it is granted to you automatically once freed. Default false.'),
     },
     handler: async (args) => {
       try {
         const a = args as {
           paths: string[]; agent_id: string; session_id?: string; intent?: string;
-          ttl_seconds?: number; root?: string; force?: boolean;
+          ttl_seconds?: number; root?: string; force?: boolean; enqueue?: boolean;
         };
         const root = a.root ?? process.cwd();
         const ttl = a.ttl_seconds ?? DEFAULT_TTL_SECONDS;
@@ -168,35 +447,46 @@ export const fileClaimTools: ToolDefinition[] = [
         // re-check and the conditional takeover cannot interleave with another
         // writer, so acquisition is all-or-nothing and race-free.
         const txn = sqlite.transaction(():
-          { committed: boolean; now: number; expiresAt: number; evals: ClaimEval[] } => {
+          { committed: boolean; now: number; expiresAt: number; evals: ClaimEval[]; notices: string } => {
           const now = nowSeconds(sqlite);
           const expiresAt = now + ttl;
+          // Queued agents get freed claims before this caller is evaluated.
+          promoteWaiters(sqlite, now);
           const selectClaim = sqlite.prepare('SELECT * FROM file_claims WHERE claim_key = ?');
+          const others = overlapCandidates(sqlite, a.agent_id, targets);
 
-          const evals: ClaimEval[] = targets.map((t) => {
+          const evals: ClaimEval[] = targets.map((t): ClaimEval => {
             const row = selectClaim.get(t.claimKey) as ClaimRow | undefined;
-            if (!row) return { ...t, action: 'insert' };
-            if (row.released_at !== null) return { ...t, action: 'reuse_released', holder: row };
-            if (row.agent_id === a.agent_id) return { ...t, action: 'renew', holder: row };
-            const presence = presenceLabel(sqlite, row.agent_id, now);
-            const claimUnexpired = row.expires_at > now;
-            // Holder is live while the claim is unexpired UNLESS presence
-            // positively shows them dead. No presence row = live (don't
-            // punish agents that never ping).
-            const holderLive = claimUnexpired && presence !== 'stale';
-            if (!holderLive) return { ...t, action: 'takeover', holder: row, presence };
-            if (force) return { ...t, action: 'takeover_forced', holder: row, presence };
-            return { ...t, action: 'conflict', holder: row, presence };
+            const overlaps = liveOverlaps(sqlite, t, others, now);
+            let e: ClaimEval;
+            if (!row) e = { ...t, action: 'insert' };
+            else if (row.released_at !== null) e = { ...t, action: 'reuse_released', holder: row };
+            else if (row.agent_id === a.agent_id) e = { ...t, action: 'renew', holder: row };
+            else {
+              const { live, presence } = holderLiveness(sqlite, row, now);
+              if (!live) e = { ...t, action: 'takeover', holder: row, presence };
+              else if (force) e = { ...t, action: 'takeover_forced', holder: row, presence };
+              else return { ...t, action: 'conflict', holder: row, presence, overlaps };
+            }
+            if (overlaps.length === 0) return e;
+            // A live overlapping claim conflicts like the exact path; with
+            // force the claim goes ahead and the overlap is reported.
+            if (force) return { ...e, overlaps };
+            return { ...t, action: 'conflict', holder: overlaps[0].row, presence: overlaps[0].presence, overlaps };
           });
 
-          // Any conflict (without force) -> abort with NO changes at all.
+          // Any conflict (without force) -> abort with NO claim changes. With
+          // enqueue, the conflicting targets join their wait queues instead.
           if (evals.some((e) => e.action === 'conflict')) {
-            return { committed: false, now, expiresAt, evals };
+            if (a.enqueue) {
+              for (const e of evals) if (e.action === 'conflict') e.queuePosition = enqueueWaiter(sqlite, e, a, ttl, now);
+            }
+            return { committed: false, now, expiresAt, evals, notices: takeGrantNotices(sqlite, a.agent_id, now) };
           }
 
           const insert = sqlite.prepare(`
-            INSERT INTO file_claims (claim_key, file_path, agent_id, session_id, intent, claimed_at, expires_at, heartbeat_seq, released_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, 0, NULL)
+            INSERT INTO file_claims (claim_key, file_path, kind, agent_id, session_id, intent, claimed_at, expires_at, heartbeat_seq, released_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, NULL)
           `);
           const reuseReleased = sqlite.prepare(`
             UPDATE file_claims SET file_path = ?, agent_id = ?, session_id = ?, intent = ?,
@@ -228,7 +518,7 @@ export const fileClaimTools: ToolDefinition[] = [
             let changes = 0;
             switch (e.action) {
               case 'insert':
-                changes = insert.run(e.claimKey, e.relPath, a.agent_id, a.session_id ?? null, a.intent ?? null, now, expiresAt).changes;
+                changes = insert.run(e.claimKey, e.relPath, e.kind, a.agent_id, a.session_id ?? null, a.intent ?? null, now, expiresAt).changes;
                 break;
               case 'reuse_released':
                 changes = reuseReleased.run(e.relPath, a.agent_id, a.session_id ?? null, a.intent ?? null, now, expiresAt, e.claimKey).changes;
@@ -249,7 +539,7 @@ export const fileClaimTools: ToolDefinition[] = [
             // Throwing rolls the whole transaction back (all-or-nothing).
             if (changes !== 1) throw new Error(`claim acquisition lost a race on ${e.relPath} — nothing was claimed, retry`);
           }
-          return { committed: true, now, expiresAt, evals };
+          return { committed: true, now, expiresAt, evals, notices: takeGrantNotices(sqlite, a.agent_id, now) };
         });
         const result = txn.immediate();
 
@@ -262,10 +552,13 @@ export const fileClaimTools: ToolDefinition[] = [
                 status: 'conflict' as const,
                 holder: {
                   agent_id: e.holder!.agent_id,
+                  claim: e.holder!.file_path,
+                  kind: e.holder!.kind,
                   intent: e.holder!.intent,
                   expires_in_seconds: e.holder!.expires_at - result.now,
                   presence: e.presence!,
                 },
+                ...(e.queuePosition !== undefined ? { queue_position: e.queuePosition } : {}),
               };
             }
             return { path: e.relPath, status: 'would_acquire' as const };
@@ -273,17 +566,21 @@ export const fileClaimTools: ToolDefinition[] = [
           const lines = result.evals.map((e) => {
             if (e.action === 'conflict') {
               const h = e.holder!;
-              return `- CONFLICT ${e.relPath} — held by ${h.agent_id} (presence: ${e.presence}, expires in ${h.expires_at - result.now}s${h.intent ? `, intent: ${h.intent}` : ''})`;
+              const via = h.claim_key === e.claimKey ? '' : ` via ${claimLabel(h)}`;
+              const queued = e.queuePosition !== undefined ? ` — queued, position ${e.queuePosition}` : '';
+              return `- CONFLICT ${e.relPath} — held by ${h.agent_id}${via} (presence: ${e.presence}, expires in ${h.expires_at - result.now}s${h.intent ? `, intent: ${h.intent}` : ''})${queued}`;
             }
             const note = (e.action === 'takeover' && e.holder)
               ? ` (would take over ${e.holder.expires_at <= result.now ? 'expired' : 'stale-presence'} claim held by ${e.holder.agent_id})`
               : '';
             return `- would_acquire ${e.relPath}${note}`;
           });
+          const options = a.enqueue
+            ? 'You are queued for the conflicting paths and will be granted each one when it is freed (other paths were not claimed — claim them separately). '
+            : 'Options: claim different files, wait for the holder\'s lease to expire, retry with enqueue:true to wait in line, or retry with force:true to override. ';
           const text =
-            `CONFLICT — NOTHING was claimed (all-or-nothing):\n${lines.join('\n')}\n` +
-            'Options: claim different files, wait for the holder\'s lease to expire, or retry with force:true to override. ' +
-            'Claims are advisory — they warn, they never block.';
+            `${result.notices}CONFLICT — NOTHING was claimed (all-or-nothing):\n${lines.join('\n')}\n` +
+            options + 'Claims are advisory — they warn, they never block.';
           return {
             content: [
               { type: 'text' as const, text },
@@ -300,8 +597,15 @@ export const fileClaimTools: ToolDefinition[] = [
           if (e.action === 'takeover_forced') return 'taken_over_forced';
           return 'claimed';
         };
-        const report = result.evals.map((e) => ({ path: e.relPath, status: statusOf(e) }));
-        const lines = result.evals.map((e) => {
+        const report = result.evals.map((e) => ({
+          path: e.relPath,
+          status: statusOf(e),
+          ...(e.kind !== 'file' ? { kind: e.kind } : {}),
+          ...(e.overlaps?.length
+            ? { overlaps_forced: e.overlaps.map((o) => ({ claim: o.row.file_path, kind: o.row.kind, agent_id: o.row.agent_id })) }
+            : {}),
+        }));
+        const lineFor = (e: ClaimEval): string => {
           const status = statusOf(e);
           if (status === 'taken_over' && e.holder) {
             const why = e.holder.expires_at <= result.now
@@ -313,9 +617,14 @@ export const fileClaimTools: ToolDefinition[] = [
             return `- taken_over_forced ${e.relPath} (FORCED over live holder ${e.holder.agent_id})`;
           }
           return `- ${status} ${e.relPath}`;
+        };
+        const lines = result.evals.map((e) => {
+          if (!e.overlaps?.length) return lineFor(e);
+          const over = e.overlaps.map((o) => `${claimLabel(o.row)} held by ${o.row.agent_id}`).join(', ');
+          return `${lineFor(e)} (FORCED over live overlapping claim ${over})`;
         });
         const text =
-          `${result.evals.length} file(s) claimed by ${a.agent_id}, lease expires at ${result.expiresAt} (in ${ttl}s):\n${lines.join('\n')}\n` +
+          `${result.notices}${result.evals.length} path(s) claimed by ${a.agent_id}, lease expires at ${result.expiresAt} (in ${ttl}s):\n${lines.join('\n')}\n` +
           'Reminder: claims are ADVISORY — they warn other agents, they never block edits. Renew before expiry by claiming again.';
         return {
           content: [
@@ -335,6 +644,7 @@ export const fileClaimTools: ToolDefinition[] = [
     description:
       'Release advisory file claims held by you in the current project: specific paths, or all:true for everything you hold. ' +
       'Owner-aware (you can only release your own claims) and idempotent — unknown or already-released paths report not_found, never an error. ' +
+      'Freed paths go straight to the first agent waiting for them (reported as granted_to); releasing a path you are only queued for leaves the queue. ' +
       ROOT_DESCRIPTION,
     inputSchema: {
       agent_id: z.string().describe('Your stable agent identity (only your claims are released).'),
@@ -355,18 +665,25 @@ export const fileClaimTools: ToolDefinition[] = [
         const sqlite = db();
 
         if (a.all) {
-          const txn = sqlite.transaction((): string[] => {
-            const rows = sqlite.prepare('SELECT file_path FROM file_claims WHERE agent_id = ? AND released_at IS NULL')
-              .all(a.agent_id) as Array<{ file_path: string }>;
+          const txn = sqlite.transaction((): { released: Array<{ claim_key: string; file_path: string }>; granted: WaiterRow[]; notices: string } => {
+            const now = nowSeconds(sqlite);
+            const rows = sqlite.prepare('SELECT claim_key, file_path FROM file_claims WHERE agent_id = ? AND released_at IS NULL')
+              .all(a.agent_id) as Array<{ claim_key: string; file_path: string }>;
             sqlite.prepare(`UPDATE file_claims SET released_at = strftime('%s','now') WHERE agent_id = ? AND released_at IS NULL`)
               .run(a.agent_id);
-            return rows.map((r) => r.file_path);
+            sqlite.prepare('DELETE FROM claim_waiters WHERE agent_id = ? AND granted_at IS NULL').run(a.agent_id);
+            return { released: rows, granted: promoteWaiters(sqlite, now), notices: takeGrantNotices(sqlite, a.agent_id, now) };
           });
-          const released = txn.immediate();
-          const report = released.map((p) => ({ path: p, status: 'released' as const }));
-          const text = released.length === 0
+          const { released, granted, notices } = txn.immediate();
+          const grantedTo = new Map(granted.map((g) => [g.claim_key, g.agent_id]));
+          const report = released.map((r) => ({
+            path: r.file_path,
+            status: 'released' as const,
+            ...(grantedTo.has(r.claim_key) ? { granted_to: grantedTo.get(r.claim_key) } : {}),
+          }));
+          const text = notices + (released.length === 0
             ? `no open claims held by ${a.agent_id}`
-            : `released ${released.length} claim(s) held by ${a.agent_id}:\n${released.map((p) => `- ${p}`).join('\n')}`;
+            : `released ${released.length} claim(s) held by ${a.agent_id}:\n${report.map((r) => `- ${r.path}${r.granted_to ? ` -> granted to ${r.granted_to} (wait queue)` : ''}`).join('\n')}`);
           return {
             content: [
               { type: 'text' as const, text },
@@ -386,28 +703,37 @@ export const fileClaimTools: ToolDefinition[] = [
             }],
           };
         }
-        const txn = sqlite.transaction((): Array<{ path: string; status: 'released' | 'not_held_by_you' | 'not_found' }> => {
+        type ReleaseStatus = 'released' | 'not_held_by_you' | 'not_found' | 'dequeued';
+        const txn = sqlite.transaction((): { report: Array<{ path: string; status: ReleaseStatus; granted_to?: string }>; notices: string } => {
+          const now = nowSeconds(sqlite);
           const release = sqlite.prepare(`
             UPDATE file_claims SET released_at = strftime('%s','now')
             WHERE claim_key = ? AND agent_id = ? AND released_at IS NULL
           `);
+          const dequeue = sqlite.prepare('DELETE FROM claim_waiters WHERE claim_key = ? AND agent_id = ? AND granted_at IS NULL');
           const lookup = sqlite.prepare('SELECT file_path, agent_id, released_at FROM file_claims WHERE claim_key = ?');
-          return normalized.targets.map((t) => {
+          const report = normalized.targets.map((t): { path: string; status: ReleaseStatus; granted_to?: string } => {
             // Report the DB's stored file_path (authoritative display form,
             // same source as the all:true branch) — the caller's spelling may
             // differ in case. not_found has no row, so the normalized input
             // is the only display form available.
+            const left = dequeue.run(t.claimKey, a.agent_id).changes > 0;
             const row = lookup.get(t.claimKey) as { file_path: string; agent_id: string; released_at: number | null } | undefined;
-            if (!row || row.released_at !== null) return { path: t.relPath, status: 'not_found' as const };
-            if (release.run(t.claimKey, a.agent_id).changes === 1) return { path: row.file_path, status: 'released' as const };
-            return { path: row.file_path, status: 'not_held_by_you' as const };
+            if (!row || row.released_at !== null) return { path: t.relPath, status: left ? 'dequeued' : 'not_found' };
+            if (release.run(t.claimKey, a.agent_id).changes === 1) return { path: row.file_path, status: 'released' };
+            return { path: row.file_path, status: left ? 'dequeued' : 'not_held_by_you' };
+          });
+          const grantedTo = new Map(promoteWaiters(sqlite, now).map((g) => [g.claim_key, g.agent_id]));
+          normalized.targets.forEach((t, i) => {
+            if (report[i].status === 'released' && grantedTo.has(t.claimKey)) report[i].granted_to = grantedTo.get(t.claimKey);
           });
+          return { report, notices: takeGrantNotices(sqlite, a.agent_id, now) };
         });
-        const report = txn.immediate();
-        const lines = report.map((r) => `- ${r.status} ${r.path}`);
+        const { report, notices } = txn.immediate();
+        const lines = report.map((r) => `- ${r.status} ${r.path}${r.granted_to ? ` -> granted to ${r.granted_to} (wait queue)` : ''}`);
         return {
           content: [
-            { type: 'text' as const, text: lines.join('\n') },
+            { type: 'text' as const, text: notices + lines.join('\n') },
             { type: 'text' as const, text: JSON.stringify({ report }) },
           ],
         };
@@ -423,46 +749,76 @@ export const fileClaimTools: ToolDefinition[] = [
     description:
       'List open advisory file claims in the current project, soonest expiry first, with holder liveness from agent_presence ' +
       `(live = heartbeat within ${PRESENCE_TTL_SECONDS}s, stale = older heartbeat, unknown = never pinged). ` +
+      'Directory and glob claims are listed with their kind, and a coverage section shows which pattern covers which claimed file. ' +
+      'Pass path to see only the claims overlapping one file, directory or glob ("who holds src/auth/login.ts?"). ' +
       'Expired claims are hidden unless include_expired:true. Paths are root-relative.',
     inputSchema: {
       agent_id: z.string().optional().describe('Only show claims held by this agent.'),
+      path: z.string().optional().describe('Only show claims overlapping this file, directory (trailing "/") or glob.'),
       include_expired: z.boolean().optional().describe('Also show open claims whose lease already expired (default false).'),
-      root: z.string().optional().describe(ROOT_DESCRIPTION + ' Informational here — listed paths are root-relative.'),
+      root: z.string().optional().describe(ROOT_DESCRIPTION + ' Used to normalize path; listed paths are root-relative.'),
     },
     handler: async (args) => {
       try {
-        const a = args as { agent_id?: string; include_expired?: boolean; root?: string };
+        const a = args as { agent_id?: string; path?: string; include_expired?: boolean; root?: string };
+        let target: { kind: ClaimKind; claimKey: string } | null = null;
+        if (a.path !== undefined) {
+          const r = normalizeClaimTarget(a.path, a.root ?? process.cwd());
+          if (!r.ok) return { isError: true, content: [{ type: 'text' as const, text: `claim_list failed: ${r.error}` }] };
+          target = r;
+        }
         const where = ['fc.released_at IS NULL'];
-        const params: unknown[] = [];
         if (!a.include_expired) where.push(`fc.expires_at > strftime('%s','now')`);
-        if (a.agent_id) { where.push('fc.agent_id = ?'); params.push(a.agent_id); }
         const sqlite = db();
         const now = nowSeconds(sqlite);
-        const rows = sqlite.prepare(`
-          SELECT fc.file_path, fc.agent_id, fc.intent, fc.claimed_at, fc.expires_at, fc.heartbeat_seq,
+        // Coverage is computed over every listed claim, so the agent filter
+        // is applied afterwards: bob's file still shows alice's directory.
+        const open = sqlite.prepare(`
+          SELECT fc.claim_key, fc.file_path, fc.kind, fc.agent_id, fc.intent, fc.claimed_at, fc.expires_at, fc.heartbeat_seq,
                  ap.last_heartbeat
           FROM file_claims fc
           LEFT JOIN agent_presence ap ON ap.agent_id = fc.agent_id
           WHERE ${where.join(' AND ')}
           ORDER BY fc.expires_at ASC, fc.claim_key ASC
-        `).all(...params) as Array<{
-          file_path: string; agent_id: string; intent: string | null;
+        `).all() as Array<{
+          claim_key: string; file_path: string; kind: ClaimKind; agent_id: string; intent: string | null;
           claimed_at: number; expires_at: number; heartbeat_seq: number; last_heartbeat: number | null;
         }>;
+        const patterns = open.filter((r) => r.kind !== 'file');
+        const coverage = open.filter((r) => r.kind === 'file').flatMap((file) => patterns
+          .filter((p) => claimCovers({ kind: p.kind, claimKey: p.claim_key }, file.claim_key))
+          .map((p) => ({ pattern: p, file })));
+        const rows = open.filter((r) =>
+          (!a.agent_id || r.agent_id === a.agent_id) &&
+          (!target || claimsOverlap(target, { kind: r.kind, claimKey: r.claim_key })));
         if (rows.length === 0) return { content: [{ type: 'text' as const, text: '(no open claims)' }] };
+        const waiting = new Map<string, string[]>();
+        for (const w of sqlite.prepare('SELECT claim_key, agent_id FROM claim_waiters WHERE granted_at IS NULL ORDER BY id')
+          .all() as Array<{ claim_key: string; agent_id: string }>) {
+          waiting.set(w.claim_key, [...(waiting.get(w.claim_key) ?? []), w.agent_id]);
+        }
         const enriched = rows.map((r) => {
           const presence: PresenceLabel = r.last_heartbeat === null
             ? 'unknown'
             : (now - r.last_heartbeat <= PRESENCE_TTL_SECONDS ? 'live' : 'stale');
           return {
             path: r.file_path,
+            kind: r.kind,
             agent_id: r.agent_id,
             intent: r.intent,
             expires_in_seconds: r.expires_at - now,
             heartbeat_seq: r.heartbeat_seq,
             presence,
+            waiting: waiting.get(r.claim_key) ?? [],
+            ...(r.kind === 'file'
+              ? { covered_by: coverage.filter((c) => c.file === r).map((c) => ({ claim: c.pattern.file_path, agent_id: c.pattern.agent_id })) }
+              : { covers: coverage.filter((c) => c.pattern === r).map((c) => ({ path: c.file.file_path, agent_id: c.file.agent_id })) }),
           };
         });
+        const shown = new Set(rows);
+        const coverageLines = coverage
+          .filter((c) => shown.has(c.pattern) || shown.has(c.file))
+          .map((c) => `- ${claimLabel(c.pattern)} [${c.pattern.agent_id}] covers ${c.file.file_path} [${c.file.agent_id}]`);
         // Escape pipes in user-supplied fields so a stray `|` cannot break
         // the markdown table's column structure.
         const esc = (s: string): string => s.replace(/\|/g, '\\|');
@@ -470,11 +826,17 @@ export const fileClaimTools: ToolDefinition[] = [
           '| path | agent | intent | expires_in_s | presence |',
           '| --- | --- | --- | --- | --- |',
           ...enriched.map((r) =>
-            `| ${esc(r.path)} | ${esc(r.agent_id)} | ${esc(r.intent ?? '')} | ${r.expires_in_seconds} | ${r.presence} |`),
+            `| ${esc(claimLabel({ file_path: r.path, kind: r.kind }))} | ${esc(r.agent_id)} | ${esc(r.intent ?? '')} | ${r.expires_in_seconds} | ${r.presence} |`),
         ].join('\n');
+        const queueLines = enriched
+          .filter((r) => r.waiting.length > 0)
+          .map((r) => `- ${claimLabel({ file_path: r.path, kind: r.kind })}: ${r.waiting.map((agent, i) => `${i + 1}. ${agent}`).join(', ')}`);
+        let text = table;
+        if (coverageLines.length) text += `\n\nCoverage:\n${coverageLines.join('\n')}`;
+        if (queueLines.length) text += `\n\nWait queue:\n${queueLines.join('\n')}`;
         return {
           content: [
-            { type: 'text' as const, text: table },
+            { type: 'text' as const, text },
             { type: 'text' as const, text: JSON.stringify({ claims: enriched }) },
           ],
         };
@@ -484,4 +846,104 @@ export const fileClaimTools: ToolDefinition[] = [
       }
     },
   },
+  {
+    name: 'dokoro_claim_audit',
+    title: 'Audit changed files against claims',
+    description:
+      'Compare what git says changed under root (git status, untracked included; plus base...HEAD when base is given) with the open claims: ' +
+      'changed files claimed by another agent (collisions), changed files nobody claimed, and files covered by your own claims. ' +
+      'Run it before committing, or as a coordinator against each agent\'s worktree — every change in the audited tree is attributed to agent_id. ' +
+      'Read-only. ' + ROOT_DESCRIPTION,
+    inputSchema: {
+      agent_id: z.string().describe('Agent whose changes these are (its own claims are not collisions).'),
+      base: z.string().optional().describe('Also audit files committed since the branch forked from this ref (e.g. "main").'),
+      root: z.string().optional().describe(ROOT_DESCRIPTION + ' Also the directory git runs in.'),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { agent_id: string; base?: string; root?: string };
+        const root = a.root ?? process.cwd();
+        const changes = AmbientContextService.getWorkingTreeChanges(root, a.base);
+        if (!changes) {
+          const why = a.base ? ` (not a git repository, or unknown base ref "${a.base}")` : ' (not a git repository?)';
+          return { isError: true, content: [{ type: 'text' as const, text: `claim_audit failed: cannot read git state at ${root}${why}` }] };
+        }
+
+        const sqlite = db();
+        const now = nowSeconds(sqlite);
+        const claims = sqlite.prepare(`
+          SELECT fc.claim_key, fc.file_path, fc.kind, fc.agent_id, fc.intent, fc.expires_at, ap.last_heartbeat
+          FROM file_claims fc
+          LEFT JOIN agent_presence ap ON ap.agent_id = fc.agent_id
+          WHERE fc.released_at IS NULL AND fc.expires_at > strftime('%s','now')
+        `).all() as Array<{
+          claim_key: string; file_path: string; kind: ClaimKind; agent_id: string; intent: string | null;
+          expires_at: number; last_heartbeat: number | null;
+        }>;
+
+        const collisions: Array<{ path: string; also_claimed_by_you: boolean; holders: AuditHolder[] }> = [];
+        const unclaimed: string[] = [];
+        const yours: string[] = [];
+        let outsideRoot = 0;
+        for (const file of changes.files) {
+          // git reports paths relative to the repository top level; claims
+          // are relative to root, which may be a subdirectory of it.
+          const r = normalizeClaimPath(path.join(changes.topLevel, file), root);
+          if (!r.ok) { outsideRoot++; continue; }
+          const covering = claims.filter((c) => claimCovers({ kind: c.kind, claimKey: c.claim_key }, r.claimKey));
+          const mine = covering.some((c) => c.agent_id === a.agent_id);
+          const theirs = covering.filter((c) => c.agent_id !== a.agent_id);
+          if (theirs.length > 0) {
+            collisions.push({
+              path: r.relPath,
+              also_claimed_by_you: mine,
+              holders: theirs.map((c) => ({
+                agent_id: c.agent_id,
+                claim: c.file_path,
+                kind: c.kind,
+                intent: c.intent,
+                expires_in_seconds: c.expires_at - now,
+                presence: (c.last_heartbeat === null
+                  ? 'unknown'
+                  : (now - c.last_heartbeat <= PRESENCE_TTL_SECONDS ? 'live' : 'stale')) as PresenceLabel,
+              })),
+            });
+          } else if (mine) {
+            yours.push(r.relPath);
+          } else {
+            unclaimed.push(r.relPath);
+          }
+        }
+
+        const sections = [
+          `${changes.files.length - outsideRoot} changed file(s) audited for ${a.agent_id}` +
+            `${a.base ? ` (working tree + ${a.base}...HEAD)` : ' (working tree)'}: ` +
+            `${collisions.length} collision(s), ${unclaimed.length} unclaimed, ${yours.length} claimed by you` +
+            `${outsideRoot ? `, ${outsideRoot} outside root skipped` : ''}.`,
+        ];
+        if (collisions.length > 0) {
+          sections.push(`COLLISIONS — changed, but claimed by another agent:\n${collisions.map((c) => {
+            const holders = c.holders
+              .map((h) => `${h.agent_id} via ${claimLabel({ file_path: h.claim, kind: h.kind })} (presence: ${h.presence}${h.intent ? `, intent: ${h.intent}` : ''})`)
+              .join('; ');
+            return `- ${c.path} — ${holders}${c.also_claimed_by_you ? ' [also claimed by you]' : ''}`;
+          }).join('\n')}`);
+        }
+        if (unclaimed.length > 0) sections.push(`UNCLAIMED — changed, nobody holds a claim:\n${unclaimed.map((p) => `- ${p}`).join('\n')}`);
+        if (yours.length > 0) sections.push(`Claimed by you:\n${yours.map((p) => `- ${p}`).join('\n')}`);
+        return {
+          content: [
+            { type: 'text' as const, text: sections.join('\n\n') },
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ collisions, unclaimed, claimed_by_you: yours, outside_root: outsideRoot }),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return { isError: true, content: [{ type: 'text' as const, text: `claim_audit failed: ${msg}` }] };
+      }
+    },
+  },
 ];
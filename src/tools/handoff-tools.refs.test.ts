@@ -0,0 +1,163 @@
+/**
+ * Structured handoff references (plans, questions, entities, file claims) and
+ * claim transfer on dokoro_handoff_claim.
+ *
+ * DOKORO_PATH is captured at module import time, so each test points it at a
+ * temp dir holding .mcp/plans and .mcp/questions.json and loads a fresh
+ * handoff-tools instance via jest.isolateModules().
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { jest } from '@jest/globals';
+
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
+}));
+jest.mock('../utils/render-output.js', () => ({
+  renderOutput: (data: unknown) => JSON.stringify(data),
+}));
+jest.mock('../utils/color-setup.js', () => ({}));
+
+type HandoffToolsModule = typeof import('./handoff-tools.js');
+
+let tmpDir: string;
+let db: Database.Database;
+let mod: HandoffToolsModule;
+
+function freshModule(): Promise<HandoffToolsModule> {
+  return new Promise<HandoffToolsModule>((resolve) => {
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      resolve(require('./handoff-tools.js') as HandoffToolsModule);
+    });
+  });
+}
+
+function tool(name: string) {
+  const t = mod.handoffTools.find((x) => x.name === name);
+  if (!t) throw new Error(`tool ${name} not found`);
+  return t;
+}
+function textOf(res: { content?: Array<{ type: string; text?: string }> }): string {
+  return res.content?.[0]?.type === 'text' ? (res.content[0].text ?? '') : '';
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dokoro-handoff-refs-test-'));
+  process.env['DOKORO_PATH'] = tmpDir;
+  await fs.mkdir(path.join(tmpDir, '.mcp', 'plans'), { recursive: true });
+  await fs.writeFile(path.join(tmpDir, '.mcp', 'plans', 'plan-auth.json'), JSON.stringify({
+    id: 'plan-auth', title: 'Auth refactor', status: 'active', completion_percentage: 50,
+    created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z',
+    items: [
+      { id: 'i1', text: 'extract token service', completed: true, created_at: '2026-01-01T00:00:00Z' },
+      { id: 'i2', text: 'migrate login route', completed: false, created_at: '2026-01-01T00:00:00Z' },
+    ],
+  }));
+  await fs.writeFile(path.join(tmpDir, '.mcp', 'questions.json'), JSON.stringify([
+    { id: 'q-open', question: 'Keep refresh tokens?', status: 'open', priority: 'high', created_at: '2026-01-01T00:00:00Z' },
+    { id: 'q-done', question: 'Which hash?', status: 'answered', priority: 'low', created_at: '2026-01-01T00:00:00Z' },
+  ]));
+
+  db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE handoffs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+      summary TEXT NOT NULL, open_items_json TEXT, status TEXT NOT NULL DEFAULT 'open', claimed_by TEXT,
+      created_at TEXT, claimed_at TEXT, expires_at TEXT, ttl_seconds INTEGER, completed_at TEXT, refs_json TEXT
+    );
+    CREATE TABLE handoff_item_checks (
+      handoff_id INTEGER NOT NULL, item_index INTEGER NOT NULL, done_by TEXT NOT NULL,
+      done_at TEXT NOT NULL, note TEXT, PRIMARY KEY (handoff_id, item_index)
+    );
+    CREATE TABLE handoff_replies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, handoff_id INTEGER NOT NULL, agent_id TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'reply', body TEXT NOT NULL, created_at TEXT NOT NULL
+    );
+    CREATE TABLE entities (id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT NOT NULL, name TEXT NOT NULL);
+    CREATE TABLE file_claims (
+      claim_key TEXT PRIMARY KEY, file_path TEXT NOT NULL, kind TEXT NOT NULL DEFAULT 'file',
+      agent_id TEXT NOT NULL, session_id TEXT, intent TEXT, claimed_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0, released_at INTEGER
+    );
+    INSERT INTO entities (type, name) VALUES ('service', 'auth');
+  `);
+  const now = Math.floor(Date.now() / 1000);
+  const claim = db.prepare('INSERT INTO file_claims (claim_key, file_path, kind, agent_id, claimed_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)');
+  claim.run('src/auth/', 'src/auth/', 'dir', 'a', now, now + 600);
+  claim.run('src/login.ts', 'src/login.ts', 'file', 'a', now, now + 600);
+  claim.run('src/other.ts', 'src/other.ts', 'file', 'z', now, now + 600);
+  (globalThis as Record<string, unknown>).__TEST_DB__ = db;
+  mod = await freshModule();
+});
+
+afterEach(async () => {
+  db.close();
+  delete (globalThis as Record<string, unknown>).__TEST_DB__;
+  delete process.env['DOKORO_PATH'];
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('handoff refs', () => {
+  it('rejects a handoff whose references do not resolve, writing nothing', async () => {
+    const res = await tool('dokoro_handoff_write').handler({
+      from_agent: 'a', summary: 's', root: '/work',
+      refs: {
+        plans: [{ plan_id: 'plan-auth', item_ids: ['i9'] }, { plan_id: 'plan-nope' }],
+        questions: ['q-done', 'q-missing'],
+        entities: [42],
+        claims: ['src/other.ts'],
+      },
+    });
+    expect(res.isError).toBe(true);
+    const t = textOf(res);
+    expect(t).toMatch(/plan plan-auth: no item i9/);
+    expect(t).toMatch(/plan plan-nope: not found/);
+    expect(t).toMatch(/question q-done: already answered/);
+    expect(t).toMatch(/question q-missing: not found/);
+    expect(t).toMatch(/entity #42: not found/);
+    expect(t).toMatch(/claim src\/other.ts: not an open claim of a/);
+    expect((db.prepare('SELECT COUNT(*) AS n FROM handoffs').get() as { n: number }).n).toBe(0);
+  });
+
+  it('claim spells out the context and transfers the referenced claims atomically', async () => {
+    const written = await tool('dokoro_handoff_write').handler({
+      from_agent: 'a', summary: 'finish login migration', root: '/work',
+      refs: {
+        plans: [{ plan_id: 'plan-auth', item_ids: ['i2'] }],
+        questions: ['q-open'],
+        entities: [1],
+        claims: ['/work/src/auth/', 'src/login.ts'],
+      },
+    });
+    expect(textOf(written)).toMatch(/with 1 plan\(s\), 1 question\(s\), 1 entity, 2 claim\(s\)/);
+    expect(textOf(await tool('dokoro_handoff_inbox').handler({}))).toMatch(/refs: 1 plan\(s\)/);
+
+    // The author released one of them before the handoff was picked up.
+    db.prepare(`UPDATE file_claims SET released_at = 1 WHERE claim_key = 'src/login.ts'`).run();
+
+    const res = await tool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: 'b', session_id: 's-b', transfer_claims: true });
+    const t = textOf(res);
+    expect(res.isError).toBeFalsy();
+    expect(t).toMatch(/plan plan-auth: Auth refactor \[active, 50%\]/);
+    expect(t).toMatch(/- \[ \] i2: migrate login route/);
+    expect(t).toMatch(/question q-open \[open, high\]: Keep refresh tokens\?/);
+    expect(t).toMatch(/entity #1: auth \(service\)/);
+    expect(t).toMatch(/src\/auth\/: transferred from a/);
+    expect(t).toMatch(/src\/login.ts: not transferred \(released\)/);
+
+    const dir = db.prepare(`SELECT agent_id, session_id, heartbeat_seq FROM file_claims WHERE claim_key = 'src/auth/'`).get();
+    expect(dir).toEqual({ agent_id: 'b', session_id: 's-b', heartbeat_seq: 1 });
+    expect(textOf(await tool('dokoro_handoff_thread').handler({ handoff_id: 1 }))).toMatch(/Context:[\s\S]*claim src\/auth\/ \(dir\)/);
+  });
+
+  it('without transfer_claims the claims stay with the author', async () => {
+    await tool('dokoro_handoff_write').handler({ from_agent: 'a', summary: 's', root: '/work', refs: { claims: ['src/auth/'] } });
+    await tool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: 'b' });
+    const dir = db.prepare(`SELECT agent_id FROM file_claims WHERE claim_key = 'src/auth/'`).get();
+    expect(dir).toEqual({ agent_id: 'a' });
+  });
+});
@@ -4,6 +4,11 @@ import { jest } from '@jest/globals';
 jest.mock('../db/index.js', () => ({
   getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
 }));
+// handoff refs pull in plan-tools, whose chalk/ink output modules break the ts-jest CJS transform.
+jest.mock('../utils/render-output.js', () => ({
+  renderOutput: (data: unknown) => JSON.stringify(data),
+}));
+jest.mock('../utils/color-setup.js', () => ({}));
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const { handoffTools } = require('./handoff-tools.js') as typeof import('./handoff-tools.js');
@@ -32,7 +37,19 @@ describe('handoff-tools', () => {
         status TEXT NOT NULL DEFAULT 'open',
         claimed_by TEXT,
         created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
-        claimed_at TEXT
+        claimed_at TEXT,
+        expires_at TEXT,
+        ttl_seconds INTEGER,
+        completed_at TEXT,
+        refs_json TEXT
+      );
+      CREATE TABLE handoff_item_checks (
+        handoff_id INTEGER NOT NULL, item_index INTEGER NOT NULL, done_by TEXT NOT NULL,
+        done_at TEXT NOT NULL, note TEXT, PRIMARY KEY (handoff_id, item_index)
+      );
+      CREATE TABLE handoff_replies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, handoff_id INTEGER NOT NULL, agent_id TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'reply', body TEXT NOT NULL, created_at TEXT NOT NULL
       );
     `);
     (globalThis as Record<string, unknown>).__TEST_DB__ = db;
@@ -73,4 +90,65 @@ describe('handoff-tools', () => {
     const row = db.prepare('SELECT status, claimed_by FROM handoffs WHERE id=?').get(id) as { status: string; claimed_by: string };
     expect(row).toMatchObject({ status: 'claimed', claimed_by: 'b' });
   });
+
+  it('checkoff, complete and thread show which items were done and by whom', async () => {
+    await findTool('dokoro_handoff_write').handler({ from_agent: 'a', summary: 'auth', open_items: ['tests', 'docs', 'changelog'] });
+    await findTool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: 'b' });
+
+    const bad = await findTool('dokoro_handoff_checkoff').handler({ handoff_id: 1, agent_id: 'b', items: [4] });
+    expect(bad.isError).toBe(true);
+    const check = await findTool('dokoro_handoff_checkoff').handler({ handoff_id: 1, agent_id: 'b', items: [1, 3], note: 'green' });
+    expect(textOf(check)).toMatch(/2\/3 items done/);
+    await findTool('dokoro_handoff_checkoff').handler({ handoff_id: 1, agent_id: 'b', items: [3], undo: true });
+
+    const notMine = await findTool('dokoro_handoff_complete').handler({ handoff_id: 1, agent_id: 'c' });
+    expect(notMine.isError).toBe(true);
+    const done = await findTool('dokoro_handoff_complete').handler({ handoff_id: 1, agent_id: 'b', note: 'docs left for later' });
+    expect(textOf(done)).toMatch(/completed by b; 1\/3 items done \(unchecked: docs; changelog\)/);
+    await findTool('dokoro_handoff_reply').handler({ handoff_id: 1, agent_id: 'a', body: 'thanks' });
+
+    const thread = textOf(await findTool('dokoro_handoff_thread').handler({ handoff_id: 1 }));
+    expect(thread).toMatch(/#1 \[completed\]/);
+    expect(thread).toMatch(/1\. \[x\] tests — b at .*: green/);
+    expect(thread).toMatch(/2\. \[ \] docs/);
+    expect(thread).toMatch(/3\. \[ \] changelog/);
+    expect(thread).toMatch(/b \(complete\): docs left for later[\s\S]*a: thanks/);
+    expect(textOf(await findTool('dokoro_handoff_inbox').handler({}))).toBe('(no open handoffs)');
+  });
+
+  it('release returns a handoff to the pool with a reason; the target declining clears to_agent', async () => {
+    await findTool('dokoro_handoff_write').handler({ from_agent: 'a', summary: 'for b', to_agent: 'b' });
+    expect((await findTool('dokoro_handoff_release').handler({ handoff_id: 1, agent_id: 'b', reason: 'x' })).isError).toBe(true);
+    await findTool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: 'b' });
+    const res = await findTool('dokoro_handoff_release').handler({ handoff_id: 1, agent_id: 'b', reason: 'no time this week' });
+    expect(textOf(res)).toMatch(/declined/);
+    const row = db.prepare('SELECT status, claimed_by, to_agent FROM handoffs WHERE id=1').get();
+    expect(row).toEqual({ status: 'open', claimed_by: null, to_agent: null });
+    expect(textOf(await findTool('dokoro_handoff_inbox').handler({ agent_id: 'c' }))).toMatch(/for b/);
+    expect(textOf(await findTool('dokoro_handoff_thread').handler({ handoff_id: 1 }))).toMatch(/b \(release\): no time this week/);
+  });
+
+  it('release restarts the TTL so a handoff claimed past its deadline is open again, not expired', async () => {
+    await findTool('dokoro_handoff_write').handler({ from_agent: 'a', summary: 'slow pickup', ttl_seconds: 3600 });
+    const left = () => (db.prepare(`SELECT CAST(strftime('%s', expires_at) AS INTEGER) - CAST(strftime('%s','now') AS INTEGER) AS s
+      FROM handoffs WHERE id=1`).get() as { s: number }).s;
+    // Released twice, each time claimed past the deadline: the TTL never grows.
+    for (const agent of ['b', 'c']) {
+      await findTool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: agent });
+      db.prepare(`UPDATE handoffs SET created_at = '2000-01-01T00:00:00Z', expires_at = '2000-01-01T01:00:00Z'`).run();
+      await findTool('dokoro_handoff_release').handler({ handoff_id: 1, agent_id: agent, reason: 'blocked' });
+      expect(textOf(await findTool('dokoro_handoff_inbox').handler({}))).toMatch(/slow pickup/);
+      expect(left()).toBeGreaterThan(3590);
+      expect(left()).toBeLessThanOrEqual(3600);
+    }
+  });
+
+  it('an unclaimed handoff expires after its TTL and can no longer be claimed', async () => {
+    await findTool('dokoro_handoff_write').handler({ from_agent: 'a', summary: 'short-lived', ttl_seconds: 60 });
+    db.prepare(`UPDATE handoffs SET expires_at = '2000-01-01T00:00:00Z'`).run();
+    expect(textOf(await findTool('dokoro_handoff_inbox').handler({}))).toBe('(no open handoffs)');
+    const claim = await findTool('dokoro_handoff_claim').handler({ handoff_id: 1, agent_id: 'b' });
+    expect(textOf(claim)).toMatch(/not open \(expired\)/);
+    expect((db.prepare('SELECT status FROM handoffs WHERE id=1').get() as { status: string }).status).toBe('expired');
+  });
 });
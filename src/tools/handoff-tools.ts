@@ -4,12 +4,35 @@
  * An agent records a handoff for the next agent/session (summary + open items);
  * another agent reads the inbox and CLAIMS one (status open->claimed) so two agents
  * don't both pick it up. Per-project only; no global/cross-project store.
+ *
+ * Lifecycle: open -> claimed -> completed, or claimed -> open again when the
+ * claimer releases it with a reason (a targeted handoff released by its to_agent
+ * goes back to the general pool). An open handoff written with ttl_seconds turns
+ * 'expired' once expires_at passes — applied lazily whenever a handoff tool runs.
+ * The TTL itself is kept in ttl_seconds: returning a handoff to the pool
+ * (dokoro_handoff_release, or the presence reaper for a vanished claimer)
+ * restarts it from that moment, so time spent claimed does not count against
+ * the next claimer.
+ * Open items can be checked off one by one (handoff_item_checks records who and
+ * when), and every handoff has a reply thread (handoff_replies) that also records
+ * release and completion events, so the author can see what was actually done.
+ *
+ * A handoff can also carry structured references (refs_json) to the working
+ * context: plans and plan items (.mcp/plans), open questions (questions.json),
+ * entity ids and the author's file claims. References are checked when the
+ * handoff is written; claiming with transfer_claims:true moves the referenced
+ * claims to the claiming agent in the same transaction as the claim.
  */
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
 import { ToolDefinition } from './registry.js';
 import { getSqliteDb } from '../db/index.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+import { notifyResourceChanged, HANDOFFS_OPEN_URI } from '../utils/resource-events.js';
+import { loadPlanWithLocation } from './plan-tools.js';
+import { loadQuestions } from './question-tools.js';
+import { resolveHeldClaims, transferClaims, type ClaimRef } from './file-claim-tools.js';
+import { reopenHandoff } from '../services/handoff-lifecycle.js';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -23,6 +46,184 @@ function db(): Database.Database {
 }
 
 const NOW = `strftime('%Y-%m-%dT%H:%M:%SZ','now')`;
+/** Longest handoff TTL: 30 days. */
+const MAX_TTL_SECONDS = 30 * 86400;
+
+interface HandoffRow {
+  id: number;
+  from_agent: string;
+  to_agent: string | null;
+  session_id: string | null;
+  summary: string;
+  open_items_json: string | null;
+  status: 'open' | 'claimed' | 'completed' | 'expired';
+  claimed_by: string | null;
+  created_at: string;
+  claimed_at: string | null;
+  expires_at: string | null;
+  completed_at: string | null;
+  refs_json: string | null;
+}
+
+/** Stored form of a handoff's references (handoffs.refs_json). */
+interface HandoffRefs {
+  plans?: Array<{ plan_id: string; item_ids?: string[] }>;
+  questions?: string[];
+  entities?: number[];
+  claims?: ClaimRef[];
+}
+
+/** refs as accepted by dokoro_handoff_write: claims are paths, resolved to the author's claims. */
+interface HandoffRefsInput {
+  plans?: Array<{ plan_id: string; item_ids?: string[] }>;
+  questions?: string[];
+  entities?: number[];
+  claims?: string[];
+}
+
+interface ItemCheck {
+  item_index: number;
+  done_by: string;
+  done_at: string;
+  note: string | null;
+}
+
+function ok(text: string) {
+  return { content: [{ type: 'text' as const, text }] };
+}
+function fail(text: string) {
+  return { isError: true, content: [{ type: 'text' as const, text }] };
+}
+
+/** Mark open handoffs whose TTL has passed as 'expired'. Returns how many changed. */
+function expireHandoffs(sqlite: Database.Database): number {
+  const n = sqlite.prepare(
+    `UPDATE handoffs SET status = 'expired' WHERE status = 'open' AND expires_at IS NOT NULL AND expires_at <= ${NOW}`,
+  ).run().changes;
+  if (n > 0) notifyResourceChanged(HANDOFFS_OPEN_URI);
+  return n;
+}
+
+function openItems(row: Pick<HandoffRow, 'open_items_json'>): string[] {
+  return row.open_items_json ? (JSON.parse(row.open_items_json) as string[]) : [];
+}
+
+function itemChecks(sqlite: Database.Database, handoffId: number): Map<number, ItemCheck> {
+  const rows = sqlite.prepare('SELECT item_index, done_by, done_at, note FROM handoff_item_checks WHERE handoff_id = ?')
+    .all(handoffId) as ItemCheck[];
+  return new Map(rows.map((r) => [r.item_index, r]));
+}
+
+/** "2/3 items done" style progress for a handoff with open items, '' otherwise. */
+function progress(items: string[], checks: Map<number, ItemCheck>): string {
+  return items.length ? `${items.filter((_, i) => checks.has(i)).length}/${items.length} items done` : '';
+}
+
+function addReply(sqlite: Database.Database, handoffId: number, agentId: string, kind: string, body: string): void {
+  sqlite.prepare(`INSERT INTO handoff_replies (handoff_id, agent_id, kind, body, created_at) VALUES (?, ?, ?, ?, ${NOW})`)
+    .run(handoffId, agentId, kind, body);
+}
+
+function getHandoff(sqlite: Database.Database, id: number): HandoffRow | undefined {
+  return sqlite.prepare('SELECT * FROM handoffs WHERE id = ?').get(id) as HandoffRow | undefined;
+}
+
+function parseRefs(row: Pick<HandoffRow, 'refs_json'>): HandoffRefs {
+  return row.refs_json ? (JSON.parse(row.refs_json) as HandoffRefs) : {};
+}
+
+/**
+ * Check every reference against the current project and resolve claim paths
+ * to the author's open claims. Returns the stored form, or the list of
+ * problems when anything does not resolve (the handoff is then not written).
+ */
+async function resolveRefs(
+  sqlite: Database.Database,
+  fromAgent: string,
+  input: HandoffRefsInput,
+  root: string,
+): Promise<{ refs: HandoffRefs; errors: string[] }> {
+  const refs: HandoffRefs = {};
+  const errors: string[] = [];
+
+  if (input.plans?.length) {
+    for (const p of input.plans) {
+      const located = await loadPlanWithLocation(p.plan_id);
+      if (!located) { errors.push(`plan ${p.plan_id}: not found`); continue; }
+      const known = new Set(located.plan.items.map((i) => i.id));
+      const missing = (p.item_ids ?? []).filter((id) => !known.has(id));
+      if (missing.length) errors.push(`plan ${p.plan_id}: no item ${missing.join(', ')}`);
+    }
+    refs.plans = input.plans;
+  }
+  if (input.questions?.length) {
+    const byId = new Map((await loadQuestions()).map((q) => [q.id, q]));
+    for (const id of input.questions) {
+      const q = byId.get(id);
+      if (!q) errors.push(`question ${id}: not found`);
+      else if (q.status !== 'open') errors.push(`question ${id}: already answered`);
+    }
+    refs.questions = input.questions;
+  }
+  if (input.entities?.length) {
+    const exists = sqlite.prepare('SELECT 1 FROM entities WHERE id = ?');
+    for (const id of input.entities) if (!exists.get(id)) errors.push(`entity #${id}: not found`);
+    refs.entities = input.entities;
+  }
+  if (input.claims?.length) {
+    const held = resolveHeldClaims(sqlite, fromAgent, input.claims, root);
+    errors.push(...held.errors.map((e) => `claim ${e}`));
+    refs.claims = held.refs;
+  }
+  return { refs, errors };
+}
+
+/** One-line count of a handoff's references for the inbox, '' when it has none. */
+function refsSummary(refs: HandoffRefs): string {
+  const parts: string[] = [];
+  if (refs.plans?.length) parts.push(`${refs.plans.length} plan(s)`);
+  if (refs.questions?.length) parts.push(`${refs.questions.length} question(s)`);
+  if (refs.entities?.length) parts.push(`${refs.entities.length} entit${refs.entities.length === 1 ? 'y' : 'ies'}`);
+  if (refs.claims?.length) parts.push(`${refs.claims.length} claim(s)`);
+  return parts.join(', ');
+}
+
+/**
+ * The referenced context spelled out: plan titles and item texts, question
+ * texts, entity names and claimed paths. References that no longer resolve
+ * (plan deleted, question file edited) are shown as such rather than failing.
+ */
+async function describeRefs(sqlite: Database.Database, refs: HandoffRefs): Promise<string[]> {
+  const lines: string[] = [];
+  for (const p of refs.plans ?? []) {
+    const located = await loadPlanWithLocation(p.plan_id);
+    if (!located) { lines.push(`  plan ${p.plan_id} (missing)`); continue; }
+    const { plan } = located;
+    lines.push(`  plan ${plan.id}: ${plan.title} [${plan.status}, ${plan.completion_percentage}%]${located.archived ? ' (archived)' : ''}`);
+    for (const itemId of p.item_ids ?? []) {
+      const item = plan.items.find((i) => i.id === itemId);
+      lines.push(item ? `    - [${item.completed ? 'x' : ' '}] ${item.id}: ${item.text}` : `    - ${itemId} (missing)`);
+    }
+  }
+  if (refs.questions?.length) {
+    const byId = new Map((await loadQuestions()).map((q) => [q.id, q]));
+    for (const id of refs.questions) {
+      const q = byId.get(id);
+      lines.push(q ? `  question ${id} [${q.status}, ${q.priority}]: ${q.question}` : `  question ${id} (missing)`);
+    }
+  }
+  if (refs.entities?.length) {
+    const entity = sqlite.prepare('SELECT type, name FROM entities WHERE id = ?');
+    for (const id of refs.entities) {
+      const e = entity.get(id) as { type: string; name: string } | undefined;
+      lines.push(e ? `  entity #${id}: ${e.name} (${e.type})` : `  entity #${id} (missing)`);
+    }
+  }
+  for (const c of refs.claims ?? []) {
+    lines.push(`  claim ${c.path}${c.kind === 'file' ? '' : ` (${c.kind})`}`);
+  }
+  return lines;
+}
 
 export const handoffTools: ToolDefinition[] = [
   {
@@ -30,25 +231,58 @@ export const handoffTools: ToolDefinition[] = [
     title: 'Write a cross-session handoff',
     description:
       'Record a handoff for the next agent/session in the current project: a summary and a list of open items. ' +
-      'Optionally target a specific to_agent; otherwise any agent can claim it. Read later with dokoro_handoff_inbox. Scoped to the current project only.',
+      'Optionally target a specific to_agent; otherwise any agent can claim it. With ttl_seconds, the handoff expires if nobody ' +
+      'claims it in time. refs attaches the working context — plan/item ids, open question ids, entity ids and your own open file claims; ' +
+      'every reference must resolve or nothing is written. Read later with dokoro_handoff_inbox; follow progress with dokoro_handoff_thread. ' +
+      'Scoped to the current project only.',
     inputSchema: {
       from_agent: z.string(),
       summary: z.string(),
       open_items: z.array(z.string()).optional(),
       to_agent: z.string().optional(),
       session_id: z.string().optional(),
+      ttl_seconds: z.number().int().positive().max(MAX_TTL_SECONDS).optional()
+        .describe('Expire the handoff if it is still unclaimed after this many seconds (default: never).'),
+      refs: z.object({
+        plans: z.array(z.object({
+          plan_id: z.string(),
+          item_ids: z.array(z.string()).optional().describe('Specific plan items this handoff is about.'),
+        })).optional(),
+        questions: z.array(z.string()).optional().describe('Open question ids (dokoro_question_list).'),
+        entities: z.array(z.number().int().positive()).optional().describe('Entity ids from the knowledge graph.'),
+        claims: z.array(z.string()).optional()
+          .describe('Paths of your open file claims (as claimed: files, "dir/" or globs) the next agent should take over.'),
+      }).optional().describe('Structured working context of the handoff.'),
+      root: z.string().optional().describe('Workspace root for refs.claims paths (defaults to the server process cwd).'),
     },
     handler: async (args) => {
       try {
-        const a = args as { from_agent: string; summary: string; open_items?: string[]; to_agent?: string; session_id?: string };
-        const info = db().prepare(
-          `INSERT INTO handoffs (from_agent, to_agent, session_id, summary, open_items_json, status, created_at)
-           VALUES (?, ?, ?, ?, ?, 'open', ${NOW})`,
-        ).run(a.from_agent, a.to_agent ?? null, a.session_id ?? null, a.summary, a.open_items ? JSON.stringify(a.open_items) : null);
-        return { content: [{ type: 'text' as const, text: `handoff #${info.lastInsertRowid} recorded by ${a.from_agent}` }] };
+        const a = args as {
+          from_agent: string; summary: string; open_items?: string[]; to_agent?: string; session_id?: string;
+          ttl_seconds?: number; refs?: HandoffRefsInput; root?: string;
+        };
+        const sqlite = db();
+        let refs: HandoffRefs | null = null;
+        if (a.refs) {
+          const resolved = await resolveRefs(sqlite, a.from_agent, a.refs, a.root ?? process.cwd());
+          if (resolved.errors.length) return fail(`handoff not recorded — unresolved refs:\n${resolved.errors.map((e) => `- ${e}`).join('\n')}`);
+          if (refsSummary(resolved.refs)) refs = resolved.refs;
+        }
+        const expires = a.ttl_seconds ? `strftime('%Y-%m-%dT%H:%M:%SZ','now','+${a.ttl_seconds} seconds')` : 'NULL';
+        const info = sqlite.prepare(
+          `INSERT INTO handoffs (from_agent, to_agent, session_id, summary, open_items_json, status, created_at, expires_at, ttl_seconds, refs_json)
+           VALUES (?, ?, ?, ?, ?, 'open', ${NOW}, ${expires}, ?, ?)`,
+        ).run(
+          a.from_agent, a.to_agent ?? null, a.session_id ?? null, a.summary,
+          a.open_items ? JSON.stringify(a.open_items) : null, a.ttl_seconds ?? null, refs ? JSON.stringify(refs) : null,
+        );
+        notifyResourceChanged(HANDOFFS_OPEN_URI);
+        const ttl = a.ttl_seconds ? ` (expires in ${a.ttl_seconds}s unless claimed)` : '';
+        const withRefs = refs ? ` with ${refsSummary(refs)}` : '';
+        return ok(`handoff #${info.lastInsertRowid} recorded by ${a.from_agent}${withRefs}${ttl}`);
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
-        return { isError: true, content: [{ type: 'text' as const, text: `handoff_write failed: ${msg}` }] };
+        return fail(`handoff_write failed: ${msg}`);
       }
     },
   },
@@ -63,47 +297,267 @@ export const handoffTools: ToolDefinition[] = [
     handler: async (args) => {
       try {
         const a = args as { agent_id?: string; limit?: number };
+        const sqlite = db();
+        expireHandoffs(sqlite);
         const where = ["status = 'open'"];
         const params: unknown[] = [];
         if (a.agent_id) { where.push('(to_agent IS NULL OR to_agent = ?)'); params.push(a.agent_id); }
-        const rows = db().prepare(
-          `SELECT id, from_agent, to_agent, summary, open_items_json, created_at
-           FROM handoffs WHERE ${where.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT ?`,
-        ).all(...params, a.limit ?? 20) as Array<{ id: number; from_agent: string; to_agent: string | null; summary: string; open_items_json: string | null; created_at: string }>;
-        if (rows.length === 0) return { content: [{ type: 'text' as const, text: '(no open handoffs)' }] };
+        const rows = sqlite.prepare(
+          `SELECT * FROM handoffs WHERE ${where.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT ?`,
+        ).all(...params, a.limit ?? 20) as HandoffRow[];
+        if (rows.length === 0) return ok('(no open handoffs)');
         const lines = rows.map((r) => {
-          const items = r.open_items_json ? ` | open: ${(JSON.parse(r.open_items_json) as string[]).join('; ')}` : '';
+          const all = openItems(r);
+          const checks = itemChecks(sqlite, r.id);
+          const remaining = all.filter((_, i) => !checks.has(i));
+          const items = remaining.length ? ` | open: ${remaining.join('; ')}` : '';
+          const done = checks.size ? ` (${progress(all, checks)})` : '';
           const to = r.to_agent ? ` -> ${r.to_agent}` : '';
-          return `#${r.id} [${r.created_at}] from ${r.from_agent}${to}: ${r.summary}${items}`;
+          const expires = r.expires_at ? ` [expires ${r.expires_at}]` : '';
+          const refs = refsSummary(parseRefs(r));
+          return `#${r.id} [${r.created_at}] from ${r.from_agent}${to}: ${r.summary}${items}${done}${refs ? ` | refs: ${refs}` : ''}${expires}`;
         });
-        return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+        return ok(lines.join('\n'));
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
-        return { isError: true, content: [{ type: 'text' as const, text: `handoff_inbox failed: ${msg}` }] };
+        return fail(`handoff_inbox failed: ${msg}`);
       }
     },
   },
   {
     name: 'dokoro_handoff_claim',
     title: 'Claim a cross-session handoff',
-    description: 'Atomically claim an OPEN handoff by id for the current project (status open->claimed). Fails if it was already claimed, so two agents never both take the same handoff.',
+    description:
+      'Atomically claim an OPEN handoff by id for the current project (status open->claimed). Fails if it was already claimed, completed or expired, ' +
+      'so two agents never both take the same handoff. The response spells out the referenced plans, questions, entities and claims; ' +
+      'transfer_claims:true also moves the referenced file claims the author still holds to you, in the same transaction.',
+    inputSchema: {
+      handoff_id: z.number().int().positive(),
+      agent_id: z.string(),
+      session_id: z.string().optional().describe('Your session, recorded on transferred claims.'),
+      transfer_claims: z.boolean().optional()
+        .describe('Take over the file claims referenced by the handoff (default false).'),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { handoff_id: number; agent_id: string; session_id?: string; transfer_claims?: boolean };
+        const sqlite = db();
+        expireHandoffs(sqlite);
+        const claimed = sqlite.transaction(() => {
+          // Atomic claim: only succeeds while still open.
+          const info = sqlite.prepare(`UPDATE handoffs SET status='claimed', claimed_by=?, claimed_at=${NOW} WHERE id=? AND status='open'`)
+            .run(a.agent_id, a.handoff_id);
+          if (info.changes !== 1) return null;
+          const row = getHandoff(sqlite, a.handoff_id)!;
+          const claims = parseRefs(row).claims ?? [];
+          const transfers = a.transfer_claims && claims.length
+            ? transferClaims(sqlite, claims, row.from_agent, a.agent_id, a.session_id ?? null)
+            : [];
+          return { row, transfers };
+        }).immediate();
+        if (!claimed) {
+          const status = getHandoff(sqlite, a.handoff_id)?.status ?? 'missing';
+          return fail(`handoff #${a.handoff_id} is not open (${status === 'claimed' ? 'already claimed' : status})`);
+        }
+        notifyResourceChanged(HANDOFFS_OPEN_URI);
+        const lines = [`handoff #${a.handoff_id} claimed by ${a.agent_id}`];
+        const context = await describeRefs(sqlite, parseRefs(claimed.row));
+        if (context.length) lines.push('', 'Context:', ...context);
+        if (claimed.transfers.length) {
+          lines.push('', 'Claims:');
+          for (const t of claimed.transfers) {
+            lines.push(`  ${t.path}: ${t.transferred ? `transferred from ${claimed.row.from_agent}` : `not transferred (${t.reason})`}`);
+          }
+        }
+        return ok(lines.join('\n'));
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return fail(`handoff_claim failed: ${msg}`);
+      }
+    },
+  },
+  {
+    name: 'dokoro_handoff_complete',
+    title: 'Complete a claimed handoff',
+    description:
+      'Mark a handoff you claimed as done (status claimed->completed), with an optional note for the author. ' +
+      'Open items you did not check off stay unchecked, so the author sees exactly what was finished.',
+    inputSchema: {
+      handoff_id: z.number().int().positive(),
+      agent_id: z.string(),
+      note: z.string().optional(),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { handoff_id: number; agent_id: string; note?: string };
+        const sqlite = db();
+        const row = sqlite.transaction(() => {
+          const info = sqlite.prepare(
+            `UPDATE handoffs SET status='completed', completed_at=${NOW} WHERE id=? AND status='claimed' AND claimed_by=?`,
+          ).run(a.handoff_id, a.agent_id);
+          if (info.changes !== 1) return null;
+          addReply(sqlite, a.handoff_id, a.agent_id, 'complete', a.note ?? 'completed');
+          return getHandoff(sqlite, a.handoff_id)!;
+        }).immediate();
+        if (!row) return fail(`handoff #${a.handoff_id} is not claimed by ${a.agent_id}`);
+        const items = openItems(row);
+        const checks = itemChecks(sqlite, row.id);
+        const left = items.filter((_, i) => !checks.has(i));
+        const done = items.length ? `; ${progress(items, checks)}` : '';
+        const unchecked = left.length ? ` (unchecked: ${left.join('; ')})` : '';
+        return ok(`handoff #${row.id} completed by ${a.agent_id}${done}${unchecked}`);
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return fail(`handoff_complete failed: ${msg}`);
+      }
+    },
+  },
+  {
+    name: 'dokoro_handoff_release',
+    title: 'Return a claimed handoff to the pool',
+    description:
+      'Give up a handoff you claimed (status claimed->open) with a reason recorded in its thread. If the handoff was ' +
+      'targeted at you, releasing it declines it: to_agent is cleared so any agent can claim it. Checked-off items stay checked. ' +
+      'A handoff written with ttl_seconds gets its full TTL again from the release.',
+    inputSchema: {
+      handoff_id: z.number().int().positive(),
+      agent_id: z.string(),
+      reason: z.string().min(1),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { handoff_id: number; agent_id: string; reason: string };
+        const sqlite = db();
+        const declined = sqlite.transaction(() => {
+          const row = getHandoff(sqlite, a.handoff_id);
+          if (!row || row.status !== 'claimed' || row.claimed_by !== a.agent_id) return null;
+          const decline = row.to_agent === a.agent_id;
+          reopenHandoff(sqlite, a.handoff_id, decline);
+          addReply(sqlite, a.handoff_id, a.agent_id, 'release', a.reason);
+          return { decline };
+        }).immediate();
+        if (!declined) return fail(`handoff #${a.handoff_id} is not claimed by ${a.agent_id}`);
+        notifyResourceChanged(HANDOFFS_OPEN_URI);
+        const to = declined.decline ? ' (declined; now open to any agent)' : '';
+        return ok(`handoff #${a.handoff_id} released by ${a.agent_id}${to}: ${a.reason}`);
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return fail(`handoff_release failed: ${msg}`);
+      }
+    },
+  },
+  {
+    name: 'dokoro_handoff_checkoff',
+    title: 'Check off open items of a handoff',
+    description:
+      'Mark open items of a handoff as done (1-based item numbers, as listed by dokoro_handoff_thread), recording who did them. ' +
+      'undo:true unchecks them. Not allowed on expired handoffs.',
     inputSchema: {
       handoff_id: z.number().int().positive(),
       agent_id: z.string(),
+      items: z.array(z.number().int().positive()).min(1),
+      note: z.string().optional(),
+      undo: z.boolean().optional(),
     },
     handler: async (args) => {
       try {
-        const a = args as { handoff_id: number; agent_id: string };
-        // Atomic claim: only succeeds while still open.
-        const info = db().prepare(`UPDATE handoffs SET status='claimed', claimed_by=?, claimed_at=${NOW} WHERE id=? AND status='open'`)
-          .run(a.agent_id, a.handoff_id);
-        if (info.changes !== 1) {
-          return { isError: true, content: [{ type: 'text' as const, text: `handoff #${a.handoff_id} is not open (already claimed or missing)` }] };
+        const a = args as { handoff_id: number; agent_id: string; items: number[]; note?: string; undo?: boolean };
+        const sqlite = db();
+        expireHandoffs(sqlite);
+        const row = getHandoff(sqlite, a.handoff_id);
+        if (!row) return fail(`handoff #${a.handoff_id} not found`);
+        if (row.status === 'expired') return fail(`handoff #${a.handoff_id} has expired`);
+        const items = openItems(row);
+        const invalid = a.items.filter((n) => n > items.length);
+        if (invalid.length) {
+          return fail(`handoff #${row.id} has ${items.length} open item(s); no item ${invalid.join(', ')}`);
+        }
+        sqlite.transaction(() => {
+          const check = sqlite.prepare(`
+            INSERT INTO handoff_item_checks (handoff_id, item_index, done_by, done_at, note) VALUES (?, ?, ?, ${NOW}, ?)
+            ON CONFLICT(handoff_id, item_index) DO UPDATE SET done_by = excluded.done_by, done_at = excluded.done_at, note = excluded.note
+          `);
+          const uncheck = sqlite.prepare('DELETE FROM handoff_item_checks WHERE handoff_id = ? AND item_index = ?');
+          for (const n of a.items) {
+            if (a.undo) uncheck.run(row.id, n - 1);
+            else check.run(row.id, n - 1, a.agent_id, a.note ?? null);
+          }
+        }).immediate();
+        const verb = a.undo ? 'unchecked' : 'checked off';
+        return ok(`handoff #${row.id}: ${verb} item ${a.items.join(', ')} (${progress(items, itemChecks(sqlite, row.id))})`);
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return fail(`handoff_checkoff failed: ${msg}`);
+      }
+    },
+  },
+  {
+    name: 'dokoro_handoff_reply',
+    title: 'Reply to a handoff',
+    description: 'Add a message to a handoff\'s thread — a question for the author, a progress note, an answer. Any agent, any status.',
+    inputSchema: {
+      handoff_id: z.number().int().positive(),
+      agent_id: z.string(),
+      body: z.string().min(1),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { handoff_id: number; agent_id: string; body: string };
+        const sqlite = db();
+        if (!getHandoff(sqlite, a.handoff_id)) return fail(`handoff #${a.handoff_id} not found`);
+        addReply(sqlite, a.handoff_id, a.agent_id, 'reply', a.body);
+        return ok(`reply added to handoff #${a.handoff_id} by ${a.agent_id}`);
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return fail(`handoff_reply failed: ${msg}`);
+      }
+    },
+  },
+  {
+    name: 'dokoro_handoff_thread',
+    title: 'Show a handoff with its items and thread',
+    description:
+      'Show one handoff in any status: who claimed or completed it, each open item with who checked it off, ' +
+      'and the reply thread including release and completion events.',
+    inputSchema: {
+      handoff_id: z.number().int().positive(),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { handoff_id: number };
+        const sqlite = db();
+        expireHandoffs(sqlite);
+        const row = getHandoff(sqlite, a.handoff_id);
+        if (!row) return fail(`handoff #${a.handoff_id} not found`);
+        const items = openItems(row);
+        const checks = itemChecks(sqlite, row.id);
+        const replies = sqlite.prepare(
+          'SELECT agent_id, kind, body, created_at FROM handoff_replies WHERE handoff_id = ? ORDER BY id',
+        ).all(row.id) as Array<{ agent_id: string; kind: string; body: string; created_at: string }>;
+
+        const lines = [`#${row.id} [${row.status}] from ${row.from_agent}${row.to_agent ? ` -> ${row.to_agent}` : ''}: ${row.summary}`];
+        lines.push(`created ${row.created_at}${row.expires_at ? `, expires ${row.expires_at}` : ''}`);
+        if (row.claimed_by) lines.push(`claimed by ${row.claimed_by} at ${row.claimed_at}`);
+        if (row.completed_at) lines.push(`completed at ${row.completed_at}`);
+        const context = await describeRefs(sqlite, parseRefs(row));
+        if (context.length) lines.push('', 'Context:', ...context);
+        if (items.length) {
+          lines.push('', `Items (${progress(items, checks)}):`);
+          items.forEach((item, i) => {
+            const c = checks.get(i);
+            const by = c ? ` — ${c.done_by} at ${c.done_at}${c.note ? `: ${c.note}` : ''}` : '';
+            lines.push(`  ${i + 1}. [${c ? 'x' : ' '}] ${item}${by}`);
+          });
+        }
+        lines.push('', replies.length ? 'Thread:' : 'Thread: (no replies)');
+        for (const r of replies) {
+          const tag = r.kind === 'reply' ? '' : ` (${r.kind})`;
+          lines.push(`  [${r.created_at}] ${r.agent_id}${tag}: ${r.body}`);
         }
-        return { content: [{ type: 'text' as const, text: `handoff #${a.handoff_id} claimed by ${a.agent_id}` }] };
+        return ok(lines.join('\n'));
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
-        return { isError: true, content: [{ type: 'text' as const, text: `handoff_claim failed: ${msg}` }] };
+        return fail(`handoff_thread failed: ${msg}`);
       }
     },
   },
@@ -2,7 +2,8 @@
  * LanceDB Semantic Search Tools
  *
  * Pure TypeScript LanceDB implementation — the committed vector backend.
- * Uses Ollama nomic-embed-text for embeddings and hybrid FTS5+vector search.
+ * Embeds with the project's configured provider (Ollama nomic-embed-text by
+ * default, see embedding-providers.ts) and runs hybrid FTS5+vector search.
  */
 
 import { z } from 'zod';
@@ -11,7 +12,10 @@ import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { icon } from '../utils/icons.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
 import { getSqliteDb, ensureVectorTables } from '../db/index.js';
-import { createVectorServices, type SearchResult } from '../services/vector-service.js';
+import {
+  createVectorServices, type RerankReport, type SearchFacets, type SearchFilters, type SearchResult,
+} from '../services/vector-service.js';
+import { formatFederationErrors, openFederatedDbs } from '../services/federation.js';
 import * as path from 'node:path';
 
 // Lazy-init singleton for vector services
@@ -27,23 +31,37 @@ function getVectorServices() {
   return vectorServicesInstance;
 }
 
+// Read-only search services for federated sibling projects, keyed by dokoro path.
+const siblingSearchServices = new Map<string, ReturnType<typeof createVectorServices>['searchService']>();
+
+function getSiblingSearchService(dokoroPath: string, sqlite: ReturnType<typeof getSqliteDb>) {
+  let service = siblingSearchServices.get(dokoroPath);
+  if (!service) {
+    service = createVectorServices(sqlite, dokoroPath).searchService;
+    siblingSearchServices.set(dokoroPath, service);
+  }
+  return service;
+}
+
 function getSqlite() {
   const projectPath = path.dirname(DOKORO_PATH);
   return getSqliteDb({ projectPath, dokoroFolder: path.basename(DOKORO_PATH) });
 }
 
-function formatSearchResult(r: SearchResult, i: number): string {
+function formatSearchResult(r: SearchResult & { project?: string }, i: number): string {
   const sourceIcon = r.source === 'hybrid' ? icon('sparkle') :
     r.source === 'semantic' ? icon('database') : icon('tag');
 
   const lines = [
-    `${icon('file')} **${i + 1}. ${r.title || r.docId}**`,
+    `${icon('file')} **${i + 1}. ${r.project ? `[${r.project}] ` : ''}${r.title || r.docId}**`,
     `   ${sourceIcon} Source: ${r.source} | Score: ${r.score.toFixed(4)}`,
-    `   ${icon('chart')} FTS: ${r.scores.fts.toFixed(3)} | Vector: ${r.scores.vector.toFixed(3)}`,
+    `   ${icon('chart')} FTS: ${r.scores.fts.toFixed(3)} | Vector: ${r.scores.vector.toFixed(3)}${
+      r.scores.rerank !== undefined ? ` | Rerank: ${r.scores.rerank.toFixed(3)}` : ''}`,
   ];
 
   if (r.filepath) {
-    lines.push(`   ${icon('folder')} ${r.filepath}`);
+    const { startLine, endLine } = r.highlight;
+    lines.push(`   ${icon('folder')} ${r.filepath}:${startLine}${endLine > startLine ? `-${endLine}` : ''}`);
   }
 
   if (r.tags && r.tags.length > 0) {
@@ -55,39 +73,134 @@ function formatSearchResult(r: SearchResult, i: number): string {
     lines.push(`   ${icon('chevronRight')} ${excerpt}`);
   }
 
+  const matches = r.highlight.matches ?? [];
+  if (matches.length > 0) {
+    const shown = matches.slice(0, 5).map((m) => `${m.start}-${m.end}`).join(', ');
+    lines.push(`   ${icon('search')} Matches at chars ${shown}${matches.length > 5 ? ` (+${matches.length - 5} more)` : ''}`);
+  }
+
   return lines.join('\n');
 }
 
+/** Sum per-project facet counts (federated search). */
+function mergeFacets(all: SearchFacets[]): SearchFacets {
+  const merged: SearchFacets = { docType: {}, status: {}, tags: {} };
+  for (const f of all) {
+    for (const key of ['docType', 'status', 'tags'] as const) {
+      for (const [value, n] of Object.entries(f[key])) merged[key][value] = (merged[key][value] ?? 0) + n;
+    }
+  }
+  return merged;
+}
+
+function formatRerank(reports: RerankReport[]): string {
+  if (reports.length === 0) return '';
+  const notes = reports.map((r) => r.applied
+    ? `re-ranked ${r.candidates} candidates with ${r.model} in ${r.ms}ms`
+    : `re-rank with ${r.model} skipped (${r.reason}); RRF order kept`);
+  return `\n\n${icon('info')} ${[...new Set(notes)].join('; ')}`;
+}
+
+function formatFacets(facets: SearchFacets, matched: number): string {
+  const line = (label: string, counts: Record<string, number>) => {
+    const entries = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return entries.length > 0 ? `   ${label}: ${entries.map(([v, n]) => `${v} (${n})`).join(', ')}` : null;
+  };
+  return [
+    `${icon('chart')} **Facets** (${matched} matching docs):`,
+    line('type', facets.docType),
+    line('status', facets.status),
+    line('tags', facets.tags),
+  ].filter(Boolean).join('\n');
+}
+
 export const lancedbTools: ToolDefinition[] = [
   {
     name: 'search_universal',
     title: 'Universal Semantic Search',
-    description: 'Hybrid semantic + keyword search across all indexed dokoro content using LanceDB vectors and FTS5. Returns results ranked by Reciprocal Rank Fusion.',
+    description: 'Hybrid semantic + keyword search across all indexed dokoro content using LanceDB vectors and FTS5. Returns results ranked by Reciprocal Rank Fusion. ' +
+      'Filters (doc_types, statuses, priorities, tags, since/until on updated_at) apply before ranking, in both the keyword and vector search; ' +
+      'facet counts per type, status and tag are listed after the results. ' +
+      'With a reranker configured (rerank.json), the top candidates are re-scored jointly with the query within a latency budget, falling back to RRF order. ' +
+      'federated=true also searches the sibling projects listed in federation.json (read-only) and labels each result with its project.',
     inputSchema: {
       query: z.string().describe('Search query (natural language or keywords)'),
       limit: z.number().default(10).describe('Number of results to return'),
+      doc_types: z.array(z.string()).optional().describe('Only these doc types (e.g. issue, prd, research)'),
+      statuses: z.array(z.string()).optional().describe('Only these statuses (e.g. active, backlog)'),
+      priorities: z.array(z.string()).optional().describe('Only these priorities (low, medium, high, urgent)'),
+      tags: z.array(z.string()).optional().describe('Only docs carrying all of these tags'),
+      since: z.string().optional().describe('Only docs updated at or after this ISO date/time'),
+      until: z.string().optional().describe('Only docs updated at or before this ISO date/time (a bare date includes the whole day)'),
+      facets: z.boolean().default(true).describe('List facet counts (type, status, tags) over all matches'),
+      rerank: z.boolean().default(true).describe('Re-rank the top candidates with the configured model (rerank.json); no-op when none is configured'),
+      federated: z.boolean().optional().describe('Also search federated sibling projects (see federation.json)'),
+      projects: z.array(z.string()).optional().describe('With federated: only these projects (default all, including this one)'),
     },
-    handler: async (args: { query: string; limit?: number }): Promise<CallToolResult> => {
-      const { query, limit = 10 } = args;
+    handler: async (args: {
+      query: string; limit?: number; doc_types?: string[]; statuses?: string[]; priorities?: string[]; tags?: string[];
+      since?: string; until?: string; facets?: boolean; rerank?: boolean; federated?: boolean; projects?: string[];
+    }): Promise<CallToolResult> => {
+      const { query, limit = 10, facets: showFacets = true } = args;
+      const options = { rerank: args.rerank ?? true };
+      const filters: SearchFilters = {
+        docTypes: args.doc_types, statuses: args.statuses, priorities: args.priorities,
+        tags: args.tags, since: args.since, until: args.until,
+      };
       try {
-        const { searchService } = getVectorServices();
-        const results = await searchService.search(query, limit);
+        let results: Array<SearchResult & { project?: string }>;
+        let facets: SearchFacets;
+        let matched: number;
+        const rerankReports: RerankReport[] = [];
+        let federationNote = '';
+        if (args.federated) {
+          const { dbs, errors } = openFederatedDbs(getSqlite(), { projects: args.projects });
+          results = [];
+          const projectFacets: SearchFacets[] = [];
+          matched = 0;
+          for (const p of dbs) {
+            try {
+              const service = p.local ? getVectorServices().searchService : getSiblingSearchService(p.dokoroPath, p.db);
+              const found = await service.searchFaceted(query, limit, filters, options);
+              results.push(...found.results.map((r) => ({ ...r, project: p.project })));
+              projectFacets.push(found.facets);
+              matched += found.matched;
+              if (found.rerank) rerankReports.push(found.rerank);
+            } catch (e) {
+              errors.push(`${p.project}: ${(e as Error).message}`);
+            }
+          }
+          // RRF scores share one scale (1/(k+rank) sums), so per-project lists merge by
+          // score; rerank scores do too, but only when every project was re-ranked.
+          const byRerank = results.length > 0 && results.every((r) => r.scores.rerank !== undefined);
+          results = results
+            .sort((a, b) => (byRerank ? b.scores.rerank! - a.scores.rerank! : 0) || b.score - a.score)
+            .slice(0, limit);
+          facets = mergeFacets(projectFacets);
+          federationNote = formatFederationErrors(errors);
+        } else {
+          const { searchService } = getVectorServices();
+          const found = await searchService.searchFaceted(query, limit, filters, options);
+          ({ results, facets, matched } = found);
+          if (found.rerank) rerankReports.push(found.rerank);
+        }
 
         if (results.length === 0) {
           return {
             content: [{
               type: 'text',
-              text: `${icon('search')} No results found for "${query}". Try reindexing with search_reindex.`,
+              text: `${icon('search')} No results found for "${query}". Try reindexing with search_reindex.${federationNote}`,
             }],
           };
         }
 
         const formatted = results.map((r, i) => formatSearchResult(r, i)).join('\n\n');
+        const facetText = showFacets ? `\n\n${formatFacets(facets, matched)}` : '';
 
         return {
           content: [{
             type: 'text',
-            text: `${icon('search')} **Found ${results.length} results** for "${query}":\n\n${formatted}`,
+            text: `${icon('search')} **Found ${results.length} results** for "${query}":\n\n${formatted}${facetText}${formatRerank(rerankReports)}${federationNote}`,
           }],
         };
       } catch (error: unknown) {
@@ -120,7 +233,11 @@ export const lancedbTools: ToolDefinition[] = [
           return {
             content: [{
               type: 'text',
-              text: `${icon('error')} **Ollama not available.** Ensure Ollama is running with nomic-embed-text model.\n\nRun: \`ollama pull nomic-embed-text\``,
+              text: `${icon('error')} **Embedding provider not available** (${embeddingService.modelId}).${
+                embeddingService.modelId.startsWith('ollama:')
+                  ? `\n\nEnsure Ollama is running, then run: \`ollama pull ${embeddingService.modelId.slice('ollama:'.length)}\``
+                  : ''
+              }`,
             }],
             isError: true,
           };
@@ -128,6 +245,9 @@ export const lancedbTools: ToolDefinition[] = [
 
         const sqlite = getSqlite();
 
+        // Vectors from another model are dropped and every doc re-embedded
+        const droppedModels = await indexingService.reconcileModel();
+
         // If full reindex, clear existing vectors
         if (full) {
           sqlite.prepare('DELETE FROM doc_vectors').run();
@@ -168,6 +288,9 @@ export const lancedbTools: ToolDefinition[] = [
             type: 'text',
             text: [
               `${icon('success')} **Reindexing complete${full ? ' (full)' : ''}:**`,
+              ...(droppedModels.length > 0
+                ? [`${icon('warning')} Embedding model changed (${droppedModels.join(', ')} → ${embeddingService.modelId}): previous vectors dropped`]
+                : []),
               `${icon('file')} Documents: ${docs.length} total, ${indexed} indexed, ${skipped} unchanged`,
               `${icon('database')} This run: ${totalChunks} chunks, ${totalTokens} tokens`,
               `${icon('chart')} Index totals: ${stats.indexed} docs, ${stats.totalChunks} chunks, ${stats.totalTokens} tokens`,
@@ -205,7 +328,7 @@ export const lancedbTools: ToolDefinition[] = [
           return {
             content: [{
               type: 'text',
-              text: `${icon('error')} **Ollama not available.** Cannot index without embedding service.`,
+              text: `${icon('error')} **Embedding provider not available** (${embeddingService.modelId}). Cannot index without embeddings.`,
             }],
             isError: true,
           };
@@ -234,7 +357,7 @@ export const lancedbTools: ToolDefinition[] = [
   {
     name: 'search_status',
     title: 'Search Index Status',
-    description: 'Show the status of the semantic search index: Ollama health, document count, chunk/token stats.',
+    description: 'Show the status of the semantic search index: embedding provider health and model, document count, chunk/token stats.',
     inputSchema: {},
     handler: async (): Promise<CallToolResult> => {
       try {
@@ -256,12 +379,15 @@ export const lancedbTools: ToolDefinition[] = [
         const lines = [
           `${icon('database')} **Search Index Status**`,
           '',
-          `${healthy ? icon('success') : icon('error')} Ollama: ${healthy ? 'Available (nomic-embed-text)' : 'Unavailable'}`,
+          `${healthy ? icon('success') : icon('error')} Embeddings: ${embeddingService.modelId} (${healthy ? 'available' : 'unavailable'})`,
           `${icon('file')} Total documents: ${totalDocs}`,
           `${icon('chart')} Indexed documents: ${stats.indexed}`,
           `${icon('database')} Total chunks: ${stats.totalChunks}`,
           `${icon('info')} Total tokens: ${stats.totalTokens}`,
           `${icon('sparkle')} LanceDB vectors: ${vectorCount}`,
+          ...(indexingService.hasModelMismatch()
+            ? [`${icon('warning')} Index was built with ${indexingService.indexedModels().join(', ')}; vector search is off until search_reindex re-embeds it.`]
+            : []),
           '',
           stats.indexed < totalDocs
             ? `${icon('warning')} ${totalDocs - stats.indexed} documents need indexing. Run search_reindex.`
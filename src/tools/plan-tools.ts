@@ -9,9 +9,10 @@ import { renderOutput } from '../utils/render-output.js';
 import { icon } from '../utils/icons.js';
 import { formatTimestampSlug } from '../utils/timestamp.js';
 import { archivePlan, findInArchive, writeFileAtomic, PlansIndex, PlanIndexEntry } from '../utils/archive.js';
+import { notifyResourceChanged, planResourceUri } from '../utils/resource-events.js';
 
 // Plan item interface
-interface PlanItem {
+export interface PlanItem {
   id: string;
   text: string;
   completed: boolean;
@@ -22,7 +23,7 @@ interface PlanItem {
 }
 
 // Plan interface
-interface Plan {
+export interface Plan {
   id: string;
   title: string;
   description?: string;
@@ -41,7 +42,7 @@ const PLANS_INDEX = path.join(PLANS_DIR, 'index.json');
 
 // Load plans index. Live entries are bare title strings; archived entries
 // are `{ title, archived, archive_path }` objects (see src/utils/archive.ts).
-async function loadPlansIndex(): Promise<PlansIndex> {
+export async function loadPlansIndex(): Promise<PlansIndex> {
   try {
     const content = await fs.readFile(PLANS_INDEX, 'utf-8');
     return JSON.parse(content);
@@ -58,7 +59,7 @@ async function savePlansIndex(index: PlansIndex): Promise<void> {
 }
 
 /** Where a plan was found: live in `.mcp/plans/` or in the read-only archive. */
-interface PlanLocation {
+export interface PlanLocation {
   plan: Plan;
   archived: boolean;
   /** Path relative to `.mcp/plans/` when archived (e.g. `archive/2026-06/<id>.json`). */
@@ -84,7 +85,7 @@ async function readPlanFile(planPath: string): Promise<Plan | null> {
  * window where the file moved but the index write was lost). Archived plans
  * are READ-ONLY — write tools must check `archived` and refuse.
  */
-async function loadPlanWithLocation(planId: string): Promise<PlanLocation | null> {
+export async function loadPlanWithLocation(planId: string): Promise<PlanLocation | null> {
   const live = await readPlanFile(path.join(PLANS_DIR, `${planId}.json`));
   if (live) return { plan: live, archived: false };
 
@@ -142,6 +143,10 @@ async function savePlan(plan: Plan): Promise<void> {
   const index = await loadPlansIndex();
   index[plan.id] = plan.title;
   await savePlansIndex(index);
+
+  // Every plan write funnels through here, so this is the single place that
+  // tells dokoro://plans/{planId} subscribers the plan changed.
+  notifyResourceChanged(planResourceUri(plan.id));
 }
 
 // Generate short ID
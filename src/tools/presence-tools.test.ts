@@ -30,6 +30,11 @@ describe('presence-tools', () => {
         last_heartbeat INTEGER NOT NULL,
         heartbeat_seq INTEGER NOT NULL DEFAULT 0
       );
+      CREATE TABLE file_claims (
+        claim_key TEXT PRIMARY KEY, file_path TEXT NOT NULL, kind TEXT NOT NULL DEFAULT 'file',
+        agent_id TEXT NOT NULL, session_id TEXT, intent TEXT, claimed_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL, heartbeat_seq INTEGER NOT NULL DEFAULT 0, released_at INTEGER
+      );
     `);
     (globalThis as Record<string, unknown>).__TEST_DB__ = db;
   });
@@ -56,4 +61,49 @@ describe('presence-tools', () => {
     expect(t).toMatch(/fresh/);
     expect(t).not.toMatch(/stale/);
   });
+
+  it('presence_ping with renew_claims extends the agent\'s open, unexpired claims only', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const insert = db.prepare(`INSERT INTO file_claims (claim_key, file_path, agent_id, claimed_at, expires_at, released_at) VALUES (?, ?, ?, ?, ?, ?)`);
+    insert.run('a.ts', 'a.ts', 'a', now, now + 10, null);      // renewed
+    insert.run('long.ts', 'long.ts', 'a', now, now + 3000, null); // longer lease kept
+    insert.run('old.ts', 'old.ts', 'a', now - 900, now - 600, null); // expired: not revived
+    insert.run('gone.ts', 'gone.ts', 'a', now, now + 10, now);  // released
+    insert.run('b.ts', 'b.ts', 'b', now, now + 10, null);      // someone else's
+
+    const res = await findTool('dokoro_presence_ping').handler({ agent_id: 'a', renew_claims: true, claim_ttl_seconds: 600 });
+    expect(textOf(res)).toMatch(/renewed 2 claim\(s\)/);
+    const expiry = (key: string) => (db.prepare('SELECT expires_at FROM file_claims WHERE claim_key=?').get(key) as { expires_at: number }).expires_at;
+    expect(expiry('a.ts')).toBeGreaterThanOrEqual(now + 600);
+    expect(expiry('long.ts')).toBe(now + 3000);
+    expect(expiry('old.ts')).toBe(now - 600);
+    expect(expiry('gone.ts')).toBe(now + 10);
+    expect(expiry('b.ts')).toBe(now + 10);
+    const seq = db.prepare('SELECT heartbeat_seq FROM file_claims WHERE claim_key=?').get('a.ts') as { heartbeat_seq: number };
+    expect(seq.heartbeat_seq).toBe(1);
+  });
+
+  it('presence_ping grants a lapsed claim to a queued agent and tells it', async () => {
+    db.exec(`
+      CREATE TABLE claim_waiters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, claim_key TEXT NOT NULL, file_path TEXT NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'file', agent_id TEXT NOT NULL, session_id TEXT, intent TEXT,
+        ttl_seconds INTEGER NOT NULL, enqueued_at INTEGER NOT NULL, granted_at INTEGER, notified_at INTEGER
+      );
+      CREATE TABLE handoffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, from_agent TEXT NOT NULL, to_agent TEXT, session_id TEXT,
+        summary TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'open', created_at TEXT, expires_at TEXT, ttl_seconds INTEGER
+      );
+    `);
+    const now = Math.floor(Date.now() / 1000);
+    db.prepare(`INSERT INTO file_claims (claim_key, file_path, agent_id, claimed_at, expires_at) VALUES ('a.ts', 'a.ts', 'a', ?, ?)`)
+      .run(now - 600, now - 1);
+    db.prepare(`INSERT INTO claim_waiters (claim_key, file_path, agent_id, ttl_seconds, enqueued_at) VALUES ('a.ts', 'a.ts', 'b', 120, ?)`).run(now);
+
+    const ping = findTool('dokoro_presence_ping');
+    expect(textOf(await ping.handler({ agent_id: 'b' }))).toMatch(/^NOTICE: you now hold a\.ts/);
+    expect(db.prepare(`SELECT agent_id FROM file_claims WHERE claim_key = 'a.ts'`).get()).toEqual({ agent_id: 'b' });
+    // Told once.
+    expect(textOf(await ping.handler({ agent_id: 'b' }))).toBe('presence updated for b');
+  });
 });
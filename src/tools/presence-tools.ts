@@ -1,18 +1,25 @@
 /**
  * Multi-agent PRESENCE via heartbeat (Working memory layer), daemonless.
  *
- * Agents are ephemeral MCP processes — there is no background sweeper. Liveness is
- * computed at READ time: an agent is live if now - last_heartbeat <= TTL. Heartbeats
- * are opportunistic (an explicit dokoro_presence_ping; agents call it at session start
- * and during work — no timers). last_heartbeat is server-assigned (SQLite unixepoch,
- * one clock domain), so out-of-order writes aren't a risk; heartbeat_seq is a
- * monotonic per-agent beat counter (diagnostic). Per-project only.
+ * Agents are ephemeral MCP processes. Liveness is computed at READ time: an agent is
+ * live if now - last_heartbeat <= TTL. Heartbeats are opportunistic (an explicit
+ * dokoro_presence_ping; agents call it at session start and during work — no timers).
+ * last_heartbeat is server-assigned (SQLite unixepoch, one clock domain), so
+ * out-of-order writes aren't a risk; heartbeat_seq is a monotonic per-agent beat
+ * counter (diagnostic). Per-project only.
+ *
+ * A ping with renew_claims:true also extends every open file claim of the agent in
+ * the same transaction, so one heartbeat keeps all its leases alive. Agents that stop
+ * pinging are cleaned up by the server's presence reaper (services/presence-reaper.ts).
+ * A ping also grants the claim wait queue what is free and tells the agent about
+ * claims it was granted, so a queued agent that only pings still learns it holds them.
  */
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
 import { ToolDefinition } from './registry.js';
 import { getSqliteDb } from '../db/index.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+import { promoteWaiters, takeGrantNotices } from './file-claim-tools.js';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -27,6 +34,9 @@ function db(): Database.Database {
 
 // Default presence TTL: 15 min. Generous, because agents only beat on tool calls.
 const DEFAULT_TTL_SECONDS = 900;
+// Claim lease bounds — same as dokoro_file_claim.
+const DEFAULT_CLAIM_TTL_SECONDS = 300;
+const MAX_CLAIM_TTL_SECONDS = 3600;
 
 export const presenceTools: ToolDefinition[] = [
   {
@@ -35,28 +45,59 @@ export const presenceTools: ToolDefinition[] = [
     description:
       'Record/refresh this agent\'s presence heartbeat for the current project (upsert; one row per agent_id). ' +
       'Call at session start and during work — no background timer exists. Optionally set status and current_focus ' +
-      'so other agents can see what you are doing. Scoped to the current project only.',
+      'so other agents can see what you are doing. renew_claims:true also renews all your open (unexpired) file claims ' +
+      'in the same transaction — no need to re-claim each file. The response starts with a "you now hold X" notice for every ' +
+      'claim granted to you from the file-claim wait queue since you last heard. Scoped to the current project only.',
     inputSchema: {
       agent_id: z.string(),
       session_id: z.string().optional(),
       status: z.enum(['active', 'idle', 'away']).optional().default('active'),
       current_focus: z.string().optional(),
+      renew_claims: z.boolean().optional()
+        .describe('Also extend every open, unexpired file claim you hold (default false).'),
+      claim_ttl_seconds: z.number().int().positive().max(MAX_CLAIM_TTL_SECONDS).optional()
+        .describe(`Lease from now for renewed claims (default ${DEFAULT_CLAIM_TTL_SECONDS}, max ${MAX_CLAIM_TTL_SECONDS}); a longer remaining lease is kept.`),
     },
     handler: async (args) => {
       try {
-        const a = args as { agent_id: string; session_id?: string; status?: string; current_focus?: string };
-        // Server-assigned timestamp (unixepoch) — one clock domain. Atomic upsert; seq increments.
-        db().prepare(`
-          INSERT INTO agent_presence (agent_id, session_id, status, current_focus, last_heartbeat, heartbeat_seq)
-          VALUES (?, ?, ?, ?, strftime('%s','now'), 1)
-          ON CONFLICT(agent_id) DO UPDATE SET
-            session_id = excluded.session_id,
-            status = excluded.status,
-            current_focus = excluded.current_focus,
-            last_heartbeat = strftime('%s','now'),
-            heartbeat_seq = agent_presence.heartbeat_seq + 1
-        `).run(a.agent_id, a.session_id ?? null, a.status ?? 'active', a.current_focus ?? null);
-        return { content: [{ type: 'text' as const, text: `presence updated for ${a.agent_id}` }] };
+        const a = args as {
+          agent_id: string; session_id?: string; status?: string; current_focus?: string;
+          renew_claims?: boolean; claim_ttl_seconds?: number;
+        };
+        const sqlite = db();
+        let renewed = 0;
+        let notices = '';
+        sqlite.transaction(() => {
+          // Server-assigned timestamp (unixepoch) — one clock domain. Atomic upsert; seq increments.
+          sqlite.prepare(`
+            INSERT INTO agent_presence (agent_id, session_id, status, current_focus, last_heartbeat, heartbeat_seq)
+            VALUES (?, ?, ?, ?, strftime('%s','now'), 1)
+            ON CONFLICT(agent_id) DO UPDATE SET
+              session_id = excluded.session_id,
+              status = excluded.status,
+              current_focus = excluded.current_focus,
+              last_heartbeat = strftime('%s','now'),
+              heartbeat_seq = agent_presence.heartbeat_seq + 1
+          `).run(a.agent_id, a.session_id ?? null, a.status ?? 'active', a.current_focus ?? null);
+          if (a.renew_claims) {
+            // Expired leases are not revived: once expired, the claim is up for grabs.
+            renewed = sqlite.prepare(`
+              UPDATE file_claims SET
+                expires_at = MAX(expires_at, strftime('%s','now') + ?),
+                heartbeat_seq = heartbeat_seq + 1
+              WHERE agent_id = ? AND released_at IS NULL AND expires_at > strftime('%s','now')
+            `).run(a.claim_ttl_seconds ?? DEFAULT_CLAIM_TTL_SECONDS, a.agent_id).changes;
+          }
+          if (sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'claim_waiters'`).get()) {
+            const now = Number((sqlite.prepare(`SELECT strftime('%s','now') AS n`).get() as { n: string }).n);
+            promoteWaiters(sqlite, now);
+            notices = takeGrantNotices(sqlite, a.agent_id, now);
+          }
+        }).immediate();
+        const text = notices + (a.renew_claims
+          ? `presence updated for ${a.agent_id}; renewed ${renewed} claim(s)`
+          : `presence updated for ${a.agent_id}`);
+        return { content: [{ type: 'text' as const, text }] };
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
         return { isError: true, content: [{ type: 'text' as const, text: `presence_ping failed: ${msg}` }] };
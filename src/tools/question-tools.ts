@@ -9,7 +9,7 @@ import { renderOutput } from '../utils/render-output.js';
 import { icon } from '../utils/icons.js';
 
 // Question interface
-interface Question {
+export interface Question {
   id: string;
   question: string;
   context?: string;
@@ -37,7 +37,7 @@ function withQuestionsLock<T>(fn: () => Promise<T>): Promise<T> {
 }
 
 // Load questions from file
-async function loadQuestions(): Promise<Question[]> {
+export async function loadQuestions(): Promise<Question[]> {
   try {
     const content = await fs.readFile(QUESTIONS_FILE, 'utf-8');
     return JSON.parse(content);
@@ -28,8 +28,20 @@ describe('shared-blocks-tools', () => {
         version INTEGER NOT NULL DEFAULT 1,
         updated_by TEXT NOT NULL,
         created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
-        updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now'))
+        updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ','now')),
+        content_type TEXT NOT NULL DEFAULT 'text',
+        schema_json TEXT
       );
+      CREATE TABLE shared_block_versions (
+        block_key TEXT NOT NULL, version INTEGER NOT NULL, content TEXT NOT NULL, updated_by TEXT NOT NULL,
+        created_at TEXT NOT NULL, PRIMARY KEY (block_key, version)
+      );
+      CREATE TRIGGER shared_blocks_version_ai AFTER INSERT ON shared_blocks BEGIN
+        INSERT OR REPLACE INTO shared_block_versions VALUES (new.block_key, new.version, new.content, new.updated_by, new.updated_at);
+      END;
+      CREATE TRIGGER shared_blocks_version_au AFTER UPDATE OF content, version ON shared_blocks BEGIN
+        INSERT OR REPLACE INTO shared_block_versions VALUES (new.block_key, new.version, new.content, new.updated_by, new.updated_at);
+      END;
     `);
     (globalThis as Record<string, unknown>).__TEST_DB__ = db;
   });
@@ -88,4 +100,90 @@ describe('shared-blocks-tools', () => {
     expect(t).toMatch(/alpha/);
     expect(t).toMatch(/beta/);
   });
+
+  it('block_write merge:true commits non-overlapping edits made on a stale version', async () => {
+    const w = findTool('dokoro_block_write');
+    await w.handler({ block_key: 'plan', content: 'a\nb\nc', agent_id: 'a' });
+    await w.handler({ block_key: 'plan', content: 'A\nb\nc', agent_id: 'b', expected_version: 1 });
+    const stale = await w.handler({ block_key: 'plan', content: 'a\nb\nC', agent_id: 'c', expected_version: 1 });
+    expect(stale.isError).toBe(true);
+    const merged = await w.handler({ block_key: 'plan', content: 'a\nb\nC', agent_id: 'c', expected_version: 1, merge: true });
+    expect(merged.isError).toBeFalsy();
+    expect(textOf(merged)).toMatch(/merged .* updated to version 3/);
+    const row = db.prepare('SELECT content, version FROM shared_blocks WHERE block_key=?').get('plan');
+    expect(row).toEqual({ content: 'A\nb\nC', version: 3 });
+
+    const history = textOf(await findTool('dokoro_block_history').handler({ block_key: 'plan' }));
+    expect(history.split('\n').map((l) => l.split(' ')[0])).toEqual(['v3', 'v2', 'v1']);
+    expect(textOf(await findTool('dokoro_block_history').handler({ block_key: 'plan', version: 1 }))).toMatch(/version 1 \(by a[\s\S]*a\nb\nc$/);
+  });
+
+  it('block_write merge:true returns conflict markers for overlapping edits and writes nothing', async () => {
+    const w = findTool('dokoro_block_write');
+    await w.handler({ block_key: 'plan', content: 'a\nb', agent_id: 'a' });
+    await w.handler({ block_key: 'plan', content: 'a\nB1', agent_id: 'b', expected_version: 1 });
+    const res = await w.handler({ block_key: 'plan', content: 'a\nB2', agent_id: 'c', expected_version: 1, merge: true });
+    expect(res.isError).toBe(true);
+    const t = textOf(res);
+    expect(t).toMatch(/1 overlapping change/);
+    expect(t).toMatch(/expected_version=2/);
+    expect(t).toContain('<<<<<<< current (v2 by b)\nB1\n||||||| base (v1)\nb\n=======\nB2\n>>>>>>> yours (c)');
+    const row = db.prepare('SELECT content, version FROM shared_blocks WHERE block_key=?').get('plan');
+    expect(row).toEqual({ content: 'a\nB1', version: 2 });
+  });
+
+  it('json blocks accept an RFC 6902 patch applied under the version compare-and-set', async () => {
+    const w = findTool('dokoro_block_write');
+    const created = await w.handler({
+      block_key: 'board', agent_id: 'a', content_type: 'json',
+      content: JSON.stringify({ tasks: [{ id: 't1', status: 'todo' }] }),
+    });
+    expect(textOf(created)).toMatch(/created at version 1 by a \(json\)/);
+
+    const res = await w.handler({
+      block_key: 'board', agent_id: 'b', expected_version: 1,
+      patch: [{ op: 'replace', path: '/tasks/0/status', value: 'done' }, { op: 'add', path: '/tasks/-', value: { id: 't2', status: 'todo' } }],
+    });
+    expect(res.isError).toBeFalsy();
+    expect(textOf(res)).toMatch(/patched \(2 op\(s\)\) to version 2/);
+    const row = db.prepare('SELECT content, version FROM shared_blocks WHERE block_key=?').get('board') as { content: string; version: number };
+    expect(row.version).toBe(2);
+    expect(JSON.parse(row.content)).toEqual({ tasks: [{ id: 't1', status: 'done' }, { id: 't2', status: 'todo' }] });
+
+    const stale = await w.handler({ block_key: 'board', agent_id: 'c', expected_version: 1, patch: [{ op: 'remove', path: '/tasks/1' }] });
+    expect(textOf(stale)).toMatch(/^conflict: .* version 2, not 1/);
+    const failed = await w.handler({ block_key: 'board', agent_id: 'c', patch: [{ op: 'test', path: '/tasks/0/status', value: 'todo' }] });
+    expect(textOf(failed)).toMatch(/patch not applied .* op #1 \(test \/tasks\/0\/status\): test failed/);
+    expect((db.prepare('SELECT version FROM shared_blocks WHERE block_key=?').get('board') as { version: number }).version).toBe(2);
+  });
+
+  it('json blocks reject content that fails their schema and keep the previous version', async () => {
+    const w = findTool('dokoro_block_write');
+    const schema = {
+      type: 'object', required: ['tasks'],
+      properties: { tasks: { type: 'array', items: { type: 'object', properties: { status: { enum: ['todo', 'done'] } } } } },
+    };
+    await w.handler({ block_key: 'board', agent_id: 'a', content_type: 'json', schema, content: '{"tasks":[]}' });
+
+    const bad = await w.handler({ block_key: 'board', agent_id: 'b', patch: [{ op: 'add', path: '/tasks/-', value: { status: 'maybe' } }] });
+    expect(bad.isError).toBe(true);
+    expect(textOf(bad)).toMatch(/validation failed .* nothing written:\n- \.tasks\[0\]\.status should be equal to one of the allowed values/);
+    const notJson = await w.handler({ block_key: 'board', agent_id: 'b', content: 'tasks: []' });
+    expect(textOf(notJson)).toMatch(/content is not valid JSON/);
+    expect(db.prepare('SELECT content, version FROM shared_blocks WHERE block_key=?').get('board')).toEqual({ content: '{"tasks":[]}', version: 1 });
+
+    const invalidSchema = await w.handler({ block_key: 'other', agent_id: 'a', content_type: 'json', schema: { type: 'nope' }, content: '{}' });
+    expect(textOf(invalidSchema)).toMatch(/invalid schema/);
+    expect(textOf(await findTool('dokoro_block_read').handler({ block_key: 'board' }))).toMatch(/version 1 \(by a @ .*, json\)\nschema: \{"type":"object"/);
+  });
+
+  it('patches need an existing json block and exactly one of content or patch', async () => {
+    const w = findTool('dokoro_block_write');
+    await w.handler({ block_key: 'notes', content: 'plain', agent_id: 'a' });
+    const op = [{ op: 'add', path: '/x', value: 1 }];
+    expect(textOf(await w.handler({ block_key: 'notes', agent_id: 'a', patch: op }))).toMatch(/is 'text', not 'json'/);
+    expect(textOf(await w.handler({ block_key: 'new', agent_id: 'a', patch: op }))).toMatch(/does not exist — create it with content/);
+    expect(textOf(await w.handler({ block_key: 'notes', agent_id: 'a', content: 'x', patch: op }))).toMatch(/exactly one of content or patch/);
+    expect(textOf(await w.handler({ block_key: 'notes', agent_id: 'a', content: '{}', schema: { type: 'object' } }))).toMatch(/needs content_type 'json'/);
+  });
 });
@@ -7,12 +7,27 @@
  * the write is an atomic compare-and-set, so a racing edit gets a clean conflict
  * instead of silently clobbering. Per-project only (one .dokoro/db per project);
  * there is intentionally NO global / cross-project store.
+ *
+ * Every version is kept in shared_block_versions (filled by triggers, see
+ * migration v20). A stale write with merge:true is three-way merged
+ * (src/utils/three-way-merge.ts) between the version the writer read, the
+ * current version and the new content: non-overlapping edits commit as the
+ * next version, overlapping ones come back with conflict markers, unwritten.
+ *
+ * Blocks are typed (content_type 'text' | 'markdown' | 'json', migration v21).
+ * A json block may carry a JSON Schema; writes that do not parse or fail the
+ * schema are rejected, and an RFC 6902 patch (src/utils/json-patch.ts) is
+ * applied to the current version under the same compare-and-set.
  */
 import { z } from 'zod';
 import type Database from 'better-sqlite3';
 import { ToolDefinition } from './registry.js';
 import { getSqliteDb } from '../db/index.js';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
+import { notifyResourceChanged, blockResourceUri } from '../utils/resource-events.js';
+import { threeWayMerge } from '../utils/three-way-merge.js';
+import { applyJsonPatch, type JsonPatchOp } from '../utils/json-patch.js';
+import Ajv from 'ajv';
 import * as path from 'node:path';
 
 function getSqlite(): Database.Database {
@@ -27,6 +42,162 @@ function db(): Database.Database {
 
 const NOW = `strftime('%Y-%m-%dT%H:%M:%SZ','now')`;
 
+type ContentType = 'text' | 'markdown' | 'json';
+
+interface BlockRow {
+  content: string;
+  version: number;
+  updated_by: string;
+  content_type: ContentType;
+  schema_json: string | null;
+}
+
+interface BlockWrite {
+  block_key: string;
+  content?: string;
+  patch?: JsonPatchOp[];
+  agent_id: string;
+  expected_version?: number;
+  merge?: boolean;
+  content_type?: ContentType;
+  schema?: Record<string, unknown>;
+}
+
+type ToolResult = { isError?: boolean; content: Array<{ type: 'text'; text: string }> };
+
+function conflict(text: string): ToolResult {
+  return { isError: true, content: [{ type: 'text' as const, text: `conflict: ${text}` }] };
+}
+function rejected(text: string): ToolResult {
+  return { isError: true, content: [{ type: 'text' as const, text }] };
+}
+
+const ajv = new Ajv({ allErrors: true });
+
+/** Problems with a JSON Schema itself, or [] when it is usable. */
+function schemaProblems(schema: Record<string, unknown>): string[] {
+  if (ajv.validateSchema(schema)) return [];
+  return (ajv.errors ?? []).map((e) => `schema${e.dataPath} ${e.message ?? 'is invalid'}`);
+}
+
+/**
+ * Why `content` is not acceptable for a block of this type, or [] when it is.
+ * Only json blocks are checked: the content must parse, and satisfy the
+ * block's schema when it has one.
+ */
+function contentProblems(content: string, type: ContentType, schemaJson: string | null): string[] {
+  if (type !== 'json') return [];
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (e) {
+    return [`content is not valid JSON: ${(e as Error).message}`];
+  }
+  if (!schemaJson) return [];
+  const validate = ajv.compile(JSON.parse(schemaJson) as object);
+  if (validate(value)) return [];
+  return (validate.errors ?? []).map((e) => `${e.dataPath || '(root)'} ${e.message ?? 'is invalid'}`);
+}
+
+/**
+ * Stale write with merge:true: three-way merge the writer's content against
+ * the current version, using the version they read as the base. Returns the
+ * merged text when the edits do not overlap; otherwise a conflict result with
+ * the conflict-marked text (nothing is written).
+ */
+function mergeStale(a: BlockWrite & { content: string; expected_version: number }, current: BlockRow): { text: string } | ToolResult {
+  const base = db().prepare('SELECT content FROM shared_block_versions WHERE block_key = ? AND version = ?')
+    .get(a.block_key, a.expected_version) as { content: string } | undefined;
+  if (!base) return conflict(`version ${a.expected_version} of block '${a.block_key}' is not in its history — re-read and retry`);
+  const merged = threeWayMerge(base.content, current.content, a.content, {
+    current: `current (v${current.version} by ${current.updated_by})`,
+    base: `base (v${a.expected_version})`,
+    incoming: `yours (${a.agent_id})`,
+  });
+  if (merged.conflicts > 0) {
+    return conflict(
+      `${merged.conflicts} overlapping change(s) between your edit of version ${a.expected_version} and version ${current.version} ` +
+      `of block '${a.block_key}' — nothing written. Resolve the markers and write again with expected_version=${current.version}.\n\n${merged.text}`,
+    );
+  }
+  return { text: merged.text };
+}
+
+/**
+ * One block write inside an immediate transaction: resolve the new content
+ * (full content, stale merge or JSON patch of the current version), validate
+ * it against the block's type and schema, then compare-and-set on the version
+ * that was read.
+ */
+function writeBlock(a: BlockWrite): ToolResult {
+  const sqlite = db();
+  return sqlite.transaction((): ToolResult => {
+    const existing = sqlite.prepare('SELECT content, version, updated_by, content_type, schema_json FROM shared_blocks WHERE block_key = ?')
+      .get(a.block_key) as BlockRow | undefined;
+    const type: ContentType = a.content_type ?? existing?.content_type ?? 'text';
+    const schemaJson = a.schema !== undefined ? JSON.stringify(a.schema) : (existing?.schema_json ?? null);
+    if (schemaJson && type !== 'json') return rejected(`block '${a.block_key}': a schema needs content_type 'json' (block is '${type}')`);
+    if (a.schema) {
+      const problems = schemaProblems(a.schema);
+      if (problems.length) return rejected(`block '${a.block_key}': invalid schema:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+    }
+
+    if (!existing) {
+      // New block. If a non-zero expected_version was supplied, that's a conflict (caller thinks it exists).
+      if (a.expected_version !== undefined && a.expected_version !== 0) {
+        return conflict(`block '${a.block_key}' does not exist (expected_version=${a.expected_version})`);
+      }
+      if (a.content === undefined) return rejected(`block '${a.block_key}' does not exist — create it with content before patching`);
+      const problems = contentProblems(a.content, type, schemaJson);
+      if (problems.length) return rejected(`validation failed for block '${a.block_key}':\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      sqlite.prepare(`INSERT INTO shared_blocks (block_key, content, version, updated_by, content_type, schema_json, created_at, updated_at)
+        VALUES (?, ?, 1, ?, ?, ?, ${NOW}, ${NOW})`).run(a.block_key, a.content, a.agent_id, type, schemaJson);
+      notifyResourceChanged(blockResourceUri(a.block_key));
+      const typed = type === 'text' ? '' : ` (${type}${schemaJson ? ', with schema' : ''})`;
+      return { content: [{ type: 'text' as const, text: `block '${a.block_key}' created at version 1 by ${a.agent_id}${typed}` }] };
+    }
+
+    const stale = a.expected_version !== undefined && a.expected_version !== existing.version;
+    let next: string;
+    let how = 'updated';
+    if (a.patch) {
+      if (existing.content_type !== 'json') return rejected(`block '${a.block_key}' is '${existing.content_type}', not 'json' — patches need a json block`);
+      if (stale) return conflict(`block '${a.block_key}' is at version ${existing.version}, not ${a.expected_version} — re-read and retry`);
+      try {
+        next = JSON.stringify(applyJsonPatch(JSON.parse(existing.content), a.patch), null, 2);
+      } catch (e) {
+        return rejected(`patch not applied to block '${a.block_key}': ${(e as Error).message}`);
+      }
+      how = `patched (${a.patch.length} op(s))`;
+    } else if (stale) {
+      if (!a.merge) return conflict(`block '${a.block_key}' is at version ${existing.version}, not ${a.expected_version} — re-read and retry, or pass merge:true`);
+      const merged = mergeStale(a as BlockWrite & { content: string; expected_version: number }, existing);
+      if (!('text' in merged)) return merged;
+      next = merged.text;
+      how = `merged (your edit of version ${a.expected_version} + changes up to version ${existing.version}) and updated`;
+    } else {
+      next = a.content!;
+    }
+
+    const problems = contentProblems(next, type, schemaJson);
+    if (problems.length) return rejected(`validation failed for block '${a.block_key}' — nothing written:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+
+    // Atomic compare-and-set on the version read above.
+    const info = sqlite.prepare(`UPDATE shared_blocks SET content=?, version=version+1, updated_by=?, content_type=?, schema_json=?, updated_at=${NOW}
+      WHERE block_key=? AND version=?`).run(next, a.agent_id, type, schemaJson, a.block_key, existing.version);
+    if (info.changes !== 1) return conflict(`block '${a.block_key}' changed concurrently — re-read and retry`);
+    notifyResourceChanged(blockResourceUri(a.block_key));
+    return { content: [{ type: 'text' as const, text: `block '${a.block_key}' ${how} to version ${existing.version + 1} by ${a.agent_id}` }] };
+  }).immediate();
+}
+
+const patchOpSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+  path: z.string(),
+  from: z.string().optional(),
+  value: z.unknown().optional(),
+});
+
 export const sharedBlocksTools: ToolDefinition[] = [
   {
     name: 'dokoro_block_write',
@@ -35,41 +206,34 @@ export const sharedBlocksTools: ToolDefinition[] = [
       'Create or update a named shared working-memory block for the current project. ' +
       'Multiple agents can edit blocks concurrently. Pass expected_version (the version you last read) ' +
       'for a safe compare-and-set: if another agent changed the block since, the write is REJECTED as a ' +
-      'conflict instead of overwriting. Omit expected_version for last-writer-wins. Scoped to the current project only.',
+      'conflict instead of overwriting — or, with merge:true, your edits are line-merged with the changes made since ' +
+      'that version (three-way merge) and committed if they do not overlap; overlapping edits are returned with conflict markers ' +
+      'and nothing is written. Omit expected_version for last-writer-wins. Every version is kept (dokoro_block_history). ' +
+      'A block may declare content_type (text, markdown, json) and, for json, a JSON Schema; json blocks also accept an ' +
+      'RFC 6902 patch instead of content, applied to the current version so agents editing different fields do not overwrite ' +
+      'each other. Content that is not valid JSON or fails the schema is rejected. Scoped to the current project only.',
     inputSchema: {
       block_key: z.string().min(1),
-      content: z.string(),
+      content: z.string().optional().describe('Full new content. Pass this or patch.'),
+      patch: z.array(patchOpSchema).min(1).optional()
+        .describe('RFC 6902 JSON Patch for a json block, e.g. [{"op":"replace","path":"/tasks/0/status","value":"done"}].'),
       agent_id: z.string(),
       expected_version: z.number().int().nonnegative().optional()
         .describe('Version you last read; write only applies if it still matches (optimistic lock).'),
+      merge: z.boolean().optional()
+        .describe('If expected_version is stale, three-way merge instead of rejecting (needs expected_version and content).'),
+      content_type: z.enum(['text', 'markdown', 'json']).optional()
+        .describe('Declare or change the block type (default text; kept across writes).'),
+      schema: z.record(z.unknown()).optional()
+        .describe('JSON Schema (draft-07) every version of a json block must satisfy; kept across writes.'),
     },
     handler: async (args) => {
       try {
-        const a = args as { block_key: string; content: string; agent_id: string; expected_version?: number };
-        const existing = db().prepare('SELECT version FROM shared_blocks WHERE block_key = ?').get(a.block_key) as
-          { version: number } | undefined;
-
-        if (!existing) {
-          // New block. If a non-zero expected_version was supplied, that's a conflict (caller thinks it exists).
-          if (a.expected_version !== undefined && a.expected_version !== 0) {
-            return { isError: true, content: [{ type: 'text' as const, text: `conflict: block '${a.block_key}' does not exist (expected_version=${a.expected_version})` }] };
-          }
-          db().prepare(`INSERT INTO shared_blocks (block_key, content, version, updated_by, created_at, updated_at) VALUES (?, ?, 1, ?, ${NOW}, ${NOW})`)
-            .run(a.block_key, a.content, a.agent_id);
-          return { content: [{ type: 'text' as const, text: `block '${a.block_key}' created at version 1 by ${a.agent_id}` }] };
-        }
-
-        if (a.expected_version !== undefined && a.expected_version !== existing.version) {
-          return { isError: true, content: [{ type: 'text' as const, text: `conflict: block '${a.block_key}' is at version ${existing.version}, not ${a.expected_version} — re-read and retry` }] };
+        const a = args as BlockWrite;
+        if ((a.content === undefined) === (a.patch === undefined)) {
+          return rejected('block_write failed: pass exactly one of content or patch');
         }
-
-        // Atomic compare-and-set on the current version (safe under WAL concurrency).
-        const info = db().prepare(`UPDATE shared_blocks SET content=?, version=version+1, updated_by=?, updated_at=${NOW} WHERE block_key=? AND version=?`)
-          .run(a.content, a.agent_id, a.block_key, existing.version);
-        if (info.changes !== 1) {
-          return { isError: true, content: [{ type: 'text' as const, text: `conflict: block '${a.block_key}' changed concurrently — re-read and retry` }] };
-        }
-        return { content: [{ type: 'text' as const, text: `block '${a.block_key}' updated to version ${existing.version + 1} by ${a.agent_id}` }] };
+        return writeBlock(a);
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
         return { isError: true, content: [{ type: 'text' as const, text: `block_write failed: ${msg}` }] };
@@ -79,16 +243,18 @@ export const sharedBlocksTools: ToolDefinition[] = [
   {
     name: 'dokoro_block_read',
     title: 'Read a shared editable memory block',
-    description: 'Read one shared working-memory block by block_key for the current project, returning its content, current version (pass this as expected_version to write safely), and last updater.',
+    description: 'Read one shared working-memory block by block_key for the current project, returning its content, current version (pass this as expected_version to write safely), last updater, and content type / schema if it is typed.',
     inputSchema: { block_key: z.string().min(1) },
     handler: async (args) => {
       try {
         const a = args as { block_key: string };
-        const row = db().prepare('SELECT content, version, updated_by, updated_at FROM shared_blocks WHERE block_key = ?').get(a.block_key) as
-          { content: string; version: number; updated_by: string; updated_at: string } | undefined;
+        const row = db().prepare('SELECT content, version, updated_by, updated_at, content_type, schema_json FROM shared_blocks WHERE block_key = ?').get(a.block_key) as
+          { content: string; version: number; updated_by: string; updated_at: string; content_type: ContentType; schema_json: string | null } | undefined;
         if (!row) return { content: [{ type: 'text' as const, text: `(no block '${a.block_key}')` }] };
+        const typed = row.content_type === 'text' ? '' : `, ${row.content_type}`;
+        const schema = row.schema_json ? `\nschema: ${row.schema_json}` : '';
         return { content: [{ type: 'text' as const, text:
-          `block '${a.block_key}' — version ${row.version} (by ${row.updated_by} @ ${row.updated_at})\n\n${row.content}` }] };
+          `block '${a.block_key}' — version ${row.version} (by ${row.updated_by} @ ${row.updated_at}${typed})${schema}\n\n${row.content}` }] };
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
         return { isError: true, content: [{ type: 'text' as const, text: `block_read failed: ${msg}` }] };
@@ -102,10 +268,10 @@ export const sharedBlocksTools: ToolDefinition[] = [
     inputSchema: {},
     handler: async () => {
       try {
-        const rows = db().prepare('SELECT block_key, version, updated_by, updated_at FROM shared_blocks ORDER BY updated_at DESC').all() as
-          Array<{ block_key: string; version: number; updated_by: string; updated_at: string }>;
+        const rows = db().prepare('SELECT block_key, version, updated_by, updated_at, content_type FROM shared_blocks ORDER BY updated_at DESC').all() as
+          Array<{ block_key: string; version: number; updated_by: string; updated_at: string; content_type: ContentType }>;
         if (rows.length === 0) return { content: [{ type: 'text' as const, text: '(no shared blocks)' }] };
-        const lines = rows.map((r) => `${r.block_key}  v${r.version}  by ${r.updated_by}  @ ${r.updated_at}`);
+        const lines = rows.map((r) => `${r.block_key}  v${r.version}${r.content_type === 'text' ? '' : ` [${r.content_type}]`}  by ${r.updated_by}  @ ${r.updated_at}`);
         return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
@@ -113,4 +279,38 @@ export const sharedBlocksTools: ToolDefinition[] = [
       }
     },
   },
+  {
+    name: 'dokoro_block_history',
+    title: 'Show the version history of a shared block',
+    description:
+      'List every kept version of a shared block (newest first: version, author, time, size), or pass version to read that ' +
+      'version\'s content — e.g. to see what changed since the version you last read.',
+    inputSchema: {
+      block_key: z.string().min(1),
+      version: z.number().int().positive().optional().describe('Return the content of this version.'),
+      limit: z.number().int().positive().max(200).optional(),
+    },
+    handler: async (args) => {
+      try {
+        const a = args as { block_key: string; version?: number; limit?: number };
+        if (a.version !== undefined) {
+          const row = db().prepare('SELECT content, updated_by, created_at FROM shared_block_versions WHERE block_key = ? AND version = ?')
+            .get(a.block_key, a.version) as { content: string; updated_by: string; created_at: string } | undefined;
+          if (!row) return { content: [{ type: 'text' as const, text: `(no version ${a.version} of block '${a.block_key}')` }] };
+          return { content: [{ type: 'text' as const, text:
+            `block '${a.block_key}' — version ${a.version} (by ${row.updated_by} @ ${row.created_at})\n\n${row.content}` }] };
+        }
+        const rows = db().prepare(`
+          SELECT version, updated_by, created_at, length(content) AS chars FROM shared_block_versions
+          WHERE block_key = ? ORDER BY version DESC LIMIT ?
+        `).all(a.block_key, a.limit ?? 20) as Array<{ version: number; updated_by: string; created_at: string; chars: number }>;
+        if (rows.length === 0) return { content: [{ type: 'text' as const, text: `(no history for block '${a.block_key}')` }] };
+        const lines = rows.map((r) => `v${r.version}  by ${r.updated_by}  @ ${r.created_at}  (${r.chars} chars)`);
+        return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return { isError: true, content: [{ type: 'text' as const, text: `block_history failed: ${msg}` }] };
+      }
+    },
+  },
 ];
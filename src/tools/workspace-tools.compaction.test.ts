@@ -65,10 +65,10 @@ describe('session_summary_add auto-compaction', () => {
       });
     }
 
-    // Source rows are merged into exactly ONE retained compacted row that stays
+    // Source rows are rolled into exactly ONE top-level session rollup that stays
     // in the recall corpus (compacted=1 keeps it out of the compaction trigger).
     const rows = db
-      .prepare('SELECT summary, compacted FROM conversation_summaries WHERE session_id = ?')
+      .prepare('SELECT summary, compacted FROM conversation_summaries WHERE session_id = ? AND parent_id IS NULL')
       .all('s1') as Array<{ summary: string; compacted: number }>;
     const session = db
       .prepare('SELECT summary FROM sessions WHERE id = ?')
@@ -87,7 +87,7 @@ describe('session_summary_add auto-compaction', () => {
       await summaryAdd.handler({ session_id: 's1', ai_model: 'opus', summary: `chunk ${i}`, token_count: 25000 });
     }
     const row = db
-      .prepare(`SELECT summary_embedding FROM conversation_summaries WHERE session_id='s1' AND compacted=1`)
+      .prepare(`SELECT summary_embedding FROM conversation_summaries WHERE session_id='s1' AND rollup_level='session'`)
       .get() as { summary_embedding: Buffer | null };
     expect(row.summary_embedding).not.toBeNull(); // embedded, not left NULL -> won't sort last
   });
@@ -104,6 +104,28 @@ describe('session_summary_add auto-compaction', () => {
     expect(text).toContain('chunk 2');
   });
 
+  it('session_recall lists the rollup by default and zooms into its sources', async () => {
+    const recall = workspaceTools.find((t: { name: string }) => t.name === 'dokoro_session_recall')!;
+    for (const i of [1, 2]) {
+      await summaryAdd.handler({ session_id: 's1', ai_model: 'opus', summary: `chunk ${i}`, token_count: 25000 });
+    }
+    const { id } = db
+      .prepare(`SELECT id FROM conversation_summaries WHERE rollup_level = 'session'`)
+      .get() as { id: number };
+
+    const top = (await recall.handler({})).content[0] as { text: string };
+    expect(top.text).toContain(`rollup=session sources=2 (expand=${id})`);
+    expect(top.text.match(/^\[[^\]]*\] #\d+ /gm)).toHaveLength(1); // originals hidden under the rollup
+
+    const zoomed = (await recall.handler({ expand: id })).content[0] as { text: string };
+    expect(zoomed.text.match(/^\[[^\]]*\] #\d+ /gm)).toHaveLength(2);
+    expect(zoomed.text).toContain('chunk 1');
+    expect(zoomed.text).not.toContain('rollup=');
+
+    const originals = (await recall.handler({ level: 'original' })).content[0] as { text: string };
+    expect(originals.text.match(/^\[[^\]]*\] #\d+ /gm)).toHaveLength(2);
+  });
+
   it('does NOT compact below the threshold', async () => {
     await summaryAdd.handler({
       session_id: 's1',
@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { jest } from '@jest/globals';
+
+// Sibling databases by dokoro folder; the local project is __TEST_DB__.
+const siblings = new Map<string, Database.Database>();
+jest.mock('../db/index.js', () => ({
+  getSqliteDb: (cfg: { projectPath: string; dokoroFolder: string; readonly?: boolean }) => {
+    if (cfg.readonly) {
+      const db = siblings.get(path.join(cfg.projectPath, cfg.dokoroFolder));
+      if (!db) throw new Error('unable to open database file');
+      return db;
+    }
+    const test = (globalThis as { __TEST_DB__?: Database.Database }).__TEST_DB__;
+    if (test) return test;
+    throw new Error('test DB not set');
+  },
+  ensureVectorTables: () => {},
+}));
+jest.mock('../utils/render-output.js', () => ({
+  renderOutput: (data: unknown) => JSON.stringify(data),
+}));
+jest.mock('../utils/color-setup.js', () => ({}));
+jest.mock('../services/embedding-service.js', () => ({
+  EmbeddingService: class {
+    async embed(): Promise<never> { throw new Error('offline'); }
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { workspaceTools } = require('./workspace-tools.js') as typeof import('./workspace-tools.js');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { localProjectName } = require('../services/federation.js') as typeof import('../services/federation.js');
+
+const recall = workspaceTools.find((t: { name: string }) => t.name === 'dokoro_session_recall')!;
+
+/** A sibling on an older schema: no rollup or embedding columns. */
+function olderSibling(summary: string, startedAt: string): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`CREATE TABLE conversation_summaries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT, summary TEXT,
+    message_count INTEGER, token_count INTEGER, started_at TEXT, ended_at TEXT)`);
+  db.prepare('INSERT INTO conversation_summaries (session_id, ai_model, summary, started_at) VALUES (?,?,?,?)')
+    .run('b1', 'sonnet', summary, startedAt);
+  return db;
+}
+
+describe('dokoro_session_recall federated', () => {
+  let root: string;
+  let local: Database.Database;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'dokoro-fed-recall-'));
+    const file = path.join(root, 'federation.json');
+    fs.writeFileSync(file, JSON.stringify({
+      projects: [{ name: 'billing', path: 'billing/dokoro' }, { name: 'ghost', path: 'ghost/dokoro' }],
+    }));
+    process.env.DOKORO_FEDERATION_PATH = file;
+    siblings.set(path.join(root, 'billing', 'dokoro'), olderSibling('billing: invoices moved to queue', '2026-03-02T00:00:00Z'));
+
+    local = new Database(':memory:');
+    local.exec(`CREATE TABLE conversation_summaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, session_id TEXT, ai_model TEXT, summary TEXT,
+      message_count INTEGER, token_count INTEGER, started_at TEXT, ended_at TEXT)`);
+    local.prepare('INSERT INTO conversation_summaries (session_id, ai_model, summary, started_at) VALUES (?,?,?,?)')
+      .run('a1', 'opus', 'api: switched auth to jwt', '2026-03-01T00:00:00Z');
+    (globalThis as { __TEST_DB__?: Database.Database }).__TEST_DB__ = local;
+  });
+
+  afterEach(() => {
+    for (const db of siblings.values()) db.close();
+    siblings.clear();
+    local.close();
+    delete (globalThis as { __TEST_DB__?: Database.Database }).__TEST_DB__;
+    delete process.env.DOKORO_FEDERATION_PATH;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const text = async (args: Record<string, unknown>) => {
+    const res = await recall.handler(args);
+    return { text: (res.content[0] as { text: string }).text, isError: res.isError };
+  };
+
+  it('merges sibling summaries newest first, labelled by project, and lists unreachable ones', async () => {
+    const { text: out } = await text({ federated: true });
+    const entries = out.match(/^\[[^\]]*\] #\d+ project=\S+/gm);
+    expect(entries).toEqual([
+      '[2026-03-02T00:00:00Z] #1 project=billing',
+      `[2026-03-01T00:00:00Z] #1 project=${localProjectName()}`,
+    ]);
+    expect(out).toContain('*Skipped projects:*\n- ghost: unable to open database file');
+  });
+
+  it('filters by project and keeps non-federated recall unlabelled', async () => {
+    const { text: billing } = await text({ federated: true, projects: ['billing'], query: 'invoices' });
+    expect(billing).toContain('project=billing');
+    expect(billing).not.toContain('api:');
+
+    const { text: plain } = await text({});
+    expect(plain).not.toContain('project=');
+    expect(plain).not.toContain('billing');
+
+    const { isError } = await text({ federated: true, expand: 1 });
+    expect(isError).toBe(true);
+  });
+});
@@ -20,6 +20,7 @@ jest.mock('../utils/color-setup.js', () => ({}));
 // loading LanceDB and hitting Ollama in tests.
 jest.mock('../services/embedding-service.js', () => ({
   EmbeddingService: class {
+    modelId = 'test:embed';
     async embed(): Promise<{ embedding: number[]; tokenCount: number }> {
       return { embedding: [1, 0, 0], tokenCount: 1 };
     }
@@ -59,7 +60,8 @@ describe('dokoro_session_recall', () => {
         started_at TEXT NOT NULL,
         ended_at TEXT,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        summary_embedding BLOB
+        summary_embedding BLOB,
+        summary_embedding_model TEXT DEFAULT 'test:embed'
       )
     `).run();
 
@@ -130,4 +132,40 @@ describe('dokoro_session_recall', () => {
     expect(text).toContain('about caching internals'); // not lost to the recency window
     expect(text.indexOf('about caching internals')).toBe(text.indexOf('about')); // ranked first
   });
+
+  it('shows a score breakdown and diversifies away from repeats of one session', async () => {
+    const blob = (v: number[]) => Buffer.from(new Float64Array(v).buffer);
+    const ins = db.prepare(
+      `INSERT INTO conversation_summaries (session_id, ai_model, summary, key_decisions_json, started_at, summary_embedding) VALUES (?,?,?,?,?,?)`,
+    );
+    ins.run('same', 'opus', 'about retries part 1', null, '2026-03-01T00:00:00Z', blob([1, 0, 0]));
+    ins.run('same', 'opus', 'about retries part 2', null, '2026-03-01T01:00:00Z', blob([1, 0, 0]));
+    ins.run('same', 'opus', 'about retries part 3', null, '2026-03-01T02:00:00Z', blob([1, 0, 0]));
+    ins.run('other', 'opus', 'about backoff policy', '["cap at 30s","jitter"]', '2026-03-01T00:00:00Z', blob([0.8, 0.6, 0]));
+
+    const tool = workspaceTools.find((t: { name: string }) => t.name === 'dokoro_session_recall');
+    const res = await tool!.handler({ query: 'about', limit: 2, diversity: 0.5 });
+    const text = res.content?.[0]?.type === 'text' ? res.content[0].text : '';
+    expect(text).toContain('about backoff policy');
+    expect(text.match(/about retries/g)).toHaveLength(1);
+    expect(text).toMatch(/score=[\d.-]+ \(relevance [\d.]+: sim 1\.00, recency [\d.]+, importance 0\.00; redundancy 0\.00\)/);
+    expect(text).toMatch(/importance 0\.49/);
+  });
+
+  it('ignores summary embeddings from a different model', async () => {
+    const blob = (v: number[]) => Buffer.from(new Float64Array(v).buffer);
+    const ins = db.prepare(
+      `INSERT INTO conversation_summaries (session_id, ai_model, summary, started_at, summary_embedding, summary_embedding_model)
+       VALUES (?,?,?,?,?,?)`,
+    );
+    // Identical to the query vector, but produced by the previous provider.
+    ins.run('old', 'opus', 'about stale vectors', '2026-03-01T00:00:00Z', blob([1, 0, 0]), 'ollama:nomic-embed-text');
+    ins.run('new', 'opus', 'about fresh vectors', '2026-03-01T00:00:00Z', blob([0.6, 0.8, 0]), 'test:embed');
+
+    const tool = workspaceTools.find((t: { name: string }) => t.name === 'dokoro_session_recall');
+    const res = await tool!.handler({ query: 'about', limit: 2 });
+    const text = res.content?.[0]?.type === 'text' ? res.content[0].text : '';
+    expect(text.indexOf('about fresh vectors')).toBeLessThan(text.indexOf('about stale vectors'));
+    expect(text).toMatch(/sim 0\.00[^\n]*\n {2}about stale vectors/);
+  });
 });
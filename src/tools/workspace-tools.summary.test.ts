@@ -21,6 +21,7 @@ jest.mock('../utils/color-setup.js', () => ({}));
 // Ollama, which hangs on hosts that drop (rather than refuse) the connection.
 jest.mock('../services/embedding-service.js', () => ({
   EmbeddingService: class {
+    modelId = 'test:embed';
     async embed(): Promise<{ embedding: number[]; tokenCount: number }> {
       return { embedding: [1, 0, 0], tokenCount: 1 };
     }
@@ -111,5 +112,7 @@ describe('dokoro_session_summary_add', () => {
     const res = await recall.handler({ query: 'login' });
     const text = res.content?.[0]?.type === 'text' ? res.content[0].text : '';
     expect(text).toMatch(/fixed login race/);
+    expect(db.prepare(`SELECT summary_embedding_model FROM conversation_summaries WHERE session_id = 's1'`).get())
+      .toEqual({ summary_embedding_model: 'test:embed' });
   });
 });
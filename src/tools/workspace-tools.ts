@@ -30,8 +30,10 @@ import {
 import { enableToolTracking, disableToolTracking, flushToolTracking } from '../utils/tool-tracker.js';
 import { CompactionService } from '../services/compaction-service.js';
 import { EmbeddingService } from '../services/embedding-service.js';
-import { floatArrayToBlob, blobToFloatArray, cosineSimilarity } from '../utils/vector-math.js';
-import { ensureEpisodicEmbeddingColumn } from '../db/episodic-tables.js';
+import { floatArrayToBlob } from '../utils/vector-math.js';
+import { formatBreakdown, rankRecall, summaryCandidate, type ScoreBreakdown } from '../services/recall-ranking.js';
+import { ensureEpisodicEmbeddingColumn, ensureRollupColumns } from '../db/episodic-tables.js';
+import { formatFederationErrors, hasColumn, openFederatedDbs } from '../services/federation.js';
 import { startHeartbeat, stopHeartbeat } from '../utils/heartbeat-manager.js';
 import { renderOutput } from '../utils/render-output.js';
 import { icon } from '../utils/icons.js';
@@ -655,15 +657,17 @@ export const workspaceTools: ToolDefinition[] = [
             ).run(a.session_id);
           } catch { /* no sessions table / FK off -> insert proceeds without it */ }
         }
+        const embedder = new EmbeddingService();
         let embeddingBlob: Buffer | null = null;
         try {
-          const { embedding } = await new EmbeddingService().embed(a.summary);
+          const { embedding } = await embedder.embed(a.summary);
           if (embedding && embedding.length) embeddingBlob = floatArrayToBlob(embedding);
         } catch { /* offline -> null embedding */ }
 
         db().prepare(`INSERT INTO conversation_summaries
-          (session_id, ai_model, summary, key_decisions_json, key_topics_json, message_count, token_count, started_at, summary_embedding)
-          VALUES (?,?,?,?,?,?,?, strftime('%Y-%m-%dT%H:%M:%SZ','now'), ?)`).run(
+          (session_id, ai_model, summary, key_decisions_json, key_topics_json, message_count, token_count, started_at,
+           summary_embedding, summary_embedding_model)
+          VALUES (?,?,?,?,?,?,?, strftime('%Y-%m-%dT%H:%M:%SZ','now'), ?, ?)`).run(
           a.session_id,
           a.ai_model,
           a.summary,
@@ -672,6 +676,7 @@ export const workspaceTools: ToolDefinition[] = [
           a.message_count ?? null,
           a.token_count ?? null,
           embeddingBlob,
+          embeddingBlob ? embedder.modelId : null,
         );
 
         // Episodic compaction: once cumulative summary tokens exceed the
@@ -688,13 +693,20 @@ export const workspaceTools: ToolDefinition[] = [
           // Soft-fail to NULL when Ollama is offline (recall falls back).
           try {
             const EMBED_INPUT_CAP = 8000; // chars; keeps within nomic-embed-text context
-            const { embedding } = await new EmbeddingService().embed(res.newSummary.slice(0, EMBED_INPUT_CAP));
+            const { embedding } = await embedder.embed(res.newSummary.slice(0, EMBED_INPUT_CAP));
             if (embedding && embedding.length) {
               db().prepare(
-                `UPDATE conversation_summaries SET summary_embedding = ? WHERE session_id = ? AND compacted = 1`,
-              ).run(floatArrayToBlob(embedding), a.session_id);
+                `UPDATE conversation_summaries SET summary_embedding = ?, summary_embedding_model = ? WHERE id = ?`,
+              ).run(floatArrayToBlob(embedding), embedder.modelId, res.rollupId);
             }
           } catch { /* offline -> leave NULL, recall falls back to substring/recency */ }
+
+          // Fold finished days/weeks into their calendar rollups. Best-effort:
+          // the session rollup above is already committed.
+          try {
+            const periods = await compactor.rollupPeriods();
+            if (periods.length) note += ` (+${periods.length} day/week rollup${periods.length === 1 ? '' : 's'})`;
+          } catch { /* retried on the next compaction */ }
         }
         return { content: [{ type: 'text' as const, text: `summary recorded for session ${a.session_id}${note}` }] };
       } catch (e) {
@@ -709,23 +721,34 @@ export const workspaceTools: ToolDefinition[] = [
   {
     name: 'dokoro_session_recall',
     title: 'Recall past sessions',
-    description: 'Read conversation summaries from finished sessions (episodic memory). Filter by query substring, session_id, or since timestamp.',
+    description: 'Read conversation summaries from finished sessions (episodic memory). Filter by query substring, session_id, or since timestamp. ' +
+      'Compaction rolls summaries up session -> day -> week; by default only the top of that hierarchy is listed (every level when a query is given). ' +
+      'Use level to pick one level, or expand=<rollup id> to zoom into the rows a rollup was built from. ' +
+      'federated=true also reads the sibling projects listed in federation.json (read-only); each result is labelled with its project. ' +
+      'With a query, results are ranked by embedding similarity, recency (half-life decay) and importance (key decisions, linked docs), ' +
+      'then diversified (MMR) so near-identical summaries of one session do not fill the list; each result shows its score breakdown.',
     inputSchema: {
       query: z.string().optional().describe('Substring to filter summaries.'),
       session_id: z.string().optional(),
       since: z.string().optional().describe('ISO timestamp lower bound.'),
       limit: z.number().int().positive().max(100).optional(),
+      level: z.enum(['top', 'week', 'day', 'session', 'original', 'all']).optional()
+        .describe("Hierarchy level: 'top' (not yet rolled up; default without query), a rollup level, 'original' summaries, or 'all' (default with query)."),
+      expand: z.number().int().positive().optional()
+        .describe('Rollup id: list its direct source rows (one level down). Overrides level. With federated, name the one project it belongs to in projects.'),
+      federated: z.boolean().optional().describe('Also recall from federated sibling projects (see federation.json).'),
+      projects: z.array(z.string()).optional().describe('With federated: only these projects (default all, including this one).'),
+      half_life_days: z.number().positive().optional().describe('With query: recency half-life in days (default 30).'),
+      diversity: z.number().min(0).max(1).optional()
+        .describe('With query: 0 ranks purely by relevance, higher values favour results unlike those above them (default 0.3).'),
     },
     handler: async (args): Promise<CallToolResult> => {
       try {
-        const a = args as { query?: string; session_id?: string; since?: string; limit?: number };
-        const where: string[] = [];
-        const params: unknown[] = [];
-        if (a.query)      { where.push('summary LIKE ?');  params.push(`%${a.query}%`); }
-        if (a.session_id) { where.push('session_id = ?'); params.push(a.session_id); }
-        if (a.since)      { where.push('started_at >= ?'); params.push(a.since); }
-        const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
-
+        const a = args as RecallArgs & {
+          limit?: number; federated?: boolean; projects?: string[]; half_life_days?: number; diversity?: number;
+        };
+        const level = a.level ?? (a.query ? 'all' : 'top');
+        ensureRollupColumns(db());
         ensureEpisodicEmbeddingColumn(db());
         const userLimit = a.limit ?? 10;
         // With a query we semantically re-rank, so the recency LIMIT must NOT
@@ -733,39 +756,65 @@ export const workspaceTools: ToolDefinition[] = [
         // the recency window is lost. Pull a bounded wider pool, rank, then slice.
         const RANK_CANDIDATE_CAP = 500;
         const fetchLimit = a.query ? Math.max(userLimit, RANK_CANDIDATE_CAP) : userLimit;
-        const rows = db().prepare(`
-          SELECT session_id, ai_model, summary, message_count, token_count, started_at, ended_at, summary_embedding
-          FROM conversation_summaries
-          ${whereSql}
-          ORDER BY started_at DESC
-          LIMIT ?
-        `).all(...params, fetchLimit) as Array<Record<string, unknown>>;
-
-        // Semantic re-rank when a query is provided and embeds successfully;
-        // otherwise keep the recency order from the SQL above.
-        let ordered = rows;
+
+        let rows: Array<Record<string, unknown>>;
+        let federationNote = '';
+        if (a.federated) {
+          // Rollup ids are per-database, so zooming needs exactly one project.
+          if (a.expand !== undefined && a.projects?.length !== 1) {
+            return {
+              isError: true,
+              content: [{ type: 'text' as const, text: "session_recall failed: with federated, expand needs projects=[<the rollup's project>]" }],
+            };
+          }
+          const { dbs, errors } = openFederatedDbs(db(), { projects: a.projects });
+          rows = [];
+          for (const p of dbs) {
+            try {
+              rows.push(...selectRecallRows(p.db, a, level, fetchLimit).map((r) => ({ ...r, project: p.project })));
+            } catch (e) {
+              errors.push(`${p.project}: ${(e as Error).message}`);
+            }
+          }
+          // Merge the per-project pages back into one recency order.
+          rows.sort((x, y) => String(y['started_at'] ?? '').localeCompare(String(x['started_at'] ?? '')));
+          federationNote = formatFederationErrors(errors);
+        } else {
+          rows = selectRecallRows(db(), a, level, fetchLimit);
+        }
+
+        // With a query, rank by similarity + recency decay + importance and
+        // pick with MMR so near-duplicates (one session's summaries and its
+        // rollups) do not crowd the list; each result shows its breakdown.
+        // Without a query keep the recency order from the SQL above.
+        let ordered = rows.slice(0, userLimit);
+        const breakdowns = new Map<Record<string, unknown>, ScoreBreakdown>();
         if (a.query) {
+          // Only summaries embedded by the same model are compared with the query.
+          const embedder = new EmbeddingService();
+          let queryEmbedding: number[] | null = null;
           try {
-            const { embedding } = await new EmbeddingService().embed(a.query);
-            if (embedding && embedding.length) {
-              ordered = [...rows]
-                .map((r) => {
-                  const blob = r['summary_embedding'] as Buffer | null;
-                  const sim = blob ? cosineSimilarity(embedding, blobToFloatArray(blob)) : -1;
-                  return { r, sim };
-                })
-                .sort((x, y) => y.sim - x.sim)
-                .map((x) => x.r);
-            }
-          } catch { /* keep recency order on embed failure */ }
+            const { embedding } = await embedder.embed(a.query);
+            if (embedding && embedding.length) queryEmbedding = embedding;
+          } catch { /* offline -> rank on recency + importance only */ }
+          const ranked = rankRecall(rows.map((r) => summaryCandidate(r, embedder.modelId)), queryEmbedding, userLimit, {
+            halfLifeDays: a.half_life_days,
+            diversity: a.diversity,
+          });
+          ordered = ranked.map((x) => x.item);
+          for (const x of ranked) breakdowns.set(x.item, x.breakdown);
         }
-        // Apply the user-facing limit AFTER ranking (recency path already capped).
-        ordered = ordered.slice(0, userLimit);
 
-        const text = ordered.map((r) =>
-          `[${r['started_at']}] session=${r['session_id']} model=${r['ai_model']} msgs=${r['message_count']}\n  ${r['summary']}`
-        ).join('\n\n') || '(no past sessions)';
-        return { content: [{ type: 'text' as const, text }] };
+        const text = ordered.map((r) => {
+          const rollup = r['rollup_level']
+            ? ` rollup=${r['rollup_level']} sources=${(JSON.parse((r['source_ids_json'] as string) || '[]') as number[]).length} (expand=${r['id']})`
+            : '';
+          const project = r['project'] ? ` project=${r['project']}` : '';
+          const breakdown = breakdowns.get(r);
+          const score = breakdown ? `\n  ${formatBreakdown(breakdown)}` : '';
+          return `[${r['started_at']}] #${r['id']}${project} session=${r['session_id']} model=${r['ai_model']} msgs=${r['message_count']}${rollup}${score}\n  ${r['summary']}`;
+        }).join('\n\n') || (a.expand !== undefined ? `(rollup #${a.expand} has no sources)` : '(no past sessions)');
+        return { content: [{ type: 'text' as const, text: text + federationNote }] };
       } catch (error: unknown) {
         const msg = error instanceof Error ? error.message : String(error);
         return {
@@ -775,4 +824,54 @@ export const workspaceTools: ToolDefinition[] = [
       }
     },
   },
-];
\ No newline at end of file
+];
+
+interface RecallArgs {
+  query?: string;
+  session_id?: string;
+  since?: string;
+  level?: 'top' | 'week' | 'day' | 'session' | 'original' | 'all';
+  expand?: number;
+}
+
+/**
+ * Recall candidates from one database, newest first. Read-only: federated
+ * sibling databases may predate the rollup / embedding / importance columns,
+ * in which case every row counts as an un-rolled-up original with no key
+ * decisions or linked docs.
+ */
+function selectRecallRows(
+  conn: Database.Database,
+  a: RecallArgs,
+  level: NonNullable<RecallArgs['level']>,
+  fetchLimit: number,
+): Array<Record<string, unknown>> {
+  const hasRollups = hasColumn(conn, 'conversation_summaries', 'rollup_level');
+  const hasEmbeddings = hasColumn(conn, 'conversation_summaries', 'summary_embedding');
+  const embeddingModel = hasColumn(conn, 'conversation_summaries', 'summary_embedding_model')
+    ? 'summary_embedding_model' : 'NULL AS summary_embedding_model';
+  const importance = ['key_decisions_json', 'linked_docs_json']
+    .map((c) => (hasColumn(conn, 'conversation_summaries', c) ? c : `NULL AS ${c}`)).join(', ');
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (a.query)      { where.push('summary LIKE ?');  params.push(`%${a.query}%`); }
+  if (a.session_id) { where.push('session_id = ?'); params.push(a.session_id); }
+  if (a.since)      { where.push('started_at >= ?'); params.push(a.since); }
+  if (!hasRollups) {
+    if (a.expand !== undefined || ['week', 'day', 'session'].includes(level)) return [];
+  } else if (a.expand !== undefined) { where.push('parent_id = ?'); params.push(a.expand); }
+  else if (level === 'top')      where.push('parent_id IS NULL');
+  else if (level === 'original') where.push('rollup_level IS NULL');
+  else if (level !== 'all')    { where.push('rollup_level = ?'); params.push(level); }
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+  return conn.prepare(`
+    SELECT id, session_id, ai_model, summary, ${importance}, message_count, token_count, started_at, ended_at,
+           ${hasEmbeddings ? 'summary_embedding' : 'NULL AS summary_embedding'}, ${embeddingModel},
+           ${hasRollups ? 'rollup_level, source_ids_json' : 'NULL AS rollup_level, NULL AS source_ids_json'}
+    FROM conversation_summaries
+    ${whereSql}
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(...params, fetchLimit) as Array<Record<string, unknown>>;
+}
@@ -14,7 +14,7 @@ import path from 'path';
 import Database from 'better-sqlite3';
 import { jest } from '@jest/globals';
 import { isoWeekDir, monthDir } from './timestamp.js';
-import { normalizeClaimPath } from './claim-path.js';
+import { normalizeClaimPath, normalizeClaimTarget } from './claim-path.js';
 
 jest.mock('../db/index.js', () => ({
   getSqliteDb: () => { throw new Error('getSqliteDb should not be called in tests (use __TEST_DB__)'); },
@@ -90,11 +90,11 @@ async function writeDaily(date: Date, suffix = 'session'): Promise<string> {
   return name;
 }
 
-function insertLiveClaim(claimKey: string): void {
+function insertLiveClaim(claimKey: string, kind = 'file'): void {
   db.prepare(`
-    INSERT INTO file_claims (claim_key, file_path, agent_id, claimed_at, expires_at, heartbeat_seq, released_at)
-    VALUES (?, ?, 'alice', strftime('%s','now'), strftime('%s','now') + 600, 0, NULL)
-  `).run(claimKey, claimKey);
+    INSERT INTO file_claims (claim_key, file_path, kind, agent_id, claimed_at, expires_at, heartbeat_seq, released_at)
+    VALUES (?, ?, ?, 'alice', strftime('%s','now'), strftime('%s','now') + 600, 0, NULL)
+  `).run(claimKey, claimKey, kind);
 }
 
 function releaseClaim(claimKey: string): void {
@@ -113,6 +113,7 @@ beforeEach(async () => {
     CREATE TABLE file_claims (
       claim_key TEXT PRIMARY KEY,
       file_path TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'file',
       agent_id TEXT NOT NULL,
       session_id TEXT,
       intent TEXT,
@@ -240,6 +241,23 @@ describe('sweepWorkspace — daily files', () => {
     expect(unblocked.movedDaily).toHaveLength(1);
     await expect(fs.access(path.join(dailyDir(), name))).rejects.toBeDefined();
   });
+
+  it('skips files covered by a live directory or glob claim', async () => {
+    const name = await writeDaily(daysAgo(20));
+    const dir = normalizeClaimTarget(`${dailyDir()}/`, tmpDir);
+    if (!dir.ok) throw new Error(`claim path normalization failed: ${dir.error}`);
+    insertLiveClaim(dir.claimKey, dir.kind);
+
+    const blocked = await mod.sweepWorkspace({ claimRoot: tmpDir });
+    expect(blocked.movedDaily).toHaveLength(0);
+
+    releaseClaim(dir.claimKey);
+    const glob = normalizeClaimTarget(path.join(dailyDir(), '*.md'), tmpDir);
+    if (!glob.ok) throw new Error(`claim path normalization failed: ${glob.error}`);
+    insertLiveClaim(glob.claimKey, glob.kind);
+    expect((await mod.sweepWorkspace({ claimRoot: tmpDir })).movedDaily).toHaveLength(0);
+    await expect(fs.access(path.join(dailyDir(), name))).resolves.toBeUndefined();
+  });
 });
 
 describe('sweepWorkspace — plans', () => {
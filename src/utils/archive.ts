@@ -35,7 +35,7 @@ import path from 'path';
 import type Database from 'better-sqlite3';
 import { DOKORO_PATH } from '../shared/dokoro-utils.js';
 import { getSqliteDb } from '../db/index.js';
-import { normalizeClaimPath } from './claim-path.js';
+import { claimCovers, normalizeClaimPath, type ClaimKind } from './claim-path.js';
 import { isoWeekDir, monthDir } from './timestamp.js';
 
 const PLANS_DIR = path.join(DOKORO_PATH, '.mcp', 'plans');
@@ -321,15 +321,18 @@ function claimDb(): Database.Database {
   return getSqliteDb({ projectPath: path.dirname(DOKORO_PATH), dokoroFolder: path.basename(DOKORO_PATH) });
 }
 
-/** True when an open, unexpired advisory claim exists for the claim key. */
+/**
+ * True when an open, unexpired advisory claim covers the claim key: the file
+ * itself, or a directory/glob claim that includes it.
+ */
 function hasLiveClaim(sqlite: Database.Database, claimKey: string): boolean {
-  const row = sqlite
+  const rows = sqlite
     .prepare(
-      `SELECT 1 AS x FROM file_claims
-       WHERE claim_key = ? AND released_at IS NULL AND expires_at > strftime('%s','now')`,
+      `SELECT claim_key, kind FROM file_claims
+       WHERE (claim_key = ? OR kind != 'file') AND released_at IS NULL AND expires_at > strftime('%s','now')`,
     )
-    .get(claimKey);
-  return row !== undefined;
+    .all(claimKey) as Array<{ claim_key: string; kind: ClaimKind }>;
+  return rows.some((r) => claimCovers({ kind: r.kind, claimKey: r.claim_key }, claimKey));
 }
 
 /** Best-effort atomic status write — never throws (observability only). */
@@ -0,0 +1,34 @@
+import { seededRng, sampleBeta, ucb1, jaccard } from './bandit-math.js';
+
+it('seededRng is deterministic per seed and stays in [0, 1)', () => {
+  const a = seededRng(42);
+  const b = seededRng(42);
+  const xs = Array.from({ length: 100 }, () => a());
+  expect(xs).toEqual(Array.from({ length: 100 }, () => b()));
+  expect(xs.every((x) => x >= 0 && x < 1)).toBe(true);
+});
+
+it('sampleBeta has the expected mean and stays in [0, 1]', () => {
+  const rng = seededRng(1);
+  const n = 4000;
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const x = sampleBeta(8, 2, rng);
+    expect(x).toBeGreaterThanOrEqual(0);
+    expect(x).toBeLessThanOrEqual(1);
+    sum += x;
+  }
+  expect(sum / n).toBeCloseTo(0.8, 1);
+  // shape < 1 path
+  expect(sampleBeta(0.5, 0.5, rng)).toBeGreaterThanOrEqual(0);
+});
+
+it('ucb1 is infinite for unplayed arms and shrinks its bonus with more samples', () => {
+  expect(ucb1(0.5, 0, 10)).toBe(Infinity);
+  expect(ucb1(0.5, 2, 10)).toBeGreaterThan(ucb1(0.5, 8, 10));
+});
+
+it('jaccard compares feature sets', () => {
+  expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+  expect(jaccard(new Set(), new Set())).toBe(0);
+});
@@ -0,0 +1,71 @@
+/**
+ * Small, dependency-free helpers for multi-armed bandit routing
+ * (dokoro_feedback_route mode=thompson|ucb). Pure functions; randomness is
+ * injected so callers can seed it for reproducible picks.
+ */
+
+export type Rng = () => number;
+
+/** mulberry32: tiny seeded PRNG returning floats in [0, 1). */
+export function seededRng(seed: number): Rng {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal via Box–Muller. */
+function sampleNormal(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Gamma(shape, 1) via Marsaglia–Tsang; shape < 1 uses the boost trick. */
+export function sampleGamma(shape: number, rng: Rng): number {
+  if (shape < 1) {
+    const u = rng() || Number.MIN_VALUE;
+    return sampleGamma(shape + 1, rng) * Math.pow(u, 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/** Beta(alpha, beta) as X/(X+Y) with X~Gamma(alpha), Y~Gamma(beta). */
+export function sampleBeta(alpha: number, beta: number, rng: Rng): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x + y === 0 ? 0.5 : x / (x + y);
+}
+
+/**
+ * UCB1 score: mean + sqrt(2 ln(total) / n). Unplayed arms (n = 0) score
+ * Infinity so every candidate is tried at least once.
+ */
+export function ucb1(mean: number, n: number, total: number): number {
+  if (n <= 0) return Infinity;
+  return mean + Math.sqrt((2 * Math.log(Math.max(total, 1))) / n);
+}
+
+/** Jaccard similarity of two feature sets; 0 when both are empty. */
+export function jaccard(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter++;
+  return inter / (a.size + b.size - inter);
+}
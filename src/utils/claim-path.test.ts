@@ -1,4 +1,4 @@
-import { normalizeClaimPath } from './claim-path.js';
+import { claimCovers, claimsOverlap, normalizeClaimPath, normalizeClaimTarget } from './claim-path.js';
 
 const ROOT = '/tmp/claim-root';
 
@@ -88,3 +88,36 @@ describe('normalizeClaimPath', () => {
     expect(normalizeClaimPath(`${ROOT}/`, ROOT).ok).toBe(false);
   });
 });
+
+describe('claim targets', () => {
+  it('classifies files, directory prefixes and globs', () => {
+    expect(normalizeClaimTarget('src/Auth/', ROOT)).toEqual({ ok: true, kind: 'dir', relPath: 'src/Auth/', claimKey: 'src/auth/' });
+    expect(normalizeClaimTarget('src\\auth\\', ROOT)).toMatchObject({ kind: 'dir', relPath: 'src/auth/' });
+    expect(normalizeClaimTarget(`${ROOT}/src/**/*.TS`, ROOT)).toEqual({ ok: true, kind: 'glob', relPath: 'src/**/*.TS', claimKey: 'src/**/*.ts' });
+    expect(normalizeClaimTarget('src/a.ts', ROOT)).toMatchObject({ kind: 'file', claimKey: 'src/a.ts' });
+    expect(normalizeClaimTarget('./', ROOT).ok).toBe(false);
+  });
+
+  it('matches files against directory and glob claims', () => {
+    expect(claimCovers({ kind: 'dir', claimKey: 'src/auth/' }, 'src/auth/deep/x.ts')).toBe(true);
+    expect(claimCovers({ kind: 'dir', claimKey: 'src/auth/' }, 'src/authz.ts')).toBe(false);
+    expect(claimCovers({ kind: 'glob', claimKey: 'src/**/*.ts' }, 'src/a.ts')).toBe(true);
+    expect(claimCovers({ kind: 'glob', claimKey: 'src/**/*.ts' }, 'src/a/b/c.ts')).toBe(true);
+    expect(claimCovers({ kind: 'glob', claimKey: 'src/*.ts' }, 'src/a/b.ts')).toBe(false);
+    expect(claimCovers({ kind: 'glob', claimKey: 'src/a?.ts' }, 'src/ab.ts')).toBe(true);
+    expect(claimCovers({ kind: 'glob', claimKey: 'src/a.(ts)' }, 'src/a.(ts)')).toBe(true);
+  });
+
+  it('detects overlap between patterns', () => {
+    const dir = (k: string) => ({ kind: 'dir' as const, claimKey: k });
+    const glob = (k: string) => ({ kind: 'glob' as const, claimKey: k });
+    expect(claimsOverlap(dir('src/'), dir('src/auth/'))).toBe(true);
+    expect(claimsOverlap(dir('src/auth/'), dir('src/db/'))).toBe(false);
+    expect(claimsOverlap(dir('src/auth/'), glob('src/*/login.ts'))).toBe(true);
+    expect(claimsOverlap(dir('src/auth/'), glob('src/*.ts'))).toBe(false);
+    expect(claimsOverlap(dir('src/auth/'), glob('**/*.md'))).toBe(true);
+    expect(claimsOverlap(glob('docs/*.md'), glob('docs/a*'))).toBe(true);
+    expect(claimsOverlap(glob('docs/*.md'), glob('src/*.md'))).toBe(false);
+    expect(claimsOverlap(glob('docs/*.md'), { kind: 'file', claimKey: 'docs/readme.md' })).toBe(true);
+  });
+});
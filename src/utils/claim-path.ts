@@ -80,3 +80,114 @@ export function normalizeClaimPath(input: string, root: string): ClaimPathResult
 
   return { ok: true, relPath, claimKey: relPath.toLowerCase() };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Directory and glob claims
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * What a claim covers: one file, every path under a directory prefix, or every
+ * path matching a glob. Stored in file_claims.kind.
+ */
+export type ClaimKind = 'file' | 'dir' | 'glob';
+
+export interface ClaimTargetOk extends ClaimPathOk {
+  kind: ClaimKind;
+}
+
+export type ClaimTargetResult = ClaimTargetOk | ClaimPathError;
+
+const GLOB_CHARS = /[*?]/;
+
+/**
+ * Normalize a claim target. Input containing `*` or `?` is a glob (`*` and `?`
+ * stay within one path segment, `**` spans segments); input ending in `/` is a
+ * directory prefix; anything else is a single file. Directory targets keep
+ * their trailing `/` in relPath and claimKey, so they never collide with a
+ * file claim on the same name.
+ */
+export function normalizeClaimTarget(input: string, root: string): ClaimTargetResult {
+  const r = normalizeClaimPath(input, root);
+  if (!r.ok) return r;
+  if (GLOB_CHARS.test(r.relPath)) return { ...r, kind: 'glob' };
+  if (/[/\\]$/.test(input.trim())) {
+    const relPath = `${r.relPath}/`;
+    return { ok: true, kind: 'dir', relPath, claimKey: relPath.toLowerCase() };
+  }
+  return { ...r, kind: 'file' };
+}
+
+/** Regex source for one glob segment (no `/`). */
+function segmentSource(segment: string): string {
+  return segment
+    .split('')
+    .map((c) => (c === '*' ? '[^/]*' : c === '?' ? '[^/]' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+}
+
+function segmentRegex(segment: string): RegExp {
+  return new RegExp(`^${segmentSource(segment)}$`);
+}
+
+/** Compile a casefolded glob claimKey into an anchored RegExp over file claimKeys. */
+export function globToRegExp(glob: string): RegExp {
+  const parts = glob.split('/');
+  let source = '';
+  parts.forEach((part, i) => {
+    const last = i === parts.length - 1;
+    if (part === '**') source += last ? '.*' : '(?:[^/]+/)*';
+    else source += segmentSource(part) + (last ? '' : '/');
+  });
+  return new RegExp(`^${source}$`);
+}
+
+/** A claim as far as overlap is concerned: its kind and casefolded key. */
+export interface ClaimSpan {
+  kind: ClaimKind;
+  claimKey: string;
+}
+
+/** True when the file claimKey `fileKey` falls under the dir/glob claim `pattern`. */
+export function claimCovers(pattern: ClaimSpan, fileKey: string): boolean {
+  if (pattern.kind === 'file') return pattern.claimKey === fileKey;
+  if (pattern.kind === 'dir') return fileKey.startsWith(pattern.claimKey);
+  return globToRegExp(pattern.claimKey).test(fileKey);
+}
+
+/**
+ * Whether two glob segment lists can match a common path. Literal segments
+ * are compared exactly; wildcard segments conservatively; `**` on either side
+ * is assumed to overlap whatever follows.
+ */
+function segmentsOverlap(a: string[], b: string[]): boolean {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] === '**' || b[i] === '**') return true;
+    const aGlob = GLOB_CHARS.test(a[i]);
+    const bGlob = GLOB_CHARS.test(b[i]);
+    if (!aGlob && !bGlob && a[i] !== b[i]) return false;
+    if (aGlob && !bGlob && !segmentRegex(a[i]).test(b[i])) return false;
+    if (bGlob && !aGlob && !segmentRegex(b[i]).test(a[i])) return false;
+  }
+  if (a.length === b.length) return true;
+  const rest = a.length > b.length ? a.slice(n) : b.slice(n);
+  return rest.length === 1 && rest[0] === '**';
+}
+
+/**
+ * True when two claims can cover a common file. Exact for file/dir pairs and
+ * for a file against a glob; for a glob against a directory or another glob
+ * the answer errs toward overlap, since a missed conflict is worse than a
+ * spurious warning.
+ */
+export function claimsOverlap(a: ClaimSpan, b: ClaimSpan): boolean {
+  if (a.kind === 'file') return claimCovers(b, a.claimKey);
+  if (b.kind === 'file') return claimCovers(a, b.claimKey);
+  if (a.kind === 'dir' && b.kind === 'dir') {
+    return a.claimKey.startsWith(b.claimKey) || b.claimKey.startsWith(a.claimKey);
+  }
+  // A directory `src/auth/` behaves like the glob `src/auth/**`.
+  const segments = (s: ClaimSpan): string[] =>
+    s.kind === 'dir' ? [...s.claimKey.slice(0, -1).split('/'), '**'] : s.claimKey.split('/');
+  return segmentsOverlap(segments(a), segments(b));
+}
@@ -0,0 +1,50 @@
+import { applyJsonPatch, parsePointer, type JsonPatchOp } from './json-patch.js';
+
+describe('parsePointer', () => {
+  it('splits and unescapes reference tokens', () => {
+    expect(parsePointer('')).toEqual([]);
+    expect(parsePointer('/a~1b/c~0d/0')).toEqual(['a/b', 'c~d', '0']);
+    expect(() => parsePointer('a')).toThrow(/must start with "\/"/);
+    expect(() => parsePointer('/__proto__/x')).toThrow(/unsupported/);
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const doc = { a: { b: [1, 2, 3] }, c: 'x' };
+
+  it('applies add, remove, replace, move, copy and test in order without mutating the input', () => {
+    const out = applyJsonPatch(doc, [
+      { op: 'test', path: '/c', value: 'x' },
+      { op: 'add', path: '/a/b/1', value: 9 },
+      { op: 'add', path: '/a/b/-', value: 4 },
+      { op: 'remove', path: '/a/b/0' },
+      { op: 'replace', path: '/c', value: { d: true } },
+      { op: 'copy', from: '/c', path: '/e' },
+      { op: 'move', from: '/a/b', path: '/f' },
+    ]);
+    expect(out).toEqual({ a: {}, c: { d: true }, e: { d: true }, f: [9, 2, 3, 4] });
+    expect(doc).toEqual({ a: { b: [1, 2, 3] }, c: 'x' });
+  });
+
+  it('replaces the whole document with an empty path', () => {
+    expect(applyJsonPatch(doc, [{ op: 'replace', path: '', value: [1] }])).toEqual([1]);
+  });
+
+  it('fails the whole patch on the first bad operation, naming it', () => {
+    expect(() => applyJsonPatch(doc, [{ op: 'add', path: '/z', value: 1 }, { op: 'remove', path: '/missing' }]))
+      .toThrow('op #2 (remove /missing): path not found at "missing"');
+    expect(() => applyJsonPatch(doc, [{ op: 'replace', path: '/a/b/3', value: 0 }])).toThrow(/array index 3 out of bounds/);
+    expect(() => applyJsonPatch(doc, [{ op: 'test', path: '/a/b', value: [1, 2] }])).toThrow(/test failed/);
+    expect(() => applyJsonPatch(doc, [{ op: 'move', from: '/a', path: '/a/b/x' }])).toThrow(/into itself/);
+  });
+
+  it('rejects operations missing a required member instead of using undefined', () => {
+    // Shaped like a patch parsed from JSON, where the member is simply absent.
+    const ops = (...raw: object[]) => raw as JsonPatchOp[];
+    expect(() => applyJsonPatch(doc, ops({ op: 'add', path: '/z' }))).toThrow('op #1 (add /z): missing "value"');
+    expect(() => applyJsonPatch(doc, ops({ op: 'replace', path: '/c' }))).toThrow(/missing "value"/);
+    expect(() => applyJsonPatch(doc, ops({ op: 'test', path: '/missing' }))).toThrow(/missing "value"/);
+    expect(() => applyJsonPatch(doc, ops({ op: 'copy', path: '/z' }))).toThrow(/missing "from"/);
+    expect(applyJsonPatch(doc, [{ op: 'replace', path: '/c', value: null }])).toEqual({ a: { b: [1, 2, 3] }, c: null });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * JSON Patch (RFC 6902) over JSON Pointers (RFC 6901).
+ *
+ * applyJsonPatch never mutates its input: the document is cloned, every
+ * operation is applied in order, and the first failing operation (missing
+ * path, bad array index, failed `test`) throws, so a patch applies entirely
+ * or not at all. An operation missing a member RFC 6902 requires (`value` for
+ * add/replace/test, `from` for move/copy) is an error too, rather than adding
+ * or comparing `undefined`.
+ */
+
+export type JsonPatchOp =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+type Container = Record<string, unknown> | unknown[];
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+/** Split a JSON Pointer into unescaped reference tokens. */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`invalid JSON pointer "${pointer}" (must start with "/")`);
+  const tokens = pointer.slice(1).split('/').map((t) => t.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.includes('__proto__')) throw new Error(`unsupported JSON pointer "${pointer}"`);
+  return tokens;
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function arrayIndex(arr: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return arr.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw new Error(`"${token}" is not an array index`);
+  const i = Number(token);
+  if (i > arr.length || (!allowEnd && i === arr.length)) throw new Error(`array index ${i} out of bounds`);
+  return i;
+}
+
+/** The container holding the pointer's last token, plus that token. */
+function locate(doc: unknown, tokens: string[]): { parent: Container; key: string } {
+  let node = doc;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(node)) node = node[arrayIndex(node, token, false)];
+    else if (isContainer(node) && Object.prototype.hasOwnProperty.call(node, token)) node = (node as Record<string, unknown>)[token];
+    else throw new Error(`path not found at "${token}"`);
+  }
+  if (!isContainer(node)) throw new Error('parent is not an object or array');
+  return { parent: node, key: tokens[tokens.length - 1] };
+}
+
+function getValue(doc: unknown, pointer: string): unknown {
+  let node = doc;
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(node)) node = node[arrayIndex(node, token, false)];
+    else if (isContainer(node) && Object.prototype.hasOwnProperty.call(node, token)) node = (node as Record<string, unknown>)[token];
+    else throw new Error(`path not found at "${token}"`);
+  }
+  return node;
+}
+
+function addValue(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  const { parent, key } = locate(doc, tokens);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true), 0, value);
+  else parent[key] = value;
+  return doc;
+}
+
+function removeValue(doc: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) throw new Error('cannot remove the whole document');
+  const { parent, key } = locate(doc, tokens);
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, false), 1);
+  else if (Object.prototype.hasOwnProperty.call(parent, key)) delete parent[key];
+  else throw new Error(`path not found at "${key}"`);
+  return doc;
+}
+
+function replaceValue(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  const { parent, key } = locate(doc, tokens);
+  if (Array.isArray(parent)) parent[arrayIndex(parent, key, false)] = value;
+  else if (Object.prototype.hasOwnProperty.call(parent, key)) parent[key] = value;
+  else throw new Error(`path not found at "${key}"`);
+  return doc;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a)) return Array.isArray(b) && a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isContainer(a) && isContainer(b) && !Array.isArray(b)) {
+    const ka = Object.keys(a);
+    const kb = Object.keys(b);
+    return ka.length === kb.length && ka.every((k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual((a as Record<string, unknown>)[k], b[k]));
+  }
+  return false;
+}
+
+/** Throws unless `op` carries the members its kind requires. */
+function checkMembers(op: JsonPatchOp): void {
+  if ((op.op === 'add' || op.op === 'replace' || op.op === 'test') && op.value === undefined) {
+    throw new Error('missing "value"');
+  }
+  if ((op.op === 'move' || op.op === 'copy') && typeof op.from !== 'string') throw new Error('missing "from"');
+}
+
+/** Apply `patch` to a copy of `doc`. Throws on the first failing operation. */
+export function applyJsonPatch(doc: unknown, patch: JsonPatchOp[]): unknown {
+  let result = clone(doc);
+  patch.forEach((op, i) => {
+    try {
+      checkMembers(op);
+      switch (op.op) {
+        case 'add':
+          result = addValue(result, op.path, clone(op.value));
+          break;
+        case 'remove':
+          result = removeValue(result, op.path);
+          break;
+        case 'replace':
+          result = replaceValue(result, op.path, clone(op.value));
+          break;
+        case 'move': {
+          if (op.path !== op.from && op.path.startsWith(`${op.from}/`)) throw new Error('cannot move a value into itself');
+          const value = getValue(result, op.from);
+          result = addValue(removeValue(result, op.from), op.path, value);
+          break;
+        }
+        case 'copy':
+          result = addValue(result, op.path, clone(getValue(result, op.from)));
+          break;
+        case 'test':
+          if (!deepEqual(getValue(result, op.path), op.value)) throw new Error('test failed: value differs');
+          break;
+        default:
+          throw new Error(`unknown op "${(op as { op: string }).op}"`);
+      }
+    } catch (e) {
+      throw new Error(`op #${i + 1} (${op.op} ${op.path}): ${(e as Error).message}`);
+    }
+  });
+  return result;
+}
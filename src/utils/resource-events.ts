@@ -0,0 +1,51 @@
+/**
+ * In-process change feed for dokoro:// memory resources.
+ *
+ * Write tools (shared blocks, handoffs, plans) call notifyResourceChanged()
+ * after a successful write; the core server's resource layer listens and
+ * forwards `notifications/resources/updated` to clients that subscribed to
+ * that URI. Kept free of server imports so tools can depend on it without
+ * pulling in the MCP runtime.
+ */
+
+export type ResourceChangeListener = (uri: string) => void;
+
+const listeners = new Set<ResourceChangeListener>();
+
+export const HANDOFFS_OPEN_URI = 'dokoro://handoffs/open';
+
+export function planResourceUri(planId: string): string {
+  return `dokoro://plans/${encodeURIComponent(planId)}`;
+}
+
+export function sessionSummariesResourceUri(sessionId: string): string {
+  return `dokoro://sessions/${encodeURIComponent(sessionId)}/summaries`;
+}
+
+export function entityResourceUri(entityId: number): string {
+  return `dokoro://entities/${entityId}`;
+}
+
+export function blockResourceUri(blockKey: string): string {
+  return `dokoro://blocks/${encodeURIComponent(blockKey)}`;
+}
+
+/** Subscribe to resource changes. Returns an unsubscribe function. */
+export function onResourceChanged(listener: ResourceChangeListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Announce that the resource at `uri` changed. Listener failures are swallowed:
+ * a notification problem must never fail the write that triggered it.
+ */
+export function notifyResourceChanged(uri: string): void {
+  for (const listener of listeners) {
+    try {
+      listener(uri);
+    } catch {
+      // ignore — notifications are best-effort
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { threeWayMerge } from './three-way-merge.js';
+
+const labels = { current: 'current', base: 'base', incoming: 'yours' };
+
+describe('threeWayMerge', () => {
+  const base = ['# Plan', 'step one', 'step two', 'step three', ''].join('\n');
+
+  it('combines non-overlapping edits from both sides', () => {
+    const current = base.replace('step one', 'step one (done)');
+    const incoming = base.replace('step three', 'step three, then ship');
+    const r = threeWayMerge(base, current, incoming, labels);
+    expect(r.conflicts).toBe(0);
+    expect(r.text).toBe(['# Plan', 'step one (done)', 'step two', 'step three, then ship', ''].join('\n'));
+  });
+
+  it('keeps insertions at the start and end from either side', () => {
+    const current = `intro\n${base}`;
+    const incoming = `${base}outro\n`;
+    const r = threeWayMerge(base, current, incoming, labels);
+    expect(r.conflicts).toBe(0);
+    expect(r.text).toBe(`intro\n${base}outro\n`);
+  });
+
+  it('takes an identical change once and honours deletions', () => {
+    const current = base.replace('step two\n', '');
+    const incoming = base.replace('step two\n', '');
+    expect(threeWayMerge(base, current, incoming, labels)).toEqual({ text: current, conflicts: 0 });
+    const deleted = threeWayMerge(base, base.replace('step one\n', ''), base.replace('step three', 'step 3'), labels);
+    expect(deleted).toEqual({ text: ['# Plan', 'step two', 'step 3', ''].join('\n'), conflicts: 0 });
+  });
+
+  it('marks overlapping edits as a conflict with the base section', () => {
+    const current = base.replace('step two', 'step two (theirs)');
+    const incoming = base.replace('step two', 'step two (mine)');
+    const r = threeWayMerge(base, current, incoming, labels);
+    expect(r.conflicts).toBe(1);
+    expect(r.text).toBe([
+      '# Plan', 'step one',
+      '<<<<<<< current', 'step two (theirs)', '||||||| base', 'step two', '=======', 'step two (mine)', '>>>>>>> yours',
+      'step three', '',
+    ].join('\n'));
+  });
+});
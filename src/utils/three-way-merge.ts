@@ -0,0 +1,108 @@
+/**
+ * Line-based three-way merge (diff3).
+ *
+ * Given the `base` text both writers started from, the `current` text that
+ * won the race and the `incoming` text of the late writer, combine the two
+ * sets of edits. Lines are aligned to the base with a longest-common-
+ * subsequence diff; stretches where both sides still agree with the base are
+ * kept, and each stretch between them is resolved as:
+ *
+ *   only one side changed it   -> take that side
+ *   both made the same change  -> take it once
+ *   both changed it differently -> conflict
+ *
+ * Conflicts are rendered git-style (diff3 flavour, base section included).
+ */
+
+export interface MergeLabels {
+  current: string;
+  base: string;
+  incoming: string;
+}
+
+export interface MergeResult {
+  /** Merged text; contains conflict markers when `conflicts > 0`. */
+  text: string;
+  conflicts: number;
+}
+
+/**
+ * For each line of `a`, the index of the line of `b` it is matched to by a
+ * longest common subsequence, or -1.
+ */
+function lcsMatches(a: string[], b: string[]): number[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  const match = new Array<number>(n).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      match[i++] = j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return match;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function threeWayMerge(base: string, current: string, incoming: string, labels: MergeLabels): MergeResult {
+  const o = base.split('\n');
+  const a = current.split('\n');
+  const b = incoming.split('\n');
+  const toA = lcsMatches(o, a);
+  const toB = lcsMatches(o, b);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let ai = 0;
+  let bi = 0;
+  while (i < o.length || ai < a.length || bi < b.length) {
+    if (i < o.length && toA[i] === ai && toB[i] === bi) {
+      // Stable line: unchanged on both sides.
+      out.push(o[i]);
+      i++; ai++; bi++;
+      continue;
+    }
+    // Unstable chunk up to the next base line both sides still have.
+    let j = i;
+    while (j < o.length && (toA[j] === -1 || toB[j] === -1)) j++;
+    const aEnd = j < o.length ? toA[j] : a.length;
+    const bEnd = j < o.length ? toB[j] : b.length;
+    const oChunk = o.slice(i, j);
+    const aChunk = a.slice(ai, aEnd);
+    const bChunk = b.slice(bi, bEnd);
+
+    if (sameLines(aChunk, oChunk)) out.push(...bChunk);
+    else if (sameLines(bChunk, oChunk) || sameLines(aChunk, bChunk)) out.push(...aChunk);
+    else {
+      conflicts++;
+      out.push(
+        `<<<<<<< ${labels.current}`, ...aChunk,
+        `||||||| ${labels.base}`, ...oChunk,
+        '=======', ...bChunk,
+        `>>>>>>> ${labels.incoming}`,
+      );
+    }
+    i = j;
+    ai = aEnd;
+    bi = bEnd;
+  }
+  return { text: out.join('\n'), conflicts };
+}
@@ -133,20 +133,177 @@ function getAutoFeedbackDb(): import('better-sqlite3').Database | null {
   }
 }
 
+// ─── Automatic affective-memory capture ────────────────────────────────────
+//
+// Every wrapped tool call queues one agent_feedback row; the queue is written
+// in a single transaction once FEEDBACK_BATCH_MAX rows are pending or after
+// FEEDBACK_FLUSH_MS, and on flushToolTracking(). Switches (env):
+//   DOKORO_AUTO_FEEDBACK=false                 disable capture entirely
+//   DOKORO_AUTO_FEEDBACK_SKIP_READONLY=true    skip READ_ONLY_TOOLS below
+//   DOKORO_AUTO_FEEDBACK_EXCLUDE=a,b,dokoro_*  skip extra tools (`*` wildcard)
+// A call that returns is a success however long it took (latency_ms records
+// that); 'timeout' is only for calls that fail by timing out.
+
+type AutoOutcome = 'success' | 'failure' | 'timeout';
+
+interface PendingFeedback {
+  toolName: string;
+  outcome: AutoOutcome;
+  latencyMs: number;
+  errorMessage: string | null;
+  /** agent_id / session_id passed in the tool's own arguments, if any. */
+  agentId: string | null;
+  sessionId: string | null;
+  /** Call time in SQLite datetime('now') format, so batching doesn't shift timestamps. */
+  recordedAt: string;
+}
+
+const FEEDBACK_FLUSH_MS = 1000;
+const FEEDBACK_BATCH_MAX = 50;
+// Same liveness window as presence-tools / file-claim-tools.
+const PRESENCE_TTL_SECONDS = 900;
+
+/** Pure reads on the core surface — high-volume and rarely informative for routing. */
+const READ_ONLY_TOOLS = new Set([
+  'dokoro_workspace_status',
+  'dokoro_session_recall',
+  'dokoro_get_current_focus',
+  'dokoro_question_list',
+  'dokoro_question_check',
+  'dokoro_list_assets',
+  'dokoro_plan_status',
+  'dokoro_plan_list',
+  'dokoro_entity_graph',
+  'dokoro_entity_resolve',
+  'dokoro_entity_analyze',
+  'dokoro_ontology_get',
+  'dokoro_feedback_query',
+  'dokoro_feedback_route',
+  'dokoro_shared_note_read',
+  'dokoro_block_read',
+  'dokoro_block_list',
+  'dokoro_block_history',
+  'dokoro_handoff_inbox',
+  'dokoro_handoff_thread',
+  'dokoro_presence_list',
+  'dokoro_claim_list',
+  'dokoro_claim_audit',
+  'dokoro_context_last',
+  'dokoro_context_search',
+  'search_universal',
+  'search_status',
+]);
+
+let pendingFeedback: PendingFeedback[] = [];
+let feedbackTimer: NodeJS.Timeout | null = null;
+let exitHookInstalled = false;
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/** True when auto-feedback should record this tool (env switches re-read per call). */
+export function shouldAutoRecord(toolName: string): boolean {
+  if (process.env.DOKORO_AUTO_FEEDBACK === 'false') return false;
+  if (process.env.DOKORO_AUTO_FEEDBACK_SKIP_READONLY === 'true' && READ_ONLY_TOOLS.has(toolName)) return false;
+  const exclude = (process.env.DOKORO_AUTO_FEEDBACK_EXCLUDE ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return !exclude.some((p) => globToRegExp(p).test(toolName));
+}
+
+function isTimeoutError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  return err.name === 'TimeoutError' || err.name === 'AbortError' || /timed? ?out/i.test(err.message);
+}
+
+/** First text block of an `{ isError: true }` result, truncated for storage. */
+function resultErrorMessage(result: unknown): string | null {
+  const content = (result as { content?: Array<{ type?: string; text?: string }> } | null | undefined)?.content;
+  const text = content?.find((c) => c?.type === 'text')?.text;
+  return text ? text.slice(0, 500) : null;
+}
+
+function argString(args: unknown, key: string): string | null {
+  const v = (args as Record<string, unknown> | null | undefined)?.[key];
+  return typeof v === 'string' && v.length > 0 ? v : null;
+}
+
+function tableExists(db: import('better-sqlite3').Database, name: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM sqlite_master WHERE type='table' AND name=?`).get(name);
+}
+
 /**
- * Record a tool outcome into agent_feedback.
- * Failures are swallowed silently — this must never impact the tool's own error propagation.
+ * Queue a tool outcome for agent_feedback. Never throws — auto-feedback must
+ * never impact the tool's own result or error propagation.
  */
-function recordAutoFeedback(toolName: string, outcome: 'success' | 'failure', latencyMs: number): void {
-  if (process.env.DOKORO_AUTO_FEEDBACK === 'false') return;
+function recordAutoFeedback(entry: Omit<PendingFeedback, 'recordedAt'>): void {
+  if (!shouldAutoRecord(entry.toolName)) return;
+  if (!exitHookInstalled) {
+    // better-sqlite3 is synchronous, so the final batch can still land in 'exit'.
+    process.once('exit', flushAutoFeedback);
+    exitHookInstalled = true;
+  }
+  pendingFeedback.push({
+    ...entry,
+    recordedAt: new Date().toISOString().slice(0, 19).replace('T', ' '),
+  });
+  if (pendingFeedback.length >= FEEDBACK_BATCH_MAX) {
+    flushAutoFeedback();
+  } else if (!feedbackTimer) {
+    feedbackTimer = setTimeout(flushAutoFeedback, FEEDBACK_FLUSH_MS);
+    feedbackTimer.unref?.();
+  }
+}
+
+/**
+ * Write all queued feedback rows in ONE transaction. Agent identity resolves as
+ * tool args -> DOKORO_AGENT_ID -> the single live agent in agent_presence ->
+ * 'unknown'; session_id as tool args -> that agent's presence session. A
+ * session_id is only stored when it exists in `sessions` (FK-safe). Failures
+ * drop the batch silently.
+ */
+export function flushAutoFeedback(): void {
+  if (feedbackTimer) {
+    clearTimeout(feedbackTimer);
+    feedbackTimer = null;
+  }
+  if (pendingFeedback.length === 0) return;
+  const batch = pendingFeedback;
+  pendingFeedback = [];
   try {
     const db = getAutoFeedbackDb();
     if (!db) return;
-    const agentId = process.env.DOKORO_AGENT_ID ?? 'unknown';
-    db.prepare(`
-      INSERT INTO agent_feedback (agent_id, tool_name, outcome, latency_ms, recorded_at)
-      VALUES (?, ?, ?, ?, datetime('now'))
-    `).run(agentId, toolName, outcome, latencyMs);
+
+    const presence = new Map<string, string | null>();
+    let soleLiveAgent: string | null = null;
+    if (tableExists(db, 'agent_presence')) {
+      const live = db.prepare(`
+        SELECT agent_id, session_id FROM agent_presence
+        WHERE CAST(strftime('%s','now') AS INTEGER) - last_heartbeat <= ?
+      `).all(PRESENCE_TTL_SECONDS) as Array<{ agent_id: string; session_id: string | null }>;
+      for (const row of live) presence.set(row.agent_id, row.session_id);
+      if (live.length === 1) soleLiveAgent = live[0].agent_id;
+    }
+    const sessionExists = tableExists(db, 'sessions')
+      ? db.prepare('SELECT 1 FROM sessions WHERE id = ?')
+      : null;
+
+    const insert = db.prepare(`
+      INSERT INTO agent_feedback (agent_id, tool_name, outcome, latency_ms, error_message, session_id, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    db.transaction((rows: PendingFeedback[]) => {
+      for (const e of rows) {
+        // || not ??: an empty DOKORO_AGENT_ID= (as in .env.example) means unset.
+        const agentId = e.agentId || process.env.DOKORO_AGENT_ID || soleLiveAgent || 'unknown';
+        const candidate = e.sessionId ?? presence.get(agentId) ?? null;
+        const sessionId = candidate && sessionExists?.get(candidate) ? candidate : null;
+        insert.run(agentId, e.toolName, e.outcome, e.latencyMs, e.errorMessage, sessionId, e.recordedAt);
+      }
+    })(batch);
   } catch {
     // Silently ignore — auto-feedback must never break tool execution
   }
@@ -161,16 +318,30 @@ export function withToolTracking<T extends (...args: unknown[]) => Promise<unkno
     // Track tool usage
     await trackToolUsage(toolName, args[0] as {taskId?: string} | undefined);
 
+    const agentId = argString(args[0], 'agent_id');
+    const sessionId = argString(args[0], 'session_id');
     const t0 = Date.now();
     try {
       const result = await handler(...args);
+      const latencyMs = Date.now() - t0;
       // MCP handlers commonly report errors as a return value `{ isError: true, ... }`
       // rather than throwing. Treat those as failures so they don't pollute routing.
       const isError = (result as { isError?: unknown } | null | undefined)?.isError === true;
-      recordAutoFeedback(toolName, isError ? 'failure' : 'success', Date.now() - t0);
+      const outcome: AutoOutcome = isError ? 'failure' : 'success';
+      recordAutoFeedback({
+        toolName, outcome, latencyMs, agentId, sessionId,
+        errorMessage: isError ? resultErrorMessage(result) : null,
+      });
       return result;
     } catch (err) {
-      recordAutoFeedback(toolName, 'failure', Date.now() - t0);
+      recordAutoFeedback({
+        toolName,
+        outcome: isTimeoutError(err) ? 'timeout' : 'failure',
+        latencyMs: Date.now() - t0,
+        agentId,
+        sessionId,
+        errorMessage: (err instanceof Error ? err.message : String(err)).slice(0, 500),
+      });
       throw err; // re-throw — must not swallow handler errors
     }
   }) as T;
@@ -178,6 +349,7 @@ export function withToolTracking<T extends (...args: unknown[]) => Promise<unkno
 
 // Force flush any pending updates
 export async function flushToolTracking(): Promise<void> {
+  flushAutoFeedback();
   if (updateTimer) {
     clearTimeout(updateTimer);
     updateTimer = null;